@@ -1,19 +1,23 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { ChevronRight } from "lucide-react";
+import { ChevronRight, GitCompare, Columns2, Rows2 } from "lucide-react";
 import { useDiagramContext, useThemeContext } from "@/contexts";
 import { HistoryPanel, HistoryPanelRef } from "@/components/HistoryPanel";
 import { ZoomControls, HotkeyModal, AppLayout } from "@/components/layout";
-import { DiagramRenderer, PanZoomContainer, DiagramTitle, MermaidEditor, MermaidEditorHandle, DrawingCanvas } from "@/components/diagram";
+import { LibraryTransferModal, LibraryTransferMode, OpenApiImportModal, PdfExportModal, AboutModal } from "@/components/common";
+import { DiagramRenderer, PanZoomContainer, DiagramTitle, MermaidEditor, MermaidEditorHandle, DrawingCanvas, RevisionPicker, RevisionPreviewBanner, MermaidDiffEditor, DiffToolbar, DiffSource, DiffView } from "@/components/diagram";
 import { useLocalStorageBoolean, useLocalStorageNumber } from "@/hooks/useLocalStorage";
 import { useKeyboardShortcuts, usePreventBrowserZoom, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
 import { useWindowActive } from "@/hooks/useWindowActive";
 import { usePanZoom } from "@/hooks/usePanZoom";
 import { useAnalytics } from "@/hooks/useAnalytics";
 import { useFeatureFlag } from "@/hooks/useQueryParam";
-import { useExportDiagram } from "@/hooks";
-import { api, isElectron } from "@/lib/electron";
+import { useExportDiagram, DiagramRevision } from "@/hooks";
+import { api, isElectron, MenuEvent } from "@/lib/electron";
+import { diffFlowcharts } from "@/lib/diagramDiff";
 
+const NEW_DIAGRAM_TEMPLATE = `graph TD
+    A[Start] --> B[End]`;
 
 export function App() {
   // Get state from contexts
@@ -21,22 +25,33 @@ export function App() {
   const { isDarkMode, toggleTheme } = useThemeContext();
   const { trackThemeChanged, trackPanelToggled } = useAnalytics();
   const isPenToolEnabled = useFeatureFlag('xMarker'); // Pen tool enabled with ?xMarker=1
-  const { copyImageToClipboard } = useExportDiagram({ isDarkMode });
+  const { copyImageToClipboard, exportAsPng, exportAsSvg } = useExportDiagram({ isDarkMode });
   const isWindowActive = useWindowActive();
 
   // LocalStorage-backed state for UI preferences
   const [isEditCollapsed, setIsEditCollapsed] = useLocalStorageBoolean("mindpilot-mcp-edit-collapsed", true);
   const [editPanelSize, setEditPanelSize] = useLocalStorageNumber("mindpilot-mcp-edit-panel-size", 30);
 
+  const [isDiffSideBySide, setIsDiffSideBySide] = useLocalStorageBoolean("mindpilot-mcp-diff-side-by-side", false);
+
   const [isHistoryCollapsed, setIsHistoryCollapsed] = useLocalStorageBoolean("mindpilot-mcp-history-collapsed", false);
   const [historyPanelSize, setHistoryPanelSize] = useLocalStorageNumber("mindpilot-mcp-history-panel-size", 20);
   const [showHotkeyModal, setShowHotkeyModal] = useState(false);
+  const [libraryTransferMode, setLibraryTransferMode] = useState<LibraryTransferMode | null>(null);
+  const [showOpenApiImport, setShowOpenApiImport] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [showAbout, setShowAbout] = useState(false);
   const [isEditorFocused, setIsEditorFocused] = useState(false);
   const [isRenaming, setIsRenaming] = useState(false);
   const [orderedDiagramIds, setOrderedDiagramIds] = useState<string[]>([]);
   const [isDrawingMode, setIsDrawingMode] = useState(false);
   const [hasDrawing, setHasDrawing] = useState(false);
   const [clearDrawingTrigger, setClearDrawingTrigger] = useState(0);
+  const [revisionPreview, setRevisionPreview] = useState<{ revision: DiagramRevision; index: number; currentDiagram: string } | null>(null);
+  const [isDiffMode, setIsDiffMode] = useState(false);
+  const [diffBase, setDiffBase] = useState<DiffSource | null>(null);
+  const [diffCompare, setDiffCompare] = useState<DiffSource | null>(null);
+  const [diffView, setDiffView] = useState<DiffView>('after');
   const previewRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const editPanelRef = useRef<any>(null);
@@ -54,6 +69,7 @@ export function App() {
     hasManuallyZoomed,
     handleZoomIn,
     handleZoomOut,
+    handleZoomReset,
     handleFitToScreen,
     handleMouseDown,
     handleMouseMove,
@@ -97,6 +113,7 @@ export function App() {
       }
 
       saveDiagramTimeoutRef.current = setTimeout(async () => {
+        saveDiagramTimeoutRef.current = null;
         try {
           setStatus('Saving...');
           await api.updateDiagram(currentDiagramId, { diagram: newDiagram });
@@ -112,6 +129,82 @@ export function App() {
     }
   }, [setDiagram, currentDiagramId, setStatus]);
 
+  // Show an earlier revision without saving it
+  const handlePreviewRevision = useCallback((revision: DiagramRevision, index: number) => {
+    if (saveDiagramTimeoutRef.current) {
+      clearTimeout(saveDiagramTimeoutRef.current);
+      saveDiagramTimeoutRef.current = null;
+    }
+    setRevisionPreview(prev => ({
+      revision,
+      index,
+      // Keep the version that was showing before the first preview
+      currentDiagram: prev ? prev.currentDiagram : diagram,
+    }));
+    setDiagram(revision.diagram);
+    setStatus(`Previewing revision ${index + 1}`);
+  }, [diagram, setDiagram, setStatus]);
+
+  const handleCancelRevisionPreview = useCallback(() => {
+    if (!revisionPreview) return;
+    setDiagram(revisionPreview.currentDiagram);
+    setRevisionPreview(null);
+    setStatus('Ready');
+  }, [revisionPreview, setDiagram, setStatus]);
+
+  // Restoring saves the revision's source as a new revision
+  const handleRestoreRevision = useCallback(async () => {
+    if (!revisionPreview || !currentDiagramId) return;
+    try {
+      setStatus('Saving...');
+      await api.updateDiagram(currentDiagramId, { diagram: revisionPreview.revision.diagram });
+      setRevisionPreview(null);
+      setStatus(`Restored revision ${revisionPreview.index + 1}`);
+      setHistoryRefreshTrigger(prev => prev + 1);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      setStatus('Restore failed');
+    }
+  }, [revisionPreview, currentDiagramId, setStatus]);
+
+  // Leave preview mode when another diagram is selected
+  useEffect(() => {
+    setRevisionPreview(null);
+  }, [currentDiagramId]);
+
+  const handleToggleDiffMode = useCallback(() => {
+    if (!isDiffMode && revisionPreview) {
+      setDiagram(revisionPreview.currentDiagram);
+      setRevisionPreview(null);
+    }
+    setIsDiffMode(!isDiffMode);
+    setDiffBase(null);
+    setDiffCompare(null);
+  }, [isDiffMode, revisionPreview, setDiagram]);
+
+  // Pick default diff sides again for a newly selected diagram
+  useEffect(() => {
+    setDiffBase(null);
+    setDiffCompare(null);
+  }, [currentDiagramId]);
+
+  const diagramDiff = useMemo(() => {
+    if (!isDiffMode || !diffBase || !diffCompare) return null;
+    return diffFlowcharts(diffBase.diagram, diffCompare.diagram);
+  }, [isDiffMode, diffBase, diffCompare]);
+
+  // "After" marks what the compare side added, "before" what it removed
+  const diffHighlights = useMemo(() => {
+    if (!diagramDiff) return undefined;
+    return diffView === 'after'
+      ? { added: diagramDiff.added, relabelled: diagramDiff.relabelled }
+      : { removed: diagramDiff.removed, relabelled: diagramDiff.relabelled };
+  }, [diagramDiff, diffView]);
+
+  const diffRenderSource = isDiffMode
+    ? (diffView === 'after' ? diffCompare : diffBase)?.diagram
+    : undefined;
+
   // Parse URL to get initial diagram ID
   const getInitialDiagramId = () => {
     const pathMatch = window.location.pathname.match(/^\/artifacts\/([a-zA-Z0-9-]+)$/);
@@ -166,6 +259,7 @@ export function App() {
       setDiagram(data.diagram);
       setTitle(data.title);
       setCurrentDiagramId(data.id);
+      setRevisionPreview(null);
       setStatus('Received from AI');
       // Refresh history panel to show the new diagram
       setHistoryRefreshTrigger(prev => prev + 1);
@@ -177,6 +271,39 @@ export function App() {
     };
   }, [setDiagram, setTitle, setCurrentDiagramId, setStatus, setHistoryRefreshTrigger]);
 
+  // Listen for diagrams changed by other windows, the MCP server or by hand.
+  // The handler lives in a ref so the subscription (an SSE stream in the
+  // browser) is not reopened on every edit.
+  const handleHistoryChangeRef = useRef<(event: { type: string; id: string }) => void>();
+  handleHistoryChangeRef.current = async (event) => {
+    setHistoryRefreshTrigger(prev => prev + 1);
+
+    // Reload the open diagram unless it has local changes still to save
+    if (
+      event.type !== 'updated' ||
+      event.id !== currentDiagramId ||
+      saveDiagramTimeoutRef.current ||
+      revisionPreview
+    ) {
+      return;
+    }
+    try {
+      const entry = await api.getDiagram(event.id);
+      if (entry && entry.diagram !== diagram) {
+        setDiagram(entry.diagram);
+        setTitle(entry.title);
+        setStatus('Updated elsewhere');
+      }
+    } catch (error) {
+      console.error('Failed to reload changed diagram:', error);
+    }
+  };
+
+  useEffect(() => {
+    return api.onHistoryChanged((event) => handleHistoryChangeRef.current?.(event));
+  }, []);
+
+
   // Listen for window focus events to refresh history (Electron mode)
   useEffect(() => {
     console.log('[App] Setting up window focus listener');
@@ -272,6 +399,57 @@ export function App() {
     }
   }, [diagram]);
 
+  // Create a starter diagram in the current collection and open it in the editor
+  const handleNewDiagram = useCallback(async () => {
+    try {
+      const entry = await api.saveDiagram(NEW_DIAGRAM_TEMPLATE, 'Untitled Diagram', collection);
+      setRevisionPreview(null);
+      setHistoryRefreshTrigger(prev => prev + 1);
+      handleSelectDiagram(entry.id);
+      editPanelRef.current?.expand();
+    } catch (error) {
+      console.error('Failed to create diagram:', error);
+      setStatus('Failed to create diagram');
+    }
+  }, [collection, handleSelectDiagram, setStatus]);
+
+  // Native menu items (Electron mode). The handlers live in a ref so the
+  // listeners are registered once rather than on every render.
+  const menuHandlersRef = useRef<Record<MenuEvent, () => void>>();
+  menuHandlersRef.current = {
+    'menu:newDiagram': () => handleNewDiagram(),
+    'menu:exportSVG': () => diagram && exportAsSvg(diagram, title || 'diagram'),
+    'menu:exportPNG': () => diagram && exportAsPng(diagram, title || 'diagram'),
+    'menu:exportPDF': () => diagram && setShowPdfExport(true),
+    'menu:exportLibrary': () => setLibraryTransferMode('export'),
+    'menu:importLibrary': () => setLibraryTransferMode('import'),
+    'menu:importOpenAPI': () => setShowOpenApiImport(true),
+    'menu:toggleSidebar': () => {
+      if (isHistoryCollapsed) {
+        historyPanelRef.current?.expand();
+      } else {
+        historyPanelRef.current?.collapse();
+      }
+    },
+    'menu:toggleTheme': () => {
+      toggleTheme();
+      trackThemeChanged({ theme: isDarkMode ? 'light' : 'dark' });
+    },
+    'menu:zoomIn': () => handleZoomIn(),
+    'menu:zoomOut': () => handleZoomOut(),
+    'menu:zoomReset': () => handleZoomReset(),
+    'menu:about': () => setShowAbout(true),
+  };
+
+  useEffect(() => {
+    const events = Object.keys(menuHandlersRef.current ?? {}) as MenuEvent[];
+    const unsubscribes = events.map(event =>
+      api.onMenuEvent(event, () => menuHandlersRef.current?.[event]())
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, []);
+
   // Keyboard shortcuts - only active when window is focused
   const shortcuts = useMemo<KeyboardShortcut[]>(() => {
     const baseShortcuts: KeyboardShortcut[] = [
@@ -514,6 +692,8 @@ export function App() {
           <DiagramRenderer
             ref={previewRef}
             onFitToScreen={handleDiagramFitToScreen}
+            source={diffRenderSource}
+            highlights={diffHighlights}
           />
           {isPenToolEnabled && (
             <DrawingCanvas
@@ -525,6 +705,31 @@ export function App() {
             />
           )}
         </PanZoomContainer>
+
+      {isDiffMode && (
+        <DiffToolbar
+          currentDiagramId={currentDiagramId}
+          isDarkMode={isDarkMode}
+          base={diffBase}
+          compare={diffCompare}
+          onBaseChange={setDiffBase}
+          onCompareChange={setDiffCompare}
+          view={diffView}
+          onViewChange={setDiffView}
+          diff={diagramDiff}
+          onClose={handleToggleDiffMode}
+        />
+      )}
+
+      {revisionPreview && (
+        <RevisionPreviewBanner
+          revision={revisionPreview.revision}
+          index={revisionPreview.index}
+          isDarkMode={isDarkMode}
+          onRestore={handleRestoreRevision}
+          onCancel={handleCancelRevisionPreview}
+        />
+      )}
     </div>
   );
 
@@ -545,17 +750,59 @@ export function App() {
       </div>
       {/* Header */}
       <div className={`relative px-4 py-6 border-b flex items-center justify-center font-medium ${isDarkMode ? 'bg-neutral-800 border-neutral-700 text-neutral-100' : 'bg-neutral-50 border-neutral-200 text-neutral-800'}`}>
-        Edit Source
+        <div className="absolute left-4 flex items-center gap-1">
+          {!isDiffMode && (
+            <RevisionPicker
+              diagramId={currentDiagramId}
+              isDarkMode={isDarkMode}
+              previewIndex={revisionPreview?.index ?? null}
+              onPreview={handlePreviewRevision}
+            />
+          )}
+          {(currentDiagramId || isDiffMode) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleToggleDiffMode}
+              className={`h-8 w-8 ${isDiffMode ? 'bg-orange-100 dark:bg-orange-500/20 text-orange-600 dark:text-orange-400' : ''}`}
+              title={isDiffMode ? "Close diff" : "Compare versions"}
+            >
+              <GitCompare className="h-4 w-4" />
+            </Button>
+          )}
+          {isDiffMode && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsDiffSideBySide(!isDiffSideBySide)}
+              className="h-8 w-8"
+              title={isDiffSideBySide ? "Inline diff" : "Side-by-side diff"}
+            >
+              {isDiffSideBySide ? <Rows2 className="h-4 w-4" /> : <Columns2 className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+        {isDiffMode ? 'Compare Source' : 'Edit Source'}
       </div>
 
       <div className={`flex-1 p-4 ${isDarkMode ? "bg-neutral-800" : "bg-neutral-50"}`}>
-        <MermaidEditor
-          ref={editorRef}
-          value={diagram}
-          onChange={handleDiagramChange}
-          isDarkMode={isDarkMode}
-          onFocusChange={setIsEditorFocused}
-        />
+        {isDiffMode ? (
+          <MermaidDiffEditor
+            original={diffBase?.diagram ?? ''}
+            modified={diffCompare?.diagram ?? ''}
+            isDarkMode={isDarkMode}
+            sideBySide={isDiffSideBySide}
+          />
+        ) : (
+          <MermaidEditor
+            ref={editorRef}
+            value={diagram}
+            onChange={handleDiagramChange}
+            isDarkMode={isDarkMode}
+            onFocusChange={setIsEditorFocused}
+            readOnly={revisionPreview !== null}
+          />
+        )}
       </div>
       <div className={`p-2 text-xs border-t flex justify-end ${isDarkMode ? "text-neutral-400 border-neutral-700" : "text-muted-foreground border-neutral-300"}`}>
         <span>{status}</span>
@@ -572,6 +819,42 @@ export function App() {
         isDarkMode={isDarkMode}
         showPenTool={isPenToolEnabled}
       />
+
+      {/* Library Import/Export Modal */}
+      <LibraryTransferModal
+        mode={libraryTransferMode}
+        onClose={() => setLibraryTransferMode(null)}
+        onImported={() => setHistoryRefreshTrigger(prev => prev + 1)}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* OpenAPI Import Modal */}
+      <OpenApiImportModal
+        isOpen={showOpenApiImport}
+        onClose={() => setShowOpenApiImport(false)}
+        collection={collection}
+        onImported={(firstId) => {
+          setHistoryRefreshTrigger(prev => prev + 1);
+          handleSelectDiagram(firstId);
+        }}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* PDF Export Modal */}
+      <PdfExportModal
+        isOpen={showPdfExport}
+        onClose={() => setShowPdfExport(false)}
+        diagram={diagram}
+        title={title}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* About Modal */}
+      <AboutModal
+        isOpen={showAbout}
+        onClose={() => setShowAbout(false)}
+        isDarkMode={isDarkMode}
+      />
     </>
   );
 
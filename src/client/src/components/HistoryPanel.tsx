@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { SearchBar, DiagramList } from './history';
-import { ModeSelector, CloudModeModal } from '@/components/common';
-import { useDiagramHistory, useExportDiagram, useAnalytics, useLocalStorage, useLocalStorageBoolean } from '@/hooks';
+import { FolderPlus } from 'lucide-react';
+import { ModeSelector, TeamModeModal, CollectionModal, DeleteCollectionModal } from '@/components/common';
+import { useDiagramHistory, useCollections, useExportDiagram, useAnalytics, useLocalStorageBoolean } from '@/hooks';
 import { APP_VERSION } from '@/constants/app';
+import { api, CollectionInfo, CollectionUpdate, SyncStatus } from '@/lib/electron';
 
 export interface HistoryPanelProps {
   onSelectDiagram: (diagramId: string) => void;
@@ -35,30 +37,49 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
   const [organizeByDate, setOrganizeByDate] = useLocalStorageBoolean('mindpilot-mcp-organize-by-date', true);
   const [searchQuery, setSearchQuery] = useState('');
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
-  const [currentMode, setCurrentMode] = useLocalStorage<'local' | 'cloud'>('mindpilot-mcp-mode', 'local');
-  const [showCloudModal, setShowCloudModal] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [showTeamModal, setShowTeamModal] = useState(false);
   const [shouldScrollToSelected, setShouldScrollToSelected] = useState(false);
+  // The collection being edited, or 'new' while creating one
+  const [editingCollection, setEditingCollection] = useState<CollectionInfo | 'new' | null>(null);
+  const [deletingCollection, setDeletingCollection] = useState<CollectionInfo | null>(null);
   const hasHandledInitialLoad = useRef(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  const {
+    collections,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    reorderCollections,
+    refetchCollections,
+  } = useCollections(refreshTrigger);
+
   // Use the history hook
   const {
+    history,
     totalDiagrams,
+    searchSnippets,
     loading,
     expandedCollections,
     groupedHistory,
+    collectionOrder,
     formatDate,
     toggleCollection,
     getNthDiagramInExpandedGroups,
     deleteDiagram,
     renameDiagram,
+    moveDiagram,
+    moveFolder,
+    refetchHistory,
   } = useDiagramHistory({ 
     searchQuery, 
     organizeByDate, 
     currentDiagramId,
     currentDiagramTitle,
     onCurrentDiagramTitleChange,
-    refreshTrigger
+    refreshTrigger,
+    collections
   });
 
   // Use the export hook
@@ -127,12 +148,73 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
     }
   }, [refreshTrigger, currentDiagramId, loading]);
 
-  const handleModeChange = (mode: 'local' | 'cloud') => {
+  // Team Mode is on whenever a sync server is configured
+  useEffect(() => {
+    api.getSyncStatus()
+      .then(setSyncStatus)
+      .catch((error: unknown) => console.error('Failed to fetch sync status:', error));
+  }, []);
+
+  // Collections that only exist through their diagrams may not be listed yet
+  const findCollection = (name: string): CollectionInfo =>
+    collections.find(collection => collection.name === name) ??
+    { name, description: null, color: null, sortOrder: null, diagramCount: 0 };
+
+  const handleSaveCollection = async ({ name, ...details }: Required<CollectionUpdate>) => {
+    if (editingCollection === 'new') {
+      await createCollection(name, details);
+      return;
+    }
+    if (!editingCollection) return;
+
+    await updateCollection(editingCollection.name, { name, ...details });
+    if (name !== editingCollection.name) {
+      await refetchHistory();
+      // Keep the renamed collection open if it was
+      if (expandedCollections.has(editingCollection.name) && !expandedCollections.has(name)) {
+        toggleCollection(name);
+      }
+    }
+  };
+
+  const handleDeleteCollection = async (moveTo: string | null) => {
+    if (!deletingCollection) return;
+    await deleteCollection(deletingCollection.name, moveTo);
+    await refetchHistory();
+  };
+
+  // Swapping with a neighbour saves the order of every collection up to
+  // the lower of the two; the rest keep ordering by recent edits
+  const handleMoveCollection = (name: string, offset: -1 | 1) => {
+    const names = [...collectionOrder];
+    const from = names.indexOf(name);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= names.length) return;
+
+    [names[from], names[to]] = [names[to], names[from]];
+    reorderCollections(names.slice(0, Math.max(from, to) + 1));
+  };
+
+  // Drag-and-drop moves can change which collections have diagrams
+  const handleMoveDiagram = async (id: string, collection: string | null, folder: string | null) => {
+    await moveDiagram(id, collection, folder);
+    refetchCollections();
+  };
+
+  const handleMoveFolder = async (fromCollection: string, folder: string, toCollection: string | null, toParent: string | null) => {
+    await moveFolder(fromCollection, folder, toCollection, toParent);
+    refetchCollections();
+  };
+
+  const handleModeChange = async (mode: 'local' | 'cloud') => {
     if (mode === 'cloud') {
-      setShowCloudModal(true);
-      // Don't actually change the mode to cloud
-    } else {
-      setCurrentMode(mode);
+      setShowTeamModal(true);
+    } else if (syncStatus?.config) {
+      try {
+        setSyncStatus(await api.configureSync(null));
+      } catch (error) {
+        console.error('Failed to turn off Team Mode:', error);
+      }
     }
   };
 
@@ -142,14 +224,25 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
       <div className={`font-medium relative px-4 py-6 border-b ${isDarkMode ? 'bg-neutral-800 border-neutral-700 text-neutral-100' : 'bg-neutral-50 border-neutral-200 text-neutral-800'} flex items-center justify-center`}>
         <ModeSelector 
           isDarkMode={isDarkMode}
-          currentMode={currentMode}
+          currentMode={syncStatus?.config ? 'cloud' : 'local'}
           onModeChange={handleModeChange}
         />
       </div>
 
       {/* Thin Banner with Saved Artifacts and Toggle */}
       <div className={`px-4 py-2 border-b text-xs flex items-center justify-between ${isDarkMode ? 'bg-neutral-700/50 text-neutral-400 border-neutral-700' : 'bg-neutral-200 text-neutral-900 border-neutral-300'}`}>
-        <span>Saved Artifacts</span>
+        <div className="flex items-center gap-1">
+          <span>Saved Artifacts</span>
+          {!organizeByDate && (
+            <button
+              onClick={() => setEditingCollection('new')}
+              title="New collection"
+              className={`p-0.5 rounded transition-colors ${isDarkMode ? 'hover:bg-orange-600/20 hover:text-neutral-200' : 'hover:bg-orange-100'}`}
+            >
+              <FolderPlus className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
         <div className="flex items-center gap-0.5 bg-neutral-300 dark:bg-neutral-600 p-0.5 rounded">
           <button
             onClick={() => setOrganizeByDate(false)}
@@ -188,6 +281,7 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
         value={searchQuery}
         onChange={setSearchQuery}
         isDarkMode={isDarkMode}
+        resultCount={searchQuery.trim() ? history.length : undefined}
       />
 
       {/* History List */}
@@ -198,6 +292,7 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
           isDarkMode={isDarkMode}
           currentDiagramId={currentDiagramId}
           searchQuery={searchQuery}
+          searchSnippets={searchSnippets}
           loading={loading}
           totalDiagrams={totalDiagrams}
           expandedCollections={expandedCollections}
@@ -234,6 +329,13 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
           setOpenDropdownId={setOpenDropdownId}
           onClearSearch={() => setSearchQuery('')}
           onEditingChange={onEditingChange}
+          collections={collections}
+          collectionOrder={collectionOrder}
+          onEditCollection={(name) => setEditingCollection(findCollection(name))}
+          onMoveCollection={handleMoveCollection}
+          onDeleteCollection={(name) => setDeletingCollection(findCollection(name))}
+          onMoveDiagram={handleMoveDiagram}
+          onMoveFolder={handleMoveFolder}
         />
       </div>
 
@@ -260,10 +362,28 @@ export const HistoryPanel = forwardRef<HistoryPanelRef, HistoryPanelProps>(({
         </div>
       </div>
 
-      {/* Cloud Mode Modal */}
-      <CloudModeModal 
-        isOpen={showCloudModal}
-        onClose={() => setShowCloudModal(false)}
+      {/* Collection Modals */}
+      <CollectionModal
+        isOpen={editingCollection !== null}
+        onClose={() => setEditingCollection(null)}
+        collection={editingCollection === 'new' ? null : editingCollection}
+        onSave={handleSaveCollection}
+        isDarkMode={isDarkMode}
+      />
+      <DeleteCollectionModal
+        collection={deletingCollection}
+        collections={collections}
+        onClose={() => setDeletingCollection(null)}
+        onDelete={handleDeleteCollection}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Team Mode Modal */}
+      <TeamModeModal
+        isOpen={showTeamModal}
+        onClose={() => setShowTeamModal(false)}
+        status={syncStatus}
+        onStatusChange={setSyncStatus}
         isDarkMode={isDarkMode}
       />
     </div>
@@ -0,0 +1,58 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Info } from "lucide-react";
+import { APP_DESCRIPTION, APP_NAME, APP_VERSION } from "@/constants/app";
+import { api } from "@/lib/electron";
+
+const REPOSITORY_URL = 'https://github.com/abrinsmead/mindpilot-mcp';
+
+interface AboutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+export function AboutModal({ isOpen, onClose, isDarkMode }: AboutModalProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Info className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              {APP_NAME}
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            Version {APP_VERSION}
+          </DialogDescription>
+        </DialogHeader>
+        <p className={`text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          {APP_DESCRIPTION}
+        </p>
+        <DialogFooter className="flex gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => api.openExternal(REPOSITORY_URL)}
+            className={isDarkMode ? "hover:bg-neutral-700 hover:text-neutral-100" : "hover:bg-neutral-100 hover:text-neutral-900"}
+          >
+            View on GitHub
+          </Button>
+          <Button
+            onClick={onClose}
+            className={isDarkMode ? "bg-orange-600 hover:bg-orange-700 text-white" : "bg-orange-500 hover:bg-orange-600 text-white"}
+          >
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Check, Folder } from "lucide-react";
+import type { CollectionInfo, CollectionUpdate } from "@/lib/electron";
+
+// Fills from the diagram color palette, so collections match the diagrams in them
+const COLLECTION_COLORS = [
+  '#ff6b6b',
+  '#ff922b',
+  '#ffd43b',
+  '#51cf66',
+  '#20c997',
+  '#74c0fc',
+  '#4c6ef5',
+  '#845ef7',
+  '#ff8cc8',
+];
+
+interface CollectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collection: CollectionInfo | null;  // null to create a new collection
+  onSave: (details: Required<CollectionUpdate>) => Promise<void>;
+  isDarkMode: boolean;
+}
+
+export function CollectionModal({ isOpen, onClose, collection, onSave, isDarkMode }: CollectionModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Start from the collection being edited each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(collection?.name ?? '');
+    setDescription(collection?.description ?? '');
+    setColor(collection?.color ?? null);
+    setMessage(null);
+  }, [isOpen, collection]);
+
+  const handleSave = async () => {
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      await onSave({ name: name.trim(), description: description.trim() || null, color });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save collection:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to save collection.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isRename = collection !== null && name.trim() !== collection.name;
+  const inputClass = `w-full px-2 py-1.5 text-sm rounded border focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-neutral-700 text-neutral-100 border-neutral-600'
+      : 'bg-white text-neutral-900 border-neutral-300'
+  }`;
+  const primaryButtonClass = isDarkMode
+    ? "bg-orange-600 hover:bg-orange-700 text-white"
+    : "bg-orange-500 hover:bg-orange-600 text-white";
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+  const swatchRingClass = isDarkMode ? "ring-neutral-100" : "ring-neutral-900";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Folder className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              {collection ? 'Edit Collection' : 'New Collection'}
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            {collection
+              ? 'Renaming a collection moves every diagram in it.'
+              : 'Collections you create stay in the list until you delete them, even while empty.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && name.trim() && !isWorking && handleSave()}
+              placeholder="design-docs"
+              autoFocus
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Color</label>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setColor(null)}
+                title="No color"
+                className={`h-6 w-6 rounded-full border ${isDarkMode ? "border-neutral-500" : "border-neutral-300"} ${
+                  color === null ? `ring-2 ring-offset-1 ${swatchRingClass}` : ''
+                }`}
+              />
+              {COLLECTION_COLORS.map(swatch => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  title={swatch}
+                  style={{ backgroundColor: swatch }}
+                  className={`h-6 w-6 rounded-full flex items-center justify-center ${
+                    color === swatch ? `ring-2 ring-offset-1 ${swatchRingClass}` : ''
+                  }`}
+                >
+                  {color === swatch && <Check className="h-3 w-3 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+          {isRename && collection.diagramCount > 0 && (
+            <p className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+              {collection.diagramCount} {collection.diagramCount === 1 ? 'diagram' : 'diagrams'} will move to "{name.trim()}".
+            </p>
+          )}
+          {message && (
+            <p className={isDarkMode ? "text-red-400" : "text-red-600"}>{message}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isWorking} className={primaryButtonClass}>
+            {collection ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Trash2 } from "lucide-react";
+import type { CollectionInfo } from "@/lib/electron";
+
+// Select value for leaving the diagrams without a collection
+const UNCATEGORIZED = '__uncategorized__';
+
+interface DeleteCollectionModalProps {
+  collection: CollectionInfo | null;  // The collection to delete; closed when null
+  collections: CollectionInfo[];
+  onClose: () => void;
+  onDelete: (moveTo: string | null) => Promise<void>;
+  isDarkMode: boolean;
+}
+
+export function DeleteCollectionModal({ collection, collections, onClose, onDelete, isDarkMode }: DeleteCollectionModalProps) {
+  const [moveTo, setMoveTo] = useState(UNCATEGORIZED);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (!collection) return;
+    setMoveTo(UNCATEGORIZED);
+    setMessage(null);
+  }, [collection]);
+
+  const handleDelete = async () => {
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      await onDelete(moveTo === UNCATEGORIZED ? null : moveTo);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to delete collection.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const count = collection?.diagramCount ?? 0;
+  const targets = collections.filter(candidate => candidate.name !== collection?.name);
+  const selectTriggerClass = isDarkMode
+    ? "bg-neutral-700 border-neutral-600 text-neutral-100"
+    : "bg-white border-neutral-300 text-neutral-900";
+  const selectContentClass = isDarkMode
+    ? "bg-neutral-800 border-neutral-700 text-neutral-100"
+    : "bg-white border-neutral-200 text-neutral-900";
+  const dangerButtonClass = isDarkMode
+    ? "bg-red-600 hover:bg-red-700 text-white"
+    : "bg-red-500 hover:bg-red-600 text-white";
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+
+  return (
+    <Dialog open={collection !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Trash2 className={isDarkMode ? "h-6 w-6 text-red-400" : "h-6 w-6 text-red-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              Delete "{collection?.name}"
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            {count > 0
+              ? `The ${count} ${count === 1 ? 'diagram' : 'diagrams'} in this collection will be kept and moved.`
+              : 'This collection has no diagrams.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          {count > 0 && (
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Move diagrams to</label>
+              <Select value={moveTo} onValueChange={setMoveTo}>
+                <SelectTrigger className={selectTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={selectContentClass}>
+                  <SelectItem value={UNCATEGORIZED}>uncategorized</SelectItem>
+                  {targets.map(target => (
+                    <SelectItem key={target.name} value={target.name}>{target.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {message && (
+            <p className={isDarkMode ? "text-red-400" : "text-red-600"}>{message}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+            Cancel
+          </Button>
+          <Button onClick={handleDelete} disabled={isWorking} className={dangerButtonClass}>
+            Delete Collection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
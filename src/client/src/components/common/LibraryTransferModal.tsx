@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Archive } from "lucide-react";
+import { api } from "@/lib/electron";
+
+export type LibraryTransferMode = 'export' | 'import';
+
+type CollisionPolicy = 'skip' | 'overwrite' | 'duplicate';
+
+// Select values for the export scope that are not collection names
+const ALL_COLLECTIONS = '__all__';
+const UNCATEGORIZED = '__uncategorized__';
+
+const BUNDLE_FILTERS = [{ name: 'Mindpilot Library', extensions: ['jsonl', 'gz'] }];
+
+const COLLISION_OPTIONS: { value: CollisionPolicy; label: string }[] = [
+  { value: 'skip', label: 'Keep existing diagrams' },
+  { value: 'overwrite', label: 'Replace existing diagrams' },
+  { value: 'duplicate', label: 'Keep both' },
+];
+
+interface LibraryTransferModalProps {
+  mode: LibraryTransferMode | null;
+  onClose: () => void;
+  onImported: () => void;
+  isDarkMode: boolean;
+}
+
+export function LibraryTransferModal({ mode, onClose, onImported, isDarkMode }: LibraryTransferModalProps) {
+  const [collections, setCollections] = useState<string[]>([]);
+  const [scope, setScope] = useState(ALL_COLLECTIONS);
+  const [importPath, setImportPath] = useState<string | null>(null);
+  const [onCollision, setOnCollision] = useState<CollisionPolicy>('skip');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (!mode) return;
+    setScope(ALL_COLLECTIONS);
+    setImportPath(null);
+    setOnCollision('skip');
+    setMessage(null);
+    if (mode === 'export') {
+      api.getCollections()
+        .then((data) => setCollections(data.map(collection => collection.name)))
+        .catch((error: unknown) => console.error('Failed to fetch collections:', error));
+    }
+  }, [mode]);
+
+  const handleExport = async () => {
+    const result = await api.showSaveDialog({
+      title: 'Export Library',
+      defaultPath: 'mindpilot-library.jsonl',
+      filters: BUNDLE_FILTERS,
+    });
+    if (result.canceled || !result.filePath) return;
+
+    try {
+      setIsWorking(true);
+      const collection = scope === ALL_COLLECTIONS ? undefined : scope === UNCATEGORIZED ? null : scope;
+      const { count } = await api.exportLibrary(result.filePath, collection);
+      setMessage(`Exported ${count} ${count === 1 ? 'diagram' : 'diagrams'}.`);
+    } catch (error) {
+      console.error('Failed to export library:', error);
+      setMessage('Failed to export library.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    const result = await api.showOpenDialog({
+      title: 'Import Library',
+      filters: BUNDLE_FILTERS,
+      properties: ['openFile'],
+    });
+    if (!result.canceled && result.filePaths.length > 0) {
+      setImportPath(result.filePaths[0]);
+      setMessage(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importPath) return;
+
+    try {
+      setIsWorking(true);
+      const result = await api.importLibrary(importPath, onCollision);
+      const imported = result.created + result.overwritten + result.duplicated;
+      const details = [
+        result.skipped > 0 && `${result.skipped} skipped`,
+        result.failed > 0 && `${result.failed} unreadable`,
+      ].filter(Boolean).join(', ');
+      setMessage(`Imported ${imported} ${imported === 1 ? 'diagram' : 'diagrams'}${details ? ` (${details})` : ''}.`);
+      onImported();
+    } catch (error) {
+      console.error('Failed to import library:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to import library.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selectTriggerClass = isDarkMode
+    ? "bg-neutral-700 border-neutral-600 text-neutral-100"
+    : "bg-white border-neutral-300 text-neutral-900";
+  const selectContentClass = isDarkMode
+    ? "bg-neutral-800 border-neutral-700 text-neutral-100"
+    : "bg-white border-neutral-200 text-neutral-900";
+  const primaryButtonClass = isDarkMode
+    ? "bg-orange-600 hover:bg-orange-700 text-white"
+    : "bg-orange-500 hover:bg-orange-600 text-white";
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Archive className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              {mode === 'import' ? 'Import Library' : 'Export Library'}
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            {mode === 'import'
+              ? 'Add diagrams from a Mindpilot library bundle.'
+              : 'Save diagrams and their revision history to a bundle you can import on another machine.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          {mode === 'export' ? (
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Diagrams</label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className={selectTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={selectContentClass}>
+                  <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+                  <SelectItem value={UNCATEGORIZED}>uncategorized</SelectItem>
+                  {collections.map(collection => (
+                    <SelectItem key={collection} value={collection}>{collection}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" onClick={handleChooseFile} className={secondaryButtonClass}>
+                  Choose File...
+                </Button>
+                <span className={`truncate text-xs ${isDarkMode ? "text-neutral-400" : "text-neutral-500"}`}>
+                  {importPath ?? 'No file selected'}
+                </span>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-medium">When a diagram already exists</label>
+                <Select value={onCollision} onValueChange={(value) => setOnCollision(value as CollisionPolicy)}>
+                  <SelectTrigger className={selectTriggerClass}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={selectContentClass}>
+                    {COLLISION_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          {message && (
+            <p className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>{message}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+            Close
+          </Button>
+          {mode === 'import' ? (
+            <Button onClick={handleImport} disabled={!importPath || isWorking} className={primaryButtonClass}>
+              Import
+            </Button>
+          ) : (
+            <Button onClick={handleExport} disabled={isWorking} className={primaryButtonClass}>
+              Export...
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
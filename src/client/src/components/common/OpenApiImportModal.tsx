@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Network } from "lucide-react";
+import { api } from "@/lib/electron";
+import type { OpenApiSpecSummary } from "@/lib/electron";
+
+const SPEC_FILTERS = [{ name: 'OpenAPI Spec', extensions: ['yaml', 'yml', 'json'] }];
+
+interface OpenApiImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collection: string | null;
+  onImported: (firstId: string) => void;
+  isDarkMode: boolean;
+}
+
+export function OpenApiImportModal({ isOpen, onClose, collection, onImported, isDarkMode }: OpenApiImportModalProps) {
+  const [specPath, setSpecPath] = useState<string | null>(null);
+  const [spec, setSpec] = useState<OpenApiSpecSummary | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [overview, setOverview] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSpecPath(null);
+    setSpec(null);
+    setSelected(new Set());
+    setOverview(true);
+    setMessage(null);
+  }, [isOpen]);
+
+  const handleChooseFile = async () => {
+    const result = await api.showOpenDialog({
+      title: 'Import OpenAPI',
+      filters: SPEC_FILTERS,
+      properties: ['openFile'],
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+
+    const filePath = result.filePaths[0];
+    try {
+      setIsWorking(true);
+      const summary = await api.inspectOpenApi(filePath);
+      setSpecPath(filePath);
+      setSpec(summary);
+      setSelected(new Set(summary.operations.map(operation => operation.key)));
+      setMessage(null);
+    } catch (error) {
+      console.error('Failed to read OpenAPI spec:', error);
+      setSpecPath(null);
+      setSpec(null);
+      setMessage(error instanceof Error ? error.message : 'Failed to read OpenAPI spec.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleOperation = (key: string) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!specPath || !spec) return;
+
+    try {
+      setIsWorking(true);
+      // Keep the spec's order rather than the order operations were ticked
+      const operations = spec.operations.map(operation => operation.key).filter(key => selected.has(key));
+      const result = await api.importOpenApi(specPath, { operations, overview }, collection);
+      const count = result.diagrams.length;
+      const failed = result.failed.length > 0 ? ` (${result.failed.length} failed to validate)` : '';
+      setMessage(`Imported ${count} ${count === 1 ? 'diagram' : 'diagrams'}${failed}.`);
+      if (count > 0) {
+        onImported(result.diagrams[0].id);
+      }
+    } catch (error) {
+      console.error('Failed to import OpenAPI spec:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to import OpenAPI spec.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const allSelected = spec !== null && selected.size === spec.operations.length;
+  const mutedTextClass = isDarkMode ? "text-neutral-400" : "text-neutral-500";
+  const listClass = isDarkMode
+    ? "border-neutral-700 bg-neutral-900"
+    : "border-neutral-200 bg-neutral-50";
+  const primaryButtonClass = isDarkMode
+    ? "bg-orange-600 hover:bg-orange-700 text-white"
+    : "bg-orange-500 hover:bg-orange-600 text-white";
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Network className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              Import OpenAPI
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            Draw a sequence diagram for each operation of an OpenAPI spec, and an overview of its tags and paths.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={handleChooseFile} disabled={isWorking} className={secondaryButtonClass}>
+              Choose File...
+            </Button>
+            <span className={`truncate text-xs ${mutedTextClass}`}>
+              {spec ? `${spec.title}${spec.version ? ` ${spec.version}` : ''}` : 'No file selected'}
+            </span>
+          </div>
+
+          {spec && (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={overview}
+                  onChange={(e) => setOverview(e.target.checked)}
+                  className="accent-orange-500"
+                />
+                Overview of all tags and paths
+              </label>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium">Operations ({selected.size} of {spec.operations.length})</span>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(allSelected ? new Set() : new Set(spec.operations.map(operation => operation.key)))}
+                    className={`text-xs underline ${mutedTextClass}`}
+                  >
+                    {allSelected ? 'Select none' : 'Select all'}
+                  </button>
+                </div>
+                <div className={`max-h-64 overflow-y-auto rounded border p-2 space-y-1 ${listClass}`}>
+                  {spec.operations.map(operation => (
+                    <label key={operation.key} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(operation.key)}
+                        onChange={() => toggleOperation(operation.key)}
+                        className="mt-0.5 accent-orange-500"
+                      />
+                      <span className="min-w-0">
+                        <span className="font-mono text-xs break-all">{operation.key}</span>
+                        {(operation.summary || operation.operationId) && (
+                          <span className={`block text-xs truncate ${mutedTextClass}`}>
+                            {operation.summary || operation.operationId}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+          {message && (
+            <p className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>{message}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+            Close
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!spec || isWorking || (selected.size === 0 && !overview)}
+            className={primaryButtonClass}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { FileText } from "lucide-react";
+import { useExportDiagram } from "@/hooks";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import type { PdfExportOptions } from "@/lib/electron";
+
+type PdfSettings = Omit<PdfExportOptions, 'background'>;
+
+const PAGE_SIZE_OPTIONS: { value: PdfSettings['pageSize']; label: string }[] = [
+  { value: 'A4', label: 'A4' },
+  { value: 'A3', label: 'A3' },
+  { value: 'Letter', label: 'Letter' },
+  { value: 'Legal', label: 'Legal' },
+  { value: 'Tabloid', label: 'Tabloid' },
+  { value: 'Diagram', label: 'Same as diagram' },
+];
+
+const FIT_OPTIONS: { value: PdfSettings['fit']; label: string }[] = [
+  { value: 'page', label: 'Fit to one page' },
+  { value: 'width', label: 'Fit to page width' },
+  { value: 'none', label: 'Actual size' },
+];
+
+const DEFAULT_SETTINGS: PdfSettings = { pageSize: 'A4', landscape: true, fit: 'page' };
+
+interface PdfExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  diagram: string;
+  title: string;
+  isDarkMode: boolean;
+}
+
+export function PdfExportModal({ isOpen, onClose, diagram, title, isDarkMode }: PdfExportModalProps) {
+  const { exportAsPdf } = useExportDiagram({ isDarkMode });
+  const [settings, setSettings] = useLocalStorage<PdfSettings>("mindpilot-mcp-pdf-settings", DEFAULT_SETTINGS);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Orientation and fit only apply when printing onto a standard page
+  const isDiagramSized = settings.pageSize === 'Diagram';
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      if (await exportAsPdf(diagram, title || 'diagram', settings)) {
+        onClose();
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selectTriggerClass = isDarkMode
+    ? "bg-neutral-700 border-neutral-600 text-neutral-100"
+    : "bg-white border-neutral-300 text-neutral-900";
+  const selectContentClass = isDarkMode
+    ? "bg-neutral-800 border-neutral-700 text-neutral-100"
+    : "bg-white border-neutral-200 text-neutral-900";
+  const primaryButtonClass = isDarkMode
+    ? "bg-orange-600 hover:bg-orange-700 text-white"
+    : "bg-orange-500 hover:bg-orange-600 text-white";
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <FileText className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              Export as PDF
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            {title || 'Untitled Diagram'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Page size</label>
+            <Select
+              value={settings.pageSize}
+              onValueChange={(value) => setSettings({ ...settings, pageSize: value as PdfSettings['pageSize'] })}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className={selectContentClass}>
+                {PAGE_SIZE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Orientation</label>
+            <Select
+              value={settings.landscape ? 'landscape' : 'portrait'}
+              onValueChange={(value) => setSettings({ ...settings, landscape: value === 'landscape' })}
+              disabled={isDiagramSized}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className={selectContentClass}>
+                <SelectItem value="landscape">Landscape</SelectItem>
+                <SelectItem value="portrait">Portrait</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Scaling</label>
+            <Select
+              value={settings.fit}
+              onValueChange={(value) => setSettings({ ...settings, fit: value as PdfSettings['fit'] })}
+              disabled={isDiagramSized}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className={selectContentClass}>
+                {FIT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!diagram || isWorking} className={primaryButtonClass}>
+            Export...
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+import { api, SyncStatus } from "@/lib/electron";
+
+interface TeamModeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  status: SyncStatus | null;
+  onStatusChange: (status: SyncStatus) => void;
+  isDarkMode: boolean;
+}
+
+export function TeamModeModal({ isOpen, onClose, status, onStatusChange, isDarkMode }: TeamModeModalProps) {
+  const [serverUrl, setServerUrl] = useState('');
+  const [team, setTeam] = useState('');
+  const [token, setToken] = useState('');
+  const [collections, setCollections] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Start from the saved configuration each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerUrl(status?.config?.serverUrl ?? '');
+    setTeam(status?.config?.team ?? '');
+    // The saved token is never sent back; leaving the field blank keeps it
+    setToken('');
+    setCollections(status?.config?.collections?.join(', ') ?? '');
+    setMessage(status?.lastError ?? null);
+  }, [isOpen, status]);
+
+  const handleSave = async () => {
+    try {
+      setIsWorking(true);
+      setMessage(null);
+      const saved = await api.configureSync({
+        serverUrl: serverUrl.trim(),
+        team: team.trim(),
+        ...(token && { token }),
+        collections: collections.split(',').map(name => name.trim()).filter(Boolean),
+      });
+      onStatusChange(saved);
+
+      const result = await api.syncNow();
+      const received = result.pulled + result.deleted;
+      setMessage(`Synced. Sent ${result.pushed}, received ${received}${result.conflicts > 0 ? `, merged ${result.conflicts}` : ''}.`);
+      onStatusChange(await api.getSyncStatus());
+    } catch (error) {
+      console.error('Failed to set up Team Mode:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to set up Team Mode.');
+      onStatusChange(await api.getSyncStatus());
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    try {
+      setIsWorking(true);
+      onStatusChange(await api.configureSync(null));
+      onClose();
+    } catch (error) {
+      console.error('Failed to turn off Team Mode:', error);
+      setMessage('Failed to turn off Team Mode.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = `w-full px-2 py-1.5 text-sm rounded border focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-neutral-700 text-neutral-100 border-neutral-600'
+      : 'bg-white text-neutral-900 border-neutral-300'
+  }`;
+  const secondaryButtonClass = isDarkMode
+    ? "hover:bg-neutral-700 hover:text-neutral-100"
+    : "hover:bg-neutral-100 hover:text-neutral-900";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={isDarkMode ? "bg-neutral-800 border-neutral-700" : "bg-white border-neutral-200"}>
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <Users className={isDarkMode ? "h-6 w-6 text-orange-400" : "h-6 w-6 text-orange-500"} />
+            <DialogTitle className={isDarkMode ? "text-neutral-100" : "text-neutral-900"}>
+              Team Mode
+            </DialogTitle>
+          </div>
+          <DialogDescription className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>
+            Share collections through a Mindpilot sync server your team hosts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`space-y-3 text-sm ${isDarkMode ? "text-neutral-200" : "text-neutral-800"}`}>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Sync server</label>
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="http://mindpilot.internal:4100"
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Team</label>
+            <input
+              type="text"
+              value={team}
+              onChange={(e) => setTeam(e.target.value)}
+              placeholder="platform-team"
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Access token (if the server requires one)</label>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder={status?.config?.hasToken ? 'Saved (type to replace)' : undefined}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Shared collections (comma separated, blank for all)</label>
+            <input
+              type="text"
+              value={collections}
+              onChange={(e) => setCollections(e.target.value)}
+              placeholder="mindpilot-mcp, design-docs"
+              className={inputClass}
+            />
+          </div>
+          {status?.lastSyncedAt && (
+            <p className={`text-xs ${isDarkMode ? "text-neutral-400" : "text-neutral-500"}`}>
+              Last synced {new Date(status.lastSyncedAt).toLocaleString()}
+            </p>
+          )}
+          {message && (
+            <p className={isDarkMode ? "text-neutral-400" : "text-neutral-600"}>{message}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2">
+          {status?.config ? (
+            <Button variant="ghost" onClick={handleTurnOff} disabled={isWorking} className={secondaryButtonClass}>
+              Turn Off
+            </Button>
+          ) : (
+            <Button variant="ghost" onClick={onClose} className={secondaryButtonClass}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={!serverUrl.trim() || !team.trim() || isWorking}
+            className={isDarkMode ? "bg-orange-600 hover:bg-orange-700 text-white" : "bg-orange-500 hover:bg-orange-600 text-white"}
+          >
+            {status?.config ? 'Save & Sync' : 'Join Team'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
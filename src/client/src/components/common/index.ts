@@ -3,4 +3,10 @@ export * from './LoadingSpinner';
 export * from './EmptyState';
 export * from './ErrorBoundary';
 export * from './ModeSelector';
-export * from './CloudModeModal';
\ No newline at end of file
+export * from './TeamModeModal';
+export * from './CollectionModal';
+export * from './DeleteCollectionModal';
+export * from './LibraryTransferModal';
+export * from './OpenApiImportModal';
+export * from './PdfExportModal';
+export * from './AboutModal';
\ No newline at end of file
@@ -1,11 +1,26 @@
 import { useEffect, useRef, forwardRef } from 'react';
 import mermaid from 'mermaid';
 import { useDiagramContext, useThemeContext } from '@/contexts';
+import { DiagramElements, parseEdgeKey } from '@/lib/diagramDiff';
+
+export type DiagramHighlightKind = 'added' | 'removed' | 'relabelled';
+
+export type DiagramHighlights = Partial<Record<DiagramHighlightKind, DiagramElements>>;
 
 export interface DiagramRendererProps {
   onFitToScreen?: (isAutoResize?: boolean) => void;
+  // Render this source instead of the current diagram (e.g. one side of a diff)
+  source?: string;
+  // Flowchart nodes and edges to outline, keyed by diff kind
+  highlights?: DiagramHighlights;
 }
 
+export const DIFF_HIGHLIGHT_COLORS: Record<DiagramHighlightKind, string> = {
+  added: '#2f9e44',
+  removed: '#e03131',
+  relabelled: '#f59f00',
+};
+
 // Function to trim whitespace from SVG
 function trimSvgWhitespace(svgElement: SVGSVGElement) {
   // Get all visible elements
@@ -52,9 +67,53 @@ function trimSvgWhitespace(svgElement: SVGSVGElement) {
   }
 }
 
+// Mermaid numbers repeated edges between the same nodes 0, 2, 3, ...
+function mermaidEdgeId(key: string) {
+  const { from, to, occurrence } = parseEdgeKey(key);
+  return `L_${from}_${to}_${occurrence === 0 ? 0 : occurrence + 1}`;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Outline flowchart nodes and edges in the rendered SVG
+function applyHighlights(svgElement: SVGSVGElement, highlights: DiagramHighlights) {
+  const nodeGroups = Array.from(svgElement.querySelectorAll<SVGGElement>('g.node'));
+  const edgePaths = Array.from(svgElement.querySelectorAll<SVGPathElement>('path[id]'));
+
+  (Object.keys(highlights) as DiagramHighlightKind[]).forEach((kind) => {
+    const elements = highlights[kind];
+    if (!elements) return;
+    const color = DIFF_HIGHLIGHT_COLORS[kind];
+
+    const nodeIds = new Set(elements.nodes);
+    nodeGroups.forEach((group) => {
+      const match = group.id.match(/flowchart-(.+)-\d+$/);
+      if (!match || !nodeIds.has(match[1])) return;
+      group.setAttribute('data-diff', kind);
+      group.querySelectorAll<SVGElement>('rect, circle, ellipse, polygon, path').forEach((shape) => {
+        shape.style.setProperty('stroke', color, 'important');
+        shape.style.setProperty('stroke-width', '4px', 'important');
+      });
+    });
+
+    const edgePatterns = elements.edges.map(
+      (key) => new RegExp(`(^|[^A-Za-z0-9_])${escapeRegExp(mermaidEdgeId(key))}$`)
+    );
+    edgePaths.forEach((path) => {
+      if (!edgePatterns.some((pattern) => pattern.test(path.id))) return;
+      path.setAttribute('data-diff', kind);
+      path.style.setProperty('stroke', color, 'important');
+      path.style.setProperty('stroke-width', '3px', 'important');
+    });
+  });
+}
+
 export const DiagramRenderer = forwardRef<HTMLDivElement, DiagramRendererProps>(
-  function DiagramRenderer({ onFitToScreen }, ref) {
-    const { diagram, setStatus, setIsLoadingDiagram } = useDiagramContext();
+  function DiagramRenderer({ onFitToScreen, source, highlights }, ref) {
+    const { diagram: currentDiagram, setStatus, setIsLoadingDiagram } = useDiagramContext();
+    const diagram = source ?? currentDiagram;
     const { isDarkMode } = useThemeContext();
     const internalRef = useRef<HTMLDivElement>(null);
     const previewRef = (ref as React.MutableRefObject<HTMLDivElement>) || internalRef;
@@ -113,6 +172,9 @@ export const DiagramRenderer = forwardRef<HTMLDivElement, DiagramRendererProps>(
         const svgElement = previewRef.current!.querySelector('svg');
         if (svgElement) {
           trimSvgWhitespace(svgElement);
+          if (highlights) {
+            applyHighlights(svgElement, highlights);
+          }
         }
 
         // Small delay to ensure SVG is fully rendered
@@ -133,7 +195,7 @@ export const DiagramRenderer = forwardRef<HTMLDivElement, DiagramRendererProps>(
     const delay = diagram ? 100 : 500;
     const timeoutId = setTimeout(renderDiagram, delay);
     return () => clearTimeout(timeoutId);
-  }, [diagram, isDarkMode, setStatus, setIsLoadingDiagram, onFitToScreen]);
+  }, [diagram, highlights, isDarkMode, setStatus, setIsLoadingDiagram, onFitToScreen]);
 
     return (
       <div
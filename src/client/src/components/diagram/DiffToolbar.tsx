@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { useDiagramRevisions, DiagramHistoryEntry } from '@/hooks';
+import { api } from '@/lib/electron';
+import { DiagramDiff } from '@/lib/diagramDiff';
+import { DIFF_HIGHLIGHT_COLORS } from './DiagramRenderer';
+
+// One side of a diff: a revision of the current diagram or another history entry
+export interface DiffSource {
+  key: string;
+  label: string;
+  diagram: string;
+}
+
+export type DiffView = 'before' | 'after';
+
+interface DiffToolbarProps {
+  currentDiagramId: string | null;
+  isDarkMode: boolean;
+  base: DiffSource | null;
+  compare: DiffSource | null;
+  onBaseChange: (source: DiffSource) => void;
+  onCompareChange: (source: DiffSource) => void;
+  view: DiffView;
+  onViewChange: (view: DiffView) => void;
+  diff: DiagramDiff | null;
+  onClose: () => void;
+}
+
+export function DiffToolbar({
+  currentDiagramId,
+  isDarkMode,
+  base,
+  compare,
+  onBaseChange,
+  onCompareChange,
+  view,
+  onViewChange,
+  diff,
+  onClose,
+}: DiffToolbarProps) {
+  const { revisions, fetchRevisions } = useDiagramRevisions(currentDiagramId);
+  const [entries, setEntries] = useState<DiagramHistoryEntry[]>([]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  useEffect(() => {
+    api.getHistory()
+      .then((data: DiagramHistoryEntry[]) => setEntries(data))
+      .catch((error: unknown) => console.error('Failed to fetch history for diff:', error));
+  }, []);
+
+  const revisionSources = useMemo<DiffSource[]>(() =>
+    revisions.map((revision, index) => ({
+      key: `revision:${index}`,
+      label: `Revision ${index + 1} · ${new Date(revision.createdAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}`,
+      diagram: revision.diagram,
+    })).reverse(),
+  [revisions]);
+
+  const entrySources = useMemo<DiffSource[]>(() =>
+    entries
+      .filter(entry => entry.id !== currentDiagramId)
+      .map(entry => ({
+        key: `diagram:${entry.id}`,
+        label: entry.title || 'Untitled',
+        diagram: entry.diagram,
+      })),
+  [entries, currentDiagramId]);
+
+  // Default to comparing the previous revision with the latest one
+  useEffect(() => {
+    if (revisionSources.length === 0) return;
+    if (!compare) {
+      onCompareChange(revisionSources[0]);
+    }
+    if (!base) {
+      onBaseChange(revisionSources[Math.min(1, revisionSources.length - 1)]);
+    }
+  }, [revisionSources, base, compare, onBaseChange, onCompareChange]);
+
+  const findSource = (key: string) =>
+    revisionSources.find(source => source.key === key) ??
+    entrySources.find(source => source.key === key);
+
+  const counts = diff && {
+    added: diff.added.nodes.length + diff.added.edges.length,
+    removed: diff.removed.nodes.length + diff.removed.edges.length,
+    relabelled: diff.relabelled.nodes.length + diff.relabelled.edges.length,
+  };
+
+  const renderSelect = (value: DiffSource | null, onChange: (source: DiffSource) => void, placeholder: string) => (
+    <Select
+      value={value?.key}
+      onValueChange={(key) => {
+        const source = findSource(key);
+        if (source) onChange(source);
+      }}
+    >
+      <SelectTrigger className={`h-8 w-48 text-xs ${isDarkMode ? 'bg-neutral-800 border-neutral-600 text-neutral-100' : 'bg-white border-neutral-300 text-neutral-900'}`}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className={isDarkMode ? "bg-neutral-800 border-neutral-700 text-neutral-100" : "bg-white border-neutral-200 text-neutral-900"}>
+        {revisionSources.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Revisions</SelectLabel>
+            {revisionSources.map(source => (
+              <SelectItem key={source.key} value={source.key} className="text-xs">{source.label}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {entrySources.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Other diagrams</SelectLabel>
+            {entrySources.map(source => (
+              <SelectItem key={source.key} value={source.key} className="text-xs">{source.label}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="absolute bottom-4 left-0 right-0 flex justify-center pointer-events-none z-40">
+      <div className={`flex flex-col gap-2 px-4 py-2 rounded-lg border backdrop-blur-md pointer-events-auto text-xs ${
+        isDarkMode
+          ? "bg-neutral-900/80 border-neutral-600 text-neutral-200"
+          : "bg-white/90 border-neutral-300 text-neutral-700"
+      }`}>
+        <div className="flex items-center gap-2">
+          {renderSelect(base, onBaseChange, 'Base')}
+          <span>→</span>
+          {renderSelect(compare, onCompareChange, 'Compare')}
+          <div className="flex items-center gap-0.5 bg-neutral-300 dark:bg-neutral-600 p-0.5 rounded">
+            {(['before', 'after'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => onViewChange(option)}
+                className={`px-2 py-0.5 rounded transition-colors capitalize ${
+                  view === option
+                    ? isDarkMode
+                      ? 'bg-orange-600 text-white'
+                      : 'bg-orange-500 text-white'
+                    : isDarkMode
+                      ? 'hover:bg-orange-600/20 text-neutral-400'
+                      : 'hover:bg-orange-100 text-neutral-600'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-7 w-7" title="Close diff">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center justify-center gap-4">
+          {counts ? (
+            (['added', 'removed', 'relabelled'] as const).map(kind => (
+              <span key={kind} className="flex items-center gap-1">
+                <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: DIFF_HIGHLIGHT_COLORS[kind] }} />
+                {counts[kind]} {kind}
+              </span>
+            ))
+          ) : (
+            <span className={isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}>
+              Node and edge markers are shown for flowcharts only
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { DiffEditor } from '@monaco-editor/react';
+import { configureMermaidMonaco } from '@/lib/monaco';
+
+interface MermaidDiffEditorProps {
+  original: string;
+  modified: string;
+  isDarkMode: boolean;
+  sideBySide: boolean;
+}
+
+export function MermaidDiffEditor({ original, modified, isDarkMode, sideBySide }: MermaidDiffEditorProps) {
+  return (
+    <div className="w-full h-full overflow-hidden" style={{ boxShadow: 'none' }}>
+      <DiffEditor
+        height="100%"
+        language="mermaid"
+        original={original}
+        modified={modified}
+        beforeMount={configureMermaidMonaco}
+        theme={isDarkMode ? 'mindpilot-dark' : 'mindpilot-light'}
+        options={{
+          readOnly: true,
+          originalEditable: false,
+          renderSideBySide: sideBySide,
+          // Keep side-by-side even when the editor panel is narrow
+          useInlineViewWhenSpaceIsLimited: false,
+          stickyScroll: { enabled: false },
+          fontSize: 12,
+          fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
+          minimap: { enabled: false },
+          lineNumbers: 'on',
+          glyphMargin: false,
+          folding: false,
+          lineNumbersMinChars: 3,
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+          wordWrap: 'on',
+          padding: { top: 16, bottom: 16 },
+          overviewRulerBorder: false,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
-import Editor, { Monaco } from '@monaco-editor/react';
+import Editor, { type Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
 import { useAnalytics } from '@/hooks';
+import { api } from '@/lib/electron';
+import { configureMermaidMonaco, setMermaidDiagnostics } from '@/lib/monaco';
+
+// Wait for a pause in typing before validating
+const VALIDATE_DELAY_MS = 500;
 
 export interface MermaidEditorHandle {
   focus: () => void;
@@ -12,12 +17,13 @@ interface MermaidEditorProps {
   onChange: (value: string) => void;
   isDarkMode: boolean;
   onFocusChange?: (isFocused: boolean) => void;
+  readOnly?: boolean;
 }
 
 export const MermaidEditor = forwardRef<MermaidEditorHandle, MermaidEditorProps>(
-  ({ value, onChange, isDarkMode, onFocusChange }, ref) => {
-  const monacoRef = useRef<Monaco | null>(null);
+  ({ value, onChange, isDarkMode, onFocusChange, readOnly = false }, ref) => {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
   const { trackDiagramUpdated } = useAnalytics();
   const lastTrackedRef = useRef<number>(Date.now());
 
@@ -30,133 +36,9 @@ export const MermaidEditor = forwardRef<MermaidEditorHandle, MermaidEditorProps>
     }
   }), []);
 
-  const handleEditorWillMount = (monaco: Monaco) => {
-    // Define custom dark theme matching the app's dark mode
-    monaco.editor.defineTheme('mindpilot-dark', {
-      base: 'vs-dark',
-      inherit: true,
-      rules: [],
-      colors: {
-        'editor.background': '#262626', // neutral-800
-        'editor.foreground': '#f5f5f5', // neutral-100
-        'editor.lineHighlightBackground': '#ea580c20', // orange-600 with opacity
-        'editor.lineHighlightBorder': '#ea580c40', // orange-600 border with opacity
-        'editor.selectionBackground': '#525252', // neutral-600
-        'editor.inactiveSelectionBackground': '#404040', // neutral-700
-        'editorCursor.foreground': '#fb923c', // orange-400
-        'editorLineNumber.foreground': '#737373', // neutral-500
-        'editorLineNumber.activeForeground': '#fb923c', // orange-400
-      }
-    });
-
-    // Define custom light theme
-    monaco.editor.defineTheme('mindpilot-light', {
-      base: 'vs',
-      inherit: true,
-      rules: [],
-      colors: {
-        'editor.background': '#fafafa', // neutral-50
-        'editor.foreground': '#171717', // neutral-900
-        'editor.lineHighlightBackground': '#f9731615', // orange-500 with low opacity
-        'editor.lineHighlightBorder': '#f9731625', // orange-500 border with opacity
-        'editor.selectionBackground': '#00000015',
-        'editorCursor.foreground': '#f97316', // orange-500
-        'editorLineNumber.foreground': '#737373', // neutral-500
-        'editorLineNumber.activeForeground': '#f97316', // orange-500
-      }
-    });
-
-    // Register Mermaid language
-    monaco.languages.register({ id: 'mermaid' });
-
-    // Set Mermaid language configuration
-    monaco.languages.setLanguageConfiguration('mermaid', {
-      comments: {
-        lineComment: '%%',
-      },
-      brackets: [
-        ['{', '}'],
-        ['[', ']'],
-        ['(', ')'],
-      ],
-      autoClosingPairs: [
-        { open: '{', close: '}' },
-        { open: '[', close: ']' },
-        { open: '(', close: ')' },
-        { open: '"', close: '"' },
-        { open: "'", close: "'" },
-      ],
-      surroundingPairs: [
-        { open: '{', close: '}' },
-        { open: '[', close: ']' },
-        { open: '(', close: ')' },
-        { open: '"', close: '"' },
-        { open: "'", close: "'" },
-      ],
-    });
-
-    // Set Mermaid syntax highlighting
-    monaco.languages.setMonarchTokensProvider('mermaid', {
-      keywords: [
-        'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram',
-        'erDiagram', 'gantt', 'pie', 'gitGraph', 'journey', 'quadrantChart',
-        'TB', 'TD', 'BT', 'RL', 'LR', 'subgraph', 'end', 'participant',
-        'actor', 'boundary', 'control', 'entity', 'database', 'collections',
-        'queue', 'note', 'activate', 'deactivate', 'loop', 'alt', 'else',
-        'opt', 'par', 'and', 'critical', 'break', 'rect', 'over', 'of',
-        'left', 'right', 'class', 'click', 'call', 'state', 'choice',
-        'fork', 'join', 'function', 'section', 'title', 'dateFormat',
-        'axisFormat', 'excludes', 'includes', 'todayMarker', 'tickInterval',
-        'style', 'linkStyle', 'classDef', 'callback', 'link', 'click',
-      ],
-
-      operators: [
-        '-->', '---', '-.->',  '-.-', '==>', '===', '--|', '|--',
-        '-->|', '|-->',
-      ],
-
-      tokenizer: {
-        root: [
-          // Comments
-          [/%%.*$/, 'comment'],
-
-          // Keywords
-          [/\b(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|gantt|pie|gitGraph|journey|quadrantChart)\b/, 'keyword'],
-          [/\b(TB|TD|BT|RL|LR|subgraph|end|participant|actor|note|loop|alt|else|opt|par|and|critical|break|rect|over|of|left|right)\b/, 'keyword'],
-          [/\b(class|click|call|state|choice|fork|join|function|section|title|dateFormat|axisFormat|excludes|includes|todayMarker|tickInterval)\b/, 'keyword'],
-          [/\b(style|linkStyle|classDef|callback|link)\b/, 'keyword'],
-
-          // Node IDs and labels
-          [/[A-Za-z][A-Za-z0-9_]*/, 'identifier'],
-
-          // Strings
-          [/"([^"\\]|\\.)*$/, 'string.invalid'],
-          [/"/, 'string', '@string'],
-
-          // Operators
-          [/(-->|---|-.->|-.-|==>|===|--\||-->\||\|-->)/, 'operator'],
-
-          // Brackets
-          [/[\[\]]/, '@brackets'],
-          [/[{}]/, '@brackets'],
-          [/[()]/, '@brackets'],
-
-          // Numbers
-          [/\d+/, 'number'],
-        ],
-
-        string: [
-          [/[^\\"]+/, 'string'],
-          [/\\./, 'string.escape'],
-          [/"/, 'string', '@pop'],
-        ],
-      },
-    });
-  };
-
   const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
-    monacoRef.current = monaco;
     editorRef.current = editor;
+    monacoRef.current = monaco;
     
     // Set up focus/blur handlers
     if (onFocusChange) {
@@ -184,6 +66,35 @@ export const MermaidEditor = forwardRef<MermaidEditorHandle, MermaidEditorProps>
     }
   };
 
+  // Validate as the diagram changes and show the results as markers
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const model = editorRef.current?.getModel();
+      const monaco = monacoRef.current;
+      if (!model || !monaco) return;
+
+      if (!value.trim()) {
+        setMermaidDiagnostics(monaco, model, []);
+        return;
+      }
+
+      try {
+        const result = await api.validateDiagram(value);
+        // Drop results for text that has since changed
+        if (cancelled || model.isDisposed() || model.getValue() !== value) return;
+        setMermaidDiagnostics(monaco, model, result.diagnostics ?? []);
+      } catch (error) {
+        console.error('Failed to validate diagram:', error);
+      }
+    }, VALIDATE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
   useEffect(() => {
     if (editorRef.current) {
       editorRef.current.updateOptions({
@@ -200,10 +111,11 @@ export const MermaidEditor = forwardRef<MermaidEditorHandle, MermaidEditorProps>
         language="mermaid"
         value={value}
         onChange={handleChange}
-        beforeMount={handleEditorWillMount}
+        beforeMount={configureMermaidMonaco}
         onMount={handleEditorDidMount}
         theme={isDarkMode ? 'mindpilot-dark' : 'mindpilot-light'}
         options={{
+          readOnly,
           stickyScroll: {enabled: false},
           fontSize: 12,
           fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
@@ -0,0 +1,127 @@
+import { History, Bot, Pencil, RotateCcw, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useDiagramRevisions, DiagramRevision } from '@/hooks';
+
+interface RevisionPickerProps {
+  diagramId: string | null;
+  isDarkMode: boolean;
+  previewIndex: number | null;
+  onPreview: (revision: DiagramRevision, index: number) => void;
+}
+
+function formatRevisionDate(dateString: string) {
+  return new Date(dateString).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export function RevisionPicker({ diagramId, isDarkMode, previewIndex, onPreview }: RevisionPickerProps) {
+  const { revisions, loading, fetchRevisions } = useDiagramRevisions(diagramId);
+
+  if (!diagramId) return null;
+
+  const latestIndex = revisions.length - 1;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => { if (open) fetchRevisions(); }}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title="Revisions"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className={`max-h-80 overflow-y-auto ${isDarkMode
+          ? "bg-neutral-800 border-neutral-700 text-neutral-100"
+          : "bg-white border-neutral-200 text-neutral-900"
+        }`}
+      >
+        <DropdownMenuLabel className="text-xs">Revisions</DropdownMenuLabel>
+        <DropdownMenuSeparator className={isDarkMode ? "bg-neutral-700" : "bg-neutral-200"} />
+        {loading && revisions.length === 0 ? (
+          <div className={`px-2 py-1.5 text-xs ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+            Loading...
+          </div>
+        ) : (
+          // Newest first
+          revisions.slice().reverse().map((revision, position) => {
+            const index = latestIndex - position;
+            const SourceIcon = revision.source === 'mcp' ? Bot : Pencil;
+            return (
+              <DropdownMenuItem
+                key={index}
+                onClick={() => onPreview(revision, index)}
+                className={`${
+                  previewIndex === index
+                    ? isDarkMode
+                      ? 'bg-orange-500/20'
+                      : 'bg-orange-100'
+                    : ''
+                } ${
+                  isDarkMode
+                    ? "hover:bg-orange-500/10 focus:bg-orange-500/10"
+                    : "hover:bg-orange-50 focus:bg-orange-50"
+                }`}
+              >
+                <SourceIcon className="mr-2 h-4 w-4" />
+                <div className="flex flex-col">
+                  <span className="text-sm">
+                    Revision {index + 1}{index === latestIndex ? ' (current)' : ''}
+                  </span>
+                  <span className={`text-xs ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+                    {formatRevisionDate(revision.createdAt)} · {revision.source === 'mcp' ? 'Agent' : 'Editor'}
+                  </span>
+                </div>
+              </DropdownMenuItem>
+            );
+          })
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface RevisionPreviewBannerProps {
+  revision: DiagramRevision;
+  index: number;
+  isDarkMode: boolean;
+  onRestore: () => void;
+  onCancel: () => void;
+}
+
+export function RevisionPreviewBanner({ revision, index, isDarkMode, onRestore, onCancel }: RevisionPreviewBannerProps) {
+  return (
+    <div className="absolute bottom-4 left-0 right-0 flex justify-center pointer-events-none z-40">
+      <div className={`flex items-center gap-3 px-4 py-2 rounded-lg border backdrop-blur-md pointer-events-auto text-sm ${
+        isDarkMode
+          ? "bg-neutral-900/80 border-orange-500/50 text-neutral-200"
+          : "bg-white/90 border-orange-400/50 text-neutral-700"
+      }`}>
+        <span>
+          Previewing revision {index + 1} from {formatRevisionDate(revision.createdAt)}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onRestore} className="h-7 px-2">
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Restore
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel} className="h-7 px-2" title="Back to current version">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
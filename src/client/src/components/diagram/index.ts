@@ -3,4 +3,7 @@ export * from './DiagramTitle';
 export * from './MermaidEditor';
 export * from './PanZoomContainer';
 export * from './DrawingCanvas';
-export * from './DiagramContextMenu';
\ No newline at end of file
+export * from './DiagramContextMenu';
+export * from './RevisionPicker';
+export * from './MermaidDiffEditor';
+export * from './DiffToolbar';
\ No newline at end of file
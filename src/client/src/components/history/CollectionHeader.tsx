@@ -0,0 +1,118 @@
+import { ChevronRight, ChevronDown, Folder, Calendar, MoreVertical, Edit, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { CollectionInfo } from '@/lib/electron';
+
+export interface CollectionHeaderProps {
+  name: string;
+  // Registry details, shown in the project view
+  collection?: CollectionInfo;
+  isExpanded: boolean;
+  organizeByDate: boolean;
+  isDarkMode: boolean;
+  onToggle: () => void;
+  // Management actions; the menu only shows when onEdit is given.
+  // Move actions are omitted at the ends of the list.
+  onEdit?: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onDelete?: () => void;
+}
+
+export function CollectionHeader({
+  name,
+  collection,
+  isExpanded,
+  organizeByDate,
+  isDarkMode,
+  onToggle,
+  onEdit,
+  onMoveUp,
+  onMoveDown,
+  onDelete,
+}: CollectionHeaderProps) {
+  const itemClass = isDarkMode
+    ? "hover:bg-orange-500/10 focus:bg-orange-500/10"
+    : "hover:bg-orange-50 focus:bg-orange-50";
+
+  return (
+    <div className="group flex items-center gap-1">
+      <button
+        onClick={onToggle}
+        title={collection?.description ?? undefined}
+        className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded transition-colors ${
+          isDarkMode
+            ? 'hover:bg-orange-600/20 text-neutral-300'
+            : 'hover:bg-orange-50 text-neutral-700'
+        }`}
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-3 w-3 shrink-0" />
+        ) : (
+          <ChevronRight className="h-3 w-3 shrink-0" />
+        )}
+        {organizeByDate ? (
+          <Calendar className="h-4 w-4 shrink-0" />
+        ) : (
+          <Folder
+            className="h-4 w-4 shrink-0"
+            style={collection?.color ? { color: collection.color, fill: collection.color } : undefined}
+          />
+        )}
+        <span className="text-sm font-medium truncate">{name}</span>
+      </button>
+
+      {onEdit && (
+        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <div className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors cursor-pointer">
+                <MoreVertical className="h-4 w-4" />
+              </div>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              align="end"
+              className={isDarkMode
+                ? "bg-neutral-800 border-neutral-700 text-neutral-100"
+                : "bg-white border-neutral-200 text-neutral-900"
+              }
+            >
+              <DropdownMenuItem onClick={onEdit} className={itemClass}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit...
+              </DropdownMenuItem>
+              {onMoveUp && (
+                <DropdownMenuItem onClick={onMoveUp} className={itemClass}>
+                  <ArrowUp className="mr-2 h-4 w-4" />
+                  Move Up
+                </DropdownMenuItem>
+              )}
+              {onMoveDown && (
+                <DropdownMenuItem onClick={onMoveDown} className={itemClass}>
+                  <ArrowDown className="mr-2 h-4 w-4" />
+                  Move Down
+                </DropdownMenuItem>
+              )}
+              {onDelete && (
+                <DropdownMenuItem
+                  onClick={onDelete}
+                  className={isDarkMode
+                    ? "text-red-400 hover:bg-red-900/20 focus:bg-red-900/20 hover:text-red-300 focus:text-red-300"
+                    : "text-red-600 hover:bg-red-50 focus:bg-red-50 hover:text-red-700 focus:text-red-700"
+                  }
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete...
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+    </div>
+  );
+}
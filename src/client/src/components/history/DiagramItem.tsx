@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { InlineEdit, InlineEditRef } from '@/components/ui/InlineEdit';
 import { useRef, useEffect } from 'react';
+import type { SearchSnippet } from '@/hooks';
 
 export interface DiagramHistoryEntry {
   version?: number;
@@ -20,6 +21,7 @@ export interface DiagramHistoryEntry {
   diagram: string;
   title: string;
   collection: string | null;
+  folder?: string | null;  // Slash-separated path inside the collection
 }
 
 export interface DiagramItemProps {
@@ -35,6 +37,38 @@ export interface DiagramItemProps {
   setOpenDropdownId: (id: string | null) => void;
   shouldScrollIntoView?: boolean;
   onEditingChange?: (isEditing: boolean) => void;
+  // Where a search matched this diagram, shown under the title
+  snippet?: SearchSnippet;
+}
+
+function HighlightedSnippet({ snippet, isDarkMode }: { snippet: SearchSnippet; isDarkMode: boolean }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(snippet.text.slice(position, start));
+    }
+    parts.push(
+      <mark
+        key={index}
+        className={`rounded-sm ${isDarkMode ? 'bg-orange-500/30 text-orange-200' : 'bg-orange-200 text-orange-900'}`}
+      >
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return (
+    <p
+      className={`text-xs truncate ${snippet.field === 'source' ? 'font-mono' : ''} ${isDarkMode ? 'text-neutral-300' : 'text-neutral-600'}`}
+      title={snippet.text}
+    >
+      {parts}
+    </p>
+  );
 }
 
 export function DiagramItem({
@@ -50,6 +84,7 @@ export function DiagramItem({
   setOpenDropdownId,
   shouldScrollIntoView = false,
   onEditingChange,
+  snippet,
 }: DiagramItemProps) {
   const inlineEditRef = useRef<InlineEditRef>(null);
   const itemRef = useRef<HTMLDivElement>(null);
@@ -127,6 +162,7 @@ export function DiagramItem({
             placeholder="Untitled"
             requireDoubleClick={true}
           />
+          {snippet && <HighlightedSnippet snippet={snippet} isDarkMode={isDarkMode} />}
           <p className={`text-xs ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
             {formatDate(entry.updatedAt)}
           </p>
@@ -1,5 +1,9 @@
-import { ChevronRight, ChevronDown, Folder, Calendar } from 'lucide-react';
+import { useState } from 'react';
 import { DiagramItem, DiagramHistoryEntry } from './DiagramItem';
+import { CollectionHeader } from './CollectionHeader';
+import { FolderTree, buildFolderTree, isHistoryDrag, readHistoryDrag, startHistoryDrag } from './FolderTree';
+import type { SearchSnippet } from '@/hooks';
+import type { CollectionInfo } from '@/lib/electron';
 import { EmptyState } from '@/components/common';
 import { Search } from 'lucide-react';
 
@@ -9,6 +13,9 @@ export interface DiagramListProps {
   isDarkMode: boolean;
   currentDiagramId?: string | null;
   searchQuery: string;
+  // Search match snippets keyed by diagram id. Titles are already shown,
+  // so items display the first match found elsewhere.
+  searchSnippets?: Map<string, SearchSnippet[]>;
   loading: boolean;
   totalDiagrams: number;
   expandedCollections: Set<string>;
@@ -23,6 +30,16 @@ export interface DiagramListProps {
   onClearSearch: () => void;
   shouldScrollToSelected?: boolean;
   onEditingChange?: (isEditing: boolean) => void;
+  // Collection details and management, for the project view
+  collections?: CollectionInfo[];
+  collectionOrder?: string[];
+  onEditCollection?: (name: string) => void;
+  onMoveCollection?: (name: string, offset: -1 | 1) => void;
+  onDeleteCollection?: (name: string) => void;
+  // Drag-and-drop moves in the project view. Collections are null for
+  // uncategorized, and folders null for the top of a collection.
+  onMoveDiagram?: (id: string, collection: string | null, folder: string | null) => void;
+  onMoveFolder?: (fromCollection: string, folder: string, toCollection: string | null, toParent: string | null) => void;
 }
 
 export function DiagramList({
@@ -31,6 +48,7 @@ export function DiagramList({
   isDarkMode,
   currentDiagramId,
   searchQuery,
+  searchSnippets,
   loading,
   totalDiagrams,
   expandedCollections,
@@ -45,12 +63,22 @@ export function DiagramList({
   onClearSearch,
   shouldScrollToSelected = false,
   onEditingChange,
+  collections = [],
+  collectionOrder = [],
+  onEditCollection,
+  onMoveCollection,
+  onDeleteCollection,
+  onMoveDiagram,
+  onMoveFolder,
 }: DiagramListProps) {
+  // Group or folder key under the pointer while dragging
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
   if (loading) {
     return <div className="p-4 text-center text-sm text-neutral-500">Loading...</div>;
   }
 
-  if (totalDiagrams === 0) {
+  if (totalDiagrams === 0 && groupedData.length === 0) {
     return <div className="p-4 text-center text-sm text-neutral-500">No artifacts yet</div>;
   }
 
@@ -70,56 +98,123 @@ export function DiagramList({
     );
   }
 
+  const collectionsByName = new Map(collections.map(info => [info.name, info]));
+  const canDrag = !organizeByDate && !!onMoveDiagram;
+
+  const handleDrop = (event: React.DragEvent, group: string, folder: string | null) => {
+    setDropTarget(null);
+    const item = readHistoryDrag(event);
+    const collection = group === 'uncategorized' ? null : group;
+    if (item?.kind === 'diagram') {
+      onMoveDiagram?.(item.id, collection, collection ? folder : null);
+    } else if (item?.kind === 'folder') {
+      onMoveFolder?.(item.collection, item.folder, collection, collection ? folder : null);
+    }
+  };
+
+  const renderDiagram = (entry: DiagramHistoryEntry) => (
+    <div
+      key={entry.id}
+      draggable={canDrag}
+      onDragStart={(e) => startHistoryDrag(e, { kind: 'diagram', id: entry.id })}
+    >
+      <DiagramItem
+        entry={entry}
+        isActive={currentDiagramId === entry.id}
+        isDarkMode={isDarkMode}
+        formatDate={formatDate}
+        onSelect={onSelectDiagram}
+        onExport={onExportDiagram}
+        onDelete={onDeleteDiagram}
+        onRename={onRenameDiagram}
+        openDropdownId={openDropdownId}
+        setOpenDropdownId={setOpenDropdownId}
+        shouldScrollIntoView={shouldScrollToSelected && currentDiagramId === entry.id}
+        onEditingChange={onEditingChange}
+        snippet={searchSnippets?.get(entry.id)?.find(snippet => snippet.field !== 'title')}
+      />
+    </div>
+  );
+
   return (
     <div className="px-2 py-2 space-y-2">
-      {groupedData.map(([collection, diagrams]) => (
-        <div key={collection} className="space-y-1">
-          {/* Collection Header */}
-          <button
-            onClick={() => onToggleCollection(collection)}
-            className={`w-full flex items-center gap-2 px-2 py-1 rounded transition-colors ${
-              isDarkMode
-                ? 'hover:bg-orange-600/20 text-neutral-300'
-                : 'hover:bg-orange-50 text-neutral-700'
-            }`}
-          >
-            {expandedCollections.has(collection) ? (
-              <ChevronDown className="h-3 w-3" />
-            ) : (
-              <ChevronRight className="h-3 w-3" />
-            )}
-            {organizeByDate ? (
-              <Calendar className="h-4 w-4" />
-            ) : (
-              <Folder className="h-4 w-4" />
-            )}
-            <span className="text-sm font-medium">{collection}</span>
-          </button>
+      {groupedData.map(([collection, diagrams]) => {
+        const info = organizeByDate ? undefined : collectionsByName.get(collection);
+        // Uncategorized diagrams have no collection to manage
+        const isManaged = !organizeByDate && collection !== 'uncategorized' && !!onEditCollection;
+        const position = collectionOrder.indexOf(collection);
 
-          {/* Collection Diagrams */}
-          {expandedCollections.has(collection) && (
-            <div className="pl-6 space-y-1">
-              {diagrams.map((entry) => (
-                <DiagramItem
-                  key={entry.id}
-                  entry={entry}
-                  isActive={currentDiagramId === entry.id}
-                  isDarkMode={isDarkMode}
-                  formatDate={formatDate}
-                  onSelect={onSelectDiagram}
-                  onExport={onExportDiagram}
-                  onDelete={onDeleteDiagram}
-                  onRename={onRenameDiagram}
-                  openDropdownId={openDropdownId}
-                  setOpenDropdownId={setOpenDropdownId}
-                  shouldScrollIntoView={shouldScrollToSelected && currentDiagramId === entry.id}
-                  onEditingChange={onEditingChange}
-                />
-              ))}
+        return (
+          <div key={collection} className="space-y-1">
+            {/* Collection Header, which takes drops for the top of the collection */}
+            <div
+              onDragOver={(e) => {
+                if (!canDrag || !isHistoryDrag(e)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setDropTarget(collection);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                  setDropTarget(null);
+                }
+              }}
+              onDrop={(e) => {
+                if (!canDrag || !isHistoryDrag(e)) return;
+                e.preventDefault();
+                handleDrop(e, collection, null);
+              }}
+              className={`rounded ${dropTarget === collection
+                ? isDarkMode ? 'bg-orange-600/30 ring-1 ring-orange-500' : 'bg-orange-100 ring-1 ring-orange-400'
+                : ''}`}
+            >
+              <CollectionHeader
+                name={collection}
+                collection={info}
+                isExpanded={expandedCollections.has(collection)}
+                organizeByDate={organizeByDate}
+                isDarkMode={isDarkMode}
+                onToggle={() => onToggleCollection(collection)}
+                onEdit={isManaged ? () => onEditCollection?.(collection) : undefined}
+                onMoveUp={isManaged && !searchQuery && position > 0 ? () => onMoveCollection?.(collection, -1) : undefined}
+                onMoveDown={isManaged && !searchQuery && position !== -1 && position < collectionOrder.length - 1 ? () => onMoveCollection?.(collection, 1) : undefined}
+                onDelete={isManaged ? () => onDeleteCollection?.(collection) : undefined}
+              />
             </div>
-          )}
-        </div>
-      ))}
+
+            {/* Collection Diagrams */}
+            {expandedCollections.has(collection) && (
+              <div className="pl-6 space-y-1">
+                {info?.description && (
+                  <p className={`px-2 text-xs ${isDarkMode ? 'text-neutral-400' : 'text-neutral-500'}`}>
+                    {info.description}
+                  </p>
+                )}
+                {diagrams.length === 0 && (
+                  <p className={`px-2 text-xs italic ${isDarkMode ? 'text-neutral-500' : 'text-neutral-400'}`}>
+                    No artifacts yet
+                  </p>
+                )}
+                {organizeByDate ? (
+                  diagrams.map(renderDiagram)
+                ) : (
+                  <FolderTree
+                    collection={collection}
+                    node={buildFolderTree(diagrams)}
+                    expandedCollections={expandedCollections}
+                    isDarkMode={isDarkMode}
+                    dropTarget={dropTarget}
+                    onDropTargetChange={setDropTarget}
+                    onDrop={canDrag ? (e, folder) => handleDrop(e, collection, folder) : undefined}
+                    onToggleFolder={onToggleCollection}
+                    renderDiagram={renderDiagram}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,167 @@
+import { ChevronRight, ChevronDown, Folder, FolderOpen } from 'lucide-react';
+import { folderKey } from '@/hooks';
+import type { DiagramHistoryEntry } from './DiagramItem';
+
+// Drag data type for diagrams and folders moved within the history panel
+const DRAG_TYPE = 'application/x-mindpilot-history-item';
+
+export type HistoryDragItem =
+  | { kind: 'diagram'; id: string }
+  | { kind: 'folder'; collection: string; folder: string };
+
+export function startHistoryDrag(event: React.DragEvent, item: HistoryDragItem) {
+  event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+  event.dataTransfer.effectAllowed = 'move';
+  // Dragging a diagram inside a folder must not drag the folder too
+  event.stopPropagation();
+}
+
+// The data is only readable on drop, but its type is visible while dragging
+export function isHistoryDrag(event: React.DragEvent): boolean {
+  return event.dataTransfer.types.includes(DRAG_TYPE);
+}
+
+export function readHistoryDrag(event: React.DragEvent): HistoryDragItem | null {
+  try {
+    return JSON.parse(event.dataTransfer.getData(DRAG_TYPE));
+  } catch {
+    return null;
+  }
+}
+
+export interface FolderNode {
+  name: string;
+  path: string;  // Full path inside the collection; empty for the top level
+  folders: FolderNode[];
+  diagrams: DiagramHistoryEntry[];
+}
+
+/**
+ * Builds the folder tree of one collection. The diagrams must already be
+ * in tree order so folders come out sorted.
+ */
+export function buildFolderTree(diagrams: DiagramHistoryEntry[]): FolderNode {
+  const root: FolderNode = { name: '', path: '', folders: [], diagrams: [] };
+
+  diagrams.forEach(entry => {
+    let node = root;
+    (entry.folder ? entry.folder.split('/') : []).forEach(name => {
+      const path = node.path ? `${node.path}/${name}` : name;
+      let child = node.folders.find(folder => folder.name === name);
+      if (!child) {
+        child = { name, path, folders: [], diagrams: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    });
+    node.diagrams.push(entry);
+  });
+
+  return root;
+}
+
+function countDiagrams(node: FolderNode): number {
+  return node.diagrams.length + node.folders.reduce((sum, folder) => sum + countDiagrams(folder), 0);
+}
+
+export interface FolderTreeProps {
+  collection: string;
+  node: FolderNode;
+  expandedCollections: Set<string>;
+  isDarkMode: boolean;
+  // Drag and drop is off without onDrop
+  dropTarget?: string | null;
+  onDropTargetChange?: (key: string | null) => void;
+  onDrop?: (event: React.DragEvent, folder: string) => void;
+  onToggleFolder: (key: string) => void;
+  renderDiagram: (entry: DiagramHistoryEntry) => React.ReactNode;
+}
+
+/**
+ * The subfolders and diagrams of one folder, with subfolders first
+ */
+export function FolderTree({
+  collection,
+  node,
+  expandedCollections,
+  isDarkMode,
+  dropTarget,
+  onDropTargetChange,
+  onDrop,
+  onToggleFolder,
+  renderDiagram,
+}: FolderTreeProps) {
+  return (
+    <>
+      {node.folders.map(folder => {
+        const key = folderKey(collection, folder.path);
+        const isExpanded = expandedCollections.has(key);
+
+        return (
+          <div key={folder.path} className="space-y-1">
+            <button
+              onClick={() => onToggleFolder(key)}
+              draggable={!!onDrop}
+              onDragStart={(e) => startHistoryDrag(e, { kind: 'folder', collection, folder: folder.path })}
+              onDragOver={(e) => {
+                if (!onDrop || !isHistoryDrag(e)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                e.dataTransfer.dropEffect = 'move';
+                onDropTargetChange?.(key);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                  onDropTargetChange?.(null);
+                }
+              }}
+              onDrop={(e) => {
+                if (!onDrop || !isHistoryDrag(e)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                onDrop(e, folder.path);
+              }}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded transition-colors ${
+                dropTarget === key
+                  ? isDarkMode ? 'bg-orange-600/30 ring-1 ring-orange-500 text-neutral-200' : 'bg-orange-100 ring-1 ring-orange-400 text-neutral-800'
+                  : isDarkMode ? 'hover:bg-orange-600/20 text-neutral-300' : 'hover:bg-orange-50 text-neutral-700'
+              }`}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-3 w-3 shrink-0" />
+              ) : (
+                <ChevronRight className="h-3 w-3 shrink-0" />
+              )}
+              {isExpanded ? (
+                <FolderOpen className="h-4 w-4 shrink-0" />
+              ) : (
+                <Folder className="h-4 w-4 shrink-0" />
+              )}
+              <span className="text-sm truncate">{folder.name}</span>
+              <span className={`ml-auto text-xs ${isDarkMode ? 'text-neutral-500' : 'text-neutral-400'}`}>
+                {countDiagrams(folder)}
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div className="pl-4 space-y-1">
+                <FolderTree
+                  collection={collection}
+                  node={folder}
+                  expandedCollections={expandedCollections}
+                  isDarkMode={isDarkMode}
+                  dropTarget={dropTarget}
+                  onDropTargetChange={onDropTargetChange}
+                  onDrop={onDrop}
+                  onToggleFolder={onToggleFolder}
+                  renderDiagram={renderDiagram}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {node.diagrams.map(renderDiagram)}
+    </>
+  );
+}
@@ -6,10 +6,12 @@ export interface SearchBarProps {
   onChange: (value: string) => void;
   placeholder?: string;
   isDarkMode: boolean;
+  // Number of matches, shown while searching
+  resultCount?: number;
 }
 
 export const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(
-  ({ value, onChange, placeholder = "Search artifacts...", isDarkMode }, ref) => {
+  ({ value, onChange, placeholder = "Search artifacts...", isDarkMode, resultCount }, ref) => {
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'Escape') {
         e.currentTarget.blur();
@@ -27,12 +29,17 @@ export const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(
             onChange={(e) => onChange(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
-            className={`w-full pl-8 pr-8 py-1.5 text-sm rounded ${
+            className={`w-full pl-8 ${resultCount !== undefined ? 'pr-20' : 'pr-8'} py-1.5 text-sm rounded ${
               isDarkMode
                 ? 'bg-neutral-800 text-neutral-100 border-neutral-600'
                 : 'bg-white text-neutral-900 border-neutral-300'
             } border focus:outline-none focus:ring-1 focus:ring-blue-500`}
           />
+        {resultCount !== undefined && (
+          <span className="absolute right-8 top-1/2 transform -translate-y-1/2 text-xs text-neutral-400 pointer-events-none">
+            {resultCount} {resultCount === 1 ? 'match' : 'matches'}
+          </span>
+        )}
         {value && (
           <button
             onClick={() => onChange('')}
@@ -1,3 +1,5 @@
 export * from './SearchBar';
 export * from './DiagramItem';
+export * from './CollectionHeader';
+export * from './FolderTree';
 export * from './DiagramList';
\ No newline at end of file
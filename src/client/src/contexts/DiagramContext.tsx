@@ -45,9 +45,8 @@ export function DiagramProvider({ children }: DiagramProviderProps) {
     try {
       setIsLoadingDiagram(true);
 
-      // Fetch history from API (uses IPC in Electron, HTTP in browser)
-      const history = await api.getHistory();
-      const entry = history.find((h: any) => h.id === id);
+      // Fetch the diagram from API (uses IPC in Electron, HTTP in browser)
+      const entry = await api.getDiagram(id);
 
       if (entry) {
         setDiagram(entry.diagram);
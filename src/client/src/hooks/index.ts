@@ -3,5 +3,7 @@ export * from './useKeyboardShortcuts';
 export * from './usePanZoom';
 export * from './useExportDiagram';
 export * from './useDiagramHistory';
+export * from './useCollections';
+export * from './useDiagramRevisions';
 export * from './useAnalytics';
 export * from './useWindowActive';
\ No newline at end of file
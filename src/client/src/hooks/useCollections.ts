@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '@/lib/electron';
+import type { CollectionInfo, CollectionUpdate } from '@/lib/electron';
+
+/**
+ * Hook to load and manage collections. Create, update and delete throw so
+ * the dialog that called them can show the reason; every change refetches
+ * the list, since renames and deletes also change diagram counts.
+ */
+export function useCollections(refreshTrigger?: number) {
+  const [collections, setCollections] = useState<CollectionInfo[]>([]);
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      setCollections(await api.getCollections());
+    } catch (error) {
+      console.error('Failed to fetch collections:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCollections();
+  }, [refreshTrigger, fetchCollections]);
+
+  const createCollection = async (name: string, details: Omit<CollectionUpdate, 'name'> = {}) => {
+    const collection = await api.createCollection(name, details);
+    await fetchCollections();
+    return collection;
+  };
+
+  const updateCollection = async (name: string, updates: CollectionUpdate) => {
+    const collection = await api.updateCollection(name, updates);
+    await fetchCollections();
+    return collection;
+  };
+
+  const deleteCollection = async (name: string, moveTo: string | null) => {
+    const result = await api.deleteCollection(name, moveTo);
+    await fetchCollections();
+    return result;
+  };
+
+  const reorderCollections = async (names: string[]) => {
+    try {
+      setCollections(await api.reorderCollections(names));
+    } catch (error) {
+      console.error('Failed to reorder collections:', error);
+      alert('Failed to reorder collections');
+    }
+  };
+
+  return {
+    collections,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    reorderCollections,
+    refetchCollections: fetchCollections,
+  };
+}
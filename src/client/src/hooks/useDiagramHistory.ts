@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { api } from '@/lib/electron';
+import type { CollectionInfo } from '@/lib/electron';
 
 export interface DiagramHistoryEntry {
   version?: number;
@@ -10,6 +11,55 @@ export interface DiagramHistoryEntry {
   diagram: string;
   title: string;
   collection: string | null;
+  folder?: string | null;  // Slash-separated path inside the collection
+}
+
+export interface SearchSnippet {
+  field: 'title' | 'collection' | 'label' | 'source';
+  text: string;
+  highlights: [number, number][];
+}
+
+interface SearchResult {
+  entry: DiagramHistoryEntry;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+// Wait for a pause in typing before querying the search service
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Key of a folder in the expanded groups set. Collection names cannot
+ * contain line breaks, so they never clash with other collections' folders.
+ */
+export function folderKey(collection: string, folder: string): string {
+  return `${collection}\n${folder}`;
+}
+
+/**
+ * The folder and every folder above it, outermost first,
+ * e.g. "a/b/c" gives ["a", "a/b", "a/b/c"]
+ */
+export function folderAncestors(folder: string | null | undefined): string[] {
+  if (!folder) return [];
+  const segments = folder.split('/');
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Orders diagrams the way the folder tree shows them: subfolders by name
+ * before the diagrams next to them. Equal positions keep their order.
+ */
+function compareTreeOrder(a: DiagramHistoryEntry, b: DiagramHistoryEntry): number {
+  const pathA = a.folder ? a.folder.split('/') : [];
+  const pathB = b.folder ? b.folder.split('/') : [];
+  for (let depth = 0; depth < Math.max(pathA.length, pathB.length); depth++) {
+    if (depth === pathA.length) return 1;
+    if (depth === pathB.length) return -1;
+    if (pathA[depth] !== pathB[depth]) return pathA[depth].localeCompare(pathB[depth]);
+  }
+  return 0;
 }
 
 export interface UseDiagramHistoryOptions {
@@ -19,12 +69,15 @@ export interface UseDiagramHistoryOptions {
   currentDiagramTitle?: string | null;
   onCurrentDiagramTitleChange?: (newTitle: string) => void;
   refreshTrigger?: number;
+  // Registered collections keep their order in the project view and show while empty
+  collections?: CollectionInfo[];
 }
 
-export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramId, currentDiagramTitle, onCurrentDiagramTitleChange, refreshTrigger }: UseDiagramHistoryOptions) {
+export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramId, currentDiagramTitle, onCurrentDiagramTitleChange, refreshTrigger, collections = [] }: UseDiagramHistoryOptions) {
   const [history, setHistory] = useState<DiagramHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedCollections, setExpandedCollections] = useState<Set<string>>(new Set(['Today']));
+  const [search, setSearch] = useState<{ query: string; results: SearchResult[] } | null>(null);
 
   // Always fetch history data, regardless of panel state
   // This ensures diagram loading works even when panel is closed
@@ -68,6 +121,54 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
     }
   };
 
+  // Move diagrams to other collections and folders, updating the list when all are saved
+  const applyMoves = async (moves: { id: string; collection: string | null; folder: string | null }[]) => {
+    try {
+      for (const { id, collection, folder } of moves) {
+        await api.moveDiagram(id, collection, folder);
+      }
+      const targets = new Map(moves.map(move => [move.id, move]));
+      setHistory(prev => prev.map(h => {
+        const move = targets.get(h.id);
+        return move ? { ...h, collection: move.collection, folder: move.collection ? move.folder : null } : h;
+      }));
+    } catch (error) {
+      console.error('Failed to move diagram:', error);
+      alert('Failed to move diagram');
+      // Some moves may have been saved before the failure
+      fetchHistory();
+    }
+  };
+
+  // Move a diagram into a collection (null for uncategorized) and folder
+  const moveDiagram = async (id: string, collection: string | null, folder: string | null) => {
+    const entry = history.find(h => h.id === id);
+    if (!entry || (entry.collection === collection && (entry.folder ?? null) === folder)) {
+      return;
+    }
+    await applyMoves([{ id, collection, folder }]);
+  };
+
+  // Move a folder, with everything below it, into another folder (null for
+  // the top of the collection). Search filters are ignored, so diagrams
+  // hidden by the search move too.
+  const moveFolder = async (fromCollection: string, folder: string, toCollection: string | null, toParent: string | null) => {
+    const sameCollection = fromCollection === toCollection;
+    if (sameCollection && toParent && (toParent === folder || toParent.startsWith(`${folder}/`))) {
+      return;  // Into itself
+    }
+    const name = folder.split('/').pop()!;
+    const target = toParent ? `${toParent}/${name}` : name;
+    if (sameCollection && target === folder) {
+      return;
+    }
+
+    const moves = history
+      .filter(h => h.collection === fromCollection && h.folder && (h.folder === folder || h.folder.startsWith(`${folder}/`)))
+      .map(h => ({ id: h.id, collection: toCollection, folder: target + h.folder!.slice(folder.length) }));
+    await applyMoves(moves);
+  };
+
   // Rename diagram
   const renameDiagram = async (entry: DiagramHistoryEntry, newTitle: string) => {
     if (!newTitle.trim() || newTitle === entry.title) {
@@ -127,16 +228,63 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
     });
   }, []);
 
-  // Filter history based on search query
+  // Run ranked full-text search as the query changes
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearch(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const results: SearchResult[] = await api.searchDiagrams(query, { limit: Math.max(history.length, 1) });
+        if (!cancelled) {
+          setSearch({ query, results });
+        }
+      } catch (error) {
+        console.error('Failed to search diagrams:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery, history]);
+
+  // Filter history based on search query, best match first
   const filteredHistory = useMemo(() => {
-    if (!searchQuery.trim()) return history;
+    const query = searchQuery.trim();
+    if (!query) return history;
+
+    // Until results for this query arrive, fall back to a plain substring match
+    if (search?.query !== query) {
+      const lowerQuery = query.toLowerCase();
+      return history.filter(entry =>
+        entry.title.toLowerCase().includes(lowerQuery) ||
+        entry.diagram.toLowerCase().includes(lowerQuery)
+      );
+    }
+
+    // Prefer the local entries, which carry renames not yet refetched
+    const historyById = new Map(history.map(entry => [entry.id, entry]));
+    return search.results
+      .map(result => historyById.get(result.entry.id))
+      .filter((entry): entry is DiagramHistoryEntry => entry !== undefined);
+  }, [history, searchQuery, search]);
+
+  // Snippets showing where each search result matched, keyed by diagram id
+  const searchSnippets = useMemo(() => {
+    const snippets = new Map<string, SearchSnippet[]>();
+    if (search && search.query === searchQuery.trim()) {
+      search.results.forEach(result => snippets.set(result.entry.id, result.snippets));
+    }
+    return snippets;
+  }, [search, searchQuery]);
 
-    const query = searchQuery.toLowerCase();
-    return history.filter(entry =>
-      entry.title.toLowerCase().includes(query) ||
-      entry.diagram.toLowerCase().includes(query)
-    );
-  }, [history, searchQuery]);
+  const isSearching = searchQuery.trim() !== '';
 
   // Group diagrams by date
   const dateGroupedHistory = useMemo(() => {
@@ -167,12 +315,15 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
       groups[groupName].push(entry);
     });
 
-    // Sort diagrams within each group by updatedAt (newest first)
-    Object.keys(groups).forEach(group => {
-      groups[group].sort((a, b) =>
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
-    });
+    // Sort diagrams within each group by updatedAt (newest first),
+    // but keep search results in rank order
+    if (!isSearching) {
+      Object.keys(groups).forEach(group => {
+        groups[group].sort((a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+      });
+    }
 
     // Return in a fixed order
     const orderedGroups: [string, DiagramHistoryEntry[]][] = [];
@@ -184,12 +335,38 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
     });
 
     return orderedGroups;
-  }, [filteredHistory]);
+  }, [filteredHistory, isSearching]);
+
+  // Collection names in project view order: registered collections in their
+  // saved order, then the rest by their most recently edited diagram
+  const collectionOrder = useMemo(() => {
+    const registered = collections
+      .filter(collection => collection.sortOrder !== null)
+      .map(collection => collection.name);
+
+    const mostRecent = new Map<string, number>();
+    history.forEach(entry => {
+      if (entry.collection && !registered.includes(entry.collection)) {
+        const updatedAt = new Date(entry.updatedAt).getTime();
+        mostRecent.set(entry.collection, Math.max(mostRecent.get(entry.collection) ?? 0, updatedAt));
+      }
+    });
+    const rest = Array.from(mostRecent.keys()).sort((a, b) => mostRecent.get(b)! - mostRecent.get(a)!);
 
-  // Group diagrams by collection and sort collections by most recent diagram
+    return [...registered, ...rest];
+  }, [collections, history]);
+
+  // Group diagrams by collection in collection order, uncategorized last
   const collectionGroupedHistory = useMemo(() => {
     const groups: Record<string, DiagramHistoryEntry[]> = {};
 
+    // Empty collections only show while not searching
+    if (!isSearching) {
+      collectionOrder.forEach(collection => {
+        groups[collection] = [];
+      });
+    }
+
     // Group diagrams by collection
     filteredHistory.forEach(entry => {
       const collectionName = entry.collection || 'uncategorized';
@@ -199,34 +376,34 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
       groups[collectionName].push(entry);
     });
 
-    // Sort diagrams within each collection by updatedAt (newest first)
+    // Sort diagrams within each collection by updatedAt (newest first),
+    // but keep search results in rank order, then into folder tree order
     Object.keys(groups).forEach(collection => {
-      groups[collection].sort((a, b) =>
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
-    });
-
-    // Sort collections by the most recently edited diagram in each collection
-    const sortedCollections = Object.entries(groups).sort(([, diagramsA], [, diagramsB]) => {
-      // Get the most recent updatedAt date in each collection
-      const mostRecentA = Math.max(...diagramsA.map(d => new Date(d.updatedAt).getTime()));
-      const mostRecentB = Math.max(...diagramsB.map(d => new Date(d.updatedAt).getTime()));
-      // Sort by most recent first
-      return mostRecentB - mostRecentA;
+      if (!isSearching) {
+        groups[collection].sort((a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+      }
+      groups[collection].sort(compareTreeOrder);
     });
 
-    return sortedCollections;
-  }, [filteredHistory]);
+    const position = (collection: string) =>
+      collection === 'uncategorized' ? Infinity : collectionOrder.indexOf(collection);
+    return Object.entries(groups).sort(([a], [b]) => position(a) - position(b));
+  }, [filteredHistory, isSearching, collectionOrder]);
 
   // Expand all collections when searching
   useEffect(() => {
     if (searchQuery) {
       const collectionsWithResults = new Set<string>();
 
-      // Find all collections that have matching diagrams
+      // Find all collections and folders that have matching diagrams
       filteredHistory.forEach(entry => {
         const collectionName = entry.collection || 'uncategorized';
         collectionsWithResults.add(collectionName);
+        folderAncestors(entry.folder).forEach(folder => {
+          collectionsWithResults.add(folderKey(collectionName, folder));
+        });
       });
 
       // Also add date groups if in date mode
@@ -282,9 +459,10 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
       // Expand that date group
       setExpandedCollections(prev => new Set([...prev, groupName]));
     } else {
-      // Expand the collection containing this diagram
+      // Expand the collection and folders containing this diagram
       const collectionName = currentEntry.collection || 'uncategorized';
-      setExpandedCollections(prev => new Set([...prev, collectionName]));
+      const folderKeys = folderAncestors(currentEntry.folder).map(folder => folderKey(collectionName, folder));
+      setExpandedCollections(prev => new Set([...prev, collectionName, ...folderKeys]));
     }
   }, [currentDiagramId, history, organizeByDate]);
 
@@ -292,11 +470,14 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
   const getNthDiagramInExpandedGroups = useCallback((n: number): string | null => {
     const groups = organizeByDate ? dateGroupedHistory : collectionGroupedHistory;
     
-    // Collect all diagrams from expanded groups
+    // Collect all diagrams from expanded groups, skipping collapsed folders
     const expandedDiagrams: DiagramHistoryEntry[] = [];
     groups.forEach(([groupName, diagrams]) => {
       if (expandedCollections.has(groupName)) {
-        expandedDiagrams.push(...diagrams);
+        expandedDiagrams.push(...diagrams.filter(entry =>
+          organizeByDate ||
+          folderAncestors(entry.folder).every(folder => expandedCollections.has(folderKey(groupName, folder)))
+        ));
       }
     });
     
@@ -308,14 +489,18 @@ export function useDiagramHistory({ searchQuery, organizeByDate, currentDiagramI
   return {
     history: filteredHistory,
     totalDiagrams: history.length,
+    searchSnippets,
     loading,
     expandedCollections,
     groupedHistory: organizeByDate ? dateGroupedHistory : collectionGroupedHistory,
+    collectionOrder,
     formatDate,
     toggleCollection,
     getNthDiagramInExpandedGroups,
     deleteDiagram,
     renameDiagram,
+    moveDiagram,
+    moveFolder,
     refetchHistory: fetchHistory,
   };
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { api } from '@/lib/electron';
+
+export interface DiagramRevision {
+  createdAt: string;
+  source: 'mcp' | 'editor';
+  diagram: string;
+}
+
+/**
+ * Hook to load the append-only source revisions of a diagram.
+ * Revisions are fetched on demand since they change with every save.
+ */
+export function useDiagramRevisions(diagramId: string | null) {
+  const [revisions, setRevisions] = useState<DiagramRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!diagramId) {
+      setRevisions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await api.getRevisions(diagramId);
+      setRevisions(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Failed to fetch diagram revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [diagramId]);
+
+  return {
+    revisions,
+    loading,
+    fetchRevisions,
+  };
+}
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import mermaid from 'mermaid';
+import { api, PdfExportOptions } from '@/lib/electron';
 
 export interface ExportDiagramOptions {
   isDarkMode: boolean;
@@ -216,6 +217,45 @@ export function useExportDiagram({ isDarkMode }: ExportDiagramOptions) {
     }
   }, [isDarkMode]);
 
+  // Resolves to true once the PDF is written, false if the save was canceled
+  const exportAsPdf = useCallback(async (diagram: string, title: string, options: Omit<PdfExportOptions, 'background'>) => {
+    try {
+      // Initialize mermaid with appropriate theme
+      mermaid.initialize({
+        startOnLoad: false,
+        theme: isDarkMode ? 'dark' : 'default',
+        securityLevel: 'strict',
+        suppressErrorRendering: true,
+        flowchart: {
+          useMaxWidth: false,
+          htmlLabels: true,
+        },
+      });
+
+      // Generate unique ID for rendering
+      const id = `mermaid-export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const { svg } = await mermaid.render(id, diagram);
+
+      const result = await api.showSaveDialog({
+        title: 'Export as PDF',
+        defaultPath: `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`,
+        filters: [{ name: 'PDF', extensions: ['pdf'] }],
+      });
+      if (result.canceled || !result.filePath) return false;
+
+      // Page background matches the UI panels, like the other exports
+      await api.exportPDF(svg, result.filePath, {
+        ...options,
+        background: isDarkMode ? '#262626' : '#f5f5f5',
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      alert('Failed to export PDF');
+      return false;
+    }
+  }, [isDarkMode]);
+
   const exportAsMermaid = useCallback((diagram: string, title: string) => {
     try {
       // Create a blob with the Mermaid diagram text
@@ -403,5 +443,5 @@ export function useExportDiagram({ isDarkMode }: ExportDiagramOptions) {
     }
   }, [isDarkMode, exportAsPng]);
 
-  return { exportAsPng, exportAsSvg, exportAsMermaid, copyImageToClipboard };
+  return { exportAsPng, exportAsSvg, exportAsPdf, exportAsMermaid, copyImageToClipboard };
 }
\ No newline at end of file
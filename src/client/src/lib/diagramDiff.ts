@@ -0,0 +1,162 @@
+/**
+ * Structural diff between two flowchart sources.
+ * Used by the diff view to mark added, removed and relabelled nodes and edges
+ * in the rendered diagram. Other diagram types only get a source diff.
+ */
+
+export interface FlowchartGraph {
+  nodes: Map<string, string>;  // node id -> label
+  edges: Map<string, string>;  // edge key -> label
+}
+
+export interface DiagramElements {
+  nodes: string[];
+  edges: string[];  // edge keys, see edgeKey()
+}
+
+export interface DiagramDiff {
+  added: DiagramElements;
+  removed: DiagramElements;
+  relabelled: DiagramElements;
+}
+
+const FLOWCHART_HEADER = /^\s*(graph|flowchart)\b/;
+
+// Lines that never declare nodes or edges
+const NON_GRAPH_LINE = /^\s*(%%|classDef\b|class\b|style\b|linkStyle\b|click\b|direction\b|end\b|subgraph\b|accTitle\b|accDescr\b)/;
+
+// Node shapes: id["label"], id[label], id(label), id((label)), id{label}, id{{label}}, id[(label)], id[[label]], id>label]
+const NODE_SHAPE = /([A-Za-z0-9_]+)\s*(\(\(|\[\[|\[\(|\{\{|\[\/|\[\\|\[|\(|\{|>)\s*("([^"]*)"|[^\]\)\}"]*?)\s*(\)\)|\]\]|\)\]|\}\}|\/\]|\\\]|\]|\)|\})/g;
+
+// Arrows with optional |label|, e.g. -->, ---, -.->, ==>, --o, --x, <-->
+const ARROW = /\s*(<?(?:-{2,}|={2,}|-\.+-?)(?:>|o|x)?)(?:\|([^|]*)\|)?\s*/;
+
+// "A -- text --> B" style labels, rewritten to "A -->|text| B"
+const INLINE_EDGE_LABEL = /(--|==|-\.)\s+([^\s-=.>|][^>|]*?)\s+(-->|==>|\.->|---|===)/g;
+
+/**
+ * Whether the source is a flowchart that can be diffed structurally
+ */
+export function isFlowchart(source: string): boolean {
+  const firstLine = source
+    .split('\n')
+    .find(line => line.trim() && !line.trim().startsWith('%%'));
+  return firstLine !== undefined && FLOWCHART_HEADER.test(firstLine);
+}
+
+/**
+ * Key that identifies an edge between versions. Repeated edges between the
+ * same nodes are numbered in source order.
+ */
+export function edgeKey(from: string, to: string, occurrence: number): string {
+  return `${from}->${to}#${occurrence}`;
+}
+
+/**
+ * Splits an edge key back into its endpoints
+ */
+export function parseEdgeKey(key: string): { from: string; to: string; occurrence: number } {
+  const [endpoints, occurrence] = key.split('#');
+  const [from, to] = endpoints.split('->');
+  return { from, to, occurrence: Number(occurrence) };
+}
+
+/**
+ * Extracts nodes and edges from a flowchart source
+ */
+export function parseFlowchartGraph(source: string): FlowchartGraph {
+  const nodes = new Map<string, string>();
+  const edges = new Map<string, string>();
+  const edgeCounts = new Map<string, number>();
+
+  const lines = source.split('\n').slice(1);
+
+  for (const rawLine of lines) {
+    if (!rawLine.trim() || NON_GRAPH_LINE.test(rawLine)) continue;
+
+    // A line can hold several statements separated by semicolons
+    for (const statement of rawLine.split(';')) {
+      // Record node labels and reduce shapes to bare ids
+      const withoutShapes = statement.replace(NODE_SHAPE, (_match, id: string, _open, raw: string, quoted?: string) => {
+        nodes.set(id, (quoted ?? raw).trim());
+        return id;
+      });
+
+      const normalized = withoutShapes
+        .replace(INLINE_EDGE_LABEL, (_match, _start, text: string, arrow: string) => `${arrow}|${text}|`)
+        .replace(/:::[A-Za-z0-9_-]+/g, '');
+
+      const parts = normalized.split(ARROW);
+      // split() with two capture groups yields [nodes, arrow, label, nodes, arrow, label, nodes...]
+      const groups: string[][] = [];
+      const labels: string[] = [];
+      for (let i = 0; i < parts.length; i += 3) {
+        groups.push(
+          parts[i]
+            .split('&')
+            .map(id => id.trim())
+            .filter(id => /^[A-Za-z0-9_]+$/.test(id))
+        );
+        if (i + 2 < parts.length) {
+          labels.push((parts[i + 2] ?? '').trim());
+        }
+      }
+
+      for (const group of groups) {
+        for (const id of group) {
+          if (!nodes.has(id)) nodes.set(id, id);
+        }
+      }
+
+      for (let i = 0; i < groups.length - 1; i++) {
+        for (const from of groups[i]) {
+          for (const to of groups[i + 1]) {
+            const pair = `${from}->${to}`;
+            const occurrence = edgeCounts.get(pair) ?? 0;
+            edgeCounts.set(pair, occurrence + 1);
+            edges.set(edgeKey(from, to, occurrence), labels[i] ?? '');
+          }
+        }
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+function diffMaps(before: Map<string, string>, after: Map<string, string>) {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const relabelled: string[] = [];
+
+  after.forEach((label, key) => {
+    if (!before.has(key)) {
+      added.push(key);
+    } else if (before.get(key) !== label) {
+      relabelled.push(key);
+    }
+  });
+  before.forEach((_label, key) => {
+    if (!after.has(key)) removed.push(key);
+  });
+
+  return { added, removed, relabelled };
+}
+
+/**
+ * Compares two flowchart sources. Returns null when either side is not a flowchart.
+ */
+export function diffFlowcharts(before: string, after: string): DiagramDiff | null {
+  if (!isFlowchart(before) || !isFlowchart(after)) return null;
+
+  const beforeGraph = parseFlowchartGraph(before);
+  const afterGraph = parseFlowchartGraph(after);
+  const nodes = diffMaps(beforeGraph.nodes, afterGraph.nodes);
+  const edges = diffMaps(beforeGraph.edges, afterGraph.edges);
+
+  return {
+    added: { nodes: nodes.added, edges: edges.added },
+    removed: { nodes: nodes.removed, edges: edges.removed },
+    relabelled: { nodes: nodes.relabelled, edges: edges.relabelled },
+  };
+}
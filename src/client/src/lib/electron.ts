@@ -3,7 +3,7 @@
  * Provides a unified API that works in both Electron and browser environments
  */
 
-import type { ElectronAPI } from '../../../electron/preload.js';
+import type { CollectionInfo, CollectionUpdate, Diagnostic, ElectronAPI, MenuEvent, OpenApiImportResult, OpenApiSpecSummary, PdfExportOptions, SyncConfig, SyncResult, SyncStatus, ValidationResult } from '../../../electron/preload.js';
 
 // Check if we're running in Electron
 export const isElectron = typeof window !== 'undefined' && window.electron?.isElectron === true;
@@ -39,7 +39,7 @@ export const api = {
     return response.json();
   },
 
-  async validateDiagram(diagram: string) {
+  async validateDiagram(diagram: string): Promise<ValidationResult> {
     if (electronAPI) {
       return electronAPI.validateDiagram(diagram);
     }
@@ -63,6 +63,18 @@ export const api = {
     return response.json();
   },
 
+  // Returns null when no diagram has this id
+  async getDiagram(id: string) {
+    if (electronAPI) {
+      return electronAPI.getDiagram(id);
+    }
+    const response = await fetch(`/api/history/${id}`);
+    if (response.status === 404) {
+      return null;
+    }
+    return response.json();
+  },
+
   async saveDiagram(diagram: string, title: string, collection: string | null) {
     if (electronAPI) {
       return electronAPI.saveDiagram(diagram, title, collection);
@@ -75,7 +87,7 @@ export const api = {
     return response.json();
   },
 
-  async updateDiagram(id: string, updates: { title?: string; collection?: string | null; diagram?: string }) {
+  async updateDiagram(id: string, updates: { title?: string; collection?: string | null; folder?: string | null; diagram?: string }) {
     if (electronAPI) {
       return electronAPI.updateDiagram(id, updates);
     }
@@ -97,20 +109,44 @@ export const api = {
     return response.json();
   },
 
-  async moveDiagram(id: string, collection: string | null) {
+  // Without a folder the diagram keeps its current one
+  async moveDiagram(id: string, collection: string | null, folder?: string | null) {
     if (electronAPI) {
-      return electronAPI.moveDiagram(id, collection);
+      return electronAPI.moveDiagram(id, collection, folder);
     }
     const response = await fetch(`/api/history/${id}/collection`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ collection }),
+      body: JSON.stringify({ collection, folder }),
     });
     return response.json();
   },
 
+  async getRevisions(id: string) {
+    if (electronAPI) {
+      return electronAPI.getRevisions(id);
+    }
+    const response = await fetch(`/api/history/${id}/revisions`);
+    return response.json();
+  },
+
+  async searchDiagrams(query: string, options?: { collection?: string | null; limit?: number }) {
+    if (electronAPI) {
+      return electronAPI.searchDiagrams(query, options);
+    }
+    const params = new URLSearchParams({ q: query });
+    if (options?.collection !== undefined) {
+      params.set('collection', options.collection ?? '');
+    }
+    if (options?.limit !== undefined) {
+      params.set('limit', String(options.limit));
+    }
+    const response = await fetch(`/api/search?${params}`);
+    return response.json();
+  },
+
   // Collection operations
-  async getCollections() {
+  async getCollections(): Promise<CollectionInfo[]> {
     if (electronAPI) {
       return electronAPI.getCollections();
     }
@@ -118,16 +154,67 @@ export const api = {
     return response.json();
   },
 
-  async createCollection(name: string) {
+  async createCollection(name: string, details?: Omit<CollectionUpdate, 'name'>): Promise<CollectionInfo> {
     if (electronAPI) {
-      return electronAPI.createCollection(name);
+      return electronAPI.createCollection(name, details);
     }
     const response = await fetch('/api/collections', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, ...details }),
     });
-    return response.json();
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create collection');
+    }
+    return data;
+  },
+
+  async updateCollection(name: string, updates: CollectionUpdate): Promise<CollectionInfo> {
+    if (electronAPI) {
+      return electronAPI.updateCollection(name, updates);
+    }
+    const response = await fetch(`/api/collections/${encodeURIComponent(name)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update collection');
+    }
+    return data;
+  },
+
+  async deleteCollection(name: string, moveTo: string | null): Promise<{ moved: number }> {
+    if (electronAPI) {
+      return electronAPI.deleteCollection(name, moveTo);
+    }
+    const query = moveTo ? `?${new URLSearchParams({ moveTo })}` : '';
+    const response = await fetch(`/api/collections/${encodeURIComponent(name)}${query}`, {
+      method: 'DELETE',
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to delete collection');
+    }
+    return data;
+  },
+
+  async reorderCollections(names: string[]): Promise<CollectionInfo[]> {
+    if (electronAPI) {
+      return electronAPI.reorderCollections(names);
+    }
+    const response = await fetch('/api/collections/order', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ names }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to reorder collections');
+    }
+    return data;
   },
 
   // App operations
@@ -147,6 +234,85 @@ export const api = {
     return { success: true };
   },
 
+  // Library import/export (Electron only: the files live on the user's machine)
+  async exportLibrary(filePath: string, collection?: string | null) {
+    if (!electronAPI) {
+      throw new Error('Library export is only available in the desktop app');
+    }
+    return electronAPI.exportLibrary(filePath, collection);
+  },
+
+  async importLibrary(filePath: string, onCollision: 'skip' | 'overwrite' | 'duplicate') {
+    if (!electronAPI) {
+      throw new Error('Library import is only available in the desktop app');
+    }
+    return electronAPI.importLibrary(filePath, onCollision);
+  },
+
+  // OpenAPI import (Electron only: the spec is read from the user's machine)
+  async inspectOpenApi(filePath: string): Promise<OpenApiSpecSummary> {
+    if (!electronAPI) {
+      throw new Error('OpenAPI import is only available in the desktop app');
+    }
+    return electronAPI.inspectOpenApi(filePath);
+  },
+
+  async importOpenApi(
+    filePath: string,
+    options: { operations?: string[]; overview?: boolean },
+    collection: string | null,
+  ): Promise<OpenApiImportResult> {
+    if (!electronAPI) {
+      throw new Error('OpenAPI import is only available in the desktop app');
+    }
+    return electronAPI.importOpenApi(filePath, options, collection);
+  },
+
+  // Team Mode sync
+  async getSyncStatus(): Promise<SyncStatus> {
+    if (electronAPI) {
+      return electronAPI.getSyncStatus();
+    }
+    const response = await fetch('/api/sync');
+    return response.json();
+  },
+
+  async configureSync(config: SyncConfig | null): Promise<SyncStatus> {
+    if (electronAPI) {
+      return electronAPI.configureSync(config);
+    }
+    const response = await fetch('/api/sync', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to configure sync');
+    }
+    return data;
+  },
+
+  async syncNow(): Promise<SyncResult> {
+    if (electronAPI) {
+      return electronAPI.syncNow();
+    }
+    const response = await fetch('/api/sync/run', { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to sync');
+    }
+    return data;
+  },
+
+  // PDF export (Electron only: printing needs a native window)
+  async exportPDF(svg: string, filePath: string, options: PdfExportOptions) {
+    if (!electronAPI) {
+      throw new Error('PDF export is only available in the desktop app');
+    }
+    return electronAPI.exportPDF(svg, filePath, options);
+  },
+
   async showSaveDialog(options: {
     title?: string;
     defaultPath?: string;
@@ -234,6 +400,26 @@ export const api = {
     return () => {};
   },
 
+  // History change events: IPC in Electron, server-sent events in the browser
+  onHistoryChanged(callback: (data: { type: 'created' | 'updated' | 'deleted'; id: string }) => void): () => void {
+    if (electronAPI?.onHistoryChanged) {
+      return electronAPI.onHistoryChanged(callback);
+    }
+    const source = new EventSource('/api/events');
+    source.addEventListener('history', (event) => {
+      callback(JSON.parse((event as MessageEvent).data));
+    });
+    return () => source.close();
+  },
+
+  // Menu event listeners (Electron only)
+  onMenuEvent(event: MenuEvent, callback: () => void): () => void {
+    if (electronAPI?.onMenuEvent) {
+      return electronAPI.onMenuEvent(event, callback);
+    }
+    return () => {};
+  },
+
   // Window event listeners (Electron only)
   onWindowFocus(callback: () => void): () => void {
     if (electronAPI?.onWindowFocus) {
@@ -255,4 +441,4 @@ export const api = {
 };
 
 // Re-export types
-export type { ElectronAPI };
+export type { CollectionInfo, CollectionUpdate, Diagnostic, ElectronAPI, MenuEvent, OpenApiImportResult, OpenApiSpecSummary, PdfExportOptions, SyncConfig, SyncResult, SyncStatus, ValidationResult };
@@ -0,0 +1,218 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import type { Diagnostic } from '@/lib/electron';
+
+// Marker owner and source for validation results
+const DIAGNOSTICS_OWNER = 'mermaid-validation';
+const DIAGNOSTICS_SOURCE = 'mermaid';
+
+// Diagnostics with fixes per model, with the line text they were computed for
+const fixableDiagnostics = new WeakMap<editor.ITextModel, { diagnostic: Diagnostic; lineText: string }[]>();
+
+/**
+ * Registers the Mindpilot editor themes and the Mermaid language with Monaco.
+ * Shared by every editor instance, so it only runs once per Monaco instance.
+ */
+export function configureMermaidMonaco(monaco: Monaco) {
+  if (monaco.languages.getLanguages().some((language: { id: string }) => language.id === 'mermaid')) {
+    return;
+  }
+
+  // Define custom dark theme matching the app's dark mode
+  monaco.editor.defineTheme('mindpilot-dark', {
+    base: 'vs-dark',
+    inherit: true,
+    rules: [],
+    colors: {
+      'editor.background': '#262626', // neutral-800
+      'editor.foreground': '#f5f5f5', // neutral-100
+      'editor.lineHighlightBackground': '#ea580c20', // orange-600 with opacity
+      'editor.lineHighlightBorder': '#ea580c40', // orange-600 border with opacity
+      'editor.selectionBackground': '#525252', // neutral-600
+      'editor.inactiveSelectionBackground': '#404040', // neutral-700
+      'editorCursor.foreground': '#fb923c', // orange-400
+      'editorLineNumber.foreground': '#737373', // neutral-500
+      'editorLineNumber.activeForeground': '#fb923c', // orange-400
+    }
+  });
+
+  // Define custom light theme
+  monaco.editor.defineTheme('mindpilot-light', {
+    base: 'vs',
+    inherit: true,
+    rules: [],
+    colors: {
+      'editor.background': '#fafafa', // neutral-50
+      'editor.foreground': '#171717', // neutral-900
+      'editor.lineHighlightBackground': '#f9731615', // orange-500 with low opacity
+      'editor.lineHighlightBorder': '#f9731625', // orange-500 border with opacity
+      'editor.selectionBackground': '#00000015',
+      'editorCursor.foreground': '#f97316', // orange-500
+      'editorLineNumber.foreground': '#737373', // neutral-500
+      'editorLineNumber.activeForeground': '#f97316', // orange-500
+    }
+  });
+
+  // Register Mermaid language
+  monaco.languages.register({ id: 'mermaid' });
+
+  // Set Mermaid language configuration
+  monaco.languages.setLanguageConfiguration('mermaid', {
+    comments: {
+      lineComment: '%%',
+    },
+    brackets: [
+      ['{', '}'],
+      ['[', ']'],
+      ['(', ')'],
+    ],
+    autoClosingPairs: [
+      { open: '{', close: '}' },
+      { open: '[', close: ']' },
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+      { open: "'", close: "'" },
+    ],
+    surroundingPairs: [
+      { open: '{', close: '}' },
+      { open: '[', close: ']' },
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+      { open: "'", close: "'" },
+    ],
+  });
+
+  // Set Mermaid syntax highlighting
+  monaco.languages.setMonarchTokensProvider('mermaid', {
+    keywords: [
+      'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram',
+      'erDiagram', 'gantt', 'pie', 'gitGraph', 'journey', 'quadrantChart',
+      'TB', 'TD', 'BT', 'RL', 'LR', 'subgraph', 'end', 'participant',
+      'actor', 'boundary', 'control', 'entity', 'database', 'collections',
+      'queue', 'note', 'activate', 'deactivate', 'loop', 'alt', 'else',
+      'opt', 'par', 'and', 'critical', 'break', 'rect', 'over', 'of',
+      'left', 'right', 'class', 'click', 'call', 'state', 'choice',
+      'fork', 'join', 'function', 'section', 'title', 'dateFormat',
+      'axisFormat', 'excludes', 'includes', 'todayMarker', 'tickInterval',
+      'style', 'linkStyle', 'classDef', 'callback', 'link', 'click',
+    ],
+
+    operators: [
+      '-->', '---', '-.->',  '-.-', '==>', '===', '--|', '|--',
+      '-->|', '|-->',
+    ],
+
+    tokenizer: {
+      root: [
+        // Comments
+        [/%%.*$/, 'comment'],
+
+        // Keywords
+        [/\b(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|gantt|pie|gitGraph|journey|quadrantChart)\b/, 'keyword'],
+        [/\b(TB|TD|BT|RL|LR|subgraph|end|participant|actor|note|loop|alt|else|opt|par|and|critical|break|rect|over|of|left|right)\b/, 'keyword'],
+        [/\b(class|click|call|state|choice|fork|join|function|section|title|dateFormat|axisFormat|excludes|includes|todayMarker|tickInterval)\b/, 'keyword'],
+        [/\b(style|linkStyle|classDef|callback|link)\b/, 'keyword'],
+
+        // Node IDs and labels
+        [/[A-Za-z][A-Za-z0-9_]*/, 'identifier'],
+
+        // Strings
+        [/"([^"\\]|\\.)*$/, 'string.invalid'],
+        [/"/, 'string', '@string'],
+
+        // Operators
+        [/(-->|---|-.->|-.-|==>|===|--\||-->\||\|-->)/, 'operator'],
+
+        // Brackets
+        [/[\[\]]/, '@brackets'],
+        [/[{}]/, '@brackets'],
+        [/[()]/, '@brackets'],
+
+        // Numbers
+        [/\d+/, 'number'],
+      ],
+
+      string: [
+        [/[^\\"]+/, 'string'],
+        [/\\./, 'string.escape'],
+        [/"/, 'string', '@pop'],
+      ],
+    },
+  });
+
+  // Offer each diagnostic's suggested fix as a quick fix
+  monaco.languages.registerCodeActionProvider('mermaid', {
+    provideCodeActions(model: editor.ITextModel, _range: unknown, context: languages.CodeActionContext) {
+      const actions: languages.CodeAction[] = [];
+
+      context.markers
+        .filter((marker) => marker.source === DIAGNOSTICS_SOURCE)
+        .forEach((marker) => {
+          const match = fixableDiagnostics.get(model)?.find(({ diagnostic }) =>
+            diagnostic.line === marker.startLineNumber && diagnostic.code === marker.code
+          );
+          // Skip fixes for lines edited since validation
+          if (!match?.diagnostic.fix || model.getLineContent(match.diagnostic.line) !== match.lineText) return;
+
+          const { line, fix } = match.diagnostic;
+          actions.push({
+            title: `Fix: ${fix.message}`,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            isPreferred: true,
+            edit: {
+              edits: [{
+                resource: model.uri,
+                versionId: model.getVersionId(),
+                textEdit: {
+                  range: new monaco.Range(line, 1, line, model.getLineMaxColumn(line)),
+                  text: fix.replacement,
+                },
+              }],
+            },
+          });
+        });
+
+      return { actions, dispose: () => {} };
+    },
+  });
+}
+
+/**
+ * Shows validation diagnostics as markers on a Mermaid model and remembers
+ * their fixes for the quick fix menu. Pass an empty list to clear them.
+ */
+export function setMermaidDiagnostics(monaco: Monaco, model: editor.ITextModel, diagnostics: Diagnostic[]) {
+  const severities = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  };
+  const lineCount = model.getLineCount();
+  const inRange = diagnostics.filter((diagnostic) => diagnostic.line >= 1 && diagnostic.line <= lineCount);
+
+  monaco.editor.setModelMarkers(model, DIAGNOSTICS_OWNER, inRange.map((diagnostic) => {
+    const maxColumn = model.getLineMaxColumn(diagnostic.line);
+    let startColumn = Math.min(diagnostic.column, maxColumn);
+    const endColumn = Math.min(diagnostic.endColumn ?? maxColumn, maxColumn);
+    // Errors at the end of a line underline the whole line
+    if (startColumn >= endColumn) {
+      startColumn = model.getLineFirstNonWhitespaceColumn(diagnostic.line) || 1;
+    }
+
+    return {
+      startLineNumber: diagnostic.line,
+      startColumn,
+      endLineNumber: diagnostic.line,
+      endColumn,
+      severity: severities[diagnostic.severity],
+      code: diagnostic.code,
+      message: diagnostic.message,
+      source: DIAGNOSTICS_SOURCE,
+    };
+  }));
+
+  fixableDiagnostics.set(model, inRange
+    .filter((diagnostic) => diagnostic.fix)
+    .map((diagnostic) => ({ diagnostic, lineText: model.getLineContent(diagnostic.line) })));
+}
@@ -0,0 +1,111 @@
+/**
+ * Headless Electron Renderer Entry Point
+ *
+ * Renders one Mermaid diagram to SVG and PNG in an offscreen window, then exits.
+ * Launched by the MCP server with:
+ *   --input <file>   JSON file with { diagram, background }
+ *   --output <file>  JSON file that receives { svg, png } (png is base64)
+ *
+ * This is a separate entry point from main.ts so it never takes the
+ * single-instance lock or shows any UI.
+ */
+
+import { app, BrowserWindow } from 'electron';
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+// Padding around the diagram in the PNG, in CSS pixels
+const PADDING = 16;
+// Largest PNG dimension, to keep huge diagrams from exhausting memory
+const MAX_DIMENSION = 8192;
+
+interface HeadlessRenderInput {
+  diagram: string;
+  background?: string;
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function render(input: HeadlessRenderInput): Promise<{ svg: string; png: string }> {
+  const window = new BrowserWindow({
+    show: false,
+    width: 1024,
+    height: 768,
+    webPreferences: {
+      offscreen: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  try {
+    const background = input.background || 'white';
+    const html = `<!DOCTYPE html><html><body style="margin:0;padding:${PADDING}px;background:${background.replace(/[<>"]/g, '')};display:inline-block"><div id="container"></div></body></html>`;
+    await window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+
+    const mermaidSource = await fs.readFile(require.resolve('mermaid/dist/mermaid.min.js'), 'utf-8');
+    await window.webContents.executeJavaScript(mermaidSource);
+
+    const { svg, width, height } = await window.webContents.executeJavaScript(`(async () => {
+      mermaid.initialize({
+        startOnLoad: false,
+        theme: 'default',
+        securityLevel: 'strict',
+        flowchart: { useMaxWidth: false, htmlLabels: true },
+      });
+      const { svg } = await mermaid.render('mindpilot-headless', ${JSON.stringify(input.diagram)});
+      const container = document.getElementById('container');
+      container.innerHTML = svg;
+      const box = container.querySelector('svg').getBoundingClientRect();
+      return { svg, width: Math.ceil(box.width), height: Math.ceil(box.height) };
+    })()`);
+
+    const captureWidth = Math.min(width + PADDING * 2, MAX_DIMENSION);
+    const captureHeight = Math.min(height + PADDING * 2, MAX_DIMENSION);
+    window.setContentSize(captureWidth, captureHeight);
+
+    // Give the offscreen window a frame to repaint at the new size
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const image = await window.webContents.capturePage({
+      x: 0,
+      y: 0,
+      width: captureWidth,
+      height: captureHeight,
+    });
+
+    return { svg, png: image.toPNG().toString('base64') };
+  } finally {
+    window.destroy();
+  }
+}
+
+async function run(): Promise<void> {
+  const inputPath = getArg('--input');
+  const outputPath = getArg('--output');
+
+  if (!inputPath || !outputPath) {
+    console.error('[HeadlessRenderer] --input and --output are required');
+    app.exit(1);
+    return;
+  }
+
+  try {
+    const input = JSON.parse(await fs.readFile(inputPath, 'utf-8')) as HeadlessRenderInput;
+    const result = await render(input);
+    await fs.writeFile(outputPath, JSON.stringify(result));
+    app.exit(0);
+  } catch (error) {
+    console.error('[HeadlessRenderer] Failed to render diagram:', error);
+    app.exit(1);
+  }
+}
+
+// No dock icon or windows; this process only renders and exits
+app.dock?.hide();
+app.whenReady().then(run);
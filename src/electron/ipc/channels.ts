@@ -10,14 +10,36 @@ export const IPC_CHANNELS = {
 
   // History operations
   HISTORY_LIST: 'history:list',
+  HISTORY_GET: 'history:get',
   HISTORY_SAVE: 'history:save',
   HISTORY_UPDATE: 'history:update',
   HISTORY_DELETE: 'history:delete',
   HISTORY_MOVE: 'history:move',
+  HISTORY_REVISIONS: 'history:revisions',
+  HISTORY_SEARCH: 'history:search',
 
   // Collection operations
   COLLECTIONS_LIST: 'collections:list',
   COLLECTIONS_CREATE: 'collections:create',
+  COLLECTIONS_UPDATE: 'collections:update',
+  COLLECTIONS_DELETE: 'collections:delete',
+  COLLECTIONS_REORDER: 'collections:reorder',
+
+  // Library import/export
+  LIBRARY_EXPORT: 'library:export',
+  LIBRARY_IMPORT: 'library:import',
+
+  // OpenAPI import
+  OPENAPI_INSPECT: 'openapi:inspect',
+  OPENAPI_IMPORT: 'openapi:import',
+
+  // Export operations
+  EXPORT_PDF: 'export:pdf',
+
+  // Team Mode sync
+  SYNC_STATUS: 'sync:status',
+  SYNC_CONFIGURE: 'sync:configure',
+  SYNC_RUN: 'sync:run',
 
   // App operations
   APP_GET_STATUS: 'app:getStatus',
@@ -39,9 +61,46 @@ export const IPC_CHANNELS = {
   MCP_DIAGRAM_UPDATE: 'mcp:diagramUpdate',
   MCP_STATUS: 'mcp:status',
 
+  // History events (main -> renderer)
+  HISTORY_CHANGED: 'history:changed',
+
+  // Menu events (main -> renderer)
+  MENU_NEW_DIAGRAM: 'menu:newDiagram',
+  MENU_EXPORT_SVG: 'menu:exportSVG',
+  MENU_EXPORT_PNG: 'menu:exportPNG',
+  MENU_EXPORT_PDF: 'menu:exportPDF',
+  MENU_EXPORT_LIBRARY: 'menu:exportLibrary',
+  MENU_IMPORT_LIBRARY: 'menu:importLibrary',
+  MENU_IMPORT_OPENAPI: 'menu:importOpenAPI',
+  MENU_TOGGLE_SIDEBAR: 'menu:toggleSidebar',
+  MENU_TOGGLE_THEME: 'menu:toggleTheme',
+  MENU_ZOOM_IN: 'menu:zoomIn',
+  MENU_ZOOM_OUT: 'menu:zoomOut',
+  MENU_ZOOM_RESET: 'menu:zoomReset',
+  MENU_ABOUT: 'menu:about',
+
   // Window events (main -> renderer)
   WINDOW_FOCUS: 'window:focus',
   WINDOW_BLUR: 'window:blur',
 } as const;
 
 export type IPCChannel = typeof IPC_CHANNELS[keyof typeof IPC_CHANNELS];
+
+// Channels the native menu sends to the focused window
+export type MenuEvent = Extract<IPCChannel, `menu:${string}`>;
+
+export const MENU_EVENTS: MenuEvent[] = [
+  IPC_CHANNELS.MENU_NEW_DIAGRAM,
+  IPC_CHANNELS.MENU_EXPORT_SVG,
+  IPC_CHANNELS.MENU_EXPORT_PNG,
+  IPC_CHANNELS.MENU_EXPORT_PDF,
+  IPC_CHANNELS.MENU_EXPORT_LIBRARY,
+  IPC_CHANNELS.MENU_IMPORT_LIBRARY,
+  IPC_CHANNELS.MENU_IMPORT_OPENAPI,
+  IPC_CHANNELS.MENU_TOGGLE_SIDEBAR,
+  IPC_CHANNELS.MENU_TOGGLE_THEME,
+  IPC_CHANNELS.MENU_ZOOM_IN,
+  IPC_CHANNELS.MENU_ZOOM_OUT,
+  IPC_CHANNELS.MENU_ZOOM_RESET,
+  IPC_CHANNELS.MENU_ABOUT,
+];
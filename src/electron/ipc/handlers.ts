@@ -6,28 +6,36 @@
 import { ipcMain, dialog, shell, BrowserWindow, nativeTheme, app } from 'electron';
 import { IPC_CHANNELS } from './channels.js';
 import { HistoryService } from '../../shared/historyService.js';
+import { SearchService } from '../../shared/searchService.js';
+import { exportLibrary, importLibrary } from '../../shared/libraryBundle.js';
+import { importOpenApi, loadOpenApiSpec, OpenApiDiagramOptions, summarizeOpenApiSpec } from '../../shared/openApi.js';
+import { exportDiagramPdf, PdfExportOptions } from '../pdfExport.js';
 import { renderMermaid } from '../../shared/renderer.js';
 import { validateMermaidSyntax } from '../../shared/validator.js';
-import { detectGitRepo } from '../../shared/gitRepoDetector.js';
-import { DiagramHistoryEntry } from '../../shared/types.js';
+import { loadLintConfigOrDefaults } from '../../shared/linter.js';
+import { detectGitFolder, detectGitRepo } from '../../shared/gitRepoDetector.js';
+import { CollectionUpdate, DiagramHistoryEntry, ImportCollisionPolicy, SearchOptions, SyncConfig } from '../../shared/types.js';
 
 let historyService: HistoryService;
+let searchService: SearchService;
 let disableAnalytics = false;
 
 export function initializeIPCHandlers(dataPath?: string, sharedHistoryService?: HistoryService, options?: { disableAnalytics?: boolean }): void {
   // Use shared HistoryService if provided (e.g., from MCP server), otherwise create new one
   historyService = sharedHistoryService || new HistoryService(dataPath);
+  searchService = new SearchService(historyService);
   disableAnalytics = options?.disableAnalytics ?? false;
 
   // Diagram operations
   ipcMain.handle(IPC_CHANNELS.DIAGRAM_RENDER, async (_event, diagram: string, background?: string, workingDir?: string, title?: string) => {
-    const result = await renderMermaid(diagram, background);
+    const result = await renderMermaid(diagram, background, await loadLintConfigOrDefaults(workingDir ?? process.cwd()));
 
     // Save to history if successful
     if (result.type === 'success' && workingDir && title) {
       try {
         const collection = await detectGitRepo(workingDir);
-        const savedEntry = await historyService.saveDiagram(diagram, title, collection);
+        const folder = await detectGitFolder(workingDir);
+        const savedEntry = await historyService.saveDiagram(result.diagram, title, collection, 'mcp', folder);
         return { ...result, diagramId: savedEntry.id };
       } catch (error) {
         console.error('Failed to save diagram to history:', error);
@@ -38,7 +46,8 @@ export function initializeIPCHandlers(dataPath?: string, sharedHistoryService?:
   });
 
   ipcMain.handle(IPC_CHANNELS.DIAGRAM_VALIDATE, async (_event, diagram: string) => {
-    return await validateMermaidSyntax(diagram);
+    // The app is launched from the project of the agent that opened it
+    return await validateMermaidSyntax(diagram, await loadLintConfigOrDefaults(process.cwd()));
   });
 
   // History operations
@@ -46,11 +55,23 @@ export function initializeIPCHandlers(dataPath?: string, sharedHistoryService?:
     return await historyService.getDiagrams(collection);
   });
 
+  ipcMain.handle(IPC_CHANNELS.HISTORY_GET, async (_event, id: string) => {
+    try {
+      return await historyService.getDiagram(id);
+    } catch (error) {
+      // Resolve missing diagrams to null so the renderer can show "not found"
+      if (error instanceof Error && error.message.endsWith('not found')) {
+        return null;
+      }
+      throw error;
+    }
+  });
+
   ipcMain.handle(IPC_CHANNELS.HISTORY_SAVE, async (_event, diagram: string, title: string, collection: string | null) => {
-    return await historyService.saveDiagram(diagram, title, collection);
+    return await historyService.saveDiagram(diagram, title, collection, 'editor');
   });
 
-  ipcMain.handle(IPC_CHANNELS.HISTORY_UPDATE, async (_event, id: string, updates: Partial<Pick<DiagramHistoryEntry, 'title' | 'collection' | 'diagram'>>) => {
+  ipcMain.handle(IPC_CHANNELS.HISTORY_UPDATE, async (_event, id: string, updates: Partial<Pick<DiagramHistoryEntry, 'title' | 'collection' | 'folder' | 'diagram'>>) => {
     await historyService.updateDiagram(id, updates);
     return { success: true };
   });
@@ -60,19 +81,74 @@ export function initializeIPCHandlers(dataPath?: string, sharedHistoryService?:
     return { success: true };
   });
 
-  ipcMain.handle(IPC_CHANNELS.HISTORY_MOVE, async (_event, id: string, collection: string | null) => {
-    await historyService.moveDiagram(id, collection);
+  ipcMain.handle(IPC_CHANNELS.HISTORY_MOVE, async (_event, id: string, collection: string | null, folder?: string | null) => {
+    await historyService.moveDiagram(id, collection, folder);
     return { success: true };
   });
 
+  ipcMain.handle(IPC_CHANNELS.HISTORY_REVISIONS, async (_event, id: string) => {
+    return await historyService.getRevisions(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.HISTORY_SEARCH, async (_event, query: string, options?: SearchOptions) => {
+    return await searchService.search(query, options);
+  });
+
   // Collection operations
   ipcMain.handle(IPC_CHANNELS.COLLECTIONS_LIST, async () => {
-    return await historyService.getCollections();
+    return await historyService.listCollections();
   });
 
-  ipcMain.handle(IPC_CHANNELS.COLLECTIONS_CREATE, async (_event, name: string) => {
-    await historyService.createCollection(name);
-    return { success: true };
+  ipcMain.handle(IPC_CHANNELS.COLLECTIONS_CREATE, async (_event, name: string, details?: Omit<CollectionUpdate, 'name'>) => {
+    return await historyService.createCollection(name, details);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.COLLECTIONS_UPDATE, async (_event, name: string, updates: CollectionUpdate) => {
+    return await historyService.updateCollection(name, updates);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.COLLECTIONS_DELETE, async (_event, name: string, moveTo: string | null) => {
+    return await historyService.deleteCollection(name, moveTo);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.COLLECTIONS_REORDER, async (_event, names: string[]) => {
+    return await historyService.reorderCollections(names);
+  });
+
+  // Library import/export
+  ipcMain.handle(IPC_CHANNELS.LIBRARY_EXPORT, async (_event, filePath: string, collection?: string | null) => {
+    return await exportLibrary(historyService, filePath, { collection });
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LIBRARY_IMPORT, async (_event, filePath: string, onCollision: ImportCollisionPolicy) => {
+    return await importLibrary(historyService, filePath, { onCollision });
+  });
+
+  // OpenAPI import
+  ipcMain.handle(IPC_CHANNELS.OPENAPI_INSPECT, async (_event, filePath: string) => {
+    return summarizeOpenApiSpec(await loadOpenApiSpec(filePath));
+  });
+
+  ipcMain.handle(IPC_CHANNELS.OPENAPI_IMPORT, async (_event, filePath: string, options: OpenApiDiagramOptions, collection: string | null) => {
+    return await importOpenApi(historyService, filePath, { ...options, collection });
+  });
+
+  // Team Mode sync
+  ipcMain.handle(IPC_CHANNELS.SYNC_STATUS, async () => {
+    return await historyService.getSyncStatus();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SYNC_CONFIGURE, async (_event, config: SyncConfig | null) => {
+    return await historyService.configureSync(config);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SYNC_RUN, async () => {
+    return await historyService.sync();
+  });
+
+  // Export operations
+  ipcMain.handle(IPC_CHANNELS.EXPORT_PDF, async (_event, svg: string, filePath: string, options: PdfExportOptions) => {
+    return await exportDiagramPdf(svg, filePath, options);
   });
 
   // App operations
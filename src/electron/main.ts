@@ -23,6 +23,11 @@ const __dirname = path.dirname(__filename);
 // Check if running in development mode
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+// Stops the data directory watcher started in initialize()
+let stopWatchingHistory: (() => void) | null = null;
+// Stops Team Mode syncing started in initialize()
+let stopSync: (() => void) | null = null;
+
 // Parse command line arguments
 function parseArgs(): { dataPath?: string; disableAnalytics: boolean; showDiagramId?: string } {
   const args = process.argv.slice(2);
@@ -69,6 +74,18 @@ async function initialize(): Promise<void> {
   // Ensure window is visible on screen
   ensureWindowVisible();
 
+  // Push diagram changes made by the MCP server, other windows or by hand
+  try {
+    stopWatchingHistory = await historyService.watch((event) => {
+      getMainWindow()?.webContents.send(IPC_CHANNELS.HISTORY_CHANGED, event);
+    });
+  } catch (error) {
+    console.error('[Main] Failed to watch history:', error);
+  }
+
+  // Keep shared collections in step with the team's sync server
+  stopSync = historyService.startSync();
+
   // If launched with --show-diagram, send the diagram to the renderer once it's ready
   if (showDiagramId) {
     const mainWindow = getMainWindow();
@@ -76,8 +93,7 @@ async function initialize(): Promise<void> {
       mainWindow.webContents.once('did-finish-load', async () => {
         try {
           // Load the diagram from history
-          const diagrams = await historyService.getDiagrams();
-          const diagram = diagrams.find(d => d.id === showDiagramId);
+          const diagram = await historyService.getDiagram(showDiagramId).catch(() => null);
 
           if (diagram) {
             console.log(`[Main] Loading diagram: ${diagram.title} (${showDiagramId})`);
@@ -113,6 +129,10 @@ app.on('window-all-closed', () => {
 app.on('before-quit', () => {
   // Clean up handlers when app is actually quitting (e.g., Cmd+Q on macOS)
   cleanupIPCHandlers();
+  stopWatchingHistory?.();
+  stopWatchingHistory = null;
+  stopSync?.();
+  stopSync = null;
 });
 
 app.on('activate', () => {
@@ -175,9 +195,8 @@ if (!gotTheLock) {
       // Wait for window to be ready if it was just created
       const sendDiagram = async () => {
         try {
-          const diagrams = await historyService.getDiagrams();
-          const diagram = diagrams.find(d => d.id === diagramId);
-          if (diagram && mainWindow) {
+          const diagram = await historyService.getDiagram(diagramId);
+          if (mainWindow) {
             mainWindow.webContents.send(IPC_CHANNELS.MCP_DIAGRAM_UPDATE, {
               diagram: diagram.diagram,
               title: diagram.title,
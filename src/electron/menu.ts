@@ -3,9 +3,14 @@
  */
 
 import { app, Menu, MenuItemConstructorOptions, shell, BrowserWindow } from 'electron';
+import { IPC_CHANNELS, MenuEvent } from './ipc/channels.js';
 
 const isMac = process.platform === 'darwin';
 
+function sendToFocusedWindow(event: MenuEvent): void {
+  BrowserWindow.getFocusedWindow()?.webContents.send(event);
+}
+
 export function createMenu(): Menu {
   const template: MenuItemConstructorOptions[] = [
     // App menu (macOS only)
@@ -31,10 +36,7 @@ export function createMenu(): Menu {
         {
           label: 'New Diagram',
           accelerator: 'CmdOrCtrl+N',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:newDiagram');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_NEW_DIAGRAM),
         },
         { type: 'separator' },
         {
@@ -43,29 +45,33 @@ export function createMenu(): Menu {
             {
               label: 'Export as SVG...',
               accelerator: 'CmdOrCtrl+Shift+S',
-              click: () => {
-                const window = BrowserWindow.getFocusedWindow();
-                window?.webContents.send('menu:exportSVG');
-              },
+              click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_EXPORT_SVG),
             },
             {
               label: 'Export as PNG...',
               accelerator: 'CmdOrCtrl+Shift+P',
-              click: () => {
-                const window = BrowserWindow.getFocusedWindow();
-                window?.webContents.send('menu:exportPNG');
-              },
+              click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_EXPORT_PNG),
             },
             {
               label: 'Export as PDF...',
-              click: () => {
-                const window = BrowserWindow.getFocusedWindow();
-                window?.webContents.send('menu:exportPDF');
-              },
+              click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_EXPORT_PDF),
             },
           ],
         },
         { type: 'separator' },
+        {
+          label: 'Export Library...',
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_EXPORT_LIBRARY),
+        },
+        {
+          label: 'Import Library...',
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_IMPORT_LIBRARY),
+        },
+        {
+          label: 'Import OpenAPI...',
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_IMPORT_OPENAPI),
+        },
+        { type: 'separator' },
         isMac ? { role: 'close' as const } : { role: 'quit' as const },
       ],
     },
@@ -99,43 +105,28 @@ export function createMenu(): Menu {
         {
           label: 'Toggle Sidebar',
           accelerator: 'CmdOrCtrl+B',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:toggleSidebar');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_TOGGLE_SIDEBAR),
         },
         {
           label: 'Toggle Theme',
           accelerator: 'CmdOrCtrl+Shift+T',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:toggleTheme');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_TOGGLE_THEME),
         },
         { type: 'separator' },
         {
           label: 'Zoom In',
           accelerator: 'CmdOrCtrl+Plus',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:zoomIn');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_ZOOM_IN),
         },
         {
           label: 'Zoom Out',
           accelerator: 'CmdOrCtrl+-',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:zoomOut');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_ZOOM_OUT),
         },
         {
           label: 'Reset Zoom',
           accelerator: 'CmdOrCtrl+0',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:zoomReset');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_ZOOM_RESET),
         },
         { type: 'separator' },
         { role: 'reload' as const },
@@ -193,10 +184,7 @@ export function createMenu(): Menu {
         { type: 'separator' },
         {
           label: 'About Mindpilot',
-          click: () => {
-            const window = BrowserWindow.getFocusedWindow();
-            window?.webContents.send('menu:about');
-          },
+          click: () => sendToFocusedWindow(IPC_CHANNELS.MENU_ABOUT),
         },
       ],
     },
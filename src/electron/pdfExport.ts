@@ -0,0 +1,111 @@
+/**
+ * PDF export for rendered diagrams
+ *
+ * Lays the diagram's SVG out in a hidden window sized for the chosen page,
+ * then prints it with webContents.printToPDF.
+ */
+
+import { BrowserWindow } from 'electron';
+import fs from 'fs/promises';
+
+export type PdfPageSize = 'A3' | 'A4' | 'Letter' | 'Legal' | 'Tabloid' | 'Diagram';
+
+/**
+ * page:  shrink or grow the diagram to fill one page
+ * width: match the page width and continue onto further pages if needed
+ * none:  print at the on-screen size, continuing onto further pages if needed
+ */
+export type PdfFit = 'page' | 'width' | 'none';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  landscape: boolean;
+  fit: PdfFit;
+  background?: string;
+}
+
+// Page dimensions in inches, portrait
+const PAGE_SIZES: Record<Exclude<PdfPageSize, 'Diagram'>, { width: number; height: number }> = {
+  A3: { width: 11.69, height: 16.54 },
+  A4: { width: 8.27, height: 11.69 },
+  Letter: { width: 8.5, height: 11 },
+  Legal: { width: 8.5, height: 14 },
+  Tabloid: { width: 11, height: 17 },
+};
+
+const CSS_PIXELS_PER_INCH = 96;
+const MARGIN_INCHES = 0.4;
+
+export async function exportDiagramPdf(svg: string, filePath: string, options: PdfExportOptions): Promise<{ path: string }> {
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  try {
+    const background = (options.background || 'white').replace(/[<>"]/g, '');
+    const html = `<!DOCTYPE html><html><body style="margin:0;background:${background}">${svg}</body></html>`;
+    await window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+
+    const { width, height } = await window.webContents.executeJavaScript(`(() => {
+      const box = document.querySelector('svg').getBoundingClientRect();
+      return { width: box.width, height: box.height };
+    })()`);
+    if (!width || !height) {
+      throw new Error('Diagram has no size to print');
+    }
+
+    let pageSize: Electron.PrintToPDFOptions['pageSize'];
+    let scale = 1;
+
+    if (options.pageSize === 'Diagram') {
+      // One page exactly the size of the diagram
+      pageSize = {
+        width: width / CSS_PIXELS_PER_INCH + MARGIN_INCHES * 2,
+        height: height / CSS_PIXELS_PER_INCH + MARGIN_INCHES * 2,
+      };
+    } else {
+      pageSize = options.pageSize;
+      const page = PAGE_SIZES[options.pageSize];
+      const pageWidth = options.landscape ? page.height : page.width;
+      const pageHeight = options.landscape ? page.width : page.height;
+      const printableWidth = (pageWidth - MARGIN_INCHES * 2) * CSS_PIXELS_PER_INCH;
+      const printableHeight = (pageHeight - MARGIN_INCHES * 2) * CSS_PIXELS_PER_INCH;
+
+      if (options.fit === 'page') {
+        scale = Math.min(printableWidth / width, printableHeight / height);
+      } else if (options.fit === 'width') {
+        scale = printableWidth / width;
+      }
+    }
+
+    await window.webContents.executeJavaScript(`(() => {
+      const svg = document.querySelector('svg');
+      svg.style.maxWidth = 'none';
+      svg.style.width = '${width * scale}px';
+      svg.style.height = '${height * scale}px';
+      svg.style.display = 'block';
+    })()`);
+
+    const pdf = await window.webContents.printToPDF({
+      pageSize,
+      landscape: options.pageSize !== 'Diagram' && options.landscape,
+      printBackground: true,
+      margins: {
+        top: MARGIN_INCHES,
+        bottom: MARGIN_INCHES,
+        left: MARGIN_INCHES,
+        right: MARGIN_INCHES,
+      },
+    });
+
+    await fs.writeFile(filePath, pdf);
+    return { path: filePath };
+  } finally {
+    window.destroy();
+  }
+}
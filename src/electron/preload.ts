@@ -4,7 +4,11 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
-import { IPC_CHANNELS } from './ipc/channels.js';
+import { IPC_CHANNELS, MENU_EVENTS, MenuEvent } from './ipc/channels.js';
+import type { PdfExportOptions } from './pdfExport.js';
+import type { CollectionInfo, CollectionUpdate, Diagnostic, OpenApiImportResult, OpenApiSpecSummary, SyncConfig, SyncResult, SyncStatus, ValidationResult } from '../shared/types.js';
+
+export type { CollectionInfo, CollectionUpdate, Diagnostic, MenuEvent, OpenApiImportResult, OpenApiSpecSummary, PdfExportOptions, SyncConfig, SyncResult, SyncStatus, ValidationResult };
 
 // Type definitions for MCP events
 export interface MCPDiagramUpdate {
@@ -17,22 +21,49 @@ export interface MCPStatus {
   active: boolean;
 }
 
+export interface HistoryChange {
+  type: 'created' | 'updated' | 'deleted';
+  id: string;
+}
+
 // Type definitions for the exposed API
 export interface ElectronAPI {
   // Diagram operations
   renderDiagram: (diagram: string, background?: string, workingDir?: string, title?: string) => Promise<any>;
-  validateDiagram: (diagram: string) => Promise<any>;
+  validateDiagram: (diagram: string) => Promise<ValidationResult>;
 
   // History operations
   getHistory: (collection?: string | null) => Promise<any[]>;
+  getDiagram: (id: string) => Promise<any | null>;
   saveDiagram: (diagram: string, title: string, collection: string | null) => Promise<any>;
   updateDiagram: (id: string, updates: any) => Promise<any>;
   deleteDiagram: (id: string) => Promise<any>;
-  moveDiagram: (id: string, collection: string | null) => Promise<any>;
+  moveDiagram: (id: string, collection: string | null, folder?: string | null) => Promise<any>;
+  getRevisions: (id: string) => Promise<any[]>;
+  searchDiagrams: (query: string, options?: { collection?: string | null; limit?: number }) => Promise<any[]>;
 
   // Collection operations
-  getCollections: () => Promise<string[]>;
-  createCollection: (name: string) => Promise<any>;
+  getCollections: () => Promise<CollectionInfo[]>;
+  createCollection: (name: string, details?: Omit<CollectionUpdate, 'name'>) => Promise<CollectionInfo>;
+  updateCollection: (name: string, updates: CollectionUpdate) => Promise<CollectionInfo>;
+  deleteCollection: (name: string, moveTo: string | null) => Promise<{ moved: number }>;
+  reorderCollections: (names: string[]) => Promise<CollectionInfo[]>;
+
+  // Library import/export
+  exportLibrary: (filePath: string, collection?: string | null) => Promise<any>;
+  importLibrary: (filePath: string, onCollision: 'skip' | 'overwrite' | 'duplicate') => Promise<any>;
+
+  // OpenAPI import
+  inspectOpenApi: (filePath: string) => Promise<OpenApiSpecSummary>;
+  importOpenApi: (filePath: string, options: { operations?: string[]; overview?: boolean }, collection: string | null) => Promise<OpenApiImportResult>;
+
+  // Export operations
+  exportPDF: (svg: string, filePath: string, options: PdfExportOptions) => Promise<{ path: string }>;
+
+  // Team Mode sync
+  getSyncStatus: () => Promise<SyncStatus>;
+  configureSync: (config: SyncConfig | null) => Promise<SyncStatus>;
+  syncNow: () => Promise<SyncResult>;
 
   // App operations
   getStatus: () => Promise<any>;
@@ -54,6 +85,12 @@ export interface ElectronAPI {
   onMCPDiagramUpdate: (callback: (data: MCPDiagramUpdate) => void) => () => void;
   onMCPStatus: (callback: (data: MCPStatus) => void) => () => void;
 
+  // History event listeners
+  onHistoryChanged: (callback: (data: HistoryChange) => void) => () => void;
+
+  // Menu event listeners
+  onMenuEvent: (event: MenuEvent, callback: () => void) => () => void;
+
   // Window event listeners
   onWindowFocus: (callback: () => void) => () => void;
   onWindowBlur: (callback: () => void) => () => void;
@@ -74,20 +111,56 @@ const electronAPI: ElectronAPI = {
   // History operations
   getHistory: (collection) =>
     ipcRenderer.invoke(IPC_CHANNELS.HISTORY_LIST, collection),
+  getDiagram: (id) =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_GET, id),
   saveDiagram: (diagram, title, collection) =>
     ipcRenderer.invoke(IPC_CHANNELS.HISTORY_SAVE, diagram, title, collection),
   updateDiagram: (id, updates) =>
     ipcRenderer.invoke(IPC_CHANNELS.HISTORY_UPDATE, id, updates),
   deleteDiagram: (id) =>
     ipcRenderer.invoke(IPC_CHANNELS.HISTORY_DELETE, id),
-  moveDiagram: (id, collection) =>
-    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_MOVE, id, collection),
+  moveDiagram: (id, collection, folder) =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_MOVE, id, collection, folder),
+  getRevisions: (id) =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_REVISIONS, id),
+  searchDiagrams: (query, options) =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_SEARCH, query, options),
 
   // Collection operations
   getCollections: () =>
     ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_LIST),
-  createCollection: (name) =>
-    ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_CREATE, name),
+  createCollection: (name, details) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_CREATE, name, details),
+  updateCollection: (name, updates) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_UPDATE, name, updates),
+  deleteCollection: (name, moveTo) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_DELETE, name, moveTo),
+  reorderCollections: (names) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COLLECTIONS_REORDER, names),
+
+  // Library import/export
+  exportLibrary: (filePath, collection) =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_EXPORT, filePath, collection),
+  importLibrary: (filePath, onCollision) =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIBRARY_IMPORT, filePath, onCollision),
+
+  // OpenAPI import
+  inspectOpenApi: (filePath) =>
+    ipcRenderer.invoke(IPC_CHANNELS.OPENAPI_INSPECT, filePath),
+  importOpenApi: (filePath, options, collection) =>
+    ipcRenderer.invoke(IPC_CHANNELS.OPENAPI_IMPORT, filePath, options, collection),
+
+  // Export operations
+  exportPDF: (svg, filePath, options) =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXPORT_PDF, svg, filePath, options),
+
+  // Team Mode sync
+  getSyncStatus: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.SYNC_STATUS),
+  configureSync: (config) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SYNC_CONFIGURE, config),
+  syncNow: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.SYNC_RUN),
 
   // App operations
   getStatus: () =>
@@ -127,6 +200,24 @@ const electronAPI: ElectronAPI = {
     return () => ipcRenderer.removeListener(IPC_CHANNELS.MCP_STATUS, handler);
   },
 
+  // History event listeners - return unsubscribe function
+  onHistoryChanged: (callback) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: HistoryChange) => callback(data);
+    ipcRenderer.on(IPC_CHANNELS.HISTORY_CHANGED, handler);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.HISTORY_CHANGED, handler);
+  },
+
+  // Menu event listeners - return unsubscribe function
+  onMenuEvent: (event, callback) => {
+    // Only menu channels may be subscribed to through this bridge
+    if (!MENU_EVENTS.includes(event)) {
+      throw new Error(`Unknown menu event: ${event}`);
+    }
+    const handler = () => callback();
+    ipcRenderer.on(event, handler);
+    return () => ipcRenderer.removeListener(event, handler);
+  },
+
   // Window event listeners - return unsubscribe function
   onWindowFocus: (callback) => {
     const handler = () => callback();
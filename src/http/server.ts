@@ -10,15 +10,21 @@ import { fileURLToPath } from "url";
 import fs from "fs/promises";
 import open from "open";
 import { setMaxListeners } from "events";
+import { ServerResponse } from "http";
 import { httpLogger as logger } from "../shared/logger.js";
 import {
+  CollectionUpdate,
+  HistoryChangeEvent,
   RenderResult,
   ServerStatus,
+  SyncConfig,
 } from "../shared/types.js";
 import { renderMermaid } from "../shared/renderer.js";
 import { validateMermaidSyntax } from "../shared/validator.js";
+import { loadLintConfigOrDefaults } from "../shared/linter.js";
 import { HistoryService } from "../shared/historyService.js";
-import { detectGitRepo } from "../shared/gitRepoDetector.js";
+import { SearchService } from "../shared/searchService.js";
+import { detectGitFolder, detectGitRepo } from "../shared/gitRepoDetector.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -32,12 +38,18 @@ export class SingletonHTTPServer {
   private disableAnalytics: boolean;
   private dataPath: string | undefined;
   private historyService: HistoryService;
+  private searchService: SearchService;
+  private eventClients = new Set<ServerResponse>(); // Open /api/events streams
+  private stopWatchingHistory: (() => void) | null = null;
+  private stopSync: (() => void) | null = null;
+  private readonly EVENTS_KEEPALIVE_MS = 30000; // Stop proxies closing idle streams
 
   constructor(port: number = 4000, disableAnalytics: boolean = false, dataPath?: string) {
     this.port = port;
     this.disableAnalytics = disableAnalytics;
     this.dataPath = dataPath;
     this.historyService = new HistoryService(dataPath);
+    this.searchService = new SearchService(this.historyService);
   }
 
   async start(): Promise<void> {
@@ -55,6 +67,14 @@ export class SingletonHTTPServer {
       await this.fastify.listen({ port: this.port, host: "0.0.0.0" });
       logger.info(`HTTP server started on port ${this.port}`);
 
+      // Push diagram changes from any process to connected browser tabs
+      this.stopWatchingHistory = await this.historyService.watch((event) => {
+        this.broadcastHistoryChange(event);
+      });
+
+      // Keep shared collections in step with the team's sync server
+      this.stopSync = this.historyService.startSync();
+
       // Start checking for shutdown periodically
       setInterval(() => {
         this.checkForShutdown();
@@ -149,7 +169,7 @@ export class SingletonHTTPServer {
         try {
           const { diagram, background, clientId, clientName, workingDir, title } =
             request.body as any;
-          const result = await renderMermaid(diagram, background);
+          const result = await renderMermaid(diagram, background, await loadLintConfigOrDefaults(workingDir ?? process.cwd()));
 
           // Update MCP activity
           this.lastMcpActivity = new Date();
@@ -159,7 +179,8 @@ export class SingletonHTTPServer {
           if (result.type === "success" && workingDir && title) {
             try {
               const collection = await detectGitRepo(workingDir);
-              const savedEntry = await this.historyService.saveDiagram(diagram, title, collection);
+              const folder = await detectGitFolder(workingDir);
+              const savedEntry = await this.historyService.saveDiagram(result.diagram, title, collection, "mcp", folder);
               diagramId = savedEntry.id;
               logger.info(`Saved diagram "${title}" with ID ${diagramId} to collection: ${collection || 'uncollected'}`);
             } catch (error) {
@@ -188,19 +209,55 @@ export class SingletonHTTPServer {
       "/api/validate",
       async (request: FastifyRequest, reply: FastifyReply) => {
         const { diagram } = request.body as any;
-        const result = await validateMermaidSyntax(diagram);
+        // The server runs in the project of the agent that started it
+        const result = await validateMermaidSyntax(diagram, await loadLintConfigOrDefaults(process.cwd()));
         return reply.send(result);
       },
     );
 
+    // Server-sent events: history changes made by any process
+    this.fastify.get(
+      "/api/events",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        // Take over the raw response so Fastify does not end it
+        reply.hijack();
+        reply.raw.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        reply.raw.write(": connected\n\n");
+
+        this.eventClients.add(reply.raw);
+        const keepAlive = setInterval(() => {
+          reply.raw.write(": keep-alive\n\n");
+        }, this.EVENTS_KEEPALIVE_MS);
+
+        request.raw.on("close", () => {
+          clearInterval(keepAlive);
+          this.eventClients.delete(reply.raw);
+        });
+      },
+    );
+
     // History API routes
     this.fastify.get(
       "/api/history",
       async (request: FastifyRequest, reply: FastifyReply) => {
         try {
-          const { collection } = request.query as any;
-          const diagrams = await this.historyService.getDiagrams(collection);
-          return reply.send(diagrams);
+          const { collection, folder, title, sortBy, sortOrder, limit, offset } = request.query as any;
+          const page = await this.historyService.queryDiagrams({
+            collection,
+            folder,
+            title,
+            sortBy,
+            sortOrder,
+            limit: limit !== undefined ? Number(limit) : undefined,
+            offset: offset !== undefined ? Number(offset) : undefined,
+          });
+          // Total matches before paging, for clients that page through history
+          reply.header("X-Total-Count", String(page.total));
+          return reply.send(page.diagrams);
         } catch (error) {
           logger.error("Failed to get history", { error });
           return reply.code(500).send({ error: "Failed to get history" });
@@ -208,11 +265,45 @@ export class SingletonHTTPServer {
       },
     );
 
+    this.fastify.get(
+      "/api/history/:id",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { id } = request.params as any;
+          const diagram = await this.historyService.getDiagram(id);
+          return reply.send(diagram);
+        } catch (error) {
+          if (error instanceof Error && error.message.endsWith("not found")) {
+            return reply.code(404).send({ error: "Diagram not found" });
+          }
+          logger.error("Failed to get diagram", { error, id: (request.params as any).id });
+          return reply.code(500).send({ error: "Failed to get diagram" });
+        }
+      },
+    );
+
+    this.fastify.get(
+      "/api/search",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { q, collection, limit } = request.query as any;
+          const results = await this.searchService.search(q ?? "", {
+            collection,
+            limit: limit !== undefined ? Number(limit) : undefined,
+          });
+          return reply.send(results);
+        } catch (error) {
+          logger.error("Failed to search diagrams", { error });
+          return reply.code(500).send({ error: "Failed to search diagrams" });
+        }
+      },
+    );
+
     this.fastify.get(
       "/api/collections",
       async (request: FastifyRequest, reply: FastifyReply) => {
         try {
-          const collections = await this.historyService.getCollections();
+          const collections = await this.historyService.listCollections();
           return reply.send(collections);
         } catch (error) {
           logger.error("Failed to get collections", { error });
@@ -225,12 +316,94 @@ export class SingletonHTTPServer {
       "/api/collections",
       async (request: FastifyRequest, reply: FastifyReply) => {
         try {
-          const { name } = request.body as any;
-          await this.historyService.createCollection(name);
-          return reply.send({ success: true });
+          const { name, description, color } = request.body as any;
+          const collection = await this.historyService.createCollection(name, { description, color });
+          return reply.send(collection);
         } catch (error) {
           logger.error("Failed to create collection", { error });
-          return reply.code(500).send({ error: "Failed to create collection" });
+          return reply.code(400).send({ error: error instanceof Error ? error.message : "Failed to create collection" });
+        }
+      },
+    );
+
+    this.fastify.put(
+      "/api/collections/order",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { names } = request.body as { names: string[] };
+          return reply.send(await this.historyService.reorderCollections(names ?? []));
+        } catch (error) {
+          logger.error("Failed to reorder collections", { error });
+          return reply.code(400).send({ error: error instanceof Error ? error.message : "Failed to reorder collections" });
+        }
+      },
+    );
+
+    this.fastify.patch(
+      "/api/collections/:name",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { name } = request.params as any;
+          const updates = request.body as CollectionUpdate;
+          return reply.send(await this.historyService.updateCollection(name, updates));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to update collection";
+          logger.error("Failed to update collection", { error, name: (request.params as any).name });
+          return reply.code(message.endsWith("not found") ? 404 : 400).send({ error: message });
+        }
+      },
+    );
+
+    this.fastify.delete(
+      "/api/collections/:name",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { name } = request.params as any;
+          // Diagrams move to this collection, or become uncategorized without it
+          const { moveTo } = request.query as any;
+          return reply.send(await this.historyService.deleteCollection(name, moveTo || null));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to delete collection";
+          logger.error("Failed to delete collection", { error, name: (request.params as any).name });
+          return reply.code(message.endsWith("not found") ? 404 : 400).send({ error: message });
+        }
+      },
+    );
+
+    // Team Mode sync
+    this.fastify.get(
+      "/api/sync",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          return reply.send(await this.historyService.getSyncStatus());
+        } catch (error) {
+          logger.error("Failed to get sync status", { error });
+          return reply.code(500).send({ error: "Failed to get sync status" });
+        }
+      },
+    );
+
+    this.fastify.put(
+      "/api/sync",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { config } = request.body as { config: SyncConfig | null };
+          return reply.send(await this.historyService.configureSync(config ?? null));
+        } catch (error) {
+          logger.error("Failed to configure sync", { error });
+          return reply.code(400).send({ error: error instanceof Error ? error.message : "Failed to configure sync" });
+        }
+      },
+    );
+
+    this.fastify.post(
+      "/api/sync/run",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          return reply.send(await this.historyService.sync());
+        } catch (error) {
+          logger.error("Failed to sync", { error });
+          return reply.code(502).send({ error: error instanceof Error ? error.message : "Failed to sync" });
         }
       },
     );
@@ -240,8 +413,8 @@ export class SingletonHTTPServer {
       async (request: FastifyRequest, reply: FastifyReply) => {
         try {
           const { id } = request.params as any;
-          const { collection } = request.body as any;
-          await this.historyService.moveDiagram(id, collection);
+          const { collection, folder } = request.body as any;
+          await this.historyService.moveDiagram(id, collection, folder);
           return reply.send({ success: true });
         } catch (error) {
           logger.error("Failed to move diagram", { error });
@@ -267,6 +440,20 @@ export class SingletonHTTPServer {
       },
     );
 
+    this.fastify.get(
+      "/api/history/:id/revisions",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { id } = request.params as any;
+          const revisions = await this.historyService.getRevisions(id);
+          return reply.send(revisions);
+        } catch (error) {
+          logger.error("Failed to get diagram revisions", { error, id: (request.params as any).id });
+          return reply.code(500).send({ error: "Failed to get diagram revisions" });
+        }
+      },
+    );
+
     this.fastify.delete(
       "/api/history/:id",
       async (request: FastifyRequest, reply: FastifyReply) => {
@@ -301,6 +488,13 @@ export class SingletonHTTPServer {
     }
   }
 
+  private broadcastHistoryChange(event: HistoryChangeEvent) {
+    const message = `event: history\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const client of this.eventClients) {
+      client.write(message);
+    }
+  }
+
   private checkForShutdown() {
     // Only check MCP activity for shutdown
     const mcpInactive =
@@ -313,6 +507,15 @@ export class SingletonHTTPServer {
   }
 
   async stop(): Promise<void> {
+    this.stopWatchingHistory?.();
+    this.stopWatchingHistory = null;
+    this.stopSync?.();
+    this.stopSync = null;
+    for (const client of this.eventClients) {
+      client.end();
+    }
+    this.eventClients.clear();
+
     if (this.fastify) {
       await this.fastify.close();
       this.fastify = null;
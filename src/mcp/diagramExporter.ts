@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import path from "path";
+import { detectGitRoot } from "../shared/gitRepoDetector.js";
+import { isInside } from "../shared/pathUtils.js";
+import { mcpLogger as logger } from "../shared/logger.js";
+import { renderDiagramImage } from "./imageRenderer.js";
+
+export type ExportFormat = "mmd" | "svg" | "png" | "md";
+
+const FORMATS_BY_EXTENSION: Record<string, ExportFormat> = {
+  ".mmd": "mmd",
+  ".mermaid": "mmd",
+  ".svg": "svg",
+  ".png": "png",
+  ".md": "md",
+  ".markdown": "md",
+};
+
+export interface ExportOptions {
+  background?: string;
+  title?: string;
+  workingDir?: string;
+}
+
+export interface ExportResult {
+  path: string; // Absolute path of the written file
+  relativePath: string; // Path relative to the git root
+  format: ExportFormat;
+}
+
+/**
+ * Resolve an output path against the git root of the working directory,
+ * refusing anything that would land outside the repository.
+ */
+async function resolveOutputPath(outputPath: string, workingDir: string) {
+  const repoRoot = await detectGitRoot(workingDir);
+  if (!repoRoot) {
+    throw new Error("Cannot write diagram files outside a git repository");
+  }
+
+  const realRoot = await fs.realpath(repoRoot);
+  const target = path.resolve(realRoot, outputPath);
+  if (!isInside(realRoot, target) || target === realRoot) {
+    throw new Error(`Output path escapes the repository: ${outputPath}`);
+  }
+
+  // Check again after resolving symlinks in the nearest existing ancestor,
+  // before creating any directories under it
+  const parentDir = path.dirname(target);
+  let existingDir = parentDir;
+  while (!(await fs.stat(existingDir).catch(() => null))) {
+    existingDir = path.dirname(existingDir);
+  }
+  const realParent = path.join(await fs.realpath(existingDir), path.relative(existingDir, parentDir));
+  if (!isInside(realRoot, realParent)) {
+    throw new Error(`Output path escapes the repository: ${outputPath}`);
+  }
+  await fs.mkdir(realParent, { recursive: true });
+
+  // Writing through an existing symlink could also land outside the repo
+  const finalTarget = path.join(realParent, path.basename(target));
+  const existing = await fs.lstat(finalTarget).catch(() => null);
+  if (existing?.isSymbolicLink()) {
+    throw new Error(`Output path is a symbolic link: ${outputPath}`);
+  }
+
+  return {
+    repoRoot: realRoot,
+    target: finalTarget,
+  };
+}
+
+/**
+ * Write a diagram into the working repo. The format is picked from the
+ * file extension: .mmd source, .svg / .png images, or a .md snippet with
+ * a fenced mermaid block.
+ */
+export async function exportDiagram(
+  diagram: string,
+  outputPath: string,
+  options: ExportOptions = {},
+): Promise<ExportResult> {
+  if (!outputPath) {
+    throw new Error("Output path is required");
+  }
+
+  const extension = path.extname(outputPath).toLowerCase();
+  const format = FORMATS_BY_EXTENSION[extension];
+  if (!format) {
+    throw new Error(
+      `Unsupported output extension "${extension}". Use one of: ${Object.keys(FORMATS_BY_EXTENSION).join(", ")}`,
+    );
+  }
+
+  const { repoRoot, target } = await resolveOutputPath(
+    outputPath,
+    options.workingDir ?? process.cwd(),
+  );
+
+  switch (format) {
+    case "mmd":
+      await fs.writeFile(target, diagram.endsWith("\n") ? diagram : `${diagram}\n`);
+      break;
+
+    case "md": {
+      const heading = options.title ? `## ${options.title}\n\n` : "";
+      await fs.writeFile(target, `${heading}\`\`\`mermaid\n${diagram.trimEnd()}\n\`\`\`\n`);
+      break;
+    }
+
+    case "svg":
+    case "png": {
+      const image = await renderDiagramImage(diagram, options.background);
+      if (format === "svg") {
+        await fs.writeFile(target, image.svg);
+      } else {
+        await fs.writeFile(target, Buffer.from(image.png, "base64"));
+      }
+      break;
+    }
+  }
+
+  const relativePath = path.relative(repoRoot, target);
+  logger.info(`Exported diagram to ${relativePath}`, { format });
+
+  return { path: target, relativePath, format };
+}
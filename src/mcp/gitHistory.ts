@@ -0,0 +1,306 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { detectGitRoot } from "../shared/gitRepoDetector.js";
+import { mcpLogger as logger } from "../shared/logger.js";
+
+const execFileAsync = promisify(execFile);
+
+// Branches drawn as the trunk when present and no branch set is given
+const TRUNK_BRANCHES = ["main", "master", "trunk"];
+
+// gitGraph keywords that would be read as commands if used as branch names
+const KEYWORDS = new Set(["commit", "branch", "merge", "checkout", "switch", "cherry-pick", "id", "msg", "tag", "type", "order", "parent"]);
+
+export interface GitHistoryOptions {
+  branches?: string[]; // Branches or refs to draw, the first is the trunk. Default: local branches
+  since?: string; // Leave out commits reachable from this ref, e.g. the last release tag
+  maxCommits?: number; // Draw only the newest commits, default 50
+  messageLength?: number; // Characters of each subject to show, default 30. 0 shows hashes only
+  workingDir?: string;
+}
+
+export interface GitHistoryResult {
+  diagram: string;
+  branches: string[]; // Lanes drawn, including ones named after merged branches
+  commits: number;
+  merges: number;
+  truncated: boolean; // More commits matched than maxCommits
+}
+
+interface LogCommit {
+  hash: string;
+  short: string;
+  parents: string[];
+  tags: string[];
+  subject: string;
+}
+
+/**
+ * Draw the commit graph of branches in the working repo as a gitGraph.
+ * Commits come from git log in topological order and are laid out in
+ * lanes by following first parents from each branch tip; commits of
+ * branches that were merged and deleted get a lane named from the merge.
+ */
+export async function diagramFromGitHistory(options: GitHistoryOptions = {}): Promise<GitHistoryResult> {
+  const { since, maxCommits = 50, messageLength = 30 } = options;
+
+  const repoRoot = await detectGitRoot(options.workingDir ?? process.cwd());
+  if (!repoRoot) {
+    throw new Error("Cannot read history outside a git repository");
+  }
+  if (!Number.isInteger(maxCommits) || maxCommits < 1) {
+    throw new Error("max_commits must be a positive whole number");
+  }
+
+  const branches = options.branches?.length ? options.branches : await defaultBranches(repoRoot);
+  if (branches.length === 0) {
+    throw new Error("The repository has no commits");
+  }
+  const tips = new Map<string, string>();
+  for (const ref of [...branches, ...(since ? [since] : [])]) {
+    tips.set(ref, await resolveCommit(repoRoot, ref));
+  }
+
+  // One extra commit tells whether the history was cut off
+  const log = await git(repoRoot, [
+    "log",
+    "--topo-order",
+    `--max-count=${maxCommits + 1}`,
+    "--format=%H%x1f%h%x1f%P%x1f%D%x1f%s%x1e",
+    ...branches.map(ref => tips.get(ref)!),
+    ...(since ? [`^${tips.get(since)}`] : []),
+  ]);
+  const newestFirst = parseLog(log);
+  const truncated = newestFirst.length > maxCommits;
+  const commits = newestFirst.slice(0, maxCommits).reverse();
+  if (commits.length === 0) {
+    throw new Error(`No commits on ${branches.join(", ")}${since ? ` since ${since}` : ""}`);
+  }
+
+  const lanes = assignLanes(commits, branches.map(name => ({ name, tip: tips.get(name)! })));
+  const { lines, merges } = buildGitGraph(commits, lanes, messageLength);
+  logger.debug(`Drew ${commits.length} commits in ${lanes.order.length} lanes`);
+
+  return {
+    diagram: lines.join("\n"),
+    branches: lanes.order,
+    commits: commits.length,
+    merges,
+    truncated,
+  };
+}
+
+async function git(repoRoot: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: repoRoot,
+      timeout: 10000,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+async function resolveCommit(repoRoot: string, ref: string): Promise<string> {
+  // Refs are passed as arguments, so one starting with a dash would be an option
+  if (!ref || ref.startsWith("-")) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+  try {
+    return (await git(repoRoot, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown branch or ref: ${ref}`);
+  }
+}
+
+/**
+ * Local branches, most recently committed first, with the trunk ahead of
+ * them so it claims the shared history
+ */
+async function defaultBranches(repoRoot: string): Promise<string[]> {
+  const output = await git(repoRoot, ["for-each-ref", "--sort=-committerdate", "--format=%(refname:short)", "refs/heads"]);
+  const branches = output.split("\n").filter(Boolean);
+  const current = (await git(repoRoot, ["symbolic-ref", "--short", "-q", "HEAD"]).catch(() => "")).trim();
+  const trunk = TRUNK_BRANCHES.find(name => branches.includes(name)) ?? (branches.includes(current) ? current : branches[0]);
+  return trunk ? [trunk, ...branches.filter(name => name !== trunk)] : [];
+}
+
+function parseLog(log: string): LogCommit[] {
+  return log
+    .split("\x1e")
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [hash, short, parents, decorations, subject] = record.split("\x1f");
+      return {
+        hash,
+        short,
+        parents: parents ? parents.split(" ") : [],
+        tags: decorations
+          .split(", ")
+          .filter(ref => ref.startsWith("tag: "))
+          .map(ref => ref.slice("tag: ".length)),
+        subject: subject ?? "",
+      };
+    });
+}
+
+/**
+ * Give every commit a lane. Each branch claims the unclaimed commits on
+ * its first-parent chain, in order, then the commits left over (from
+ * branches that no longer exist) are claimed newest first.
+ */
+function assignLanes(
+  commits: LogCommit[],
+  branches: { name: string; tip: string }[],
+): { byHash: Map<string, string>; order: string[] } {
+  const commitsByHash = new Map(commits.map(commit => [commit.hash, commit]));
+  const byHash = new Map<string, string>();
+  const order: string[] = [];
+
+  const claim = (name: string, tip: string) => {
+    let hash: string | undefined = tip;
+    while (hash && commitsByHash.has(hash) && !byHash.has(hash)) {
+      byHash.set(hash, name);
+      hash = commitsByHash.get(hash)!.parents[0];
+    }
+    if (hash !== tip) order.push(name);
+  };
+
+  for (const branch of branches) {
+    if (!order.includes(branch.name)) claim(branch.name, branch.tip);
+  }
+  for (const commit of [...commits].reverse()) {
+    if (!byHash.has(commit.hash)) claim(uniqueName(mergedBranchName(commits, commit), order), commit.hash);
+  }
+
+  return { byHash, order };
+}
+
+/**
+ * Name a lane after the merge that brought its tip in, e.g. "Merge branch
+ * 'fix/login'" or "Merge pull request #12 from user/fix-login"
+ */
+function mergedBranchName(commits: LogCommit[], tip: LogCommit): string {
+  const merge = commits.find(commit => commit.parents.indexOf(tip.hash) > 0);
+  const match =
+    merge?.subject.match(/^Merge (?:remote-tracking )?branch '([^']+)'/) ??
+    merge?.subject.match(/^Merge pull request #\d+ from [^/\s]+\/(\S+)/);
+  return match?.[1] ?? `branch-${tip.short}`;
+}
+
+function uniqueName(name: string, taken: string[]): string {
+  let unique = name;
+  for (let suffix = 2; taken.includes(unique); suffix++) {
+    unique = `${name}-${suffix}`;
+  }
+  return unique;
+}
+
+/**
+ * Replay the commits as gitGraph commands. gitGraph can only branch from
+ * and merge the head of a branch, so lanes are created right after their
+ * fork point is committed, and a lane does not move past a commit that is
+ * still waiting to be merged elsewhere. Merges that cannot be drawn, such
+ * as criss-cross merges or ones whose other parent is outside the window,
+ * are drawn as plain commits.
+ */
+function buildGitGraph(
+  commits: LogCommit[],
+  lanes: { byHash: Map<string, string>; order: string[] },
+  messageLength: number,
+): { lines: string[]; merges: number } {
+  const laneOf = (hash: string) => lanes.byHash.get(hash);
+  const trunk = lanes.order[0];
+  const lines: string[] = [];
+  if (trunk !== "main") {
+    lines.push(`%%{init: {"gitGraph": {"mainBranchName": ${JSON.stringify(trunk)}}}}%%`);
+  }
+  lines.push("gitGraph");
+
+  const heads = new Map<string, string | null>([[trunk, null]]);
+  let current = trunk;
+  const checkout = (lane: string) => {
+    if (current !== lane) lines.push(`  checkout ${branchName(lane)}`);
+    current = lane;
+  };
+  const createBranch = (lane: string, head: string | null) => {
+    lines.push(`  branch ${branchName(lane)}`);
+    heads.set(lane, head);
+    current = lane;
+  };
+
+  // Lanes whose first commit has no parent in the window start from nothing
+  for (const commit of commits) {
+    const lane = laneOf(commit.hash)!;
+    if (!heads.has(lane) && !laneOf(commit.parents[0] ?? "")) {
+      createBranch(lane, null);
+    }
+  }
+
+  const emitted = new Set<string>();
+  const pending = [...commits];
+  const isMergeSource = (hash: string) =>
+    pending.some(commit => commit.parents.indexOf(hash) === 1 && laneOf(commit.hash) !== laneOf(hash));
+  const parentsDone = (commit: LogCommit) => commit.parents.every(parent => !laneOf(parent) || emitted.has(parent));
+  let merges = 0;
+
+  while (pending.length > 0) {
+    const ready =
+      pending.find(commit => {
+        const previous = commit.parents[0];
+        return parentsDone(commit) && !(previous && laneOf(previous) === laneOf(commit.hash) && isMergeSource(previous));
+      }) ?? pending.find(parentsDone)!;
+    pending.splice(pending.indexOf(ready), 1);
+
+    const lane = laneOf(ready.hash)!;
+    checkout(lane);
+    const other = ready.parents[1];
+    const otherLane = other && laneOf(other);
+    const head = heads.get(lane);
+    const canMerge =
+      otherLane &&
+      otherLane !== lane &&
+      heads.get(otherLane) === other &&
+      head &&
+      laneOf(head) !== otherLane;
+
+    const attributes = [`id: "${commitLabel(ready, messageLength)}"`, ...ready.tags.map(tag => `tag: "${quoteSafe(tag)}"`)].join(" ");
+    if (canMerge) {
+      lines.push(`  merge ${branchName(otherLane)} ${attributes}`);
+      merges++;
+    } else {
+      lines.push(`  commit ${attributes}`);
+    }
+    heads.set(lane, ready.hash);
+    emitted.add(ready.hash);
+
+    // Fork lanes here while this commit is still the head of its lane
+    for (const child of commits) {
+      const childLane = laneOf(child.hash)!;
+      if (child.parents[0] === ready.hash && !heads.has(childLane)) {
+        checkout(lane);
+        createBranch(childLane, ready.hash);
+      }
+    }
+  }
+
+  return { lines, merges };
+}
+
+function commitLabel(commit: LogCommit, messageLength: number): string {
+  const subject =
+    commit.subject.length > messageLength ? `${commit.subject.slice(0, Math.max(messageLength - 1, 0))}…` : commit.subject;
+  return quoteSafe(messageLength > 0 && subject ? `${commit.short} ${subject}` : commit.short);
+}
+
+function quoteSafe(text: string): string {
+  return text.replace(/"/g, "'");
+}
+
+function branchName(name: string): string {
+  return /^[A-Za-z_][\w./-]*$/.test(name) && !KEYWORDS.has(name.toLowerCase()) ? name : `"${quoteSafe(name)}"`;
+}
@@ -0,0 +1,90 @@
+import { spawn } from "child_process";
+import { fileURLToPath } from "url";
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { mcpLogger as logger } from "../shared/logger.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Kill the headless renderer if it hangs (e.g. no display available)
+const RENDER_TIMEOUT_MS = 30000;
+
+export interface DiagramImage {
+  svg: string;
+  png: string; // base64-encoded PNG
+}
+
+/**
+ * Path to the electron binary in node_modules/.bin.
+ * __dirname is dist/mcp, so the package root is two levels up.
+ */
+export function getElectronBinary(): string {
+  const packageRoot = path.resolve(__dirname, "../..");
+  const electronBinName = process.platform === "win32" ? "electron.cmd" : "electron";
+  return path.join(packageRoot, "node_modules", ".bin", electronBinName);
+}
+
+/**
+ * Renders a diagram to SVG and PNG in a short-lived offscreen Electron process.
+ * The diagram should already have passed validation.
+ */
+export async function renderDiagramImage(
+  diagram: string,
+  background?: string,
+): Promise<DiagramImage> {
+  const headlessPath = path.resolve(__dirname, "../electron/headlessRenderer.js");
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "mindpilot-render-"));
+  const inputPath = path.join(workDir, `${randomUUID()}-input.json`);
+  const outputPath = path.join(workDir, `${randomUUID()}-output.json`);
+
+  try {
+    await fs.writeFile(inputPath, JSON.stringify({ diagram, background }));
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(
+        getElectronBinary(),
+        [headlessPath, "--input", inputPath, "--output", outputPath],
+        {
+          stdio: ["ignore", "ignore", "pipe"],
+          env: {
+            ...process.env,
+            NODE_ENV: process.env.NODE_ENV || "production",
+          },
+        },
+      );
+
+      let stderr = "";
+      child.stderr?.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error("Headless render timed out"));
+      }, RENDER_TIMEOUT_MS);
+
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on("exit", (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Headless renderer exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+
+    const output = JSON.parse(await fs.readFile(outputPath, "utf-8")) as DiagramImage;
+    logger.debug("Rendered diagram image", { svgLength: output.svg.length });
+    return output;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,385 @@
+import fs from "fs/promises";
+import path from "path";
+import { builtinModules } from "module";
+import { detectGitRoot } from "../shared/gitRepoDetector.js";
+import { isInside } from "../shared/pathUtils.js";
+import { mcpLogger as logger } from "../shared/logger.js";
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+// Build output and dependencies, never worth drawing
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "dist", "build", "out", "coverage"]);
+
+// TypeScript ESM imports name the compiled file: ./foo.js is ./foo.ts on disk
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+const IMPORT_PATTERNS = [
+  // import x from "a", import "a", export { x } from "a", export * from "a"
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?["']([^"']+)["']/g,
+  // require("a") and import("a")
+  /\b(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+// Words that cannot be flowchart node ids
+const RESERVED_IDS = new Set(["end", "graph", "flowchart", "subgraph", "style", "class", "classDef", "click", "default", "linkStyle"]);
+
+export interface ImportGraphOptions {
+  cluster?: boolean; // One subgraph per folder, default true
+  includeExternal?: boolean; // Add nodes for packages and Node builtins, default false
+  direction?: string; // Flowchart direction, default LR
+  maxFiles?: number; // Refuse to draw more modules than this, default 200
+  workingDir?: string;
+}
+
+export interface ImportGraphResult {
+  diagram: string;
+  directory: string; // Scanned directory relative to the git root
+  modules: number;
+  imports: number; // Edges between modules, after removing duplicates
+}
+
+interface PathAliases {
+  baseUrl?: string; // Absolute
+  pathsBase: string; // Directory that paths targets are relative to
+  paths: [string, string[]][];
+}
+
+/**
+ * Scan a directory of the working repo for TypeScript and JavaScript
+ * modules and draw their import/require/re-export edges as a flowchart.
+ * Specifiers are resolved like the compiler does for relative paths,
+ * index files and the nearest tsconfig's baseUrl and paths.
+ */
+export async function diagramFromImports(
+  directory: string = ".",
+  options: ImportGraphOptions = {},
+): Promise<ImportGraphResult> {
+  const { cluster = true, includeExternal = false, direction = "LR", maxFiles = 200 } = options;
+
+  const repoRoot = await detectGitRoot(options.workingDir ?? process.cwd());
+  if (!repoRoot) {
+    throw new Error("Cannot scan imports outside a git repository");
+  }
+  const realRoot = await fs.realpath(repoRoot);
+  // Follow symlinks before the check, so a link cannot point outside the repository
+  const requested = path.resolve(realRoot, directory);
+  const scanDir = await fs.realpath(requested).catch(() => requested);
+  if (!isInside(realRoot, scanDir)) {
+    throw new Error(`Directory escapes the repository: ${directory}`);
+  }
+  const stat = await fs.stat(scanDir).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Not a directory: ${directory}`);
+  }
+
+  const files = await collectSourceFiles(scanDir, maxFiles);
+  if (files.length === 0) {
+    throw new Error(`No TypeScript or JavaScript files found in ${directory}`);
+  }
+  const fileSet = new Set(files);
+  const aliases = await loadPathAliases(scanDir, realRoot);
+
+  const edges = new Map<string, Set<string>>();
+  const packages = new Set<string>();
+  for (const file of files) {
+    const targets = new Set<string>();
+    const source = stripComments(await fs.readFile(file, "utf-8"));
+
+    for (const specifier of extractSpecifiers(source)) {
+      const resolved = resolveSpecifier(specifier, file, aliases, fileSet);
+      if (resolved === undefined) {
+        if (includeExternal) {
+          const name = packageName(specifier);
+          packages.add(name);
+          targets.add(`package:${name}`);
+        }
+      } else if (resolved && resolved !== file) {
+        targets.add(resolved);
+      }
+    }
+    edges.set(file, targets);
+  }
+
+  const diagram = buildFlowchart(scanDir, files, edges, packages, { cluster, direction });
+  const imports = Array.from(edges.values()).reduce((count, targets) => count + targets.size, 0);
+  const relativeDir = path.relative(realRoot, scanDir) || ".";
+  logger.info(`Drew import graph of ${relativeDir}`, { modules: files.length, imports });
+
+  return { diagram, directory: relativeDir, modules: files.length, imports };
+}
+
+/**
+ * List source files under a directory, skipping dependencies, build output,
+ * hidden folders and declaration files
+ */
+async function collectSourceFiles(dir: string, maxFiles: number): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith(".") && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (
+        entry.isFile() &&
+        SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+        !/\.d\.[mc]?ts$/.test(entry.name)
+      ) {
+        files.push(fullPath);
+        if (files.length > maxFiles) {
+          throw new Error(
+            `Found more than ${maxFiles} modules. Pick a smaller directory or raise max_files.`,
+          );
+        }
+      }
+    }
+  };
+
+  await walk(dir);
+  return files;
+}
+
+/**
+ * Read baseUrl and paths from the nearest tsconfig.json or jsconfig.json
+ * between the scanned directory and the git root, following relative
+ * `extends`
+ */
+async function loadPathAliases(scanDir: string, repoRoot: string): Promise<PathAliases | null> {
+  for (let dir = scanDir; isInside(repoRoot, dir); dir = path.dirname(dir)) {
+    for (const name of ["tsconfig.json", "jsconfig.json"]) {
+      const configPath = path.join(dir, name);
+      const exists = await fs.stat(configPath).then(() => true, () => false);
+      if (exists) {
+        return readCompilerPaths(configPath, new Set());
+      }
+    }
+    if (dir === repoRoot) break;
+  }
+  return null;
+}
+
+async function readCompilerPaths(configPath: string, seen: Set<string>): Promise<PathAliases | null> {
+  if (seen.has(configPath)) return null;
+  seen.add(configPath);
+
+  let config: any;
+  try {
+    config = parseJsonWithComments(await fs.readFile(configPath, "utf-8"));
+  } catch (error) {
+    logger.warn(`Ignoring unreadable ${configPath}`, {
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+
+  const configDir = path.dirname(configPath);
+  const inherited = typeof config.extends === "string" && config.extends.startsWith(".")
+    ? await readCompilerPaths(
+        path.resolve(configDir, config.extends.endsWith(".json") ? config.extends : `${config.extends}.json`),
+        seen,
+      )
+    : null;
+
+  const { baseUrl, paths } = config.compilerOptions ?? {};
+  const resolvedBaseUrl = typeof baseUrl === "string" ? path.resolve(configDir, baseUrl) : inherited?.baseUrl;
+  if (!resolvedBaseUrl && !paths && !inherited) {
+    return null;
+  }
+
+  return {
+    baseUrl: resolvedBaseUrl,
+    // paths are relative to baseUrl, or to the config that declares them
+    pathsBase: resolvedBaseUrl ?? (paths ? configDir : inherited!.pathsBase),
+    paths: paths ? Object.entries(paths as Record<string, string[]>) : inherited?.paths ?? [],
+  };
+}
+
+/**
+ * Remove comments so commented-out imports are not drawn, leaving strings
+ * (which may contain // or /*) alone
+ */
+function stripComments(source: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '"' || char === "'" || char === "`") {
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      result += source.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      i = end < 0 ? source.length : end;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end < 0 ? source.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function parseJsonWithComments(text: string): unknown {
+  // tsconfig allows comments and trailing commas
+  return JSON.parse(stripComments(text).replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function extractSpecifiers(source: string): string[] {
+  const specifiers: string[] = [];
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+}
+
+/**
+ * Resolve an import specifier to a scanned file. Returns null for local
+ * modules outside the scanned directory (or that do not exist) and
+ * undefined for packages.
+ */
+function resolveSpecifier(
+  specifier: string,
+  fromFile: string,
+  aliases: PathAliases | null,
+  fileSet: Set<string>,
+): string | null | undefined {
+  if (specifier.startsWith(".") || specifier.startsWith("/")) {
+    return findModule(path.resolve(path.dirname(fromFile), specifier), fileSet);
+  }
+
+  if (aliases) {
+    for (const [pattern, targets] of aliases.paths) {
+      const captured = matchPathPattern(pattern, specifier);
+      if (captured === null) continue;
+      for (const target of targets) {
+        const found = findModule(path.resolve(aliases.pathsBase, target.replace("*", captured)), fileSet);
+        if (found) return found;
+      }
+      return null;
+    }
+
+    if (aliases.baseUrl) {
+      const found = findModule(path.resolve(aliases.baseUrl, specifier), fileSet);
+      if (found) return found;
+    }
+  }
+
+  return undefined;
+}
+
+function matchPathPattern(pattern: string, specifier: string): string | null {
+  const star = pattern.indexOf("*");
+  if (star < 0) {
+    return pattern === specifier ? "" : null;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return null;
+}
+
+function findModule(base: string, fileSet: Set<string>): string | null {
+  const extension = path.extname(base);
+  const candidates = [
+    base,
+    ...(COMPILED_EXTENSIONS[extension] ?? []).map(compiled => base.slice(0, -extension.length) + compiled),
+    ...SOURCE_EXTENSIONS.map(ext => base + ext),
+    ...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+  ];
+  return candidates.find(candidate => fileSet.has(candidate)) ?? null;
+}
+
+function packageName(specifier: string): string {
+  const parts = specifier.replace(/^node:/, "").split("/");
+  if (specifier.startsWith("node:") || builtinModules.includes(parts[0])) {
+    return `node:${parts[0]}`;
+  }
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function toNodeId(name: string, used: Set<string>): string {
+  const base = name.replace(/[^A-Za-z0-9_]/g, "_") || "_";
+  let id = RESERVED_IDS.has(base) ? `${base}_` : base;
+  for (let n = 2; used.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function buildFlowchart(
+  scanDir: string,
+  files: string[],
+  edges: Map<string, Set<string>>,
+  packages: Set<string>,
+  { cluster, direction }: { cluster: boolean; direction: string },
+): string {
+  const used = new Set<string>();
+  const ids = new Map<string, string>();
+  const lines = [`flowchart ${direction}`];
+
+  const folders = new Map<string, string[]>();
+  for (const file of files) {
+    const relative = path.relative(scanDir, file).split(path.sep).join("/");
+    ids.set(file, toNodeId(relative.replace(/\.[^./]+$/, ""), used));
+    const folder = cluster ? path.posix.dirname(relative) : ".";
+    folders.set(folder, [...(folders.get(folder) ?? []), file]);
+  }
+
+  for (const [folder, members] of folders) {
+    const indent = folder === "." ? "  " : "    ";
+    if (folder !== ".") {
+      lines.push(`  subgraph ${toNodeId(`dir_${folder}`, used)}["${folder}"]`);
+    }
+    for (const file of members) {
+      const relative = path.relative(scanDir, file).split(path.sep).join("/");
+      lines.push(`${indent}${ids.get(file)}["${cluster ? path.posix.basename(relative) : relative}"]`);
+    }
+    if (folder !== ".") {
+      lines.push("  end");
+    }
+  }
+
+  const packageIds = new Map<string, string>();
+  for (const name of Array.from(packages).sort()) {
+    const id = toNodeId(`pkg_${name}`, used);
+    packageIds.set(`package:${name}`, id);
+    lines.push(`  ${id}(["${name}"])`);
+  }
+
+  for (const [file, targets] of edges) {
+    for (const target of targets) {
+      lines.push(`  ${ids.get(file)} --> ${ids.get(target) ?? packageIds.get(target)}`);
+    }
+  }
+
+  if (packageIds.size > 0) {
+    lines.push("  classDef sky fill:#74c0fc,stroke:#339af0,color:#000");
+    lines.push(`  class ${Array.from(packageIds.values()).join(",")} sky`);
+  }
+
+  return lines.join("\n");
+}
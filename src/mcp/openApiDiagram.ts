@@ -0,0 +1,49 @@
+import fs from "fs/promises";
+import path from "path";
+import { detectGitRoot } from "../shared/gitRepoDetector.js";
+import { isInside } from "../shared/pathUtils.js";
+import { loadOpenApiSpec, OpenApiDiagram, OpenApiDiagramOptions, openApiToDiagrams, summarizeOpenApiSpec } from "../shared/openApi.js";
+
+export interface OpenApiDiagramsResult {
+  path: string; // Spec file relative to the git root
+  title: string;
+  diagrams: OpenApiDiagram[];
+}
+
+/**
+ * Read an OpenAPI spec from the working repo and convert it to a sequence
+ * diagram per requested operation and, optionally, an overview flowchart.
+ * With neither requested, only the overview is drawn.
+ */
+export async function diagramsFromOpenApi(
+  specPath: string,
+  options: OpenApiDiagramOptions & { workingDir?: string } = {},
+): Promise<OpenApiDiagramsResult> {
+  if (!specPath) {
+    throw new Error("Spec path is required");
+  }
+
+  const repoRoot = await detectGitRoot(options.workingDir ?? process.cwd());
+  if (!repoRoot) {
+    throw new Error("Cannot read specs outside a git repository");
+  }
+  const realRoot = await fs.realpath(repoRoot);
+  // Follow symlinks before the check, so a link cannot point outside the repository
+  const requested = path.resolve(realRoot, specPath);
+  const target = await fs.realpath(requested).catch(() => requested);
+  if (!isInside(realRoot, target)) {
+    throw new Error(`Path escapes the repository: ${specPath}`);
+  }
+  const stat = await fs.stat(target).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new Error(`File not found: ${specPath}`);
+  }
+
+  const spec = await loadOpenApiSpec(target);
+  const overview = options.overview ?? !options.operations?.length;
+  return {
+    path: path.relative(realRoot, target),
+    title: summarizeOpenApiSpec(spec).title,
+    diagrams: openApiToDiagrams(spec, { operations: options.operations, overview }),
+  };
+}
@@ -0,0 +1,120 @@
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { colorPrompt } from "../shared/colorPalette.js";
+
+// Shared by the render_mermaid description and every prompt below
+export const syntaxRules =
+  'CRITICAL RULES: 1) Node IDs must be alphanumeric without spaces (use A1, nodeA, start_node). 2) For node labels with special characters, wrap in quotes: A["Label with spaces"] or A["Process (step 1)"]. 3) For quotes in labels use &quot;, for < use &lt;, for > use &gt;. 4) For square brackets in labels use A["Array&#91;0&#93;"]. 5) Always close all brackets and quotes. 6) Use consistent arrow styles (either --> or ->). Example: graph TD\\n  A["Complex Label"] --> B{Decision?}\\n  B -->|Yes| C["Result &quot;OK&quot;"]';
+
+interface DiagramPrompt extends Prompt {
+  // Builds the task part of the prompt; the rules and palette are appended
+  task: (args: Record<string, string>) => string;
+}
+
+const prompts: DiagramPrompt[] = [
+  {
+    name: "architecture_overview",
+    title: "Architecture overview of this repo",
+    description: "Explore the current repository and draw its main components and how they depend on each other",
+    arguments: [
+      {
+        name: "focus",
+        description: "Part of the codebase to concentrate on, e.g. a directory or subsystem. Leave out for the whole repo.",
+      },
+    ],
+    task: ({ focus }) =>
+      `Create an architecture overview diagram of ${focus ? `the ${focus} part of this repository` : "this repository"}.\n\n` +
+      "Read the project layout, entry points and main modules first. Draw a flowchart (graph TD or flowchart LR) with one node per major component, " +
+      "group related components in subgraphs by layer or directory, and label edges with how the components talk to each other (calls, events, HTTP, IPC). " +
+      "Leave out utility modules that do not help explain the design, and colour nodes by role using the palette below.",
+  },
+  {
+    name: "request_sequence",
+    title: "Sequence diagram for a request path",
+    description: "Trace a request or call path through the code and draw it as a sequence diagram",
+    arguments: [
+      {
+        name: "request_path",
+        description: "The request or entry point to trace, e.g. \"POST /api/orders\" or \"handleLogin in src/auth.ts\"",
+        required: true,
+      },
+    ],
+    task: ({ request_path }) =>
+      `Create a sequence diagram for this request path: ${request_path}\n\n` +
+      "Follow the code from the entry point through every component it touches until the response is sent. " +
+      "Use sequenceDiagram with one participant per component (client, handlers, services, stores, external systems), " +
+      "show returns with dashed arrows (-->>), and use alt/opt blocks for error handling and other branches that matter. " +
+      "Keep participant names short and put details in the message labels.",
+  },
+  {
+    name: "er_diagram",
+    title: "ER diagram from models",
+    description: "Read data models and draw their entities and relationships as an ER diagram",
+    arguments: [
+      {
+        name: "models",
+        description: "Model names, files or directories to read, e.g. \"src/models\" or \"User, Order, Product\"",
+        required: true,
+      },
+    ],
+    task: ({ models }) =>
+      `Create an entity relationship diagram from these models: ${models}\n\n` +
+      "Read each model definition and use erDiagram with one entity per model. List the key attributes with their types, " +
+      "mark primary and foreign keys with PK and FK, and draw relationships with the correct cardinality (||--o{, }o--o{ and so on) " +
+      "and a short verb as the label. Only include relationships that are actually defined in the code.",
+  },
+  {
+    name: "state_machine",
+    title: "State machine from an enum",
+    description: "Find where an enum's values change and draw the transitions as a state diagram",
+    arguments: [
+      {
+        name: "enum",
+        description: "The enum or status type to diagram, e.g. \"OrderStatus\" or \"State in src/mcp/stateMachine.ts\"",
+        required: true,
+      },
+    ],
+    task: ({ enum: enumName }) =>
+      `Create a state machine diagram for ${enumName}.\n\n` +
+      "Read the enum, then search the code for every place that assigns or transitions between its values. " +
+      "Use stateDiagram-v2 with one state per enum value, mark the initial state with [*] and any terminal states with --> [*], " +
+      "and label each transition with the event or function that causes it. Do not invent transitions the code does not perform.",
+  },
+];
+
+/**
+ * Prompt definitions for prompts/list, without the builders
+ */
+export const diagramPrompts: Prompt[] = prompts.map(({ task, ...prompt }) => prompt);
+
+/**
+ * Fill in a prompt's arguments and append the syntax rules and color palette
+ */
+export function buildPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = prompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new Error(`Missing required argument: ${argument.name}`);
+    }
+  }
+
+  const text = [
+    prompt.task(args),
+    "Render the result with the render_mermaid tool and give it a short, descriptive title. If validation fails, read the error, fix the diagram and try again.",
+    syntaxRules,
+    `Use these colors which work well for both light and dark mode:${colorPrompt}`,
+  ].join("\n\n");
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text },
+      },
+    ],
+  };
+}
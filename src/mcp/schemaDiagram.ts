@@ -0,0 +1,637 @@
+import fs from "fs/promises";
+import path from "path";
+import { detectGitRoot } from "../shared/gitRepoDetector.js";
+import { isInside } from "../shared/pathUtils.js";
+import { mcpLogger as logger } from "../shared/logger.js";
+
+export type SchemaFormat = "sql" | "prisma" | "typeorm" | "drizzle";
+
+export const SCHEMA_FORMATS: SchemaFormat[] = ["sql", "prisma", "typeorm", "drizzle"];
+
+const SCRIPT_EXTENSIONS = [".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"];
+
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "dist", "build", "out", "coverage"]);
+
+// Stop reading a directory after this many schema files
+const MAX_FILES = 500;
+
+const DRIZZLE_TABLE_RE = /\b(\w+)\s*=\s*(?:pg|mysql|sqlite)Table\s*\(\s*["'`]([^"'`]+)["'`]\s*,\s*\{/g;
+
+export interface SchemaDiagramOptions {
+  format?: SchemaFormat; // Read every file as this format instead of detecting it
+  columns?: boolean; // List columns inside each entity, default true
+  workingDir?: string;
+}
+
+export interface SchemaDiagramResult {
+  diagram: string;
+  path: string; // Scanned file or directory relative to the git root
+  files: number; // Files that held schema definitions
+  tables: number;
+  relationships: number;
+}
+
+interface SchemaColumn {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  unique?: boolean;
+  nullable?: boolean;
+}
+
+interface SchemaForeignKey {
+  columns: string[];
+  table: string; // Referenced table
+  nullable?: boolean; // Overrides the nullability of the columns, for ORM relations
+  unique?: boolean; // Overrides uniqueness, for ORM one-to-one relations
+  manyToMany?: boolean;
+  label?: string; // Relationship label, the columns when omitted
+}
+
+interface SchemaTable {
+  name: string;
+  columns: SchemaColumn[];
+  uniqueSets: string[][]; // Multi-column UNIQUE constraints and composite primary keys
+  foreignKeys: SchemaForeignKey[];
+}
+
+type Schema = Map<string, SchemaTable>;
+
+/**
+ * Read SQL DDL, Prisma schemas or TypeORM/Drizzle entities from a file or
+ * directory of the working repo and draw them as an erDiagram. Foreign keys
+ * become relationships: the referenced side is exactly one (or zero or one
+ * for nullable keys) and the referencing side is zero or many (or zero or
+ * one when the key is unique).
+ */
+export async function diagramFromSchema(
+  schemaPath: string,
+  options: SchemaDiagramOptions = {},
+): Promise<SchemaDiagramResult> {
+  if (!schemaPath) {
+    throw new Error("Schema path is required");
+  }
+  if (options.format && !SCHEMA_FORMATS.includes(options.format)) {
+    throw new Error(`Unsupported schema format "${options.format}". Use one of: ${SCHEMA_FORMATS.join(", ")}`);
+  }
+
+  const repoRoot = await detectGitRoot(options.workingDir ?? process.cwd());
+  if (!repoRoot) {
+    throw new Error("Cannot read schemas outside a git repository");
+  }
+  const realRoot = await fs.realpath(repoRoot);
+  // Follow symlinks before the check, so a link cannot point outside the repository
+  const requested = path.resolve(realRoot, schemaPath);
+  const target = await fs.realpath(requested).catch(() => requested);
+  if (!isInside(realRoot, target)) {
+    throw new Error(`Path escapes the repository: ${schemaPath}`);
+  }
+  const stat = await fs.stat(target).catch(() => null);
+  if (!stat) {
+    throw new Error(`Path not found: ${schemaPath}`);
+  }
+
+  const schema: Schema = new Map();
+  let files = 0;
+  for (const file of stat.isDirectory() ? await collectFiles(target) : [target]) {
+    const source = await fs.readFile(file, "utf-8");
+    const format = options.format ?? detectFormat(file, source);
+    if (!format) continue;
+
+    files++;
+    switch (format) {
+      case "sql":
+        parseSql(source, schema);
+        break;
+      case "prisma":
+        parsePrisma(source, schema);
+        break;
+      case "typeorm":
+        parseTypeOrm(source, schema);
+        break;
+      case "drizzle":
+        parseDrizzle(source, schema);
+        break;
+    }
+  }
+
+  if (schema.size === 0) {
+    throw new Error(`No tables found in ${schemaPath}. Point path at SQL, Prisma, TypeORM or Drizzle schema files.`);
+  }
+
+  fillForeignKeyTypes(schema);
+  const { diagram, relationships } = buildErDiagram(schema, options.columns ?? true);
+  const relativePath = path.relative(realRoot, target) || ".";
+  logger.info(`Drew schema of ${relativePath}`, { tables: schema.size, relationships });
+
+  return { diagram, path: relativePath, files, tables: schema.size, relationships };
+}
+
+async function collectFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith(".") && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile() && files.length < MAX_FILES) {
+        const extension = path.extname(entry.name);
+        if (extension === ".sql" || extension === ".prisma" || (SCRIPT_EXTENSIONS.includes(extension) && !entry.name.endsWith(".d.ts"))) {
+          files.push(fullPath);
+        }
+      }
+    }
+  };
+
+  await walk(dir);
+  return files;
+}
+
+function detectFormat(file: string, source: string): SchemaFormat | null {
+  const extension = path.extname(file);
+  if (extension === ".sql") return "sql";
+  if (extension === ".prisma") return "prisma";
+  if (SCRIPT_EXTENSIONS.includes(extension)) {
+    if (/@Entity\s*\(/.test(source)) return "typeorm";
+    if (/\b(?:pg|mysql|sqlite)Table\s*\(/.test(source)) return "drizzle";
+  }
+  return null;
+}
+
+function getTable(schema: Schema, name: string): SchemaTable {
+  let table = schema.get(name);
+  if (!table) {
+    table = { name, columns: [], uniqueSets: [], foreignKeys: [] };
+    schema.set(name, table);
+  }
+  return table;
+}
+
+// SQL DDL
+
+/**
+ * Reads CREATE TABLE statements, and ALTER TABLE ... ADD COLUMN / ADD
+ * FOREIGN KEY as written by migrations and schema dumps
+ */
+function parseSql(source: string, schema: Schema): void {
+  const text = source.replace(/--[^\n]*/g, "").replace(/\/\*[\s\S]*?\*\//g, "");
+
+  for (const statement of splitTopLevel(text, ";")) {
+    const create = statement.match(/^\s*CREATE\s+(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+)?(?:UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([^\s(]+)\s*\(([\s\S]*)\)/i);
+    if (create) {
+      const table = getTable(schema, sqlName(create[1]));
+      for (const item of splitTopLevel(create[2], ",")) {
+        parseSqlTableItem(item.trim(), table);
+      }
+      continue;
+    }
+
+    const alter = statement.match(/^\s*ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?([^\s]+)\s+([\s\S]*)$/i);
+    if (alter) {
+      for (const action of splitTopLevel(alter[2], ",")) {
+        const added = action.trim().match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i);
+        if (added) {
+          parseSqlTableItem(added[1].trim(), getTable(schema, sqlName(alter[1])));
+        }
+      }
+    }
+  }
+}
+
+function parseSqlTableItem(item: string, table: SchemaTable): void {
+  const constraint = item.replace(/^CONSTRAINT\s+\S+\s+/i, "");
+
+  const primaryKey = constraint.match(/^PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+  if (primaryKey) {
+    const columns = sqlNameList(primaryKey[1]);
+    for (const column of table.columns.filter(c => columns.includes(c.name))) {
+      column.primaryKey = true;
+      column.nullable = false;
+    }
+    if (columns.length > 1) table.uniqueSets.push(columns);
+    return;
+  }
+
+  const foreignKey = constraint.match(/^FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+([^\s(]+)/i);
+  if (foreignKey) {
+    table.foreignKeys.push({ columns: sqlNameList(foreignKey[1]), table: sqlName(foreignKey[2]) });
+    return;
+  }
+
+  const unique = constraint.match(/^UNIQUE(?:\s+(?:KEY|INDEX)(?:\s+[^\s(]+)?)?\s*\(([^)]*)\)/i);
+  if (unique) {
+    const columns = sqlNameList(unique[1]);
+    if (columns.length === 1) {
+      const column = table.columns.find(c => c.name === columns[0]);
+      if (column) column.unique = true;
+    } else {
+      table.uniqueSets.push(columns);
+    }
+    return;
+  }
+
+  // Other table constraints and MySQL index definitions such as KEY idx (a)
+  if (/^(CHECK|EXCLUDE|FULLTEXT|SPATIAL|LIKE|PERIOD)\b/i.test(constraint) || /^(KEY|INDEX)(\s+[^\s(]+)?\s*\(/i.test(constraint) && !/^\w+\s+\w+\(/.test(constraint)) {
+    return;
+  }
+
+  const column = item.match(/^("[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)\s+([\w$]+(?:\s+(?:varying|precision|with(?:out)?\s+time\s+zone))?(?:\s*\([^)]*\))?(?:\[\])?)([\s\S]*)$/i);
+  if (!column) {
+    return;
+  }
+  const [, name, type, rest] = column;
+  const definition: SchemaColumn = {
+    name: sqlName(name),
+    type: type.replace(/\s+/g, "_"),
+    primaryKey: /\bPRIMARY\s+KEY\b/i.test(rest),
+    unique: /\bUNIQUE\b/i.test(rest),
+    nullable: !/\bNOT\s+NULL\b/i.test(rest) && !/\bPRIMARY\s+KEY\b/i.test(rest),
+  };
+  table.columns = table.columns.filter(c => c.name !== definition.name).concat(definition);
+
+  const references = rest.match(/\bREFERENCES\s+([^\s(]+)/i);
+  if (references) {
+    table.foreignKeys.push({ columns: [definition.name], table: sqlName(references[1]) });
+  }
+}
+
+// Strips quotes from an identifier and drops the schema, e.g. public."users" -> users
+function sqlName(name: string): string {
+  const parts = name.split(".");
+  return parts[parts.length - 1].replace(/^["`[]|["`\]]$/g, "");
+}
+
+function sqlNameList(list: string): string[] {
+  return list.split(",").map(name => sqlName(name.trim().split(/\s+/)[0])).filter(Boolean);
+}
+
+// Prisma
+
+function parsePrisma(source: string, schema: Schema): void {
+  const text = source.replace(/\/\/[^\n]*/g, "");
+  const enums = new Set(Array.from(text.matchAll(/\benum\s+(\w+)/g), ([, name]) => name));
+
+  for (const model of text.matchAll(/\bmodel\s+(\w+)\s*\{([^}]*)\}/g)) {
+    const table = getTable(schema, model[1]);
+
+    for (const line of model[2].split("\n").map(l => l.trim()).filter(Boolean)) {
+      const blockAttribute = line.match(/^@@(id|unique)\s*\(\s*(?:fields\s*:\s*)?\[([^\]]*)\]/);
+      if (blockAttribute) {
+        const columns = blockAttribute[2].split(",").map(c => c.trim()).filter(Boolean);
+        if (blockAttribute[1] === "id") {
+          for (const column of table.columns.filter(c => columns.includes(c.name))) {
+            column.primaryKey = true;
+            column.nullable = false;
+          }
+        }
+        if (columns.length > 1) table.uniqueSets.push(columns);
+        else table.columns.filter(c => c.name === columns[0]).forEach(c => (c.unique = true));
+        continue;
+      }
+
+      const field = line.match(/^(\w+)\s+(\w+)(\[\])?(\?)?(.*)$/);
+      if (!field) continue;
+      const [, name, type, list, optional, attributes] = field;
+
+      const relation = attributes.match(/@relation\s*\(([^)]*)\)/);
+      const fields = relation?.[1].match(/fields\s*:\s*\[([^\]]*)\]/);
+      if (fields) {
+        table.foreignKeys.push({
+          columns: fields[1].split(",").map(c => c.trim()).filter(Boolean),
+          table: type,
+          nullable: !!optional,
+        });
+        continue;
+      }
+
+      // Relation fields without fields: are the other side of a relation
+      if (list || (/^[A-Z]/.test(type) && !PRISMA_SCALARS.has(type) && !enums.has(type))) {
+        continue;
+      }
+
+      table.columns.push({
+        name,
+        type,
+        primaryKey: /@id\b/.test(attributes),
+        unique: /@unique\b/.test(attributes),
+        nullable: !!optional,
+      });
+    }
+  }
+}
+
+const PRISMA_SCALARS = new Set(["String", "Boolean", "Int", "BigInt", "Float", "Decimal", "DateTime", "Json", "Bytes", "Unsupported"]);
+
+// TypeORM
+
+interface Decorator {
+  name: string;
+  args: string;
+}
+
+function parseTypeOrm(source: string, schema: Schema): void {
+  const text = stripScriptComments(source);
+
+  for (const entity of text.matchAll(/@Entity\s*\(([^)]*)\)\s*(?:@\w+\s*\([^)]*\)\s*)*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)[^{]*\{/g)) {
+    const bodyStart = entity.index! + entity[0].length;
+    const body = text.slice(bodyStart, matchClosing(text, bodyStart - 1));
+    const table = getTable(schema, entity[2]);
+
+    for (const { decorators, name, type, optional } of readDecoratedProperties(body)) {
+      const decorator = (names: string[]) => decorators.find(d => names.includes(d.name));
+      const relation = decorator(["ManyToOne", "OneToOne", "ManyToMany"]);
+
+      if (relation) {
+        const target = relation.args.match(/=>\s*(\w+)/)?.[1];
+        if (!target) continue;
+        if (relation.name === "ManyToMany") {
+          // The side with @JoinTable owns the relation, so it is drawn once
+          if (decorator(["JoinTable"])) {
+            table.foreignKeys.push({ columns: [], table: target, manyToMany: true, label: name });
+          }
+          continue;
+        }
+
+        const joinColumn = decorator(["JoinColumn"]);
+        // The owning side of a one-to-one is the one with @JoinColumn
+        if (relation.name === "OneToOne" && !joinColumn) continue;
+        const column = joinColumn?.args.match(/name\s*:\s*["'`](\w+)["'`]/)?.[1] ?? `${name}Id`;
+        if (!table.columns.some(c => c.name === column)) {
+          // Typed like the referenced key once every table is read
+          table.columns.push({ name: column, type: "" });
+        }
+        table.foreignKeys.push({
+          columns: [column],
+          table: target,
+          nullable: !/nullable\s*:\s*false/.test(relation.args),
+          unique: relation.name === "OneToOne",
+        });
+        continue;
+      }
+
+      const column = decorator(["PrimaryGeneratedColumn", "PrimaryColumn", "Column", "CreateDateColumn", "UpdateDateColumn", "DeleteDateColumn", "VersionColumn"]);
+      if (!column) continue;
+
+      const primaryKey = column.name.startsWith("Primary");
+      const explicitType = column.args.match(/^\s*["'`](\w+)["'`]/)?.[1] ?? column.args.match(/type\s*:\s*["'`](\w+)["'`]/)?.[1];
+      const columnName = column.args.match(/name\s*:\s*["'`](\w+)["'`]/)?.[1] ?? name;
+      table.columns = table.columns.filter(c => c.name !== columnName).concat({
+        name: columnName,
+        type: explicitType ?? (primaryKey && column.name === "PrimaryGeneratedColumn" ? "int" : type),
+        primaryKey,
+        unique: /unique\s*:\s*true/.test(column.args),
+        nullable: optional || /nullable\s*:\s*true/.test(column.args),
+      });
+    }
+  }
+}
+
+/**
+ * Reads `@Decorator(...) name?: Type` class members, skipping methods and
+ * undecorated properties
+ */
+function readDecoratedProperties(body: string) {
+  const properties: { decorators: Decorator[]; name: string; type: string; optional: boolean }[] = [];
+  let decorators: Decorator[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const rest = body.slice(i);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const decorator = rest.match(/^@(\w+)\s*/);
+    if (decorator) {
+      i += decorator[0].length;
+      let args = "";
+      if (body[i] === "(") {
+        const end = matchClosing(body, i);
+        args = body.slice(i + 1, end);
+        i = end + 1;
+      }
+      decorators.push({ name: decorator[1], args });
+      continue;
+    }
+
+    const property = rest.match(/^(?:(?:public|private|protected|readonly|declare)\s+)*(\w+)([?!])?\s*:\s*([^;=\n]+)/);
+    if (property && decorators.length > 0) {
+      properties.push({
+        decorators,
+        name: property[1],
+        type: property[3].trim().replace(/\s*\|\s*null$/, ""),
+        optional: property[2] === "?" || /\|\s*null\b/.test(property[3]),
+      });
+    }
+    decorators = [];
+
+    // Skip to the next member, past any method body
+    const next = rest.search(/[;\n{]/);
+    if (next < 0) break;
+    i += rest[next] === "{" ? matchClosing(body, i + next) - i + 1 : next + 1;
+  }
+
+  return properties;
+}
+
+// Drizzle
+
+function parseDrizzle(source: string, schema: Schema): void {
+  const text = stripScriptComments(source);
+  const tables = new Map<string, string>(); // Variable name -> table name
+  const pending: { table: SchemaTable; column: string; variable: string }[] = [];
+
+  for (const match of text.matchAll(DRIZZLE_TABLE_RE)) {
+    const [, variable, name] = match;
+    tables.set(variable, name);
+    const table = getTable(schema, name);
+    const start = match.index! + match[0].length - 1;
+    const columnsEnd = matchClosing(text, start);
+    const columnsText = text.slice(start + 1, columnsEnd);
+    const names = new Map<string, string>(); // Property key -> column name
+
+    for (const entry of splitTopLevel(columnsText, ",")) {
+      const column = entry.trim().match(/^["'`]?(\w+)["'`]?\s*:\s*(\w+)\s*\(\s*(?:["'`](\w+)["'`])?([\s\S]*)$/);
+      if (!column) continue;
+      const [, key, builder, columnName, chain] = column;
+      const name = columnName ?? key;
+      names.set(key, name);
+      const primaryKey = /\.primaryKey\s*\(/.test(chain);
+
+      table.columns.push({
+        name,
+        type: builder,
+        primaryKey,
+        unique: /\.unique\s*\(/.test(chain),
+        nullable: !primaryKey && !/\.notNull\s*\(/.test(chain),
+      });
+
+      const reference = chain.match(/\.references\s*\(\s*\(\s*\)\s*(?::\s*\w+\s*)?=>\s*(\w+)\s*\./);
+      if (reference) {
+        pending.push({ table, column: name, variable: reference[1] });
+      }
+    }
+
+    // Composite keys live in the extra config after the columns:
+    // (t) => ({ pk: primaryKey({ columns: [t.a, t.b] }) }), or primaryKey(t.a, t.b) in older versions
+    const config = text.slice(columnsEnd + 1, matchClosing(text, text.lastIndexOf("(", start)));
+    const compositeKey = config.match(/\bprimaryKey\s*\(\s*(?:\{\s*columns\s*:\s*\[([^\]]*)\]|([^)]*))/);
+    if (compositeKey) {
+      const keyColumns = (compositeKey[1] ?? compositeKey[2])
+        .split(",")
+        .map(ref => ref.trim().split(".").pop()!)
+        .filter(Boolean)
+        .map(key => names.get(key) ?? key);
+      for (const column of table.columns.filter(c => keyColumns.includes(c.name))) {
+        column.primaryKey = true;
+        column.nullable = false;
+      }
+      if (keyColumns.length > 1) table.uniqueSets.push(keyColumns);
+    }
+  }
+
+  // References can point at tables declared further down the file
+  for (const { table, column, variable } of pending) {
+    table.foreignKeys.push({ columns: [column], table: tables.get(variable) ?? variable });
+  }
+}
+
+// Text helpers
+
+function stripScriptComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/(^|[^:"'`])\/\/[^\n]*/g, "$1");
+}
+
+/**
+ * Index of the bracket closing the one at `start`, skipping strings.
+ * Returns the end of the text when it is never closed.
+ */
+function matchClosing(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'" || char === "`") {
+      const end = text.indexOf(char, i + 1);
+      i = end < 0 ? text.length : end;
+    } else if ("({[".includes(char)) {
+      depth++;
+    } else if (")}]".includes(char) && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Split on a separator outside brackets and quotes
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("({[".includes(char)) {
+      depth++;
+    } else if (")}]".includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.filter(part => part.trim());
+}
+
+// Diagram output
+
+function entityName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+// Attribute types and names allow word characters, dashes and brackets
+function attributeWord(word: string): string {
+  const cleaned = word.replace(/[^A-Za-z0-9_\-()[\]]/g, "_");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+function buildErDiagram(schema: Schema, includeColumns: boolean): { diagram: string; relationships: number } {
+  const lines = ["erDiagram"];
+  const relationshipLines: string[] = [];
+
+  for (const table of schema.values()) {
+    const foreignKeyColumns = new Set(table.foreignKeys.flatMap(key => key.columns));
+
+    for (const key of table.foreignKeys) {
+      const columns = table.columns.filter(c => key.columns.includes(c.name));
+      const from = entityName(key.table);
+      const to = entityName(table.name);
+
+      if (key.manyToMany) {
+        relationshipLines.push(`  ${from} }o--o{ ${to} : "${key.label}"`);
+        continue;
+      }
+
+      const nullable = key.nullable ?? columns.some(c => c.nullable);
+      const unique = key.unique ?? isUnique(table, key.columns);
+      // The referenced row is required unless the key is nullable; each one
+      // has many referencing rows unless the key is unique
+      relationshipLines.push(`  ${from} ${nullable ? "|o" : "||"}--${unique ? "o|" : "o{"} ${to} : "${key.label ?? key.columns.join(", ")}"`);
+    }
+
+    if (!includeColumns || table.columns.length === 0) {
+      lines.push(`  ${entityName(table.name)}`);
+      continue;
+    }
+
+    lines.push(`  ${entityName(table.name)} {`);
+    for (const column of table.columns) {
+      const keys = [
+        column.primaryKey && "PK",
+        foreignKeyColumns.has(column.name) && "FK",
+        column.unique && !column.primaryKey && "UK",
+      ].filter(Boolean);
+      lines.push(`    ${attributeWord(column.type)} ${attributeWord(column.name)}${keys.length > 0 ? ` ${keys.join(", ")}` : ""}`);
+    }
+    lines.push("  }");
+  }
+
+  return { diagram: [...lines, ...relationshipLines].join("\n"), relationships: relationshipLines.length };
+}
+
+/**
+ * Give ORM join columns the type of the primary key they reference
+ */
+function fillForeignKeyTypes(schema: Schema): void {
+  for (const table of schema.values()) {
+    for (const key of table.foreignKeys) {
+      const referencedKey = schema.get(key.table)?.columns.find(c => c.primaryKey);
+      for (const column of table.columns.filter(c => !c.type && key.columns.includes(c.name))) {
+        column.type = referencedKey?.type ?? "int";
+      }
+    }
+  }
+}
+
+function isUnique(table: SchemaTable, columns: string[]): boolean {
+  const sameColumns = (set: string[]) => set.length === columns.length && set.every(c => columns.includes(c));
+  const primaryKey = table.columns.filter(c => c.primaryKey).map(c => c.name);
+
+  if (columns.length === 1 && table.columns.find(c => c.name === columns[0])?.unique) return true;
+  return sameColumns(primaryKey) || table.uniqueSets.some(sameColumns);
+}
@@ -13,38 +13,60 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { spawn } from "child_process";
 import { fileURLToPath } from "url";
 import path from "path";
-import { RenderResult } from "../shared/types.js";
+import {
+  DiagramHistoryEntry,
+  DiagramPage,
+  DiagramRevision,
+  DiagramSortField,
+  HistoryChangeEvent,
+  ImportCollisionPolicy,
+  LintConfig,
+  RenderResult,
+  ValidationResult,
+} from "../shared/types.js";
 import { HistoryService } from "../shared/historyService.js";
+import { SearchService } from "../shared/searchService.js";
+import { exportLibrary, importLibrary } from "../shared/libraryBundle.js";
 import { renderMermaid } from "../shared/renderer.js";
-import { detectGitRepo } from "../shared/gitRepoDetector.js";
+import { validateMermaidSyntax } from "../shared/validator.js";
+import { getLintRules, loadLintConfig, loadLintConfigOrDefaults } from "../shared/linter.js";
+import { DiagramStructure, getDiagramStructure, NODE_SHAPES, NodeShape, parseDiagram } from "../shared/diagramModel.js";
+import { applyDiagramEdits, DIAGRAM_EDIT_OPS, DiagramEditOperation } from "../shared/diagramEdits.js";
+import { detectGitFolder, detectGitRepo } from "../shared/gitRepoDetector.js";
+import { colorPrompt } from "../shared/colorPalette.js";
 import { mcpLogger as logger } from "../shared/logger.js";
+import { getElectronBinary, renderDiagramImage } from "./imageRenderer.js";
+import { exportDiagram, ExportResult } from "./diagramExporter.js";
+import { diagramFromImports, ImportGraphOptions } from "./importGraph.js";
+import { diagramFromSchema, SCHEMA_FORMATS, SchemaDiagramOptions } from "./schemaDiagram.js";
+import { diagramFromGitHistory, GitHistoryOptions } from "./gitHistory.js";
+import { diagramsFromOpenApi } from "./openApiDiagram.js";
+import { syntaxRules, diagramPrompts, buildPrompt } from "./prompts.js";
 import { setMaxListeners } from "events";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const colorPrompt = `
-  classDef coral fill:#ff6b6b,stroke:#c92a2a,color:#fff
-  classDef ocean fill:#4c6ef5,stroke:#364fc7,color:#fff
-  classDef forest fill:#51cf66,stroke:#2f9e44,color:#fff
-  classDef sunshine fill:#ffd43b,stroke:#fab005,color:#000
-  classDef grape fill:#845ef7,stroke:#5f3dc4,color:#fff
-  classDef amber fill:#ff922b,stroke:#e8590c,color:#fff
-  classDef teal fill:#20c997,stroke:#12b886,color:#fff
-  classDef pink fill:#ff8cc8,stroke:#e64980,color:#fff
-  classDef tangerine fill:#fd7e14,stroke:#e8590c,color:#fff
-  classDef sky fill:#74c0fc,stroke:#339af0,color:#000
-  classDef lavender fill:#d0bfff,stroke:#9775fa,color:#000
-  classDef mint fill:#8ce99a,stroke:#51cf66,color:#000
-  classDef rose fill:#ffa8a8,stroke:#ff6b6b,color:#000
-  classDef lemon fill:#ffe066,stroke:#ffd43b,color:#000
-  classDef violet fill:#a78bfa,stroke:#8b5cf6,color:#fff
-  classDef peach fill:#ffc9c9,stroke:#ffa8a8,color:#000
-`;
+// History entries and collections published as MCP resources
+const DIAGRAM_URI_PREFIX = "mindpilot://diagram/";
+const COLLECTION_URI_PREFIX = "mindpilot://collection/";
+const MERMAID_MIME_TYPE = "text/vnd.mermaid";
+
+// Content blocks returned by render_mermaid and update_diagram
+type RenderContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
 
 /**
  * Lightweight MCP Server for Mindpilot
@@ -60,11 +82,14 @@ const colorPrompt = `
 export class MindpilotMCPServer {
   private server: Server;
   private historyService: HistoryService;
+  private searchService: SearchService;
   private dataPath: string | undefined;
+  private subscriptions = new Set<string>(); // Resource URIs the host subscribed to
 
   constructor(dataPath?: string) {
     this.dataPath = dataPath;
     this.historyService = new HistoryService(dataPath);
+    this.searchService = new SearchService(this.historyService);
 
     this.server = new Server(
       {
@@ -74,6 +99,11 @@ export class MindpilotMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
         },
       },
     );
@@ -89,7 +119,7 @@ export class MindpilotMCPServer {
         {
           name: "render_mermaid",
           description:
-            'Render a Mermaid diagram to SVG format. CRITICAL RULES: 1) Node IDs must be alphanumeric without spaces (use A1, nodeA, start_node). 2) For node labels with special characters, wrap in quotes: A["Label with spaces"] or A["Process (step 1)"]. 3) For quotes in labels use &quot;, for < use &lt;, for > use &gt;. 4) For square brackets in labels use A["Array&#91;0&#93;"]. 5) Always close all brackets and quotes. 6) Use consistent arrow styles (either --> or ->). Example: graph TD\\n  A["Complex Label"] --> B{Decision?}\\n  B -->|Yes| C["Result &quot;OK&quot;"]\\n\\nIMPORTANT: If the diagram fails validation, the error message will explain what needs to be fixed. Please read the error carefully and retry with a corrected diagram.',
+            `Render a Mermaid diagram to SVG format. ${syntaxRules}\\n\\nCommon mistakes such as labels with unescaped special characters or a missing bracket are repaired automatically; the response then lists the fixes and returns the repaired diagram, which is what gets saved.\\n\\nIMPORTANT: If the diagram fails validation, the error message will explain what needs to be fixed, and diagnostics give the line and column of each problem, with a suggested replacement for the line when one is known. Please read the error carefully and retry with a corrected diagram.`,
           inputSchema: {
             type: "object",
             properties: {
@@ -107,10 +137,147 @@ export class MindpilotMCPServer {
                 description: "Title for the diagram (max 50 characters)",
                 maxLength: 50,
               },
+              return_image: {
+                type: "boolean",
+                description: "Also return the rendered SVG and a PNG image of the diagram, so you can check the layout visually",
+                default: false,
+              },
+              output_path: {
+                type: "string",
+                description: "Also write the diagram to this path, relative to the git repository root. The extension picks the format: .mmd (source), .svg, .png, or .md (Markdown with a fenced mermaid block). Paths outside the repository are refused.",
+              },
+              folder: {
+                type: "string",
+                description: "Folder to save the diagram in within the repository's collection, as a slash-separated path such as payments/checkout/flows. Defaults to the current working directory relative to the git repository root; pass an empty string to save it at the top of the collection.",
+              },
             },
             required: ["diagram", "title"],
           },
         },
+        {
+          name: "update_diagram",
+          description:
+            "Replace the Mermaid source of an existing diagram in Mindpilot history instead of creating a new one. Use this when refining a diagram you drew earlier (the id is returned by render_mermaid and list_diagrams). The same syntax rules as render_mermaid apply, and the diagram is validated before it is saved.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Id of the diagram to update",
+              },
+              diagram: {
+                type: "string",
+                description: `Complete new Mermaid diagram syntax. MUST start with diagram type (graph TD, flowchart LR, sequenceDiagram, etc). Use this colors which work well for both light and dark mode: ${colorPrompt}`,
+              },
+              title: {
+                type: "string",
+                description: "New title for the diagram (max 50 characters). Leave out to keep the current title.",
+                maxLength: 50,
+              },
+              return_image: {
+                type: "boolean",
+                description: "Also return the rendered SVG and a PNG image of the diagram, so you can check the layout visually",
+                default: false,
+              },
+            },
+            required: ["id", "diagram"],
+          },
+        },
+        {
+          name: "edit_diagram",
+          description:
+            "Change part of an existing diagram without resending its whole source. Operations are applied in order to the saved source: add_node, remove_node (also removes its edges), rename_node (new_id and/or label), add_edge, remove_edge, set_class (a classDef name, or null to clear), move_to_subgraph (null moves to the top level) and patch_lines (replace lines start_line..end_line, 1-based, with lines; end_line = start_line - 1 inserts). Works on flowchart, sequence, class, state and ER diagrams; patch_lines works on any diagram. The result is validated before it is saved, and nothing is saved if any operation fails.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Diagram id as returned by list_diagrams or render_mermaid",
+              },
+              operations: {
+                type: "array",
+                description: "Edits to apply, in order",
+                items: {
+                  type: "object",
+                  properties: {
+                    op: {
+                      type: "string",
+                      enum: DIAGRAM_EDIT_OPS,
+                    },
+                    id: {
+                      type: "string",
+                      description: "Node, participant, state, class or entity id",
+                    },
+                    new_id: {
+                      type: "string",
+                      description: "rename_node: the node's new id",
+                    },
+                    label: {
+                      type: "string",
+                      description: "Node or edge label",
+                    },
+                    shape: {
+                      type: "string",
+                      enum: NODE_SHAPES,
+                      description: "add_node in flowcharts: node shape",
+                    },
+                    subgraph: {
+                      type: ["string", "null"],
+                      description: "add_node, move_to_subgraph: subgraph, composite state or namespace id",
+                    },
+                    from: {
+                      type: "string",
+                    },
+                    to: {
+                      type: "string",
+                    },
+                    arrow: {
+                      type: "string",
+                      description: "add_edge: arrow to use, e.g. -.-> or ->>. Defaults to the diagram type's usual arrow.",
+                    },
+                    class_name: {
+                      type: ["string", "null"],
+                      description: "set_class: classDef to apply",
+                    },
+                    start_line: {
+                      type: "number",
+                    },
+                    end_line: {
+                      type: "number",
+                    },
+                    lines: {
+                      type: "array",
+                      items: { type: "string" },
+                      description: "patch_lines: replacement lines",
+                    },
+                  },
+                  required: ["op"],
+                },
+              },
+              return_image: {
+                type: "boolean",
+                description: "Also return the rendered SVG and a PNG image of the diagram, so you can check the layout visually",
+                default: false,
+              },
+            },
+            required: ["id", "operations"],
+          },
+        },
+        {
+          name: "get_diagram_revisions",
+          description:
+            "List every saved revision of a diagram's Mermaid source, oldest first. Each revision records when it was made, whether it came from an agent (mcp) or a human in the editor, and the full source. Use this to see how a user changed a diagram you drew.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Id of the diagram",
+              },
+            },
+            required: ["id"],
+          },
+        },
         {
           name: "open_ui",
           description: "Open the Mindpilot UI application",
@@ -119,37 +286,514 @@ export class MindpilotMCPServer {
             properties: {},
           },
         },
+        {
+          name: "list_diagrams",
+          description:
+            "List diagrams saved in Mindpilot history, newest first by default. Use this to find an earlier diagram to read back or iterate on instead of redrawing it from scratch. Returns id, title, collection, folder, timestamps and Mermaid source for each match.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              collection: {
+                type: "string",
+                description: "Only return diagrams in this collection (usually the git repository name)",
+              },
+              folder: {
+                type: "string",
+                description: "Only return diagrams in this folder of their collection or the folders below it, e.g. payments/checkout",
+              },
+              title: {
+                type: "string",
+                description: "Case-insensitive substring the diagram title must contain",
+              },
+              since: {
+                type: "string",
+                description: "Only return diagrams last updated at or after this ISO 8601 date",
+              },
+              until: {
+                type: "string",
+                description: "Only return diagrams last updated at or before this ISO 8601 date",
+              },
+              sort_by: {
+                type: "string",
+                enum: ["createdAt", "updatedAt", "title"],
+                description: "Field to sort by",
+                default: "createdAt",
+              },
+              sort_order: {
+                type: "string",
+                enum: ["asc", "desc"],
+                default: "desc",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of diagrams to return. Use with offset to page through large histories; total holds the number of matches.",
+              },
+              offset: {
+                type: "number",
+                description: "Number of matching diagrams to skip",
+                default: 0,
+              },
+            },
+          },
+        },
+        {
+          name: "get_diagram",
+          description:
+            "Fetch a single diagram from Mindpilot history by id, including its Mermaid source.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Diagram id as returned by list_diagrams or render_mermaid",
+              },
+            },
+            required: ["id"],
+          },
+        },
+        {
+          name: "get_diagram_structure",
+          description:
+            "Parse a flowchart, sequence, class, state or ER diagram into structured data: nodes (with labels, shapes, classes and subgraph), edges, subgraphs, classDefs and sequence participants. Use this to reason about an existing diagram as a graph instead of reading its source. Pass either the id of a saved diagram or Mermaid source.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Diagram id as returned by list_diagrams or render_mermaid",
+              },
+              diagram: {
+                type: "string",
+                description: "Mermaid source to parse instead of a saved diagram",
+              },
+            },
+          },
+        },
+        {
+          name: "diagram_from_imports",
+          description:
+            "Draw the module dependency graph of a TypeScript/JavaScript directory in the current git repository, instead of guessing it. Scans the source files, resolves import, require and export-from specifiers (relative paths, index files, and baseUrl and paths from the nearest tsconfig.json), and renders a flowchart with one node per module that is saved to the repository's collection like render_mermaid. Use edit_diagram or update_diagram on the returned id to simplify or restyle it.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              directory: {
+                type: "string",
+                description: "Directory to scan, relative to the git root, e.g. \"src\" or \"packages/api/src\". Defaults to the whole repository.",
+              },
+              title: {
+                type: "string",
+                description: "Title for the saved diagram. Defaults to \"Module dependencies: <directory>\".",
+              },
+              cluster: {
+                type: "boolean",
+                description: "Group modules into one subgraph per folder (default true)",
+              },
+              include_external: {
+                type: "boolean",
+                description: "Also draw the npm packages and Node builtins each module imports (default false)",
+              },
+              direction: {
+                type: "string",
+                enum: ["LR", "RL", "TB", "TD", "BT"],
+                description: "Flowchart direction (default LR)",
+              },
+              max_files: {
+                type: "number",
+                description: "Fail instead of drawing more modules than this (default 200)",
+              },
+            },
+          },
+        },
+        {
+          name: "diagram_from_schema",
+          description:
+            "Draw an entity-relationship diagram from the database schema in the current git repository, instead of retyping it. Reads SQL DDL (CREATE TABLE and ALTER TABLE with PRIMARY KEY, UNIQUE and FOREIGN KEY/REFERENCES constraints), Prisma schema files, TypeORM entity classes or Drizzle table definitions, and renders an erDiagram with PK, FK and UK annotations. Relationship cardinalities come from the foreign keys: a nullable key makes the parent optional and a unique key makes the relationship one-to-one. The diagram is saved to the repository's collection like render_mermaid.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "Schema file or directory, relative to the git root, e.g. \"prisma/schema.prisma\", \"db/migrations\" or \"src/entities\"",
+              },
+              format: {
+                type: "string",
+                enum: [...SCHEMA_FORMATS],
+                description: "Schema format. Detected from the file extensions and contents when omitted.",
+              },
+              title: {
+                type: "string",
+                description: "Title for the saved diagram. Defaults to \"Schema: <path>\".",
+              },
+              columns: {
+                type: "boolean",
+                description: "List each table's columns with their PK, FK and UK markers. Set to false to draw only the tables and relationships (default true).",
+              },
+            },
+            required: ["path"],
+          },
+        },
+        {
+          name: "diagram_from_git_history",
+          description:
+            "Draw the commit history of the current git repository as a Mermaid gitGraph, e.g. for release planning. Reads the local commit graph of a set of branches, lays commits out on one lane per branch (branches that were merged and deleted get a lane named after their merge), and draws merges, tags and abbreviated commit messages. Only the newest commits are drawn so the diagram stays readable. The diagram is saved to the repository's collection like render_mermaid.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              branches: {
+                type: "array",
+                items: { type: "string" },
+                description: "Branches, tags or other refs to draw. The first one is drawn as the trunk. Defaults to all local branches, with main or master as the trunk.",
+              },
+              since: {
+                type: "string",
+                description: "Leave out commits reachable from this ref, e.g. the last release tag \"v1.2.0\"",
+              },
+              max_commits: {
+                type: "number",
+                description: "Draw only this many of the newest commits (default 50)",
+              },
+              message_length: {
+                type: "number",
+                description: "Characters of each commit message to show next to its hash (default 30, 0 for hashes only)",
+              },
+              title: {
+                type: "string",
+                description: "Title for the saved diagram. Defaults to \"Git history: <branches>\".",
+              },
+            },
+          },
+        },
+        {
+          name: "diagram_from_openapi",
+          description:
+            "Draw an OpenAPI 3 or Swagger 2 spec (YAML or JSON) from the current git repository. Each requested operation becomes a sequenceDiagram between the client, an API gateway and the service, with the request and response schema names and every documented status code. The overview is a flowchart of the spec's tags and paths. Each diagram is saved to the repository's collection like render_mermaid.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              path: {
+                type: "string",
+                description: "Spec file relative to the git root, e.g. \"api/openapi.yaml\"",
+              },
+              operations: {
+                type: "array",
+                items: { type: "string" },
+                description: "Operations to draw as sequence diagrams, by operationId or as \"METHOD /path\", e.g. [\"listPets\", \"POST /pets\"]",
+              },
+              overview: {
+                type: "boolean",
+                description: "Also draw the flowchart of tags and paths. Defaults to true when no operations are given.",
+              },
+            },
+            required: ["path"],
+          },
+        },
+        {
+          name: "lint_diagram",
+          description:
+            `Check a diagram for syntax errors and style problems. Returns diagnostics with the line, column, severity and rule id of each finding, plus a suggested replacement line for syntax errors that can be repaired. Rules follow the lint section of .mindpilot.json at the root of the current git repository, e.g. {"lint": {"rules": {"max-nodes": ["warning", {"max": 30}], "palette-colors": "off"}}}. Rules: ${getLintRules().map(rule => `${rule.id} (${rule.severity}${rule.options ? `, ${JSON.stringify(rule.options)}` : ""}): ${rule.description}`).join("; ")}.`,
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Diagram id as returned by list_diagrams or render_mermaid",
+              },
+              diagram: {
+                type: "string",
+                description: "Mermaid source to check instead of a saved diagram",
+              },
+              rules: {
+                type: "object",
+                description: "Rule settings that override the project config, keyed by rule id: a severity (error, warning, info or off) or [severity, options]",
+                additionalProperties: {
+                  oneOf: [
+                    { type: "string", enum: ["error", "warning", "info", "off"] },
+                    { type: "array" },
+                  ],
+                },
+              },
+            },
+          },
+        },
+        {
+          name: "search_diagrams",
+          description:
+            "Full-text search over Mindpilot history: titles, collections, Mermaid source and node/edge labels. Results are ranked best match first, with snippets showing where the query matched. Use get_diagram to fetch the full source of a result.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Words to search for. Every word must match; partial words match as prefixes.",
+              },
+              collection: {
+                type: "string",
+                description: "Only search diagrams in this collection (usually the git repository name)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of results",
+                default: 20,
+              },
+            },
+            required: ["query"],
+          },
+        },
+        {
+          name: "export_diagram",
+          description:
+            "Write a diagram from Mindpilot history to a file in the current git repository, so it can be committed next to the code. The extension picks the format: .mmd (source), .svg, .png, or .md (Markdown with a fenced mermaid block).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Diagram id as returned by list_diagrams or render_mermaid",
+              },
+              output_path: {
+                type: "string",
+                description: "Path relative to the git repository root, e.g. docs/architecture.md. Paths outside the repository are refused.",
+              },
+              background: {
+                type: "string",
+                description: "Background color for .png exports",
+                default: "white",
+              },
+            },
+            required: ["id", "output_path"],
+          },
+        },
       ],
     }));
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case "render_mermaid":
+            const renderResult = await this.handleRenderMermaid(
+              args?.diagram as string,
+              args?.background as string,
+              args?.title as string,
+              args?.output_path as string | undefined,
+              args?.folder as string | undefined,
+            );
+            return {
+              content: await this.buildRenderContent(
+                renderResult,
+                args?.return_image === true,
+                args?.background as string,
+              ),
+            };
+
+          case "update_diagram":
+            const updateResult = await this.handleUpdateDiagram(
+              args?.id as string,
+              args?.diagram as string,
+              args?.title as string | undefined,
+            );
+            return {
+              content: await this.buildRenderContent(
+                updateResult,
+                args?.return_image === true,
+              ),
+            };
+
+          case "edit_diagram":
+            const editResult = await this.handleEditDiagram(
+              args?.id as string,
+              args?.operations as Record<string, unknown>[],
+            );
+            return {
+              content: await this.buildRenderContent(
+                editResult,
+                args?.return_image === true,
+              ),
+            };
+
+          case "get_diagram_revisions":
+            const revisionsResult = await this.handleGetDiagramRevisions(args?.id as string);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(revisionsResult, null, 2),
+                },
+              ],
+            };
+
+          case "open_ui":
+            const uiResult = await this.handleOpenUI();
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(uiResult, null, 2),
+                },
+              ],
+            };
+
+          case "list_diagrams":
+            const listResult = await this.handleListDiagrams(
+              args?.collection as string | undefined,
+              args?.folder as string | undefined,
+              args?.title as string | undefined,
+              args?.since as string | undefined,
+              args?.until as string | undefined,
+              args?.sort_by as DiagramSortField | undefined,
+              args?.sort_order as "asc" | "desc" | undefined,
+              args?.limit as number | undefined,
+              args?.offset as number | undefined,
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(listResult, null, 2),
+                },
+              ],
+            };
+
+          case "get_diagram":
+            const getResult = await this.handleGetDiagram(args?.id as string);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(getResult, null, 2),
+                },
+              ],
+            };
+
+          case "get_diagram_structure":
+            const structureResult = await this.handleGetDiagramStructure(
+              args?.id as string | undefined,
+              args?.diagram as string | undefined,
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(structureResult, null, 2),
+                },
+              ],
+            };
+
+          case "diagram_from_imports":
+            const importsResult = await this.handleDiagramFromImports(
+              args?.directory as string | undefined,
+              args?.title as string | undefined,
+              {
+                cluster: args?.cluster as boolean | undefined,
+                includeExternal: args?.include_external as boolean | undefined,
+                direction: args?.direction as string | undefined,
+                maxFiles: args?.max_files as number | undefined,
+              },
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(importsResult, null, 2),
+                },
+              ],
+            };
+
+          case "diagram_from_schema":
+            const schemaResult = await this.handleDiagramFromSchema(
+              args?.path as string,
+              args?.title as string | undefined,
+              {
+                format: args?.format as SchemaDiagramOptions["format"],
+                columns: args?.columns as boolean | undefined,
+              },
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(schemaResult, null, 2),
+                },
+              ],
+            };
+
+          case "diagram_from_git_history":
+            const historyResult = await this.handleDiagramFromGitHistory(
+              args?.title as string | undefined,
+              {
+                branches: args?.branches as string[] | undefined,
+                since: args?.since as string | undefined,
+                maxCommits: args?.max_commits as number | undefined,
+                messageLength: args?.message_length as number | undefined,
+              },
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(historyResult, null, 2),
+                },
+              ],
+            };
+
+          case "diagram_from_openapi":
+            const openApiResult = await this.handleDiagramFromOpenApi(
+              args?.path as string,
+              args?.operations as string[] | undefined,
+              args?.overview as boolean | undefined,
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(openApiResult, null, 2),
+                },
+              ],
+            };
+
+          case "lint_diagram":
+            const lintResult = await this.handleLintDiagram(
+              args?.id as string | undefined,
+              args?.diagram as string | undefined,
+              args?.rules as LintConfig["rules"],
+            );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(lintResult, null, 2),
+                },
+              ],
+            };
 
-      try {
-        switch (name) {
-          case "render_mermaid":
-            const renderResult = await this.handleRenderMermaid(
-              args?.diagram as string,
-              args?.background as string,
-              args?.title as string,
+          case "search_diagrams":
+            const searchResult = await this.handleSearchDiagrams(
+              args?.query as string,
+              args?.collection as string | undefined,
+              args?.limit as number | undefined,
             );
             return {
               content: [
                 {
                   type: "text",
-                  text: JSON.stringify(renderResult, null, 2),
+                  text: JSON.stringify(searchResult, null, 2),
                 },
               ],
             };
 
-          case "open_ui":
-            const uiResult = await this.handleOpenUI();
+          case "export_diagram":
+            const exportResult = await this.handleExportDiagram(
+              args?.id as string,
+              args?.output_path as string,
+              args?.background as string | undefined,
+            );
             return {
               content: [
                 {
                   type: "text",
-                  text: JSON.stringify(uiResult, null, 2),
+                  text: JSON.stringify(exportResult, null, 2),
                 },
               ],
             };
@@ -170,6 +814,51 @@ export class MindpilotMCPServer {
         };
       }
     });
+
+    // Diagrams and collections as resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.handleListResources(),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: `${DIAGRAM_URI_PREFIX}{id}`,
+          name: "Diagram",
+          description: "Mermaid source of a saved diagram, followed by its metadata as JSON",
+          mimeType: MERMAID_MIME_TYPE,
+        },
+        {
+          uriTemplate: `${COLLECTION_URI_PREFIX}{name}`,
+          name: "Collection",
+          description: "Diagrams in a collection, as JSON",
+          mimeType: "application/json",
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: await this.handleReadResource(request.params.uri),
+    }));
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Diagram-generation workflows for the host's prompt picker
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: diagramPrompts,
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      buildPrompt(request.params.name, request.params.arguments),
+    );
   }
 
   /**
@@ -179,22 +868,33 @@ export class MindpilotMCPServer {
     diagram: string,
     background?: string,
     title?: string,
+    outputPath?: string,
+    folder?: string,
   ): Promise<RenderResult> {
     try {
-      // Render the diagram using shared renderer
-      const result = await renderMermaid(diagram, background);
+      // Render the diagram using shared renderer, linted with the project's rules
+      const result = await renderMermaid(diagram, background, await loadLintConfigOrDefaults(process.cwd()));
 
       if (result.type === 'error') {
         return result;
       }
 
+      // Write to the repo before saving so a refused path leaves no history entry
+      let exported: ExportResult | undefined;
+      if (outputPath) {
+        exported = await exportDiagram(result.diagram, outputPath, { background, title });
+      }
+
       // Save to history
       let diagramId: string | undefined;
       if (title) {
         try {
           const workingDir = process.cwd();
           const collection = await detectGitRepo(workingDir);
-          const savedEntry = await this.historyService.saveDiagram(diagram, title, collection);
+          // Big repos get a folder per working subdirectory unless the agent picks one
+          const savedFolder = folder ?? await detectGitFolder(workingDir);
+          // Save the repaired source when syntax fixes were applied
+          const savedEntry = await this.historyService.saveDiagram(result.diagram, title, collection, 'mcp', savedFolder);
           diagramId = savedEntry.id;
           logger.info(`Saved diagram "${title}" with ID ${diagramId}`);
         } catch (error) {
@@ -210,6 +910,8 @@ export class MindpilotMCPServer {
       return {
         ...result,
         type: 'success',
+        diagramId,
+        ...(exported && { outputPath: exported.relativePath }),
       };
     } catch (error) {
       return {
@@ -220,6 +922,100 @@ export class MindpilotMCPServer {
     }
   }
 
+  /**
+   * Validate a new version of an existing diagram, overwrite it in history,
+   * and refocus the UI on it
+   */
+  private async handleUpdateDiagram(
+    id: string,
+    diagram: string,
+    title?: string,
+  ): Promise<RenderResult> {
+    if (!id) {
+      throw new Error("Diagram id is required");
+    }
+
+    const result = await renderMermaid(diagram, undefined, await loadLintConfigOrDefaults(process.cwd()));
+
+    if (result.type === 'error') {
+      return result;
+    }
+
+    await this.historyService.updateDiagram(id, {
+      diagram: result.diagram,
+      ...(title !== undefined && { title }),
+    }, 'mcp');
+    logger.info(`Updated diagram ${id}`);
+
+    this.launchElectronUI(id);
+
+    return {
+      ...result,
+      diagramId: id,
+    };
+  }
+
+  /**
+   * Apply edit operations to a saved diagram and save the result like update_diagram
+   */
+  private async handleEditDiagram(
+    id: string,
+    operations: Record<string, unknown>[],
+  ): Promise<RenderResult> {
+    if (!id) {
+      throw new Error("Diagram id is required");
+    }
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new Error("At least one operation is required");
+    }
+
+    const entry = await this.historyService.getDiagram(id);
+    const diagram = applyDiagramEdits(entry.diagram, operations.map((operation, index) => toEditOperation(operation, index)));
+    return this.handleUpdateDiagram(id, diagram);
+  }
+
+  /**
+   * Build the tool response for a render result, optionally rendering the
+   * diagram headlessly so the SVG and a PNG image block are included.
+   * Image rendering failures are logged and the validated result is still returned.
+   */
+  private async buildRenderContent(
+    result: RenderResult,
+    returnImage: boolean,
+    background?: string,
+  ): Promise<RenderContent[]> {
+    let png: string | undefined;
+
+    if (returnImage && result.type === 'success') {
+      try {
+        const image = await renderDiagramImage(result.diagram, background);
+        result = { ...result, svg: image.svg };
+        png = image.png;
+      } catch (error) {
+        logger.warn('Failed to render diagram image', {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    const content: RenderContent[] = [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ];
+
+    if (png) {
+      content.push({
+        type: "image",
+        data: png,
+        mimeType: "image/png",
+      });
+    }
+
+    return content;
+  }
+
   /**
    * Open the Mindpilot UI application
    */
@@ -230,6 +1026,337 @@ export class MindpilotMCPServer {
     };
   }
 
+  /**
+   * List diagrams from history, filtered by collection, title and update date
+   */
+  private async handleListDiagrams(
+    collection?: string,
+    folder?: string,
+    title?: string,
+    since?: string,
+    until?: string,
+    sortBy?: DiagramSortField,
+    sortOrder?: "asc" | "desc",
+    limit?: number,
+    offset?: number,
+  ): Promise<DiagramPage> {
+    return this.historyService.queryDiagrams({
+      collection,
+      folder,
+      title,
+      since: since ? parseDateArg("since", since) : undefined,
+      until: until ? parseDateArg("until", until) : undefined,
+      sortBy,
+      sortOrder,
+      limit,
+      offset,
+    });
+  }
+
+  /**
+   * Fetch a single diagram from history by ID
+   */
+  private async handleGetDiagram(id: string): Promise<DiagramHistoryEntry> {
+    if (!id) {
+      throw new Error("Diagram id is required");
+    }
+
+    return this.historyService.getDiagram(id);
+  }
+
+  /**
+   * Parse a saved diagram, or the given source, into nodes, edges and subgraphs
+   */
+  private async handleGetDiagramStructure(id?: string, diagram?: string): Promise<DiagramStructure> {
+    if (!id && !diagram) {
+      throw new Error("Either id or diagram is required");
+    }
+
+    const source = id ? (await this.historyService.getDiagram(id)).diagram : diagram!;
+    return getDiagramStructure(parseDiagram(source));
+  }
+
+  /**
+   * Draw the import graph of a directory in the working repo and save it
+   * like render_mermaid
+   */
+  private async handleDiagramFromImports(
+    directory: string | undefined,
+    title: string | undefined,
+    options: ImportGraphOptions,
+  ) {
+    const graph = await diagramFromImports(directory, options);
+    const result = await this.handleRenderMermaid(
+      graph.diagram,
+      undefined,
+      title || `Module dependencies: ${graph.directory}`,
+    );
+    return { ...result, modules: graph.modules, imports: graph.imports };
+  }
+
+  /**
+   * Draw an ER diagram from a schema file or directory in the working repo
+   * and save it like render_mermaid
+   */
+  private async handleDiagramFromSchema(
+    schemaPath: string,
+    title: string | undefined,
+    options: SchemaDiagramOptions,
+  ) {
+    const graph = await diagramFromSchema(schemaPath, options);
+    const result = await this.handleRenderMermaid(
+      graph.diagram,
+      undefined,
+      title || `Schema: ${graph.path}`,
+    );
+    return { ...result, tables: graph.tables, relationships: graph.relationships };
+  }
+
+  /**
+   * Draw the commit graph of the working repo and save it like
+   * render_mermaid
+   */
+  private async handleDiagramFromGitHistory(
+    title: string | undefined,
+    options: GitHistoryOptions,
+  ) {
+    const graph = await diagramFromGitHistory(options);
+    const result = await this.handleRenderMermaid(
+      graph.diagram,
+      undefined,
+      title || `Git history: ${graph.branches.join(", ")}`,
+    );
+    return {
+      ...result,
+      branches: graph.branches,
+      commits: graph.commits,
+      merges: graph.merges,
+      truncated: graph.truncated,
+    };
+  }
+
+  /**
+   * Convert an OpenAPI spec in the working repo and save each diagram like
+   * render_mermaid
+   */
+  private async handleDiagramFromOpenApi(
+    specPath: string,
+    operations?: string[],
+    overview?: boolean,
+  ) {
+    const spec = await diagramsFromOpenApi(specPath, { operations, overview });
+    const workingDir = process.cwd();
+    const collection = await detectGitRepo(workingDir);
+    const folder = await detectGitFolder(workingDir);
+    const lintConfig = await loadLintConfigOrDefaults(workingDir);
+
+    // Saved like render_mermaid, but the UI is opened once for the whole spec
+    const diagrams = [];
+    for (const { title, diagram, operation } of spec.diagrams) {
+      const result = await renderMermaid(diagram, undefined, lintConfig);
+      let diagramId: string | undefined;
+      if (result.type === "success") {
+        diagramId = (await this.historyService.saveDiagram(result.diagram, title, collection, "mcp", folder)).id;
+      }
+      diagrams.push({ title, ...(operation && { operation }), ...result, diagramId });
+    }
+    logger.info(`Saved ${diagrams.filter((entry) => entry.diagramId).length} diagrams from ${spec.path}`);
+
+    const first = diagrams.find((entry) => entry.diagramId);
+    if (first) {
+      this.launchElectronUI(first.diagramId);
+    }
+    return { path: spec.path, title: spec.title, diagrams };
+  }
+
+  /**
+   * Validate and lint a saved diagram or Mermaid source with the project's
+   * lint config, overridden by any rules passed in
+   */
+  private async handleLintDiagram(
+    id?: string,
+    diagram?: string,
+    rules?: LintConfig["rules"],
+  ): Promise<ValidationResult> {
+    if (!id && !diagram) {
+      throw new Error("Either id or diagram is required");
+    }
+
+    const source = id ? (await this.historyService.getDiagram(id)).diagram : diagram!;
+    const config = await loadLintConfig(process.cwd());
+    const { warnings, ...result } = await validateMermaidSyntax(source, {
+      rules: { ...config.rules, ...rules },
+    });
+    return result;
+  }
+
+  /**
+   * Search history and return ranked matches without their full source
+   */
+  private async handleSearchDiagrams(
+    query: string,
+    collection?: string,
+    limit?: number,
+  ) {
+    if (!query?.trim()) {
+      throw new Error("Search query is required");
+    }
+
+    const results = await this.searchService.search(query, {
+      collection,
+      limit: limit ?? 20,
+    });
+
+    return {
+      results: results.map(({ entry, score, snippets }) => ({
+        id: entry.id,
+        title: entry.title,
+        collection: entry.collection,
+        updatedAt: entry.updatedAt,
+        score,
+        snippets: snippets.map(({ field, text }) => ({ field, text })),
+      })),
+    };
+  }
+
+  /**
+   * Write a saved diagram to a file in the current git repository
+   */
+  private async handleExportDiagram(
+    id: string,
+    outputPath: string,
+    background?: string,
+  ): Promise<{ id: string } & ExportResult> {
+    const entry = await this.handleGetDiagram(id);
+    const exported = await exportDiagram(entry.diagram, outputPath, {
+      background,
+      title: entry.title,
+    });
+
+    return { id, ...exported };
+  }
+
+  /**
+   * List the source revisions of a diagram
+   */
+  private async handleGetDiagramRevisions(
+    id: string,
+  ): Promise<{ id: string; revisions: DiagramRevision[] }> {
+    if (!id) {
+      throw new Error("Diagram id is required");
+    }
+
+    const revisions = await this.historyService.getRevisions(id);
+    return { id, revisions };
+  }
+
+  /**
+   * List every saved diagram and named collection as a resource
+   */
+  private async handleListResources() {
+    const diagrams = await this.historyService.getDiagrams();
+    const collections = await this.historyService.listCollections();
+
+    return [
+      ...diagrams.map((entry) => ({
+        uri: `${DIAGRAM_URI_PREFIX}${entry.id}`,
+        name: entry.title || "Untitled Diagram",
+        description: `Diagram in ${[entry.collection || "uncategorized", entry.folder].filter(Boolean).join("/")}, updated ${entry.updatedAt.toISOString()}`,
+        mimeType: MERMAID_MIME_TYPE,
+      })),
+      ...collections.map((collection) => ({
+        uri: `${COLLECTION_URI_PREFIX}${encodeURIComponent(collection.name)}`,
+        name: collection.name,
+        description: collection.description ?? `Diagrams in the ${collection.name} collection`,
+        mimeType: "application/json",
+      })),
+    ];
+  }
+
+  /**
+   * Read a diagram (Mermaid text plus metadata) or a collection listing
+   */
+  private async handleReadResource(uri: string) {
+    if (uri.startsWith(DIAGRAM_URI_PREFIX)) {
+      const id = uri.slice(DIAGRAM_URI_PREFIX.length);
+      const entry = await this.historyService.getDiagram(id, { includeRevisions: true });
+      const { diagram, revisions, ...metadata } = entry;
+
+      return [
+        { uri, mimeType: MERMAID_MIME_TYPE, text: diagram },
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({ ...metadata, revisionCount: revisions?.length ?? 0 }, null, 2),
+        },
+      ];
+    }
+
+    if (uri.startsWith(COLLECTION_URI_PREFIX)) {
+      const name = decodeURIComponent(uri.slice(COLLECTION_URI_PREFIX.length));
+      const collection = (await this.historyService.listCollections()).find((info) => info.name === name);
+      if (!collection) {
+        throw new Error(`Collection ${name} not found`);
+      }
+      // Registered collections can be empty
+      const diagrams = collection.diagramCount > 0 ? await this.historyService.getDiagrams(name) : [];
+
+      return [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({
+            name,
+            description: collection.description,
+            diagrams: diagrams.map((entry) => ({
+              id: entry.id,
+              uri: `${DIAGRAM_URI_PREFIX}${entry.id}`,
+              title: entry.title,
+              createdAt: entry.createdAt,
+              updatedAt: entry.updatedAt,
+            })),
+          }, null, 2),
+        },
+      ];
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Tell the host about diagrams changed by anyone, including edits made
+   * by the user in the UI's editor, so subscribed agents see them
+   */
+  private async handleHistoryChange(event: HistoryChangeEvent) {
+    const diagramUri = `${DIAGRAM_URI_PREFIX}${event.id}`;
+
+    try {
+      if (this.subscriptions.has(diagramUri)) {
+        await this.server.sendResourceUpdated({ uri: diagramUri });
+      }
+
+      // A deleted diagram's collection is unknown, so every subscribed collection hears about it
+      let collection: string | null = null;
+      if (event.type !== "deleted") {
+        collection = (await this.historyService.getDiagram(event.id)).collection;
+      }
+      for (const uri of this.subscriptions) {
+        if (
+          uri.startsWith(COLLECTION_URI_PREFIX) &&
+          (event.type === "deleted" || decodeURIComponent(uri.slice(COLLECTION_URI_PREFIX.length)) === collection)
+        ) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+
+      if (event.type !== "updated") {
+        await this.server.sendResourceListChanged();
+      }
+    } catch (error) {
+      logger.warn("Failed to send resource notification", { event, error });
+    }
+  }
+
   /**
    * Launch the Electron UI application
    * Optionally with a specific diagram ID to display
@@ -256,11 +1383,7 @@ export class MindpilotMCPServer {
 
       logger.info('Launching Electron UI', { diagramId, electronMainPath });
 
-      // Find the electron binary - it's in node_modules/.bin relative to the package root
-      // __dirname is dist/mcp, so we go up two levels to get to the package root
-      const packageRoot = path.resolve(__dirname, '../..');
-      const electronBinName = process.platform === 'win32' ? 'electron.cmd' : 'electron';
-      const electronBin = path.join(packageRoot, 'node_modules', '.bin', electronBinName);
+      const electronBin = getElectronBinary();
 
       logger.info('Using electron binary', { electronBin });
 
@@ -335,10 +1458,134 @@ export class MindpilotMCPServer {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
 
+    // Resource notifications for diagrams changed by the UI or other processes
+    await this.historyService.watch((event) => this.handleHistoryChange(event));
+
     logger.info("MCP server connected and ready");
   }
 }
 
+/**
+ * Parses an ISO 8601 date tool argument
+ */
+function parseDateArg(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Turns an edit_diagram operation from snake_case tool arguments into a
+ * DiagramEditOperation, checking the fields its op needs
+ */
+function toEditOperation(operation: Record<string, unknown>, index: number): DiagramEditOperation {
+  const field = new EditFieldReader(operation, index);
+
+  switch (operation.op) {
+    case "add_node":
+      return {
+        op: operation.op,
+        id: field.string("id"),
+        label: field.optionalString("label"),
+        shape: field.shape(),
+        subgraph: field.nullableString("subgraph"),
+      };
+    case "remove_node":
+      return { op: operation.op, id: field.string("id") };
+    case "rename_node":
+      return { op: operation.op, id: field.string("id"), newId: field.optionalString("new_id"), label: field.optionalString("label") };
+    case "add_edge":
+      return {
+        op: operation.op,
+        from: field.string("from"),
+        to: field.string("to"),
+        label: field.optionalString("label"),
+        arrow: field.optionalString("arrow"),
+      };
+    case "remove_edge":
+      return { op: operation.op, from: field.string("from"), to: field.string("to"), label: field.optionalString("label") };
+    case "set_class":
+      return { op: operation.op, id: field.string("id"), className: field.nullableString("class_name") };
+    case "move_to_subgraph":
+      return { op: operation.op, id: field.string("id"), subgraph: field.nullableString("subgraph") };
+    case "patch_lines":
+      return {
+        op: operation.op,
+        startLine: field.integer("start_line"),
+        endLine: field.optionalInteger("end_line"),
+        lines: field.lines(),
+      };
+    default:
+      throw new Error(`Operation ${index + 1} has an unknown op: ${String(operation.op)}. Use one of ${DIAGRAM_EDIT_OPS.join(", ")}`);
+  }
+}
+
+// Reads typed fields from one edit_diagram operation, naming the operation in errors
+class EditFieldReader {
+  constructor(
+    private operation: Record<string, unknown>,
+    private index: number,
+  ) {}
+
+  string(name: string): string {
+    const value = this.operation[name];
+    if (typeof value !== "string" || value === "") {
+      throw this.error(`${name} is required`);
+    }
+    return value;
+  }
+
+  optionalString(name: string): string | undefined {
+    const value = this.operation[name];
+    if (value !== undefined && typeof value !== "string") {
+      throw this.error(`${name} must be a string`);
+    }
+    return value;
+  }
+
+  nullableString(name: string): string | null | undefined {
+    return this.operation[name] === null ? null : this.optionalString(name);
+  }
+
+  integer(name: string): number {
+    const value = this.optionalInteger(name);
+    if (value === undefined) {
+      throw this.error(`${name} is required`);
+    }
+    return value;
+  }
+
+  optionalInteger(name: string): number | undefined {
+    const value = this.operation[name];
+    if (value !== undefined && !Number.isInteger(value)) {
+      throw this.error(`${name} must be an integer`);
+    }
+    return value as number | undefined;
+  }
+
+  shape(): NodeShape | undefined {
+    const value = this.optionalString("shape");
+    if (value !== undefined && !NODE_SHAPES.includes(value as NodeShape)) {
+      throw this.error(`shape must be one of ${NODE_SHAPES.join(", ")}`);
+    }
+    return value as NodeShape | undefined;
+  }
+
+  lines(): string[] {
+    const value = this.operation.lines;
+    if (!Array.isArray(value) || !value.every((line) => typeof line === "string")) {
+      throw this.error("lines must be an array of strings");
+    }
+    return value;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Operation ${this.index + 1} (${this.operation.op}): ${message}`);
+  }
+}
+
 // Start the MCP server if run directly
 const isMainModule = () => {
   const currentFile = fileURLToPath(import.meta.url);
@@ -364,10 +1611,42 @@ if (isMainModule()) {
       'data-path': {
         type: 'string',
         default: undefined
+      },
+      // One-off library transfers: run, print a summary and exit
+      'export-library': {
+        type: 'string'
+      },
+      'import-library': {
+        type: 'string'
+      },
+      'collection': {
+        type: 'string'
+      },
+      'on-collision': {
+        type: 'string',
+        default: 'skip'
       }
     }
   });
 
+  if (values['export-library'] || values['import-library']) {
+    const historyService = new HistoryService(values['data-path'] as string | undefined);
+    try {
+      const result = values['export-library']
+        ? await exportLibrary(historyService, values['export-library'] as string, {
+            collection: values['collection'] as string | undefined,
+          })
+        : await importLibrary(historyService, values['import-library'] as string, {
+            onCollision: values['on-collision'] as ImportCollisionPolicy,
+          });
+      console.log(JSON.stringify(result, null, 2));
+      process.exit(0);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
   const server = new MindpilotMCPServer(values['data-path'] as string | undefined);
 
   // Handle graceful shutdown
@@ -0,0 +1,65 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+const REGISTRY_FILE = '.collections.json';
+const REGISTRY_VERSION = 1;
+
+export interface CollectionRecord {
+  name: string;
+  description: string | null;
+  color: string | null;
+  sortOrder: number;
+  createdAt: string;  // ISO 8601
+}
+
+interface RegistryFile {
+  version: number;
+  collections: CollectionRecord[];
+}
+
+/**
+ * Collections that were created, edited or reordered by hand. A collection
+ * also exists implicitly while any diagram references it; those have no
+ * record until someone gives them a description, color or position.
+ *
+ * The registry is a dotfile next to the diagrams so every process sharing
+ * the data directory sees the same collections. It is small enough to read
+ * fresh on every call.
+ */
+export class CollectionRegistry {
+  private registryPath: string;
+
+  constructor(private dataDir: string) {
+    this.registryPath = path.join(dataDir, REGISTRY_FILE);
+  }
+
+  /**
+   * Gets the records in their sort order
+   */
+  async read(): Promise<CollectionRecord[]> {
+    try {
+      const file: RegistryFile = JSON.parse(await fs.readFile(this.registryPath, 'utf-8'));
+      return (file.collections ?? []).sort((a, b) => a.sortOrder - b.sortOrder);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces every record, numbering their sort order from their position.
+   * Written atomically so other processes never read a partial file.
+   */
+  async write(records: CollectionRecord[]): Promise<void> {
+    const file: RegistryFile = {
+      version: REGISTRY_VERSION,
+      collections: records.map((record, index) => ({ ...record, sortOrder: index })),
+    };
+    const tempPath = `${this.registryPath}.${process.pid}.tmp`;
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.rename(tempPath, this.registryPath);
+  }
+}
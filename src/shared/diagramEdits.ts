@@ -0,0 +1,671 @@
+import {
+  ChainStatement,
+  DiagramModel,
+  ID_PATTERN,
+  NodeRef,
+  NodeShape,
+  Statement,
+  getDiagramStructure,
+  parseDiagram,
+  serializeDiagram,
+} from './diagramModel.js';
+
+export type DiagramEditOperation =
+  | { op: 'add_node'; id: string; label?: string; shape?: NodeShape; subgraph?: string | null }
+  | { op: 'remove_node'; id: string }
+  | { op: 'rename_node'; id: string; newId?: string; label?: string }
+  | { op: 'add_edge'; from: string; to: string; label?: string; arrow?: string }
+  | { op: 'remove_edge'; from: string; to: string; label?: string }
+  | { op: 'set_class'; id: string; className?: string | null }  // null or missing clears the class
+  | { op: 'move_to_subgraph'; id: string; subgraph?: string | null }  // null or missing moves to the top level
+  | { op: 'patch_lines'; startLine: number; endLine?: number; lines: string[] };
+
+export const DIAGRAM_EDIT_OPS: DiagramEditOperation['op'][] = [
+  'add_node',
+  'remove_node',
+  'rename_node',
+  'add_edge',
+  'remove_edge',
+  'set_class',
+  'move_to_subgraph',
+  'patch_lines',
+];
+
+// Edge arrows used when add_edge does not name one
+const DEFAULT_ARROWS: Record<DiagramModel['kind'], string> = {
+  flowchart: '-->',
+  sequence: '->>',
+  class: '-->',
+  state: '-->',
+  er: '||--o{',
+};
+
+// Raw lines that point at a node: style A ..., click A ..., activate A, note right of A, Note over A,B
+const RAW_REFERENCE_RE = new RegExp(
+  `^((?:style|click|activate|deactivate)\\s+)(${ID_PATTERN})|^(note\\s+(?:left of|right of|over|for)\\s+)(${ID_PATTERN}(?:\\s*,\\s*${ID_PATTERN})*)`,
+  'iu',
+);
+
+type NewStatement = Statement extends infer S ? (S extends Statement ? Omit<S, 'indent' | 'source'> : never) : never;
+
+/**
+ * Applies edit operations to Mermaid source in order and returns the new
+ * source. Each operation sees the result of the ones before it, including
+ * line numbers for patch_lines. Throws on the first operation that cannot
+ * be applied, naming it.
+ */
+export function applyDiagramEdits(source: string, operations: DiagramEditOperation[]): string {
+  return operations.reduce((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index + 1} (${operation.op}) failed: ${message}`);
+    }
+  }, source);
+}
+
+function applyOperation(source: string, operation: DiagramEditOperation): string {
+  if (operation.op === 'patch_lines') {
+    return patchLines(source, operation.startLine, operation.endLine ?? operation.startLine, operation.lines);
+  }
+
+  const model = parseDiagram(source);
+  switch (operation.op) {
+    case 'add_node':
+      addNode(model, operation.id, operation.label, operation.shape, operation.subgraph ?? null);
+      break;
+    case 'remove_node':
+      removeNode(model, operation.id);
+      break;
+    case 'rename_node':
+      renameNode(model, operation.id, operation.newId, operation.label);
+      break;
+    case 'add_edge':
+      addEdge(model, operation.from, operation.to, operation.label, operation.arrow);
+      break;
+    case 'remove_edge':
+      removeEdge(model, operation.from, operation.to, operation.label);
+      break;
+    case 'set_class':
+      setClass(model, operation.id, operation.className ?? null);
+      break;
+    case 'move_to_subgraph':
+      moveToSubgraph(model, operation.id, operation.subgraph ?? null);
+      break;
+    default:
+      throw new Error(`Unknown operation: ${(operation as { op: string }).op}`);
+  }
+  return serializeDiagram(model);
+}
+
+/**
+ * Replaces lines startLine..endLine (1-based, inclusive) with new lines.
+ * Use endLine = startLine - 1 to insert without replacing anything.
+ */
+function patchLines(source: string, startLine: number, endLine: number, lines: string[]): string {
+  const all = source.split('\n');
+  if (!Number.isInteger(startLine) || startLine < 1 || startLine > all.length + 1) {
+    throw new Error(`startLine must be between 1 and ${all.length + 1}`);
+  }
+  if (!Number.isInteger(endLine) || endLine < startLine - 1 || endLine > all.length) {
+    throw new Error(`endLine must be between ${startLine - 1} and ${all.length}`);
+  }
+  if (!Array.isArray(lines)) {
+    throw new Error('lines must be an array of strings');
+  }
+
+  all.splice(startLine - 1, endLine - startLine + 1, ...lines);
+  return all.join('\n');
+}
+
+function addNode(model: DiagramModel, id: string, label: string | undefined, shape: NodeShape | undefined, subgraph: string | null): void {
+  requireId(id, 'id');
+  if (hasNode(model, id)) {
+    throw new Error(`Node ${id} already exists`);
+  }
+  if (subgraph !== null && (model.kind === 'sequence' || model.kind === 'er')) {
+    throw new Error(`Subgraphs are not supported in ${model.kind} diagrams`);
+  }
+
+  if (model.kind === 'sequence') {
+    // Declare participants before the first message so they keep their order
+    const last = findLastIndex(model.statements, statement => statement.kind === 'node');
+    insertStatement(model, last + 1, topLevelIndent(model), {
+      kind: 'node',
+      keyword: 'participant',
+      id,
+      ...(label !== undefined && { label }),
+    });
+    return;
+  }
+
+  appendStatement(model, declaration(model, id, label, shape), subgraph);
+}
+
+function removeNode(model: DiagramModel, id: string): void {
+  if (!hasNode(model, id)) {
+    throw new Error(`Node ${id} not found`);
+  }
+
+  model.statements = model.statements.flatMap((statement): Statement[] => {
+    switch (statement.kind) {
+      case 'chain':
+        return mentions(statement, id) ? splitChainWithout(statement, id) : [statement];
+      case 'edge':
+        return statement.from === id || statement.to === id ? [] : [statement];
+      case 'node':
+        return statement.id === id ? [] : [statement];
+      case 'class': {
+        if (!statement.ids.includes(id)) return [statement];
+        const ids = statement.ids.filter(other => other !== id);
+        return ids.length > 0 ? [edited({ ...statement, ids })] : [];
+      }
+      case 'raw':
+        return rawReferences(statement.source).includes(id) ? [] : [statement];
+      default:
+        return [statement];
+    }
+  });
+}
+
+/**
+ * Drops a node from a chain. Where that leaves a gap the chain is split, so
+ * A --> X --> B & C becomes B & C. Pieces left without a link are dropped
+ * unless they define a node's shape or class.
+ */
+function splitChainWithout(chain: ChainStatement, id: string): Statement[] {
+  const segments: ChainStatement[] = [];
+  let current: ChainStatement | null = null;
+
+  chain.groups.forEach((group, i) => {
+    const remaining = group.filter(ref => ref.id !== id);
+    if (remaining.length === 0) {
+      current = null;
+      return;
+    }
+    if (current && i > 0) {
+      current.links.push(chain.links[i - 1]);
+      current.groups.push(remaining);
+    } else {
+      current = { kind: 'chain', indent: chain.indent, groups: [remaining], links: [] };
+      segments.push(current);
+    }
+  });
+
+  return segments.filter(segment =>
+    segment.links.length > 0 || segment.groups.flat().some(ref => ref.shape || ref.className),
+  );
+}
+
+function renameNode(model: DiagramModel, id: string, newId?: string, label?: string): void {
+  if (newId === undefined && label === undefined) {
+    throw new Error('Give a new id, a label or both');
+  }
+
+  const isGroup = model.statements.some(statement => statement.kind === 'group' && statement.id === id);
+  if (!isGroup && !hasNode(model, id)) {
+    throw new Error(`Node ${id} not found`);
+  }
+
+  if (newId !== undefined && newId !== id) {
+    requireId(newId, 'new id');
+    if (hasNode(model, newId) || model.statements.some(statement => statement.kind === 'group' && statement.id === newId)) {
+      throw new Error(`Node ${newId} already exists`);
+    }
+    replaceId(model, id, newId);
+  }
+
+  if (label !== undefined) {
+    setLabel(model, newId ?? id, label, isGroup);
+  }
+}
+
+function replaceId(model: DiagramModel, id: string, newId: string): void {
+  model.statements = model.statements.map(statement => {
+    switch (statement.kind) {
+      case 'chain':
+        if (!mentions(statement, id)) return statement;
+        return edited({
+          ...statement,
+          groups: statement.groups.map(group => group.map(ref => (ref.id === id ? renamedRef(ref, newId) : ref))),
+        });
+      case 'edge':
+        if (statement.from !== id && statement.to !== id) return statement;
+        return edited({
+          ...statement,
+          from: statement.from === id ? newId : statement.from,
+          to: statement.to === id ? newId : statement.to,
+        });
+      case 'node':
+      case 'group':
+        return statement.id === id ? edited({ ...statement, id: newId }) : statement;
+      case 'class':
+        if (!statement.ids.includes(id)) return statement;
+        return edited({ ...statement, ids: statement.ids.map(other => (other === id ? newId : other)) });
+      case 'raw':
+        return { ...statement, source: renameRawReference(statement.source, id, newId) };
+      default:
+        return statement;
+    }
+  });
+}
+
+function setLabel(model: DiagramModel, id: string, label: string, isGroup: boolean): void {
+  if (isGroup) {
+    const index = model.statements.findIndex(statement => statement.kind === 'group' && statement.id === id);
+    model.statements[index] = edited({ ...model.statements[index], label } as Statement);
+    return;
+  }
+
+  if (model.kind === 'flowchart') {
+    // Relabel where the node is defined, or define it at its first mention
+    const chains = model.statements.filter((statement): statement is ChainStatement => statement.kind === 'chain');
+    const refs = chains.flatMap(chain => chain.groups.flat().filter(ref => ref.id === id).map(ref => ({ chain, ref })));
+    const target = refs.find(({ ref }) => ref.shape) ?? refs[0];
+    if (target) {
+      target.ref.shape = target.ref.shape ?? 'rect';
+      target.ref.label = label;
+      delete target.ref.source;
+      delete target.chain.source;
+      return;
+    }
+  }
+
+  const declared = model.statements.findIndex(statement =>
+    statement.kind === 'node' && statement.id === id && (model.kind !== 'class' || statement.keyword === 'class'),
+  );
+  if (declared >= 0) {
+    model.statements[declared] = edited({ ...model.statements[declared], label } as Statement);
+    return;
+  }
+
+  if (model.kind === 'sequence') {
+    const last = findLastIndex(model.statements, statement => statement.kind === 'node');
+    insertStatement(model, last + 1, topLevelIndent(model), { kind: 'node', keyword: 'participant', id, label });
+    return;
+  }
+  appendStatement(model, declaration(model, id, label), null);
+}
+
+function addEdge(model: DiagramModel, from: string, to: string, label?: string, arrow?: string): void {
+  requireId(from, 'from');
+  requireId(to, 'to');
+  const edgeArrow = arrow ?? DEFAULT_ARROWS[model.kind];
+
+  if (model.kind === 'flowchart') {
+    appendStatement(model, {
+      kind: 'chain',
+      groups: [[{ id: from }], [{ id: to }]],
+      links: [{ arrow: edgeArrow, ...(label !== undefined && { label }) }],
+    }, null);
+    return;
+  }
+
+  appendStatement(model, {
+    kind: 'edge',
+    from,
+    to,
+    arrow: model.kind === 'state' ? '-->' : edgeArrow,
+    // Messages and relationships need text, even if it is empty
+    ...((label !== undefined || model.kind === 'er' || model.kind === 'sequence') && { label: label ?? '' }),
+  }, null);
+}
+
+function removeEdge(model: DiagramModel, from: string, to: string, label?: string): void {
+  const matches = (edgeFrom: string, edgeTo: string, edgeLabel?: string) =>
+    edgeFrom === from && edgeTo === to && (label === undefined || edgeLabel === label);
+  let removed = 0;
+
+  model.statements = model.statements.flatMap((statement): Statement[] => {
+    if (statement.kind === 'edge' && matches(statement.from, statement.to, statement.label)) {
+      removed++;
+      return [];
+    }
+    if (statement.kind !== 'chain') {
+      return [statement];
+    }
+
+    const hasEdge = statement.links.some((link, i) =>
+      statement.groups[i].some(a => statement.groups[i + 1].some(b => matches(a.id, b.id, link.label))),
+    );
+    if (!hasEdge) {
+      return [statement];
+    }
+
+    removed++;
+    return explodeChain(model, statement, (a, b, link) => !matches(a.id, b.id, link.label));
+  });
+
+  if (removed === 0) {
+    throw new Error(`No edge from ${from} to ${to}${label !== undefined ? ` labelled "${label}"` : ''}`);
+  }
+
+  // Keep nodes that were only mentioned by the removed edges
+  const mentioned = new Set(model.statements.flatMap(statement => mentionedIds(statement)));
+  for (const id of new Set([from, to])) {
+    if (id !== '[*]' && !mentioned.has(id)) {
+      appendStatement(model, declaration(model, id), null);
+    }
+  }
+}
+
+/**
+ * Rewrites a chain as one statement per edge, keeping the edges that pass
+ * the filter. Node definitions stay on their first remaining mention; nodes
+ * that lose every mention are declared on their own so they do not vanish.
+ */
+function explodeChain(
+  model: DiagramModel,
+  chain: ChainStatement,
+  keep: (a: NodeRef, b: NodeRef, link: ChainStatement['links'][number]) => boolean,
+): Statement[] {
+  const defined = new Set<string>();
+  const define = (ref: NodeRef): NodeRef => {
+    if (defined.has(ref.id)) return { id: ref.id };
+    defined.add(ref.id);
+    return { ...ref };
+  };
+
+  const statements: Statement[] = [];
+  chain.links.forEach((link, i) => {
+    for (const a of chain.groups[i]) {
+      for (const b of chain.groups[i + 1]) {
+        if (keep(a, b, link)) {
+          statements.push({ kind: 'chain', indent: chain.indent, groups: [[define(a)], [define(b)]], links: [link] });
+        }
+      }
+    }
+  });
+
+  const elsewhere = new Set(
+    model.statements.filter(statement => statement !== chain).flatMap(statement => mentionedIds(statement)),
+  );
+  for (const ref of chain.groups.flat()) {
+    if (defined.has(ref.id)) continue;
+    if (ref.shape || ref.className || !elsewhere.has(ref.id)) {
+      statements.push({ kind: 'chain', indent: chain.indent, groups: [[define(ref)]], links: [] });
+    }
+  }
+
+  return statements;
+}
+
+function setClass(model: DiagramModel, id: string, className: string | null): void {
+  if (model.kind === 'sequence' || model.kind === 'er') {
+    throw new Error(`Classes are not supported in ${model.kind} diagrams`);
+  }
+  if (!hasNode(model, id)) {
+    throw new Error(`Node ${id} not found`);
+  }
+
+  // Clear every existing assignment so the node ends up with just this class
+  model.statements = model.statements.flatMap((statement): Statement[] => {
+    if (statement.kind === 'class' && statement.ids.includes(id)) {
+      const ids = statement.ids.filter(other => other !== id);
+      return ids.length > 0 ? [edited({ ...statement, ids })] : [];
+    }
+    if (statement.kind === 'chain' && statement.groups.some(group => group.some(ref => ref.id === id && ref.className))) {
+      return [edited({
+        ...statement,
+        groups: statement.groups.map(group => group.map(ref => (ref.id === id && ref.className ? refWithoutClass(ref) : ref))),
+      })];
+    }
+    if (statement.kind === 'node' && statement.id === id && statement.className) {
+      return [edited(withoutClass(statement))];
+    }
+    return [statement];
+  });
+
+  if (className) {
+    appendStatement(model, { kind: 'class', ids: [id], className }, null);
+  }
+}
+
+function moveToSubgraph(model: DiagramModel, id: string, subgraph: string | null): void {
+  if (model.kind === 'sequence' || model.kind === 'er') {
+    throw new Error(`Subgraphs are not supported in ${model.kind} diagrams`);
+  }
+  if (!hasNode(model, id)) {
+    throw new Error(`Node ${id} not found`);
+  }
+  if (subgraph !== null) {
+    groupRange(model, subgraph);  // Fails early for an unknown subgraph
+  }
+
+  if (model.kind !== 'flowchart') {
+    // States and classes are moved by moving their declarations
+    const declarations = model.statements.filter(statement =>
+      statement.kind === 'node' && statement.id === id && (model.kind !== 'class' || statement.keyword === 'class'),
+    );
+    model.statements = model.statements.filter(statement => !declarations.includes(statement));
+    const moved = declarations.length > 0 ? declarations.map(statement => edited(statement)) : [{ ...declaration(model, id), indent: '' } as Statement];
+    for (const statement of moved) {
+      appendStatement(model, statement, subgraph);
+    }
+    return;
+  }
+
+  // Flowchart nodes belong to the first subgraph that mentions them, so the
+  // node gets a single definition in the target and loses mentions elsewhere
+  const definition: NodeRef = { id };
+  const parents = enclosingGroups(model);
+  const movedEdges: Statement[] = [];
+  const statements: Statement[] = [];
+
+  model.statements.forEach((statement, index) => {
+    if (statement.kind !== 'chain' || !mentions(statement, id)) {
+      statements.push(statement);
+      return;
+    }
+
+    for (const ref of statement.groups.flat()) {
+      if (ref.id === id) {
+        if (ref.shape && !definition.shape) {
+          definition.shape = ref.shape;
+          definition.label = ref.label;
+        }
+        if (ref.className && !definition.className) {
+          definition.className = ref.className;
+        }
+      }
+    }
+
+    if (statement.links.length === 0 && statement.groups.flat().every(ref => ref.id === id)) {
+      return;  // A declaration of the node itself
+    }
+
+    const stripped = edited({
+      ...statement,
+      groups: statement.groups.map(group => group.map(ref => (ref.id === id ? { id } : ref))),
+    });
+    const parent = parents[index];
+    if (parent === null || parent === subgraph) {
+      statements.push(stripped);
+      return;
+    }
+
+    // Linked from another subgraph: keep the other nodes declared there and move the links out
+    for (const ref of statement.groups.flat()) {
+      if (ref.id !== id) {
+        statements.push({ kind: 'chain', indent: statement.indent, groups: [[ref]], links: [] });
+      }
+    }
+    movedEdges.push(edited({
+      ...stripped,
+      groups: (stripped as ChainStatement).groups.map(group => group.map(ref => ({ id: ref.id }))),
+    }));
+  });
+
+  model.statements = statements;
+  appendStatement(model, { kind: 'chain', groups: [[definition]], links: [] }, subgraph);
+  for (const statement of movedEdges) {
+    appendStatement(model, statement, null);
+  }
+}
+
+/**
+ * A standalone declaration of a node in the model's diagram type
+ */
+function declaration(model: DiagramModel, id: string, label?: string, shape?: NodeShape): NewStatement {
+  switch (model.kind) {
+    case 'flowchart':
+      return {
+        kind: 'chain',
+        groups: [[{ id, ...((label !== undefined || shape) && { shape: shape ?? 'rect', label: label ?? id }) }]],
+        links: [],
+      };
+    case 'sequence':
+      return { kind: 'node', keyword: 'participant', id, ...(label !== undefined && { label }) };
+    case 'class':
+      return { kind: 'node', keyword: 'class', id, ...(label !== undefined && { label }) };
+    case 'state':
+      return label !== undefined ? { kind: 'node', keyword: 'state', id, label } : { kind: 'node', id };
+    case 'er':
+      return { kind: 'node', id, ...(label !== undefined && { label }) };
+  }
+}
+
+/**
+ * Adds a statement at the end of a subgraph, or at the end of the diagram
+ * when subgraph is null
+ */
+function appendStatement(model: DiagramModel, statement: NewStatement | Statement, subgraph: string | null): void {
+  if (subgraph === null) {
+    let index = model.statements.length;
+    while (index > 0 && isBlank(model.statements[index - 1])) index--;
+    insertStatement(model, index, topLevelIndent(model), statement);
+    return;
+  }
+
+  const { start, end } = groupRange(model, subgraph);
+  const firstChild = model.statements.slice(start + 1, end).find(child => !isBlank(child));
+  const indent = firstChild?.indent ?? `${model.statements[start].indent}  `;
+  insertStatement(model, end, indent, statement);
+}
+
+function insertStatement(model: DiagramModel, index: number, indent: string, statement: NewStatement | Statement): void {
+  const { source, ...fields } = statement as Statement;
+  model.statements.splice(index, 0, { ...fields, indent } as Statement);
+}
+
+/**
+ * Finds a subgraph's opening statement and its matching end
+ */
+function groupRange(model: DiagramModel, id: string): { start: number; end: number } {
+  const start = model.statements.findIndex(statement => statement.kind === 'group' && statement.id === id);
+  if (start < 0) {
+    throw new Error(`Subgraph ${id} not found`);
+  }
+
+  let depth = 0;
+  for (let i = start; i < model.statements.length; i++) {
+    const kind = model.statements[i].kind;
+    if (kind === 'group') depth++;
+    if (kind === 'end' && --depth === 0) {
+      return { start, end: i };
+    }
+  }
+  throw new Error(`Subgraph ${id} is not closed`);
+}
+
+/**
+ * The innermost subgraph around each statement, or null at the top level
+ */
+function enclosingGroups(model: DiagramModel): (string | null)[] {
+  const stack: string[] = [];
+  return model.statements.map(statement => {
+    const parent = stack.length > 0 ? stack[stack.length - 1] : null;
+    if (statement.kind === 'group') stack.push(statement.id);
+    if (statement.kind === 'end') stack.pop();
+    return parent;
+  });
+}
+
+function topLevelIndent(model: DiagramModel): string {
+  return model.statements.find(statement => !isBlank(statement))?.indent ?? '  ';
+}
+
+function isBlank(statement: Statement): boolean {
+  return statement.kind === 'raw' && statement.source === '';
+}
+
+function hasNode(model: DiagramModel, id: string): boolean {
+  const structure = getDiagramStructure(model);
+  return structure.nodes.some(node => node.id === id) || structure.participants.some(participant => participant.id === id);
+}
+
+function mentions(chain: ChainStatement, id: string): boolean {
+  return chain.groups.some(group => group.some(ref => ref.id === id));
+}
+
+function mentionedIds(statement: Statement): string[] {
+  switch (statement.kind) {
+    case 'chain':
+      return statement.groups.flat().map(ref => ref.id);
+    case 'edge':
+      return [statement.from, statement.to];
+    case 'node':
+      return [statement.id];
+    case 'class':
+      return statement.ids;
+    case 'raw':
+      return rawReferences(statement.source);
+    default:
+      return [];
+  }
+}
+
+function rawReferences(source: string): string[] {
+  const match = source.match(RAW_REFERENCE_RE);
+  if (!match) return [];
+  return match[2] !== undefined ? [match[2]] : match[4].split(',').map(id => id.trim());
+}
+
+function renameRawReference(source: string, id: string, newId: string): string {
+  return source.replace(RAW_REFERENCE_RE, (whole, keyword, single, notePrefix, list) => {
+    if (single !== undefined) {
+      return single === id ? keyword + newId : whole;
+    }
+    return notePrefix + list.split(',').map((ref: string) => (ref.trim() === id ? ref.replace(id, newId) : ref)).join(',');
+  });
+}
+
+// A renamed reference keeps its original text after the id, e.g. A["Start"]
+function renamedRef(ref: NodeRef, newId: string): NodeRef {
+  return { ...ref, id: newId, ...(ref.source !== undefined && { source: newId + ref.source.slice(ref.id.length) }) };
+}
+
+function refWithoutClass(ref: NodeRef): NodeRef {
+  const rest = withoutClass(ref);
+  if (rest.source !== undefined) {
+    rest.source = rest.source.slice(0, -`:::${ref.className}`.length);
+  }
+  return rest;
+}
+
+function withoutClass<T extends { className?: string }>(item: T): T {
+  const { className, ...rest } = item;
+  return rest as T;
+}
+
+/**
+ * Marks a statement as changed so it is written out from its fields
+ */
+function edited<T extends Statement>(statement: T): T {
+  const { source, ...rest } = statement;
+  return rest as T;
+}
+
+function requireId(id: string | undefined, name: string): void {
+  if (!id || !new RegExp(`^${ID_PATTERN}$`, 'u').test(id)) {
+    throw new Error(`Invalid ${name}: ${id ?? '(missing)'}. Use letters, numbers and _`);
+  }
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { httpLogger as logger } from './logger.js';
+
+const MANIFEST_FILE = '.index.json';
+const MANIFEST_VERSION = 2;
+
+/**
+ * Everything needed to list a diagram without opening its file.
+ * Revisions stay in the per-diagram files.
+ */
+export interface IndexedDiagram {
+  version: number;
+  id: string;
+  type: string;
+  createdAt: string;  // ISO 8601
+  updatedAt: string;  // ISO 8601
+  diagram: string;
+  title: string;
+  collection: string | null;
+  folder: string | null;
+}
+
+interface IndexManifest {
+  version: number;
+  entries: IndexedDiagram[];
+  stamps: Record<string, string>;  // Diagram id -> mtime and size of the file the entry was read from
+}
+
+/**
+ * Returns true for per-diagram files in the data directory.
+ * Dotfiles such as the manifest itself are skipped.
+ */
+export function isDiagramFile(file: string): boolean {
+  return file.endsWith('.json') && !file.startsWith('.');
+}
+
+/**
+ * Manifest of every diagram in a data directory, so listing and filtering
+ * read one file instead of parsing every diagram.
+ *
+ * The per-diagram files stay the source of truth. Several processes (MCP
+ * server, HTTP server, Electron) share a data directory and files can be
+ * edited by hand, so every read reconciles the index with the directory:
+ * each entry remembers the mtime and size of its file, files that are new
+ * or changed since are read through loadEntry, and entries whose file is
+ * gone are dropped. That also restores entries lost when two processes
+ * write the manifest at once.
+ */
+export class DiagramIndex {
+  private manifestPath: string;
+  private entries: Map<string, IndexedDiagram> | null = null;
+  private stamps = new Map<string, string>();
+  private manifestMtime = 0;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private dataDir: string,
+    private loadEntry: (id: string) => Promise<IndexedDiagram | null>
+  ) {
+    this.manifestPath = path.join(dataDir, MANIFEST_FILE);
+  }
+
+  /**
+   * Gets all indexed diagrams, picking up changes other processes made
+   */
+  async getEntries(): Promise<IndexedDiagram[]> {
+    const entries = await this.queue(() => this.load());
+    return Array.from(entries.values());
+  }
+
+  /**
+   * Adds or replaces a diagram in the index after its file was written
+   */
+  async upsert(entry: IndexedDiagram): Promise<void> {
+    await this.queue(async () => {
+      const entries = await this.load();
+      entries.set(entry.id, entry);
+      const stamp = await this.stampOf(entry.id);
+      if (stamp) {
+        this.stamps.set(entry.id, stamp);
+      }
+      await this.persist(entries);
+    });
+  }
+
+  /**
+   * Removes a diagram from the index
+   */
+  async remove(id: string): Promise<void> {
+    await this.queue(async () => {
+      const entries = await this.load();
+      this.stamps.delete(id);
+      if (entries.delete(id)) {
+        await this.persist(entries);
+      }
+    });
+  }
+
+  // Runs index operations of this process one at a time
+  private queue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  private async load(): Promise<Map<string, IndexedDiagram>> {
+    const mtime = await fs.stat(this.manifestPath).then(stat => stat.mtimeMs, () => 0);
+    if (!this.entries || mtime === 0 || mtime !== this.manifestMtime) {
+      const entries = new Map<string, IndexedDiagram>();
+      this.stamps = new Map();
+      try {
+        const manifest: IndexManifest = JSON.parse(await fs.readFile(this.manifestPath, 'utf-8'));
+        if (manifest.version === MANIFEST_VERSION) {
+          for (const entry of manifest.entries) {
+            entries.set(entry.id, entry);
+          }
+          this.stamps = new Map(Object.entries(manifest.stamps ?? {}));
+        }
+      } catch (error) {
+        logger.info('Building diagram index');
+      }
+      this.entries = entries;
+      this.manifestMtime = mtime;
+    }
+
+    if (await this.reconcile(this.entries)) {
+      await this.persist(this.entries);
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Brings the index in line with the files on disk.
+   * Returns true if anything changed.
+   */
+  private async reconcile(entries: Map<string, IndexedDiagram>): Promise<boolean> {
+    const files = await fs.readdir(this.dataDir).catch(() => [] as string[]);
+    const ids = new Set(files.filter(isDiagramFile).map(file => file.slice(0, -'.json'.length)));
+    let changed = false;
+
+    for (const id of entries.keys()) {
+      if (!ids.has(id)) {
+        entries.delete(id);
+        this.stamps.delete(id);
+        changed = true;
+      }
+    }
+
+    const stamps = await Promise.all(Array.from(ids, async id => [id, await this.stampOf(id)] as const));
+    for (const [id, stamp] of stamps) {
+      if (!stamp || (entries.has(id) && this.stamps.get(id) === stamp)) continue;
+      try {
+        const entry = await this.loadEntry(id);
+        if (entry) {
+          entries.set(entry.id, entry);
+          // Loading can rewrite the file, e.g. to migrate it
+          this.stamps.set(entry.id, (await this.stampOf(id)) ?? stamp);
+          changed = true;
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable diagram file ${id}.json`, { error });
+      }
+    }
+
+    return changed;
+  }
+
+  // Changes when the file is rewritten, by any process or by hand
+  private async stampOf(id: string): Promise<string | null> {
+    try {
+      const stat = await fs.stat(path.join(this.dataDir, `${id}.json`));
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Writes the manifest atomically so readers never see a partial file
+   */
+  private async persist(entries: Map<string, IndexedDiagram>): Promise<void> {
+    const manifest: IndexManifest = {
+      version: MANIFEST_VERSION,
+      entries: Array.from(entries.values()),
+      stamps: Object.fromEntries(this.stamps),
+    };
+    // Unique per write: several indexes in one process can share a directory
+    const tempPath = `${this.manifestPath}.${process.pid}.${randomUUID()}.tmp`;
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(manifest));
+    await fs.rename(tempPath, this.manifestPath);
+
+    const stat = await fs.stat(this.manifestPath);
+    this.entries = entries;
+    this.manifestMtime = stat.mtimeMs;
+  }
+}
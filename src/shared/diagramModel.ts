@@ -0,0 +1,959 @@
+/**
+ * Structured model of Mermaid source for flowchart, sequence, class, state
+ * and ER diagrams.
+ *
+ * The source is parsed into an ordered list of statements. Statements the
+ * parser understands are typed (node chains, edges, declarations, groups,
+ * classDefs); everything else (styles, notes, loops, comments) is kept as
+ * raw text. Each parsed statement remembers its original text, so
+ * serializeDiagram(parseDiagram(source)) gives back the same source (apart
+ * from flowchart lines holding several statements, which are split), and a
+ * statement is only rewritten from its fields after an edit clears `source`.
+ */
+
+export type DiagramKind = 'flowchart' | 'sequence' | 'class' | 'state' | 'er';
+
+export type NodeShape =
+  | 'rect'
+  | 'rounded'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'double-circle'
+  | 'asymmetric'
+  | 'rhombus'
+  | 'hexagon'
+  | 'lean-right'
+  | 'lean-left'
+  | 'trapezoid'
+  | 'inv-trapezoid';
+
+// Flowchart node brackets, longest opening first so `((` wins over `(`
+export const SHAPES: { open: string; close: string; shape: NodeShape }[] = [
+  { open: '(((', close: ')))', shape: 'double-circle' },
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '([', close: '])', shape: 'stadium' },
+  { open: '[[', close: ']]', shape: 'subroutine' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[/', close: '/]', shape: 'lean-right' },
+  { open: '[\\', close: '\\]', shape: 'lean-left' },
+  { open: '[/', close: '\\]', shape: 'trapezoid' },
+  { open: '[\\', close: '/]', shape: 'inv-trapezoid' },
+  { open: '>', close: ']', shape: 'asymmetric' },
+  { open: '[', close: ']', shape: 'rect' },
+  { open: '(', close: ')', shape: 'rounded' },
+  { open: '{', close: '}', shape: 'rhombus' },
+];
+
+export const NODE_SHAPES: NodeShape[] = SHAPES.map(({ shape }) => shape);
+
+// Node, participant, class and entity ids: word characters, with single dots or dashes inside
+export const ID_PATTERN = '[\\p{L}\\p{N}_$]+(?:[.\\-][\\p{L}\\p{N}_$]+)*';
+const ID_RE = new RegExp(`^${ID_PATTERN}`, 'u');
+
+// A node reference inside a flowchart chain, e.g. A, A["Label"] or A(Label):::cls
+export interface NodeRef {
+  id: string;
+  shape?: NodeShape;
+  label?: string;
+  className?: string;
+  source?: string;  // Original text; cleared when the reference is edited
+}
+
+export interface Link {
+  arrow: string;  // e.g. -->, -.->, ==>, ---
+  label?: string;
+  source?: string;  // Original text, e.g. "-- yes -->"
+}
+
+interface StatementBase {
+  indent: string;
+  source?: string;  // Original text without the indent; cleared when the statement is edited
+}
+
+// Anything the parser does not model: comments, styles, notes, blocks
+export interface RawStatement extends StatementBase {
+  kind: 'raw';
+  source: string;
+}
+
+// Flowchart nodes and the links between them: A --> B & C -.-> D
+export interface ChainStatement extends StatementBase {
+  kind: 'chain';
+  groups: NodeRef[][];  // Nodes joined with &
+  links: Link[];  // links[i] joins groups[i] to groups[i + 1]
+}
+
+// Sequence messages, state transitions, class relations and ER relationships
+export interface EdgeStatement extends StatementBase {
+  kind: 'edge';
+  from: string;
+  to: string;
+  arrow: string;
+  label?: string;
+  fromCardinality?: string;  // Class diagrams: A "1" --> "*" B
+  toCardinality?: string;
+}
+
+// Participants, states, classes and entities declared on their own
+export interface NodeStatement extends StatementBase {
+  kind: 'node';
+  id: string;
+  keyword?: string;  // participant, actor, state or class when the declaration uses one
+  label?: string;
+  annotation?: string;  // <<interface>>, <<fork>> ...
+  generic?: string;  // Class diagrams: ~T~
+  className?: string;
+  members?: string[];  // Class members or entity attributes
+}
+
+// Flowchart subgraphs, composite states and class diagram namespaces
+export interface GroupStatement extends StatementBase {
+  kind: 'group';
+  id: string;
+  label?: string;
+}
+
+export interface EndStatement extends StatementBase {
+  kind: 'end';
+}
+
+export interface ClassDefStatement extends StatementBase {
+  kind: 'classDef';
+  names: string[];
+  styles: string;
+}
+
+export interface ClassStatement extends StatementBase {
+  kind: 'class';
+  ids: string[];
+  className: string;
+}
+
+export type Statement =
+  | RawStatement
+  | ChainStatement
+  | EdgeStatement
+  | NodeStatement
+  | GroupStatement
+  | EndStatement
+  | ClassDefStatement
+  | ClassStatement;
+
+export interface DiagramModel {
+  kind: DiagramKind;
+  preamble: string[];  // Front matter, directives and comments before the header
+  header: string;  // e.g. "graph TD" or "sequenceDiagram"
+  statements: Statement[];
+}
+
+// Graph view of a model, as returned by the get_diagram_structure tool
+export interface DiagramNode {
+  id: string;
+  label?: string;
+  shape?: NodeShape;
+  classes?: string[];
+  subgraph?: string;  // Innermost subgraph, composite state or namespace
+  annotation?: string;
+  members?: string[];
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  arrow: string;
+  label?: string;
+  fromCardinality?: string;
+  toCardinality?: string;
+}
+
+export interface DiagramSubgraph {
+  id: string;
+  label?: string;
+  parent?: string;
+}
+
+export interface DiagramClassDef {
+  name: string;
+  styles: string;
+}
+
+export interface DiagramParticipant {
+  id: string;
+  label?: string;
+  type: 'participant' | 'actor';
+}
+
+export interface DiagramStructure {
+  type: DiagramKind;
+  header: string;
+  direction?: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  subgraphs: DiagramSubgraph[];
+  classDefs: DiagramClassDef[];
+  participants: DiagramParticipant[];  // Sequence diagrams only, in order of appearance
+}
+
+export const SUPPORTED_DIAGRAM_TYPES = ['flowchart', 'graph', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'erDiagram'];
+
+/**
+ * Works out which supported diagram a header line declares
+ */
+export function detectDiagramKind(header: string): DiagramKind | null {
+  const type = header.trim().split(/[\s;]/)[0];
+  switch (type) {
+    case 'graph':
+    case 'flowchart':
+    case 'flowchart-elk':
+      return 'flowchart';
+    case 'sequenceDiagram':
+      return 'sequence';
+    case 'classDiagram':
+    case 'classDiagram-v2':
+      return 'class';
+    case 'stateDiagram':
+    case 'stateDiagram-v2':
+      return 'state';
+    case 'erDiagram':
+      return 'er';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses Mermaid source into a model. Throws for empty source and for
+ * diagram types the model does not cover.
+ */
+export function parseDiagram(source: string): DiagramModel {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const preamble: string[] = [];
+  let i = 0;
+
+  // YAML front matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0) {
+      preamble.push(...lines.slice(0, end + 1));
+      i = end + 1;
+    }
+  }
+
+  // Directives, comments and blank lines before the header
+  while (i < lines.length && (lines[i].trim() === '' || lines[i].trim().startsWith('%%'))) {
+    preamble.push(lines[i++]);
+  }
+
+  if (i >= lines.length) {
+    throw new Error('Diagram cannot be empty');
+  }
+
+  const header = lines[i++].trim();
+  const kind = detectDiagramKind(header);
+  if (!kind) {
+    throw new Error(`Unsupported diagram type: ${header.split(/[\s;]/)[0]}. Supported types are ${SUPPORTED_DIAGRAM_TYPES.join(', ')}`);
+  }
+
+  return { kind, preamble, header, statements: parseStatements(kind, lines.slice(i)) };
+}
+
+function parseStatements(kind: DiagramKind, lines: string[]): Statement[] {
+  const statements: Statement[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const indent = lines[i].match(/^\s*/)![0];
+    const text = lines[i].trim();
+
+    if (!text || text.startsWith('%%')) {
+      statements.push({ kind: 'raw', indent, source: text });
+      continue;
+    }
+
+    // Statements that span several lines: class bodies, entity attributes and state notes
+    const blockEnd = findBlockEnd(kind, text, lines, i);
+    if (blockEnd > i) {
+      const source = [text, ...lines.slice(i + 1, blockEnd + 1)].join('\n');
+      const body = lines.slice(i + 1, blockEnd).map(line => line.trim()).filter(line => line && !line.startsWith('%%'));
+      const statement = parseBlock(kind, text, body);
+      statements.push(statement ? { ...statement, indent, source } : { kind: 'raw', indent, source });
+      i = blockEnd;
+      continue;
+    }
+
+    // Flowcharts allow several statements on a line separated by semicolons
+    const parts = kind === 'flowchart' ? splitStatements(text) : [text];
+    for (const part of parts) {
+      const statement = parseLine(kind, part);
+      statements.push(statement ? { ...statement, indent, source: part } : { kind: 'raw', indent, source: part });
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Returns the index of the line closing a multi-line statement starting at
+ * `start`, or `start` itself when the statement fits on one line
+ */
+function findBlockEnd(kind: DiagramKind, text: string, lines: string[], start: number): number {
+  let closing: string | null = null;
+  if ((kind === 'class' && /^class\s.*\{$/.test(text)) || (kind === 'er' && /\{$/.test(text))) {
+    closing = '}';
+  } else if (kind === 'state' && /^note\s+(left|right)\s+of\s+[^:]+$/.test(text)) {
+    closing = 'end note';
+  }
+  if (!closing) return start;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() === closing) return i;
+  }
+  return start;
+}
+
+// A statement before its position in the source is known
+type ParsedStatement = Statement extends infer S ? (S extends Statement ? Omit<S, 'indent' | 'source'> : never) : never;
+
+function parseBlock(kind: DiagramKind, text: string, body: string[]): ParsedStatement | null {
+  if (kind === 'class') {
+    const node = parseClassDeclaration(text.replace(/\s*\{$/, ''));
+    return node && { ...node, members: body };
+  }
+  if (kind === 'er') {
+    const match = text.match(new RegExp(`^(${ID_PATTERN})\\s*(?:\\["([^"]*)"\\])?\\s*\\{$`, 'u'));
+    return match && { kind: 'node', id: match[1], ...(match[2] !== undefined && { label: match[2] }), members: body };
+  }
+  return null;  // State notes stay raw
+}
+
+function parseLine(kind: DiagramKind, text: string): ParsedStatement | null {
+  const classDef = text.match(/^classDef\s+(\S+)\s+(.+)$/);
+  if (classDef) {
+    return { kind: 'classDef', names: classDef[1].split(','), styles: classDef[2].trim() };
+  }
+
+  switch (kind) {
+    case 'flowchart':
+      return parseFlowchartLine(text);
+    case 'sequence':
+      return parseSequenceLine(text);
+    case 'class':
+      return parseClassLine(text);
+    case 'state':
+      return parseStateLine(text);
+    case 'er':
+      return parseErLine(text);
+  }
+}
+
+function parseFlowchartLine(text: string): ParsedStatement | null {
+  if (text === 'end') {
+    return { kind: 'end' };
+  }
+
+  const subgraph = text.match(/^subgraph\s+(.+)$/);
+  if (subgraph) {
+    // Mermaid allows a space between the id and its [label]
+    const title = subgraph[1].trim().replace(new RegExp(`^(${ID_PATTERN})\\s+(?=\\[)`, 'u'), '$1');
+    const ref = readNodeRef(title, 0);
+    if (ref && ref.end === title.length) {
+      return { kind: 'group', id: ref.node.id, ...(ref.node.label !== undefined && { label: ref.node.label }) };
+    }
+    const quoted = title.match(/^"([^"]*)"$/);
+    return quoted ? { kind: 'group', id: quoted[1], label: quoted[1] } : { kind: 'group', id: title };
+  }
+
+  const classAssignment = text.match(/^class\s+(\S+)\s+([\w-]+)$/);
+  if (classAssignment) {
+    return { kind: 'class', ids: classAssignment[1].split(','), className: classAssignment[2] };
+  }
+
+  const chain = parseChain(text);
+  return chain && { kind: 'chain', ...chain };
+}
+
+const MESSAGE_RE = new RegExp(
+  `^(${ID_PATTERN})\\s*(<<-->>|<<->>|-->>|->>|--x|-x|--\\)|-\\)|-->|->)\\s*([+-]?)\\s*(${ID_PATTERN})\\s*(?::(.*))?$`,
+  'u',
+);
+
+function parseSequenceLine(text: string): ParsedStatement | null {
+  const participant = text.match(new RegExp(`^(participant|actor)\\s+(${ID_PATTERN})(?:\\s+as\\s+(.+))?$`, 'u'));
+  if (participant) {
+    return {
+      kind: 'node',
+      keyword: participant[1],
+      id: participant[2],
+      ...(participant[3] !== undefined && { label: participant[3].trim() }),
+    };
+  }
+
+  const message = text.match(MESSAGE_RE);
+  if (message) {
+    return {
+      kind: 'edge',
+      from: message[1],
+      arrow: message[2] + message[3],
+      to: message[4],
+      ...(message[5] !== undefined && { label: message[5].trim() }),
+    };
+  }
+
+  return null;
+}
+
+const CLASS_RELATION_RE = new RegExp(
+  `^(${ID_PATTERN})\\s*(?:"([^"]*)"\\s*)?((?:<\\||\\*|o|<)?(?:--|\\.\\.)(?:\\|>|\\*|o|>)?)\\s*(?:"([^"]*)"\\s*)?(${ID_PATTERN})\\s*(?::\\s*(.*))?$`,
+  'u',
+);
+
+function parseClassDeclaration(text: string): Omit<NodeStatement, 'indent' | 'source'> | null {
+  const match = text.match(new RegExp(`^class\\s+(${ID_PATTERN})(~[^~]+~)?(?:\\["([^"]*)"\\])?(?::::([\\w-]+))?$`, 'u'));
+  if (!match) return null;
+  return {
+    kind: 'node',
+    keyword: 'class',
+    id: match[1],
+    ...(match[2] !== undefined && { generic: match[2] }),
+    ...(match[3] !== undefined && { label: match[3] }),
+    ...(match[4] !== undefined && { className: match[4] }),
+  };
+}
+
+function parseClassLine(text: string): ParsedStatement | null {
+  if (text === '}') {
+    return { kind: 'end' };
+  }
+
+  const namespace = text.match(new RegExp(`^namespace\\s+(${ID_PATTERN})\\s*\\{$`, 'u'));
+  if (namespace) {
+    return { kind: 'group', id: namespace[1] };
+  }
+
+  const declaration = parseClassDeclaration(text);
+  if (declaration) {
+    return declaration;
+  }
+
+  const cssClass = text.match(/^cssClass\s+"([^"]+)"\s+([\w-]+)$/);
+  if (cssClass) {
+    return { kind: 'class', ids: cssClass[1].split(',').map(id => id.trim()), className: cssClass[2] };
+  }
+
+  const annotation = text.match(new RegExp(`^<<(.+)>>\\s*(${ID_PATTERN})$`, 'u'));
+  if (annotation) {
+    return { kind: 'node', id: annotation[2], annotation: annotation[1] };
+  }
+
+  const relation = text.match(CLASS_RELATION_RE);
+  if (relation) {
+    return {
+      kind: 'edge',
+      from: relation[1],
+      arrow: relation[3],
+      to: relation[5],
+      ...(relation[2] !== undefined && { fromCardinality: relation[2] }),
+      ...(relation[4] !== undefined && { toCardinality: relation[4] }),
+      ...(relation[6] !== undefined && { label: relation[6].trim() }),
+    };
+  }
+
+  const member = text.match(new RegExp(`^(${ID_PATTERN})\\s*:\\s*(.+)$`, 'u'));
+  if (member) {
+    return { kind: 'node', id: member[1], members: [member[2].trim()] };
+  }
+
+  return null;
+}
+
+const STATE_ID = `\\[\\*\\]|${ID_PATTERN}`;
+
+function parseStateLine(text: string): ParsedStatement | null {
+  if (text === '}') {
+    return { kind: 'end' };
+  }
+
+  const aliased = text.match(new RegExp(`^state\\s+"([^"]*)"\\s+as\\s+(${ID_PATTERN})\\s*(\\{)?$`, 'u'));
+  if (aliased) {
+    return aliased[3]
+      ? { kind: 'group', id: aliased[2], label: aliased[1] }
+      : { kind: 'node', keyword: 'state', id: aliased[2], label: aliased[1] };
+  }
+
+  const declared = text.match(new RegExp(`^state\\s+(${ID_PATTERN})\\s*(?:<<(\\w+)>>)?\\s*(\\{)?$`, 'u'));
+  if (declared) {
+    return declared[3]
+      ? { kind: 'group', id: declared[1] }
+      : { kind: 'node', keyword: 'state', id: declared[1], ...(declared[2] && { annotation: declared[2] }) };
+  }
+
+  const classAssignment = text.match(/^class\s+(\S+)\s+([\w-]+)$/);
+  if (classAssignment) {
+    return { kind: 'class', ids: classAssignment[1].split(','), className: classAssignment[2] };
+  }
+
+  const transition = text.match(new RegExp(`^(${STATE_ID})\\s*-->\\s*(${STATE_ID})\\s*(?::(.*))?$`, 'u'));
+  if (transition) {
+    return {
+      kind: 'edge',
+      from: transition[1],
+      arrow: '-->',
+      to: transition[2],
+      ...(transition[3] !== undefined && { label: transition[3].trim() }),
+    };
+  }
+
+  const described = text.match(new RegExp(`^(${ID_PATTERN})\\s*:\\s*(.+)$`, 'u'));
+  if (described) {
+    return { kind: 'node', id: described[1], label: described[2].trim() };
+  }
+
+  const bare = text.match(new RegExp(`^(${ID_PATTERN})(?::::([\\w-]+))?$`, 'u'));
+  if (bare && bare[1] !== 'direction') {
+    return { kind: 'node', id: bare[1], ...(bare[2] && { className: bare[2] }) };
+  }
+
+  return null;
+}
+
+const ER_RELATION_RE = new RegExp(
+  `^(${ID_PATTERN})\\s*(\\|o|\\|\\||\\}o|\\}\\|)(--|\\.\\.)(o\\||\\|\\||o\\{|\\|\\{)\\s*(${ID_PATTERN})\\s*:\\s*(.+)$`,
+  'u',
+);
+
+function parseErLine(text: string): ParsedStatement | null {
+  const relation = text.match(ER_RELATION_RE);
+  if (relation) {
+    return {
+      kind: 'edge',
+      from: relation[1],
+      arrow: relation[2] + relation[3] + relation[4],
+      to: relation[5],
+      label: relation[6].trim().replace(/^"(.*)"$/, '$1'),
+    };
+  }
+
+  const entity = text.match(new RegExp(`^(${ID_PATTERN})\\s*(?:\\["([^"]*)"\\])?\\s*(\\{\\s*\\})?$`, 'u'));
+  if (entity) {
+    return {
+      kind: 'node',
+      id: entity[1],
+      ...(entity[2] !== undefined && { label: entity[2] }),
+      ...(entity[3] && { members: [] }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Splits a flowchart line on semicolons outside quotes and brackets
+ */
+function splitStatements(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+    if ('[({'.includes(char)) depth++;
+    if ('])}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ';' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+
+  return parts.filter(part => part.length > 0);
+}
+
+function parseChain(text: string): { groups: NodeRef[][]; links: Link[] } | null {
+  const groups: NodeRef[][] = [];
+  const links: Link[] = [];
+  let pos = 0;
+
+  while (true) {
+    const group: NodeRef[] = [];
+    while (true) {
+      const ref = readNodeRef(text, pos);
+      if (!ref) return null;
+      group.push(ref.node);
+      pos = ref.end;
+
+      const ampersand = /^\s*&\s*/.exec(text.slice(pos));
+      if (!ampersand) break;
+      pos += ampersand[0].length;
+    }
+    groups.push(group);
+
+    pos += text.slice(pos).match(/^\s*/)![0].length;
+    if (pos >= text.length) break;
+
+    const link = readLink(text, pos);
+    if (!link) return null;
+    links.push(link.link);
+    pos = link.end;
+  }
+
+  return { groups, links };
+}
+
+function readNodeRef(text: string, pos: number): { node: NodeRef; end: number } | null {
+  const idMatch = ID_RE.exec(text.slice(pos));
+  if (!idMatch) return null;
+
+  const node: NodeRef = { id: idMatch[0] };
+  let end = pos + idMatch[0].length;
+
+  for (const { open, close, shape } of SHAPES) {
+    if (!text.startsWith(open, end)) continue;
+
+    const start = end + open.length;
+    let label: string;
+    let labelEnd: number;
+    if (text[start] === '"') {
+      const quoteEnd = text.indexOf('"', start + 1);
+      if (quoteEnd < 0 || !text.startsWith(close, quoteEnd + 1)) continue;
+      label = text.slice(start + 1, quoteEnd);
+      labelEnd = quoteEnd + 1;
+    } else {
+      labelEnd = text.indexOf(close, start);
+      if (labelEnd < 0) continue;
+      label = text.slice(start, labelEnd);
+      // The closing bracket belongs to another node, e.g. A[/x\] --> B[/y/]
+      if (label.includes(close[close.length - 1])) continue;
+    }
+
+    node.shape = shape;
+    node.label = label;
+    end = labelEnd + close.length;
+    break;
+  }
+
+  const className = /^:::([\w-]+)/.exec(text.slice(end));
+  if (className) {
+    node.className = className[1];
+    end += className[0].length;
+  }
+
+  node.source = text.slice(pos, end);
+  return { node, end };
+}
+
+// A -- text --> B, A -. text .-> B, A == text ==> B
+const TEXT_LINK_RE = /^(<?)(--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.-+)([>ox]?)(?![-=.])\s*/;
+// A --> B, A -.- B, A ==>|text| B, A <--> B, A ~~~ B
+const LINK_RE = /^([<ox]?)(-{2,}|={2,}|-\.+-|~{3,})([>ox]?)\s*(?:\|([^|]*)\|)?\s*/;
+
+function readLink(text: string, pos: number): { link: Link; end: number } | null {
+  const rest = text.slice(pos);
+
+  const textLink = TEXT_LINK_RE.exec(rest);
+  if (textLink) {
+    const [, start, , label, close, tip] = textLink;
+    const arrow = start + (close.startsWith('.') ? `-${close}` : close) + tip;
+    return { link: { arrow, label, source: textLink[0].trim() }, end: pos + textLink[0].length };
+  }
+
+  const link = LINK_RE.exec(rest);
+  if (link) {
+    const [, start, body, tip, label] = link;
+    return {
+      link: { arrow: start + body + tip, ...(label !== undefined && { label: label.trim() }), source: link[0].trim() },
+      end: pos + link[0].length,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Turns a model back into Mermaid source. Untouched statements keep their
+ * original text; edited ones are written out from their fields.
+ */
+export function serializeDiagram(model: DiagramModel): string {
+  const lines = [...model.preamble, model.header];
+
+  for (const statement of model.statements) {
+    if (statement.source !== undefined) {
+      lines.push(statement.indent + statement.source);
+    } else {
+      lines.push(...renderStatement(model.kind, statement).map(line => statement.indent + line));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function renderStatement(kind: DiagramKind, statement: Statement): string[] {
+  switch (statement.kind) {
+    case 'raw':
+      return [statement.source];
+
+    case 'chain': {
+      // Nodes and links an edit did not touch keep their original text
+      let text = statement.groups[0].map(renderNodeRef).join(' & ');
+      statement.links.forEach((link, i) => {
+        const label = link.label !== undefined ? `|${link.label}|` : '';
+        text += ` ${link.source ?? link.arrow + label} ${statement.groups[i + 1].map(renderNodeRef).join(' & ')}`;
+      });
+      return [text];
+    }
+
+    case 'edge':
+      return [renderEdge(kind, statement)];
+
+    case 'node':
+      return renderNode(kind, statement);
+
+    case 'group':
+      if (kind === 'flowchart') {
+        return [`subgraph ${statement.id}${statement.label !== undefined ? `["${escapeLabel(statement.label)}"]` : ''}`];
+      }
+      if (kind === 'state') {
+        return [statement.label !== undefined ? `state "${escapeLabel(statement.label)}" as ${statement.id} {` : `state ${statement.id} {`];
+      }
+      return [`namespace ${statement.id} {`];
+
+    case 'end':
+      return [kind === 'flowchart' ? 'end' : '}'];
+
+    case 'classDef':
+      return [`classDef ${statement.names.join(',')} ${statement.styles}`];
+
+    case 'class':
+      return [kind === 'class'
+        ? `cssClass "${statement.ids.join(',')}" ${statement.className}`
+        : `class ${statement.ids.join(',')} ${statement.className}`];
+  }
+}
+
+function renderNodeRef(node: NodeRef): string {
+  if (node.source !== undefined) {
+    return node.source;
+  }
+  let text = node.id;
+  if (node.shape) {
+    const { open, close } = SHAPES.find(shape => shape.shape === node.shape)!;
+    text += open + quoteLabel(node.label ?? '') + close;
+  }
+  if (node.className) {
+    text += `:::${node.className}`;
+  }
+  return text;
+}
+
+/**
+ * Quotes a flowchart label unless it is plain words
+ */
+function quoteLabel(label: string): string {
+  return /^[\p{L}\p{N}_ ,.!?'-]*$/u.test(label) ? label : `"${escapeLabel(label)}"`;
+}
+
+/**
+ * Escapes text for a quoted Mermaid label. Only a quote ends the label, and
+ * Mermaid has no escape for it besides its entity.
+ */
+export function escapeLabel(label: string): string {
+  return label.replace(/"/g, '#quot;');
+}
+
+function renderEdge(kind: DiagramKind, edge: EdgeStatement): string {
+  const label = edge.label;
+  switch (kind) {
+    case 'sequence':
+      return `${edge.from}${edge.arrow}${edge.to}${label !== undefined ? `: ${label}` : ''}`;
+    case 'class': {
+      const from = edge.fromCardinality !== undefined ? `${edge.from} "${edge.fromCardinality}"` : edge.from;
+      const to = edge.toCardinality !== undefined ? `"${edge.toCardinality}" ${edge.to}` : edge.to;
+      return `${from} ${edge.arrow} ${to}${label ? ` : ${label}` : ''}`;
+    }
+    case 'er':
+      return `${edge.from} ${edge.arrow} ${edge.to} : ${/^[\w-]+$/.test(label ?? '') ? label : `"${escapeLabel(label ?? '')}"`}`;
+    case 'state':
+      return `${edge.from} ${edge.arrow} ${edge.to}${label ? ` : ${label}` : ''}`;
+    case 'flowchart':
+      return `${edge.from} ${edge.arrow}${label !== undefined ? `|${label}|` : ''} ${edge.to}`;
+  }
+}
+
+function renderNode(kind: DiagramKind, node: NodeStatement): string[] {
+  const className = node.className ? `:::${node.className}` : '';
+
+  switch (kind) {
+    case 'sequence':
+      return [`${node.keyword ?? 'participant'} ${node.id}${node.label !== undefined ? ` as ${node.label}` : ''}`];
+
+    case 'state':
+      if (node.keyword === 'state') {
+        if (node.label !== undefined) {
+          return [`state "${escapeLabel(node.label)}" as ${node.id}`];
+        }
+        return [`state ${node.id}${node.annotation ? ` <<${node.annotation}>>` : ''}`];
+      }
+      return [node.label !== undefined ? `${node.id} : ${node.label}` : node.id + className];
+
+    case 'class': {
+      if (node.keyword !== 'class') {
+        if (node.annotation !== undefined) {
+          return [`<<${node.annotation}>> ${node.id}`];
+        }
+        return (node.members ?? []).map(member => `${node.id} : ${member}`);
+      }
+      const declaration = `class ${node.id}${node.generic ?? ''}${node.label !== undefined ? `["${escapeLabel(node.label)}"]` : ''}${className}`;
+      return node.members ? [`${declaration} {`, ...node.members.map(member => `  ${member}`), '}'] : [declaration];
+    }
+
+    case 'er': {
+      const declaration = `${node.id}${node.label !== undefined ? `["${escapeLabel(node.label)}"]` : ''}`;
+      return node.members ? [`${declaration} {`, ...node.members.map(member => `  ${member}`), '}'] : [declaration];
+    }
+
+    case 'flowchart':
+      return [renderNodeRef({ id: node.id, ...(node.label !== undefined && { shape: 'rect', label: node.label }), className: node.className })];
+  }
+}
+
+/**
+ * Builds the graph view of a model: nodes, edges, subgraphs, classDefs and participants
+ */
+export function getDiagramStructure(model: DiagramModel): DiagramStructure {
+  const nodes = new Map<string, DiagramNode>();
+  const participants = new Map<string, DiagramParticipant>();
+  const edges: DiagramEdge[] = [];
+  const subgraphs: DiagramSubgraph[] = [];
+  const classDefs: DiagramClassDef[] = [];
+  const stack: string[] = [];
+  let direction = model.kind === 'flowchart' ? model.header.split(/[\s;]+/)[1] || undefined : undefined;
+
+  const touch = (id: string): DiagramNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id };
+      nodes.set(id, node);
+    }
+    // A node belongs to the first subgraph that mentions it
+    if (!node.subgraph && stack.length > 0) {
+      node.subgraph = stack[stack.length - 1];
+    }
+    return node;
+  };
+  const addClass = (node: DiagramNode, className: string | undefined) => {
+    if (className && !node.classes?.includes(className)) {
+      node.classes = [...(node.classes ?? []), className];
+    }
+  };
+  const touchParticipant = (id: string, type: DiagramParticipant['type'] = 'participant'): DiagramParticipant => {
+    let participant = participants.get(id);
+    if (!participant) {
+      participant = { id, type };
+      participants.set(id, participant);
+    }
+    return participant;
+  };
+
+  for (const statement of model.statements) {
+    switch (statement.kind) {
+      case 'raw': {
+        const declared = statement.source.match(/^direction\s+(\w+)/);
+        if (declared && stack.length === 0 && !direction) {
+          direction = declared[1];
+        }
+        break;
+      }
+
+      case 'chain':
+        for (const group of statement.groups) {
+          for (const ref of group) {
+            const node = touch(ref.id);
+            if (ref.shape && !node.shape) {
+              node.shape = ref.shape;
+              node.label = ref.label;
+            }
+            addClass(node, ref.className);
+          }
+        }
+        statement.links.forEach((link, i) => {
+          for (const from of statement.groups[i]) {
+            for (const to of statement.groups[i + 1]) {
+              edges.push({ from: from.id, to: to.id, arrow: link.arrow, ...(link.label !== undefined && { label: link.label }) });
+            }
+          }
+        });
+        break;
+
+      case 'edge': {
+        for (const id of [statement.from, statement.to]) {
+          if (model.kind === 'sequence') {
+            touchParticipant(id);
+          } else if (id !== '[*]') {
+            touch(id);
+          }
+        }
+        const { kind, indent, source, ...edge } = statement;
+        edges.push(edge);
+        break;
+      }
+
+      case 'node': {
+        if (model.kind === 'sequence') {
+          const participant = touchParticipant(statement.id, statement.keyword === 'actor' ? 'actor' : 'participant');
+          participant.type = statement.keyword === 'actor' ? 'actor' : 'participant';
+          if (statement.label !== undefined) participant.label = statement.label;
+          break;
+        }
+        const node = touch(statement.id);
+        if (statement.label !== undefined && node.label === undefined) node.label = statement.label;
+        if (statement.annotation !== undefined) node.annotation = statement.annotation;
+        if (statement.members) node.members = [...(node.members ?? []), ...statement.members];
+        addClass(node, statement.className);
+        break;
+      }
+
+      case 'group':
+        subgraphs.push({
+          id: statement.id,
+          ...(statement.label !== undefined && { label: statement.label }),
+          ...(stack.length > 0 && { parent: stack[stack.length - 1] }),
+        });
+        stack.push(statement.id);
+        break;
+
+      case 'end':
+        stack.pop();
+        break;
+
+      case 'classDef':
+        for (const name of statement.names) {
+          classDefs.push({ name, styles: statement.styles });
+        }
+        break;
+
+      case 'class':
+        for (const id of statement.ids) {
+          addClass(touch(id), statement.className);
+        }
+        break;
+    }
+  }
+
+  // Subgraphs can be linked to like nodes, but are listed separately
+  const subgraphIds = new Set(subgraphs.map(subgraph => subgraph.id));
+
+  return {
+    type: model.kind,
+    header: model.header,
+    ...(direction && { direction }),
+    nodes: Array.from(nodes.values()).filter(node => !subgraphIds.has(node.id)),
+    edges,
+    subgraphs,
+    classDefs,
+    participants: Array.from(participants.values()),
+  };
+}
@@ -6,12 +6,12 @@ import { httpLogger as logger } from './logger.js';
 const execAsync = promisify(exec);
 
 /**
- * Detects if we're in a git repository and returns the repo name.
+ * Finds the root directory of the git repository containing workingDir.
  * 
- * @param workingDir The directory where the diagram is being created
- * @returns Repository name or null if not in a git repo
+ * @param workingDir The directory to start from
+ * @returns Absolute path of the repository root or null if not in a git repo
  */
-export async function detectGitRepo(workingDir: string): Promise<string | null> {
+export async function detectGitRoot(workingDir: string): Promise<string | null> {
   try {
     // Try to get git repository root
     const { stdout } = await execAsync('git rev-parse --show-toplevel', { 
@@ -22,21 +22,60 @@ export async function detectGitRepo(workingDir: string): Promise<string | null>
     const repoRoot = stdout.trim();
     
     if (repoRoot) {
-      // Extract repository name from path
-      const repoName = path.basename(repoRoot);
-      
-      logger.debug(`Detected git repository: ${repoName} at ${repoRoot}`);
-      
-      return sanitizeCollectionName(repoName);
+      return repoRoot;
     }
   } catch (error) {
     // Not a git repo or git not installed
-    logger.debug(`No git repository detected in ${workingDir}`);
   }
   
+  logger.debug(`No git repository detected in ${workingDir}`);
   return null;
 }
 
+/**
+ * Finds where workingDir sits inside its git repository, as the folder
+ * diagrams drawn there are saved to.
+ *
+ * @param workingDir The directory where the diagram is being created
+ * @returns Slash-separated path from the repository root, e.g.
+ * "packages/payments", or null at the root or outside a git repo
+ */
+export async function detectGitFolder(workingDir: string): Promise<string | null> {
+  try {
+    // Relative to the root with a trailing slash, and empty at the root
+    const { stdout } = await execAsync('git rev-parse --show-prefix', {
+      cwd: workingDir,
+      timeout: 5000
+    });
+
+    return stdout.trim().replace(/\/+$/, '') || null;
+  } catch (error) {
+    // Not a git repo or git not installed
+    return null;
+  }
+}
+
+/**
+ * Detects if we're in a git repository and returns the repo name.
+ * 
+ * @param workingDir The directory where the diagram is being created
+ * @returns Repository name or null if not in a git repo
+ */
+export async function detectGitRepo(workingDir: string): Promise<string | null> {
+  const repoRoot = await detectGitRoot(workingDir);
+  
+  if (!repoRoot) {
+    return null;
+  }
+  
+  // Extract repository name from path
+  const repoName = path.basename(repoRoot);
+  
+  logger.debug(`Detected git repository: ${repoName} at ${repoRoot}`);
+  
+  return sanitizeCollectionName(repoName);
+}
+
 /**
  * Sanitizes a collection name to be safe for filesystem use.
  * @param name The collection name to sanitize
@@ -2,12 +2,28 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
-import { DiagramHistoryEntry } from './types.js';
+import { CollectionInfo, CollectionUpdate, DiagramHistoryEntry, DiagramPage, DiagramQuery, DiagramRevision, HistoryChangeEvent, ImportCollisionPolicy, RevisionSource, SyncConfig, SyncResult, SyncStatus } from './types.js';
+import { DiagramIndex, IndexedDiagram } from './diagramIndex.js';
+import { HistoryWatcher } from './historyWatcher.js';
+import { SyncEngine } from './syncEngine.js';
+import { CollectionRecord, CollectionRegistry } from './collectionRegistry.js';
 import { httpLogger as logger } from './logger.js';
 
+// Version 2 added the append-only revisions list
+const CURRENT_VERSION = 2;
+
+const SYNC_INTERVAL_MS = 60000;
+
+const MAX_COLLECTION_NAME_LENGTH = 100;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+const MAX_FOLDER_LENGTH = 200;
+
 export class HistoryService {
   private baseDir: string;
   private dataDir: string;
+  private index: DiagramIndex;
+  private syncEngine: SyncEngine;
+  private collections: CollectionRegistry;
 
   constructor(customDataPath?: string) {
     if (customDataPath) {
@@ -19,6 +35,9 @@ export class HistoryService {
       this.baseDir = path.join(os.homedir(), '.mindpilot');
       this.dataDir = path.join(this.baseDir, 'data');
     }
+    this.index = new DiagramIndex(this.dataDir, (id) => this.loadIndexEntry(id));
+    this.syncEngine = new SyncEngine(this.dataDir, this);
+    this.collections = new CollectionRegistry(this.dataDir);
   }
 
   /**
@@ -29,28 +48,81 @@ export class HistoryService {
   }
 
   /**
-   * Saves a diagram to history
+   * Watches the data directory for diagrams created, updated or deleted by
+   * any process. Returns a function that stops watching.
+   */
+  async watch(onChange: (event: HistoryChangeEvent) => void): Promise<() => void> {
+    const watcher = new HistoryWatcher(this.dataDir, onChange);
+    await watcher.start();
+    return () => watcher.close();
+  }
+
+  /**
+   * Gets the team sync configuration and the outcome of the last round
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    return this.syncEngine.getStatus();
+  }
+
+  /**
+   * Sets the sync server and team for Team Mode, or turns it off with null
+   */
+  async configureSync(config: SyncConfig | null): Promise<SyncStatus> {
+    return this.syncEngine.configure(config);
+  }
+
+  /**
+   * Pushes local changes to the team's sync server and pulls remote ones
+   */
+  async sync(): Promise<SyncResult> {
+    return this.syncEngine.sync();
+  }
+
+  /**
+   * Syncs on an interval whenever Team Mode is configured.
+   * Returns a function that stops syncing.
+   */
+  startSync(intervalMs: number = SYNC_INTERVAL_MS): () => void {
+    const tick = async () => {
+      const { config } = await this.syncEngine.getStatus();
+      if (config) {
+        await this.syncEngine.sync();
+      }
+    };
+    const run = () => tick().catch((error) => logger.warn('Team sync failed', { error: error instanceof Error ? error.message : error }));
+
+    run();
+    const timer = setInterval(run, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Saves a diagram to history, optionally in a folder of its collection
    */
-  async saveDiagram(diagram: string, title: string, collection: string | null): Promise<DiagramHistoryEntry> {
+  async saveDiagram(diagram: string, title: string, collection: string | null, source: RevisionSource = 'mcp', folder: string | null = null): Promise<DiagramHistoryEntry> {
     await this.ensureDirectories();
 
     const now = new Date();
     const entry: DiagramHistoryEntry = {
-      version: 1,
+      version: CURRENT_VERSION,
       id: uuidv4(),
       type: 'diagram',
       createdAt: now,
       updatedAt: now,
       diagram,
       title,
-      collection
+      collection,
+      // Folders only exist inside a collection
+      folder: collection ? normalizeFolder(folder) : null,
+      revisions: [{ createdAt: now, source, diagram }]
     };
 
     // Save to data directory
     const filePath = path.join(this.dataDir, `${entry.id}.json`);
     await fs.writeFile(filePath, JSON.stringify(entry, null, 2));
+    await this.index.upsert(toIndexEntry(entry));
 
-    logger.info(`Saved diagram ${entry.id} with collection: ${collection || 'uncategorized'}`);
+    logger.info(`Saved diagram ${entry.id} with collection: ${formatLocation(entry)}`);
 
     return entry;
   }
@@ -59,84 +131,125 @@ export class HistoryService {
    * Gets all diagrams, optionally filtered by collection
    */
   async getDiagrams(collection?: string | null): Promise<DiagramHistoryEntry[]> {
+    const page = await this.queryDiagrams({ collection });
+    return page.diagrams;
+  }
+
+  /**
+   * Gets one page of diagrams matching a query, sorted newest first by default
+   */
+  async queryDiagrams(query: DiagramQuery = {}): Promise<DiagramPage> {
     await this.ensureDirectories();
 
-    const diagrams: DiagramHistoryEntry[] = [];
+    const {
+      collection,
+      folder,
+      title,
+      since,
+      until,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      offset = 0,
+      limit,
+    } = query;
+    const titleQuery = title?.toLowerCase();
+    const folderQuery = folder !== undefined ? normalizeFolder(folder) : null;
 
-    try {
-      const files = await fs.readdir(this.dataDir);
-      
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const content = await fs.readFile(path.join(this.dataDir, file), 'utf-8');
-          const rawEntry = JSON.parse(content);
-          
-          // Handle missing fields for backward compatibility
-          const entry: DiagramHistoryEntry = {
-            version: rawEntry.version || 0,  // Version 0 for old format
-            id: rawEntry.id,
-            type: rawEntry.type || 'diagram',  // Default to 'diagram' for old files
-            // Handle old field names
-            createdAt: new Date(rawEntry.createdAt || rawEntry.timestamp),
-            updatedAt: new Date(rawEntry.updatedAt || rawEntry.lastEdited || rawEntry.timestamp),
-            diagram: rawEntry.diagram,
-            title: rawEntry.title,
-            collection: rawEntry.collection
-          };
-          
-          // Filter by collection if specified
-          if (collection !== undefined) {
-            if (collection === entry.collection) {
-              diagrams.push(entry);
-            }
-          } else {
-            // Return all diagrams
-            diagrams.push(entry);
-          }
-        }
+    const matches = (await this.index.getEntries()).filter((entry) => {
+      if (collection !== undefined && entry.collection !== collection) {
+        return false;
       }
-    } catch (error) {
-      logger.debug('No diagrams found');
-    }
+      if (folderQuery && !isInFolder(entry.folder, folderQuery)) {
+        return false;
+      }
+      if (titleQuery && !entry.title?.toLowerCase().includes(titleQuery)) {
+        return false;
+      }
+      const updatedAt = new Date(entry.updatedAt).getTime();
+      if (since && updatedAt < since.getTime()) {
+        return false;
+      }
+      if (until && updatedAt > until.getTime()) {
+        return false;
+      }
+      return true;
+    });
 
-    // Sort by creation date, newest first
-    return diagrams.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    matches.sort((a, b) => {
+      const order = sortBy === 'title'
+        ? (a.title || '').localeCompare(b.title || '')
+        : new Date(a[sortBy]).getTime() - new Date(b[sortBy]).getTime();
+      return order * direction;
+    });
+
+    const start = Math.max(0, Math.floor(offset));
+    const end = limit !== undefined ? start + Math.max(0, Math.floor(limit)) : undefined;
+
+    return {
+      diagrams: matches.slice(start, end).map(toEntry),
+      total: matches.length,
+      offset: start,
+      limit: limit ?? null,
+    };
   }
 
   /**
-   * Gets a list of all collections
+   * Gets a single diagram by ID, without its revisions unless asked for
    */
-  async getCollections(): Promise<string[]> {
-    await this.ensureDirectories();
-
-    const collectionsSet = new Set<string>();
+  async getDiagram(diagramId: string, options: { includeRevisions?: boolean } = {}): Promise<DiagramHistoryEntry> {
+    const filePath = path.join(this.dataDir, `${diagramId}.json`);
 
     try {
-      const files = await fs.readdir(this.dataDir);
-      
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const content = await fs.readFile(path.join(this.dataDir, file), 'utf-8');
-          const rawEntry = JSON.parse(content);
-          
-          if (rawEntry.collection) {
-            collectionsSet.add(rawEntry.collection);
-          }
-        }
+      const content = await fs.readFile(filePath, 'utf-8');
+      const rawEntry = JSON.parse(content);
+      const entry = toEntry(rawEntry);
+      if (options.includeRevisions) {
+        entry.revisions = readRevisions(rawEntry).map(toRevision);
       }
-    } catch (error) {
-      logger.debug('No diagrams found');
+      return entry;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Diagram ${diagramId} not found`);
+      }
+      throw error;
     }
+  }
 
-    return Array.from(collectionsSet).sort();
+  /**
+   * Gets a list of all collections: those in the registry in their sort
+   * order, then those that only exist through their diagrams, by name
+   */
+  async getCollections(): Promise<string[]> {
+    return (await this.listCollections()).map(collection => collection.name);
   }
 
   /**
-   * Moves a diagram to a different collection
+   * Gets every collection with its description, color and diagram count,
+   * in the same order as getCollections
    */
-  async moveDiagram(diagramId: string, newCollection: string | null): Promise<void> {
+  async listCollections(): Promise<CollectionInfo[]> {
+    await this.ensureDirectories();
+
+    const counts = await this.countCollectionDiagrams();
+    const records = await this.collections.read();
+    const registered = new Set(records.map(record => record.name));
+    const implicit = Array.from(counts.keys())
+      .filter(name => !registered.has(name))
+      .sort()
+      .map(name => ({ name, description: null, color: null, sortOrder: null, diagramCount: counts.get(name) ?? 0 }));
+
+    return [
+      ...records.map(record => toCollectionInfo(record, counts.get(record.name) ?? 0)),
+      ...implicit
+    ];
+  }
+
+  /**
+   * Moves a diagram to a different collection and, when given, folder.
+   * Without a folder it keeps its current one.
+   */
+  async moveDiagram(diagramId: string, newCollection: string | null, folder?: string | null): Promise<void> {
     const filePath = path.join(this.dataDir, `${diagramId}.json`);
     
     try {
@@ -144,13 +257,21 @@ export class HistoryService {
       const content = await fs.readFile(filePath, 'utf-8');
       const rawEntry = JSON.parse(content);
       
-      // Update the collection
+      // Update the collection. The move counts as an edit so Team Mode picks it up.
       rawEntry.collection = newCollection;
+      if (folder !== undefined) {
+        rawEntry.folder = normalizeFolder(folder);
+      }
+      if (!newCollection) {
+        rawEntry.folder = null;
+      }
+      rawEntry.updatedAt = new Date().toISOString();
       
       // Write back the updated entry
       await fs.writeFile(filePath, JSON.stringify(rawEntry, null, 2));
+      await this.index.upsert(toIndexEntry(rawEntry));
       
-      logger.info(`Updated diagram ${diagramId} to collection: ${newCollection || 'uncategorized'}`);
+      logger.info(`Updated diagram ${diagramId} to collection: ${formatLocation(rawEntry)}`);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         throw new Error(`Diagram ${diagramId} not found`);
@@ -160,18 +281,142 @@ export class HistoryService {
   }
 
   /**
-   * Creates a new collection
+   * Creates a new collection. It is kept in the registry, so it stays
+   * listed while it has no diagrams.
+   */
+  async createCollection(name: string, details: Omit<CollectionUpdate, 'name'> = {}): Promise<CollectionInfo> {
+    await this.ensureDirectories();
+    name = validateCollectionName(name);
+
+    const records = await this.collections.read();
+    const counts = await this.countCollectionDiagrams();
+    if (records.some(record => record.name === name) || counts.has(name)) {
+      throw new Error(`Collection '${name}' already exists`);
+    }
+
+    const record: CollectionRecord = {
+      name,
+      description: normalizeDescription(details.description),
+      color: normalizeColor(details.color),
+      sortOrder: records.length,
+      createdAt: new Date().toISOString()
+    };
+    await this.collections.write([...records, record]);
+
+    logger.info(`Created collection '${name}'`);
+    return toCollectionInfo(record, 0);
+  }
+
+  /**
+   * Renames a collection or changes its description or color. Renaming
+   * moves every diagram in it, and keeps it shared if Team Mode shares it.
    */
-  async createCollection(name: string): Promise<void> {
-    // Collections are now just metadata within diagram files
-    // No directory to create, but we'll keep this method for API compatibility
-    logger.info(`Collection '${name}' will be created when first diagram is added`);
+  async updateCollection(name: string, updates: CollectionUpdate): Promise<CollectionInfo> {
+    const records = await this.collections.read();
+    const counts = await this.countCollectionDiagrams();
+    const record = records.find(candidate => candidate.name === name) ?? (counts.has(name) ? newRecord(name) : null);
+    if (!record) {
+      throw new Error(`Collection '${name}' not found`);
+    }
+
+    const updated: CollectionRecord = { ...record };
+    if (updates.description !== undefined) {
+      updated.description = normalizeDescription(updates.description);
+    }
+    if (updates.color !== undefined) {
+      updated.color = normalizeColor(updates.color);
+    }
+
+    if (updates.name !== undefined && updates.name !== name) {
+      const newName = validateCollectionName(updates.name);
+      if (records.some(candidate => candidate.name === newName) || counts.has(newName)) {
+        throw new Error(`Collection '${newName}' already exists`);
+      }
+      updated.name = newName;
+
+      for (const entry of await this.index.getEntries()) {
+        if (entry.collection === name) {
+          await this.moveDiagram(entry.id, newName);
+        }
+      }
+      await this.renameSharedCollection(name, newName);
+    }
+
+    // Collections that only existed through their diagrams are registered on first edit
+    const remaining = records.filter(candidate => candidate.name !== name);
+    const position = records.indexOf(record);
+    const next = position === -1
+      ? [...remaining, updated]
+      : [...remaining.slice(0, position), updated, ...remaining.slice(position)];
+    await this.collections.write(next);
+
+    if (updated.name !== name) {
+      logger.info(`Renamed collection '${name}' to '${updated.name}'`);
+    }
+    return toCollectionInfo({ ...updated, sortOrder: next.indexOf(updated) }, counts.get(name) ?? 0);
+  }
+
+  /**
+   * Deletes a collection. Its diagrams are kept and moved to another
+   * collection, or left uncategorized when moveTo is null.
+   */
+  async deleteCollection(name: string, moveTo: string | null = null): Promise<{ moved: number }> {
+    const records = await this.collections.read();
+    const counts = await this.countCollectionDiagrams();
+    const exists = (candidate: string) => records.some(record => record.name === candidate) || counts.has(candidate);
+    if (!exists(name)) {
+      throw new Error(`Collection '${name}' not found`);
+    }
+    if (moveTo === name) {
+      throw new Error('Cannot move diagrams into the collection being deleted');
+    }
+    if (moveTo !== null && !exists(moveTo)) {
+      throw new Error(`Collection '${moveTo}' not found`);
+    }
+
+    let moved = 0;
+    for (const entry of await this.index.getEntries()) {
+      if (entry.collection === name) {
+        await this.moveDiagram(entry.id, moveTo);
+        moved++;
+      }
+    }
+    // The Team Mode list is left alone; dropping its last name would share everything
+    await this.collections.write(records.filter(record => record.name !== name));
+
+    logger.info(`Deleted collection '${name}', moved ${moved} diagrams to ${moveTo || 'uncategorized'}`);
+    return { moved };
+  }
+
+  /**
+   * Puts the named collections first, in the given order. Collections left
+   * out keep their relative order after them.
+   */
+  async reorderCollections(names: string[]): Promise<CollectionInfo[]> {
+    const records = await this.collections.read();
+    const counts = await this.countCollectionDiagrams();
+
+    const ordered: CollectionRecord[] = [];
+    for (const name of new Set(names)) {
+      const record = records.find(candidate => candidate.name === name) ?? (counts.has(name) ? newRecord(name) : null);
+      if (!record) {
+        throw new Error(`Collection '${name}' not found`);
+      }
+      ordered.push(record);
+    }
+    await this.collections.write([
+      ...ordered,
+      ...records.filter(record => !ordered.includes(record))
+    ]);
+
+    return this.listCollections();
   }
 
   /**
    * Updates a diagram's properties (title, collection, etc.)
+   * A change to the diagram source is also appended to its revisions.
    */
-  async updateDiagram(diagramId: string, updates: Partial<Pick<DiagramHistoryEntry, 'title' | 'collection' | 'diagram'>>): Promise<void> {
+  async updateDiagram(diagramId: string, updates: Partial<Pick<DiagramHistoryEntry, 'title' | 'collection' | 'folder' | 'diagram'>>, source: RevisionSource = 'editor'): Promise<void> {
     const filePath = path.join(this.dataDir, `${diagramId}.json`);
     
     try {
@@ -186,8 +431,21 @@ export class HistoryService {
       if (updates.collection !== undefined) {
         rawEntry.collection = updates.collection;
       }
-      if (updates.diagram !== undefined) {
+      if (updates.folder !== undefined) {
+        rawEntry.folder = normalizeFolder(updates.folder);
+      }
+      if (!rawEntry.collection) {
+        rawEntry.folder = null;
+      }
+      if (updates.diagram !== undefined && updates.diagram !== rawEntry.diagram) {
+        rawEntry.revisions = readRevisions(rawEntry);
+        rawEntry.revisions.push({
+          createdAt: new Date().toISOString(),
+          source,
+          diagram: updates.diagram
+        });
         rawEntry.diagram = updates.diagram;
+        rawEntry.version = CURRENT_VERSION;
       }
       
       // Update updatedAt timestamp and ensure version
@@ -198,6 +456,7 @@ export class HistoryService {
       
       // Write back the updated entry
       await fs.writeFile(filePath, JSON.stringify(rawEntry, null, 2));
+      await this.index.upsert(toIndexEntry(rawEntry));
       
       logger.info(`Updated diagram ${diagramId}:`, updates);
     } catch (error: any) {
@@ -208,6 +467,57 @@ export class HistoryService {
     }
   }
 
+  /**
+   * Gets the revisions of a diagram, oldest first
+   */
+  async getRevisions(diagramId: string): Promise<DiagramRevision[]> {
+    const filePath = path.join(this.dataDir, `${diagramId}.json`);
+
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const rawEntry = JSON.parse(content);
+
+      return readRevisions(rawEntry).map(toRevision);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Diagram ${diagramId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a diagram from another library (e.g. an imported bundle),
+   * keeping its id, timestamps and revisions unless it collides with an
+   * existing diagram and the policy says to duplicate it
+   */
+  async importDiagram(entry: DiagramHistoryEntry, onCollision: ImportCollisionPolicy): Promise<'created' | 'overwritten' | 'duplicated' | 'skipped'> {
+    await this.ensureDirectories();
+
+    let id = entry.id;
+    let outcome: 'created' | 'overwritten' | 'duplicated' = 'created';
+
+    const exists = await fs.access(path.join(this.dataDir, `${id}.json`)).then(() => true, () => false);
+    if (exists) {
+      if (onCollision === 'skip') {
+        return 'skipped';
+      }
+      if (onCollision === 'duplicate') {
+        id = uuidv4();
+        outcome = 'duplicated';
+      } else {
+        outcome = 'overwritten';
+      }
+    }
+
+    const rawEntry = migrateEntry({ ...entry, id }, id);
+    await fs.writeFile(path.join(this.dataDir, `${id}.json`), JSON.stringify(rawEntry, null, 2));
+    await this.index.upsert(toIndexEntry(rawEntry));
+
+    logger.info(`Imported diagram ${entry.id} (${outcome})`);
+    return outcome;
+  }
+
   /**
    * Deletes a diagram by ID
    */
@@ -216,6 +526,7 @@ export class HistoryService {
     
     try {
       await fs.unlink(filePath);
+      await this.index.remove(diagramId);
       logger.info(`Deleted diagram: ${diagramId}`);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
@@ -224,6 +535,213 @@ export class HistoryService {
       throw error;
     }
   }
+
+  /**
+   * Counts the diagrams in each collection that has any
+   */
+  private async countCollectionDiagrams(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const entry of await this.index.getEntries()) {
+      if (entry.collection) {
+        counts.set(entry.collection, (counts.get(entry.collection) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Follows a collection rename in the list of collections Team Mode shares
+   */
+  private async renameSharedCollection(name: string, newName: string): Promise<void> {
+    const { config } = await this.syncEngine.getStatus();
+    if (config?.collections?.includes(name)) {
+      await this.syncEngine.configure({
+        ...config,
+        collections: config.collections.map(collection => collection === name ? newName : collection)
+      });
+    }
+  }
+
+  /**
+   * Reads a diagram file for the index, upgrading legacy files
+   * to the current format on the way
+   */
+  private async loadIndexEntry(diagramId: string): Promise<IndexedDiagram | null> {
+    const filePath = path.join(this.dataDir, `${diagramId}.json`);
+    const rawEntry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+
+    if ((rawEntry.version || 0) < CURRENT_VERSION) {
+      const migrated = migrateEntry(rawEntry, diagramId);
+      await fs.writeFile(filePath, JSON.stringify(migrated, null, 2));
+      logger.info(`Migrated diagram ${diagramId} from version ${rawEntry.version || 0}`);
+      return toIndexEntry(migrated);
+    }
+
+    return toIndexEntry(rawEntry);
+  }
+}
+
+/**
+ * Converts a stored or indexed entry to the public shape.
+ * Old field names are still read for backward compatibility.
+ */
+function toEntry(rawEntry: any): DiagramHistoryEntry {
+  return {
+    version: rawEntry.version || 0,  // Version 0 for old format
+    id: rawEntry.id,
+    type: rawEntry.type || 'diagram',  // Default to 'diagram' for old files
+    createdAt: new Date(rawEntry.createdAt || rawEntry.timestamp),
+    updatedAt: new Date(rawEntry.updatedAt || rawEntry.lastEdited || rawEntry.timestamp),
+    diagram: rawEntry.diagram,
+    title: rawEntry.title,
+    collection: rawEntry.collection,
+    folder: rawEntry.folder ?? null
+  };
+}
+
+function toCollectionInfo(record: CollectionRecord, diagramCount: number): CollectionInfo {
+  return {
+    name: record.name,
+    description: record.description,
+    color: record.color,
+    sortOrder: record.sortOrder,
+    diagramCount
+  };
+}
+
+// A registry record for a collection that so far only existed through its diagrams
+function newRecord(name: string): CollectionRecord {
+  return { name, description: null, color: null, sortOrder: 0, createdAt: new Date().toISOString() };
+}
+
+function validateCollectionName(name: string): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    throw new Error('Collection name is required');
+  }
+  if (trimmed.length > MAX_COLLECTION_NAME_LENGTH) {
+    throw new Error(`Collection name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters`);
+  }
+  if (/[\u0000-\u001f]/.test(trimmed)) {
+    throw new Error('Collection name cannot contain line breaks or control characters');
+  }
+  // Diagrams without a collection are shown under this name
+  if (trimmed.toLowerCase() === 'uncategorized') {
+    throw new Error(`'${trimmed}' is reserved for diagrams without a collection`);
+  }
+  return trimmed;
+}
+
+function normalizeDescription(description: string | null | undefined): string | null {
+  const trimmed = description?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+    throw new Error(`Collection description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function normalizeColor(color: string | null | undefined): string | null {
+  if (!color) {
+    return null;
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new Error(`Invalid collection color: ${color}. Use a hex color such as #4c6ef5`);
+  }
+  return color.toLowerCase();
+}
+
+/**
+ * Cleans up a folder path: backslashes become slashes, and blank segments
+ * and surrounding slashes are dropped. An empty path means no folder.
+ */
+function normalizeFolder(folder: string | null | undefined): string | null {
+  if (!folder) {
+    return null;
+  }
+  const segments = folder
+    .split(/[\\/]+/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) {
+    throw new Error(`Folder cannot contain '..': ${folder}`);
+  }
+  if (segments.some(segment => /[\u0000-\u001f]/.test(segment))) {
+    throw new Error('Folder cannot contain line breaks or control characters');
+  }
+
+  const normalized = segments.join('/');
+  if (normalized.length > MAX_FOLDER_LENGTH) {
+    throw new Error(`Folder must be at most ${MAX_FOLDER_LENGTH} characters`);
+  }
+  return normalized || null;
+}
+
+// True when folder is ancestor or one of the folders below it
+function isInFolder(folder: string | null, ancestor: string): boolean {
+  return folder === ancestor || (folder?.startsWith(`${ancestor}/`) ?? false);
+}
+
+// Collection and folder for log messages, e.g. "mindpilot-mcp/src/mcp"
+function formatLocation(entry: { collection?: string | null; folder?: string | null }): string {
+  if (!entry.collection) {
+    return 'uncategorized';
+  }
+  return entry.folder ? `${entry.collection}/${entry.folder}` : entry.collection;
+}
+
+function toRevision(revision: any): DiagramRevision {
+  return {
+    createdAt: new Date(revision.createdAt),
+    source: revision.source,
+    diagram: revision.diagram
+  };
+}
+
+function toIndexEntry(rawEntry: any): IndexedDiagram {
+  const entry = toEntry(rawEntry);
+  return {
+    ...entry,
+    collection: entry.collection ?? null,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Rewrites a version 0/1 entry in the current format: old timestamp field
+ * names are renamed and the revisions list is seeded
+ */
+function migrateEntry(rawEntry: any, diagramId: string): any {
+  const { timestamp, lastEdited, ...rest } = rawEntry;
+  return {
+    ...rest,
+    version: CURRENT_VERSION,
+    id: rawEntry.id || diagramId,
+    type: rawEntry.type || 'diagram',
+    createdAt: rawEntry.createdAt || timestamp,
+    updatedAt: rawEntry.updatedAt || lastEdited || timestamp,
+    collection: rawEntry.collection ?? null,
+    revisions: readRevisions(rawEntry)
+  };
+}
+
+/**
+ * Returns the raw revisions of a stored entry. Entries written before
+ * version 2 get a single revision holding their current source; those were
+ * all saved by agent renders.
+ */
+function readRevisions(rawEntry: any): any[] {
+  if (Array.isArray(rawEntry.revisions)) {
+    return rawEntry.revisions;
+  }
+  return [{
+    createdAt: rawEntry.updatedAt || rawEntry.lastEdited || rawEntry.createdAt || rawEntry.timestamp,
+    source: 'mcp',
+    diagram: rawEntry.diagram
+  }];
 }
 
 // Already exported as a named export in the class declaration
\ No newline at end of file
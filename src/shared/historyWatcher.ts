@@ -0,0 +1,74 @@
+import fs, { FSWatcher } from 'fs';
+import path from 'path';
+import { isDiagramFile } from './diagramIndex.js';
+import { HistoryChangeEvent } from './types.js';
+import { httpLogger as logger } from './logger.js';
+
+// Writes fire several fs events; wait for them to settle before reporting
+const SETTLE_MS = 100;
+
+/**
+ * Watches a data directory and reports diagrams that were created, updated
+ * or deleted by any process, including edits made by hand.
+ */
+export class HistoryWatcher {
+  private watcher: FSWatcher | null = null;
+  private knownIds = new Set<string>();
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private dataDir: string,
+    private onChange: (event: HistoryChangeEvent) => void
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.watcher) return;
+
+    await fs.promises.mkdir(this.dataDir, { recursive: true });
+    const files = await fs.promises.readdir(this.dataDir);
+    this.knownIds = new Set(files.filter(isDiagramFile).map(toId));
+
+    this.watcher = fs.watch(this.dataDir, (_eventType, filename) => {
+      const file = filename?.toString();
+      if (!file || !isDiagramFile(file)) return;
+
+      const id = toId(file);
+      clearTimeout(this.pending.get(id));
+      this.pending.set(id, setTimeout(() => {
+        this.pending.delete(id);
+        this.report(id);
+      }, SETTLE_MS));
+    });
+
+    this.watcher.on('error', (error) => {
+      logger.error('History watcher failed', { error });
+    });
+
+    logger.debug(`Watching ${this.dataDir} for history changes`);
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  private report(id: string): void {
+    const exists = fs.existsSync(path.join(this.dataDir, `${id}.json`));
+
+    if (exists) {
+      const type = this.knownIds.has(id) ? 'updated' : 'created';
+      this.knownIds.add(id);
+      this.onChange({ type, id });
+    } else if (this.knownIds.delete(id)) {
+      this.onChange({ type: 'deleted', id });
+    }
+  }
+}
+
+function toId(file: string): string {
+  return file.slice(0, -'.json'.length);
+}
@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { HistoryService } from './historyService.js';
+import {
+  DiagramHistoryEntry,
+  ImportCollisionPolicy,
+  LibraryExportResult,
+  LibraryImportResult,
+} from './types.js';
+import { httpLogger as logger } from './logger.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * Library bundles are JSONL: a header line followed by one diagram per line,
+ * each with its full revision history. Files ending in .gz are gzipped.
+ */
+export const BUNDLE_FORMAT = 'mindpilot-library';
+export const BUNDLE_VERSION = 1;
+
+export const IMPORT_COLLISION_POLICIES: ImportCollisionPolicy[] = ['skip', 'overwrite', 'duplicate'];
+
+// Ids become file names, so anything else in a bundle is rejected
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+interface BundleHeader {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  collection?: string | null;
+  count: number;
+}
+
+function isGzipPath(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.gz');
+}
+
+/**
+ * Writes every diagram, or only those in one collection, to a bundle file
+ */
+export async function exportLibrary(
+  historyService: HistoryService,
+  filePath: string,
+  options: { collection?: string | null } = {},
+): Promise<LibraryExportResult> {
+  const summaries = await historyService.getDiagrams(options.collection);
+  const lines: string[] = [];
+
+  const header: BundleHeader = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.collection !== undefined && { collection: options.collection }),
+    count: summaries.length,
+  };
+  lines.push(JSON.stringify(header));
+
+  for (const summary of summaries) {
+    const entry = await historyService.getDiagram(summary.id, { includeRevisions: true });
+    lines.push(JSON.stringify(entry));
+  }
+
+  const content = `${lines.join('\n')}\n`;
+  await fs.writeFile(filePath, isGzipPath(filePath) ? await gzip(content) : content);
+
+  logger.info(`Exported ${summaries.length} diagrams to ${filePath}`);
+  return { path: filePath, count: summaries.length };
+}
+
+/**
+ * Reads a bundle file into history. Diagrams whose id already exists are
+ * skipped, overwritten or saved under a new id depending on onCollision.
+ */
+export async function importLibrary(
+  historyService: HistoryService,
+  filePath: string,
+  options: { onCollision?: ImportCollisionPolicy } = {},
+): Promise<LibraryImportResult> {
+  const onCollision = options.onCollision ?? 'skip';
+  if (!IMPORT_COLLISION_POLICIES.includes(onCollision)) {
+    throw new Error(`Invalid collision policy: ${onCollision}. Use one of: ${IMPORT_COLLISION_POLICIES.join(', ')}`);
+  }
+
+  const raw = await fs.readFile(filePath);
+  const content = (isGzipPath(filePath) ? await gunzip(raw) : raw).toString('utf-8');
+  const lines = content.split('\n').filter(line => line.trim());
+
+  let header: BundleHeader | undefined;
+  try {
+    header = JSON.parse(lines[0] ?? '');
+  } catch (error) {
+    // Reported below
+  }
+  if (header?.format !== BUNDLE_FORMAT) {
+    throw new Error(`${filePath} is not a Mindpilot library bundle`);
+  }
+  if (header.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${header.version} is newer than this version of Mindpilot supports`);
+  }
+
+  const result: LibraryImportResult = { created: 0, overwritten: 0, duplicated: 0, skipped: 0, failed: 0 };
+
+  for (const line of lines.slice(1)) {
+    let entry: DiagramHistoryEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      result.failed++;
+      continue;
+    }
+
+    if (typeof entry?.id !== 'string' || !SAFE_ID.test(entry.id) || typeof entry.diagram !== 'string') {
+      result.failed++;
+      continue;
+    }
+
+    const outcome = await historyService.importDiagram(entry, onCollision);
+    result[outcome]++;
+  }
+
+  logger.info(`Imported library from ${filePath}`, result);
+  return result;
+}
@@ -0,0 +1,415 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { colorPrompt } from './colorPalette.js';
+import { DiagramKind, DiagramStructure, detectDiagramKind, getDiagramStructure, ID_PATTERN, parseDiagram } from './diagramModel.js';
+import { detectGitRoot } from './gitRepoDetector.js';
+import { httpLogger as logger } from './logger.js';
+import { Diagnostic, LintConfig, LintRuleInfo, LintSeverity } from './types.js';
+
+// Per-project settings, read from the root of the git repository
+export const PROJECT_CONFIG_FILE = '.mindpilot.json';
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info', 'off'];
+
+// Every hex color in the palette, fills, strokes and text colors alike
+const PALETTE_COLORS = new Set(Array.from(colorPrompt.matchAll(/#[0-9a-f]{3,8}\b/gi), ([color]) => color.toLowerCase()));
+
+const STYLE_COLOR_RE = /\b(fill|stroke|color)\s*:\s*([^,;\s]+)/g;
+
+const SEQUENCE_MESSAGE_RE = new RegExp(`^\\s*(${ID_PATTERN})\\s*(?:<<)?-{1,2}(?:>>|>|x|\\))\\s*([+-]?)\\s*(${ID_PATTERN})\\s*:`, 'u');
+const SEQUENCE_ACTIVATION_RE = new RegExp(`^\\s*(activate|deactivate)\\s+(${ID_PATTERN})\\s*$`, 'u');
+
+interface LintContext {
+  lines: string[];
+  kind: DiagramKind | null;
+  header: number;  // Index of the header line
+  structure: DiagramStructure | null;  // null for types the diagram model does not cover
+}
+
+// Reports a problem at a 0-based line index and 1-based column
+type Report = (index: number, column: number, message: string) => void;
+
+interface LintRule extends LintRuleInfo {
+  types?: DiagramKind[];
+  check: (context: LintContext, options: Record<string, number>, report: Report) => void;
+}
+
+const rules: LintRule[] = [
+  {
+    id: 'mixed-arrows',
+    description: 'Short arrows (->) mixed with long ones (-->)',
+    severity: 'warning',
+    // Sequence diagrams use ->> and -->> for calls and replies on purpose
+    types: ['flowchart'],
+    check({ lines }, _options, report) {
+      if (!lines.some((line) => line.includes('-->'))) return;
+      const index = lines.findIndex((line) => /(^|[^-])->/.test(line));
+      if (index >= 0) {
+        report(index, lines[index].search(/(^|[^-])->/) + 2,
+          'Mixed arrow styles detected. Consider using consistent arrow types.');
+      }
+    },
+  },
+  {
+    id: 'raw-quotes',
+    description: 'Quoted labels in a diagram that never escapes quotes as &quot;',
+    severity: 'warning',
+    check({ lines }, _options, report) {
+      if (lines.some((line) => line.includes('&quot;') || line.includes('#quot;'))) return;
+      const index = lines.findIndex((line) => /\["[^"]*"/.test(line));
+      if (index >= 0) {
+        report(index, lines[index].search(/\["[^"]*"/) + 2,
+          'Raw quotes (") detected in labels. Use &quot; for quotes in labels.');
+      }
+    },
+  },
+  {
+    id: 'brackets-in-label',
+    description: 'Square brackets inside a quoted label',
+    severity: 'warning',
+    check({ lines }, _options, report) {
+      lines.forEach((line, index) => {
+        const column = line.search(/\["[^"]*\[[^\]]*\][^"]*"\]/);
+        if (column >= 0) {
+          report(index, column + 1,
+            'Square brackets detected in labels. Consider using &#91; and &#93; for [ and ].');
+        }
+      });
+    },
+  },
+  {
+    id: 'max-line-length',
+    description: 'Lines longer than `max` characters',
+    severity: 'warning',
+    options: { max: 100 },
+    check({ lines }, { max }, report) {
+      lines.forEach((line, index) => {
+        if (line.length > max) {
+          report(index, max + 1, `Longer than ${max} characters. Consider breaking it into multiple lines.`);
+        }
+      });
+    },
+  },
+  {
+    id: 'max-nodes',
+    description: 'More than `max` nodes, or participants in a sequence diagram',
+    severity: 'warning',
+    types: ['flowchart', 'sequence', 'class', 'state', 'er'],
+    options: { max: 50 },
+    check({ kind, header, structure }, { max }, report) {
+      const count = kind === 'sequence' ? structure!.participants.length : structure!.nodes.length;
+      if (count > max) {
+        const noun = kind === 'sequence' ? 'participants' : 'nodes';
+        report(header, 1, `${count} ${noun}, more than the maximum of ${max}. Consider splitting the diagram.`);
+      }
+    },
+  },
+  {
+    id: 'orphan-nodes',
+    description: 'Nodes with no edges, or participants that never send or receive a message',
+    severity: 'warning',
+    types: ['flowchart', 'sequence', 'class', 'state', 'er'],
+    check(context, _options, report) {
+      const { kind, structure } = context;
+      const linked = new Set(structure!.edges.flatMap(({ from, to }) => [from, to]));
+
+      if (kind === 'sequence') {
+        for (const { id } of structure!.participants) {
+          if (!linked.has(id)) {
+            reportAt(context, report, id, `Participant ${id} never sends or receives a message`);
+          }
+        }
+        return;
+      }
+
+      if (structure!.nodes.length < 2) return;
+      // Linking to a subgraph connects everything inside it
+      const parents = new Map(structure!.subgraphs.map(({ id, parent }) => [id, parent]));
+      const isLinked = (id: string | undefined): boolean => !!id && (linked.has(id) || isLinked(parents.get(id)));
+
+      for (const node of structure!.nodes) {
+        if (!linked.has(node.id) && !isLinked(node.subgraph)) {
+          reportAt(context, report, node.id, `${node.id} is not connected to anything`);
+        }
+      }
+    },
+  },
+  {
+    id: 'duplicate-labels',
+    description: 'Different nodes or participants with the same label',
+    severity: 'warning',
+    types: ['flowchart', 'sequence', 'class', 'state', 'er'],
+    check(context, _options, report) {
+      const { kind, structure } = context;
+      const labelled = kind === 'sequence' ? structure!.participants : structure!.nodes;
+      const seen = new Map<string, string>();
+
+      for (const { id, label } of labelled) {
+        const key = label?.replace(/^"(.*)"$/, '$1').trim().toLowerCase();
+        if (!key) continue;
+        const first = seen.get(key);
+        if (first) {
+          reportAt(context, report, id, `${id} has the same label as ${first}: "${label}"`);
+        } else {
+          seen.set(key, id);
+        }
+      }
+    },
+  },
+  {
+    id: 'undeclared-classdef',
+    description: 'Classes applied to nodes without a matching classDef',
+    severity: 'warning',
+    types: ['flowchart', 'class', 'state'],
+    check({ lines, structure }, _options, report) {
+      const declared = new Set(structure!.classDefs.map(({ name }) => name));
+      const reported = new Set<string>();
+
+      for (const node of structure!.nodes) {
+        for (const className of node.classes ?? []) {
+          if (className === 'default' || declared.has(className) || reported.has(className)) continue;
+          reported.add(className);
+
+          const usage = new RegExp(`(?::::|^\\s*(?:class|cssClass)\\s.*?)${escapeRegExp(className)}(?![\\w-])`);
+          const index = Math.max(lines.findIndex((line) => usage.test(line)), 0);
+          const match = lines[index].match(usage);
+          report(index, match ? match.index! + match[0].length - className.length + 1 : 1, `Class ${className} has no classDef`);
+        }
+      }
+    },
+  },
+  {
+    id: 'palette-colors',
+    description: 'Colors in classDef and style lines that are not in the Mindpilot palette',
+    severity: 'info',
+    check({ lines }, _options, report) {
+      lines.forEach((line, index) => {
+        if (!/^\s*(classDef|style)\s/.test(line)) return;
+        for (const match of line.matchAll(STYLE_COLOR_RE)) {
+          const color = match[2];
+          if (!PALETTE_COLORS.has(color.toLowerCase())) {
+            report(index, match.index! + match[0].length - color.length + 1,
+              `${color} is not in the Mindpilot palette, which works in both light and dark mode`);
+          }
+        }
+      });
+    },
+  },
+  {
+    id: 'sequence-activation',
+    description: 'Participants deactivated while they are not active, which fails to render',
+    severity: 'error',
+    types: ['sequence'],
+    check({ lines, header }, _options, report) {
+      const active = new Map<string, number>();
+      const change = (id: string, delta: number, index: number) => {
+        const count = (active.get(id) ?? 0) + delta;
+        if (count < 0) {
+          report(index, Math.max(lines[index].indexOf(id), 0) + 1, `${id} is deactivated but is not active`);
+          return;
+        }
+        active.set(id, count);
+      };
+
+      for (let index = header + 1; index < lines.length; index++) {
+        const activation = lines[index].match(SEQUENCE_ACTIVATION_RE);
+        if (activation) {
+          change(activation[2], activation[1] === 'activate' ? 1 : -1, index);
+          continue;
+        }
+
+        // A->>+B activates the receiver, B-->>-A deactivates the sender
+        const message = lines[index].match(SEQUENCE_MESSAGE_RE);
+        if (message?.[2] === '+') change(message[3], 1, index);
+        if (message?.[2] === '-') change(message[1], -1, index);
+      }
+    },
+  },
+  {
+    id: 'flowchart-empty-subgraph',
+    description: 'Subgraphs with no nodes or nested subgraphs',
+    severity: 'warning',
+    types: ['flowchart'],
+    check({ lines, structure }, _options, report) {
+      const { nodes, subgraphs } = structure!;
+      for (const { id } of subgraphs) {
+        if (nodes.some((node) => node.subgraph === id) || subgraphs.some((subgraph) => subgraph.parent === id)) continue;
+
+        const index = lines.findIndex((line) => line.trim().startsWith(`subgraph ${id}`));
+        report(Math.max(index, 0), Math.max(lines[index]?.indexOf('subgraph') ?? 0, 0) + 1, `Subgraph ${id} is empty`);
+      }
+    },
+  },
+  {
+    id: 'state-initial-state',
+    description: 'State diagrams without a [*] --> transition into the first state',
+    severity: 'info',
+    types: ['state'],
+    check({ header, structure }, _options, report) {
+      if (structure!.nodes.length > 0 && !structure!.edges.some(({ from }) => from === '[*]')) {
+        report(header, 1, `No initial state. Add [*] --> ${structure!.nodes[0].id} to show where the diagram starts.`);
+      }
+    },
+  },
+];
+
+/**
+ * Lists every lint rule with its default severity and options
+ */
+export function getLintRules(): LintRuleInfo[] {
+  return rules.map(({ check, ...info }) => info);
+}
+
+/**
+ * Runs the lint rules over a diagram. Each finding is a diagnostic whose
+ * code is the rule id. Rules the config turns off are skipped, and rules
+ * for other diagram types (or types the diagram model does not cover) do
+ * not run. Throws for unknown rule ids and severities in the config.
+ */
+export function lintDiagram(diagram: string, config: LintConfig = {}): Diagnostic[] {
+  const settings = resolveRules(config);
+  const context = createContext(diagram);
+  const diagnostics: Diagnostic[] = [];
+
+  for (const rule of rules) {
+    const { severity, options } = settings.get(rule.id)!;
+    if (severity === 'off') continue;
+    if (rule.types && (!context.structure || !rule.types.includes(context.structure.type))) continue;
+
+    rule.check(context, options, (index, column, message) => {
+      diagnostics.push({ line: index + 1, column, severity, code: rule.id, message });
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// Git roots by working directory, and parsed configs by path until the file changes
+const projectRoots = new Map<string, string>();
+const configCache = new Map<string, { stamp: string; config: LintConfig }>();
+
+/**
+ * Reads the lint section of the project config for a working directory,
+ * from .mindpilot.json at the git root (or the directory itself outside a
+ * repository). Returns an empty config when there is no file. The file is
+ * only parsed again after it changes, so every validation can call this.
+ */
+export async function loadLintConfig(workingDir: string): Promise<LintConfig> {
+  let root = projectRoots.get(workingDir);
+  if (!root) {
+    root = (await detectGitRoot(workingDir)) ?? workingDir;
+    projectRoots.set(workingDir, root);
+  }
+  const configPath = path.join(root, PROJECT_CONFIG_FILE);
+
+  let stamp: string;
+  let content: string;
+  try {
+    const stats = await fs.stat(configPath);
+    stamp = `${stats.mtimeMs}:${stats.size}`;
+    const cached = configCache.get(configPath);
+    if (cached?.stamp === stamp) {
+      return cached.config;
+    }
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  try {
+    const config: LintConfig = JSON.parse(content).lint ?? {};
+    resolveRules(config);
+    configCache.set(configPath, { stamp, config });
+    return config;
+  } catch (error) {
+    throw new Error(`Invalid lint configuration in ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Like loadLintConfig, but falls back to the default rules when the config
+ * is invalid, so a broken .mindpilot.json does not stop diagrams rendering.
+ * lint_diagram reports the problem.
+ */
+export async function loadLintConfigOrDefaults(workingDir: string): Promise<LintConfig> {
+  try {
+    return await loadLintConfig(workingDir);
+  } catch (error) {
+    logger.warn('Using the default lint rules', { error: error instanceof Error ? error.message : error });
+    return {};
+  }
+}
+
+/**
+ * Works out the severity and options of every rule from its defaults and
+ * the config
+ */
+function resolveRules(config: LintConfig): Map<string, { severity: LintSeverity; options: Record<string, number> }> {
+  for (const id of Object.keys(config.rules ?? {})) {
+    if (!rules.some((rule) => rule.id === id)) {
+      throw new Error(`Unknown lint rule: ${id}`);
+    }
+  }
+
+  return new Map(rules.map((rule) => {
+    const setting = config.rules?.[rule.id] ?? rule.severity;
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+    if (!SEVERITIES.includes(severity)) {
+      throw new Error(`Invalid severity for lint rule ${rule.id}: ${severity}. Use one of ${SEVERITIES.join(', ')}`);
+    }
+    for (const [name, value] of Object.entries(options ?? {})) {
+      if (!(name in (rule.options ?? {})) || typeof value !== 'number') {
+        throw new Error(`Invalid option for lint rule ${rule.id}: ${name}`);
+      }
+    }
+    return [rule.id, { severity, options: { ...rule.options, ...options } }];
+  }));
+}
+
+function createContext(diagram: string): LintContext {
+  const lines = diagram.replace(/\r\n?/g, '\n').split('\n');
+
+  // The header is the first line after front matter that is not blank or a comment
+  let header = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    header = end >= 0 ? end + 1 : 0;
+  }
+  while (header < lines.length - 1 && (!lines[header].trim() || lines[header].trim().startsWith('%%'))) {
+    header++;
+  }
+
+  const kind = detectDiagramKind(lines[header] ?? '');
+  let structure: DiagramStructure | null = null;
+  if (kind) {
+    try {
+      structure = getDiagramStructure(parseDiagram(diagram));
+    } catch {
+      // Leave model-based rules out for source the model cannot read
+    }
+  }
+
+  return { lines, kind, header, structure };
+}
+
+/**
+ * Reports at the first mention of a node id after the header
+ */
+function reportAt(context: LintContext, report: Report, id: string, message: string): void {
+  const mention = new RegExp(`(^|[^\\p{L}\\p{N}_$])${escapeRegExp(id)}(?![\\p{L}\\p{N}_$])`, 'u');
+  for (let index = context.header + 1; index < context.lines.length; index++) {
+    const match = context.lines[index].match(mention);
+    if (match) {
+      report(index, match.index! + match[1].length + 1, message);
+      return;
+    }
+  }
+  report(context.header, 1, message);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -85,6 +85,7 @@ class MCPLogger {
 // Create logger instances for different subsystems
 export const httpLogger = new MCPLogger("http-server");
 export const mcpLogger = new MCPLogger("mcp-client");
+export const syncLogger = new MCPLogger("sync-server");
 
 // Log debug mode status
 if (isDebugMode) {
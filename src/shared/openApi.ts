@@ -0,0 +1,311 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { escapeLabel } from './diagramModel.js';
+import { HistoryService } from './historyService.js';
+import { validateMermaidSyntax } from './validator.js';
+import { OpenApiImportResult, OpenApiSpecSummary } from './types.js';
+import { httpLogger as logger } from './logger.js';
+
+// Path item keys that are operations, in the order the spec lists them
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const STATUS_TEXT: Record<string, string> = {
+  '200': 'OK',
+  '201': 'Created',
+  '202': 'Accepted',
+  '204': 'No Content',
+  '301': 'Moved Permanently',
+  '302': 'Found',
+  '304': 'Not Modified',
+  '400': 'Bad Request',
+  '401': 'Unauthorized',
+  '403': 'Forbidden',
+  '404': 'Not Found',
+  '405': 'Method Not Allowed',
+  '409': 'Conflict',
+  '412': 'Precondition Failed',
+  '415': 'Unsupported Media Type',
+  '422': 'Unprocessable Entity',
+  '429': 'Too Many Requests',
+  '500': 'Internal Server Error',
+  '502': 'Bad Gateway',
+  '503': 'Service Unavailable',
+  '504': 'Gateway Timeout',
+};
+
+// Responses the gateway sends itself on secured operations
+const GATEWAY_STATUSES = new Set(['401', '403', '429']);
+
+// Untyped on purpose: specs are user files and every field is optional
+type SpecObject = Record<string, any>;
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string };
+  paths: Record<string, SpecObject>;
+  [key: string]: unknown;
+}
+
+export interface OpenApiDiagramOptions {
+  operations?: string[]; // Operation ids or "METHOD /path" keys, one sequence diagram each
+  overview?: boolean; // Add a flowchart of all tags and paths
+}
+
+export interface OpenApiDiagram {
+  title: string;
+  diagram: string;
+  operation?: string; // Operation key, absent for the overview
+}
+
+/**
+ * Reads an OpenAPI 3 or Swagger 2 document from a YAML or JSON file
+ */
+export async function loadOpenApiSpec(filePath: string): Promise<OpenApiDocument> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  let spec: unknown;
+  try {
+    // JSON is valid YAML, so one parser reads both
+    spec = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Could not parse ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const document = spec as OpenApiDocument | null;
+  if (!document || typeof document !== 'object' || (!document.openapi && !document.swagger) || typeof document.paths !== 'object') {
+    throw new Error(`${path.basename(filePath)} is not an OpenAPI document`);
+  }
+  return document;
+}
+
+/**
+ * Title, version and operations of a spec, for picking what to draw
+ */
+export function summarizeOpenApiSpec(spec: OpenApiDocument): OpenApiSpecSummary {
+  return {
+    title: specTitle(spec),
+    version: spec.info?.version,
+    operations: listOperations(spec).map(({ key, operation }) => ({
+      key,
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: operation.tags ?? [],
+    })),
+  };
+}
+
+/**
+ * Converts a spec into one sequence diagram per requested operation, with
+ * client, gateway and service participants, and optionally a flowchart
+ * overview of its tags and paths
+ */
+export function openApiToDiagrams(spec: OpenApiDocument, options: OpenApiDiagramOptions = {}): OpenApiDiagram[] {
+  const operations = listOperations(spec);
+  const title = specTitle(spec);
+  const diagrams: OpenApiDiagram[] = [];
+
+  if (options.overview) {
+    diagrams.push({ title: `${title} overview`, diagram: overviewDiagram(spec, operations) });
+  }
+
+  for (const requested of options.operations ?? []) {
+    const match = operations.find(({ key, operation }) =>
+      operation.operationId === requested || key.toLowerCase() === requested.trim().replace(/\s+/, ' ').toLowerCase()
+    );
+    if (!match) {
+      throw new Error(`Unknown operation: ${requested}. Use an operationId or "METHOD /path".`);
+    }
+    diagrams.push({
+      title: `${title}: ${match.key}`,
+      diagram: sequenceDiagram(spec, match.key, match.operation),
+      operation: match.key,
+    });
+  }
+
+  if (diagrams.length === 0) {
+    throw new Error('Choose at least one operation or the overview');
+  }
+  return diagrams;
+}
+
+/**
+ * Converts a spec file and saves each diagram that validates to history
+ */
+export async function importOpenApi(
+  historyService: HistoryService,
+  filePath: string,
+  options: OpenApiDiagramOptions & { collection?: string | null } = {},
+): Promise<OpenApiImportResult> {
+  const spec = await loadOpenApiSpec(filePath);
+  const result: OpenApiImportResult = { title: specTitle(spec), diagrams: [], failed: [] };
+
+  for (const { title, diagram } of openApiToDiagrams(spec, options)) {
+    const validation = await validateMermaidSyntax(diagram);
+    if (!validation.valid) {
+      result.failed.push(title);
+      continue;
+    }
+    const entry = await historyService.saveDiagram(diagram, title, options.collection ?? null, 'editor');
+    result.diagrams.push({ id: entry.id, title });
+  }
+
+  logger.info(`Imported ${result.diagrams.length} diagrams from ${filePath}`);
+  return result;
+}
+
+function specTitle(spec: OpenApiDocument): string {
+  return spec.info?.title?.trim() || 'API';
+}
+
+function listOperations(spec: OpenApiDocument): { key: string; path: string; operation: SpecObject }[] {
+  return Object.entries(spec.paths ?? {}).flatMap(([apiPath, item]) =>
+    METHODS
+      .filter(method => item && typeof item[method] === 'object')
+      .map(method => ({ key: `${method.toUpperCase()} ${apiPath}`, path: apiPath, operation: item[method] as SpecObject }))
+  );
+}
+
+function sequenceDiagram(spec: OpenApiDocument, key: string, operation: SpecObject): string {
+  const [method, apiPath] = key.split(' ');
+  const parameters = [...(spec.paths[apiPath]?.parameters ?? []), ...(operation.parameters ?? [])]
+    .map(parameter => resolve(spec, parameter))
+    .filter((parameter): parameter is SpecObject => Boolean(parameter));
+
+  const query = parameters.filter(parameter => parameter.in === 'query').map(parameter => parameter.name);
+  const request = requestBodyName(spec, operation, parameters);
+  const call = `${method} ${apiPath}${query.length > 0 ? `?${query.join('&')}` : ''}${request ? ` (${request})` : ''}`;
+
+  const security = (operation.security ?? spec.security ?? []) as SpecObject[];
+  const schemes = [...new Set(security.flatMap(requirement => Object.keys(requirement)))];
+
+  const lines = [
+    'sequenceDiagram',
+    '  participant Client',
+    '  participant Gateway as API Gateway',
+    `  participant Service as ${messageText(specTitle(spec))}`,
+    `  Client->>Gateway: ${messageText(call)}`,
+  ];
+  if (schemes.length > 0) {
+    lines.push(`  Note over Gateway: Authenticate (${messageText(schemes.join(', '))})`);
+  }
+  lines.push(`  Gateway->>Service: ${messageText(operation.operationId ? `${operation.operationId}(${request ?? ''})` : call)}`);
+
+  const responses = Object.entries(operation.responses ?? {})
+    .map(([status, response]) => ({ status, label: responseLabel(spec, status, resolve(spec, response as SpecObject)) }))
+    .sort((a, b) => statusOrder(a.status) - statusOrder(b.status));
+
+  responses.forEach(({ status, label }, index) => {
+    const indent = responses.length > 1 ? '    ' : '  ';
+    if (responses.length > 1) {
+      lines.push(`  ${index === 0 ? 'alt' : 'else'} ${messageText(label)}`);
+    }
+    if (!(schemes.length > 0 && GATEWAY_STATUSES.has(status))) {
+      lines.push(`${indent}Service-->>Gateway: ${messageText(label)}`);
+    }
+    lines.push(`${indent}Gateway-->>Client: ${messageText(label)}`);
+  });
+  if (responses.length > 1) {
+    lines.push('  end');
+  }
+
+  return lines.join('\n');
+}
+
+function overviewDiagram(spec: OpenApiDocument, operations: { key: string; path: string; operation: SpecObject }[]): string {
+  const version = spec.info?.version ? ` ${spec.info.version}` : '';
+  const lines = ['flowchart LR', `  api(["${escapeLabel(specTitle(spec) + version)}"])`];
+
+  // Declared tags first, in the spec's order, then any that are only used
+  const declared = ((spec.tags ?? []) as SpecObject[]).map(tag => tag.name as string);
+  const used = operations.flatMap(({ operation }) => (operation.tags?.length ? operation.tags : ['default']) as string[]);
+  const tags = [...new Set([...declared.filter(tag => used.includes(tag)), ...used])];
+  const paths = [...new Set(operations.map(operation => operation.path))];
+
+  tags.forEach((tag, index) => {
+    lines.push(`  tag${index}{{"${escapeLabel(tag)}"}}`);
+    lines.push(`  api --> tag${index}`);
+  });
+  paths.forEach((apiPath, index) => {
+    const methods = operations.filter(operation => operation.path === apiPath).map(operation => operation.key.split(' ')[0]);
+    lines.push(`  path${index}["${escapeLabel(apiPath)}<br/>${methods.join(' · ')}"]`);
+  });
+
+  const edges = new Set<string>();
+  for (const { path: apiPath, operation } of operations) {
+    for (const tag of operation.tags?.length ? operation.tags : ['default']) {
+      edges.add(`  tag${tags.indexOf(tag)} --> path${paths.indexOf(apiPath)}`);
+    }
+  }
+  lines.push(...edges);
+
+  return lines.join('\n');
+}
+
+function requestBodyName(spec: OpenApiDocument, operation: SpecObject, parameters: SpecObject[]): string | undefined {
+  if (operation.requestBody) {
+    const body = resolve(spec, operation.requestBody);
+    return contentSchemaName(body?.content) ?? 'body';
+  }
+  // Swagger 2 puts the body in the parameters
+  const body = parameters.find(parameter => parameter.in === 'body');
+  if (body) {
+    return schemaName(body.schema) ?? 'body';
+  }
+  if (parameters.some(parameter => parameter.in === 'formData')) {
+    return 'form';
+  }
+  return undefined;
+}
+
+function responseLabel(spec: OpenApiDocument, status: string, response: SpecObject | undefined): string {
+  const text = status === 'default' ? 'default' : `${status}${STATUS_TEXT[status] ? ` ${STATUS_TEXT[status]}` : ''}`;
+  const schema = contentSchemaName(response?.content) ?? schemaName(response?.schema);
+  return schema ? `${text}: ${schema}` : text;
+}
+
+function contentSchemaName(content: SpecObject | undefined): string | undefined {
+  if (!content || typeof content !== 'object') return undefined;
+  const type = Object.keys(content).find(mediaType => mediaType.includes('json')) ?? Object.keys(content)[0];
+  return type ? schemaName(content[type]?.schema) : undefined;
+}
+
+function schemaName(schema: SpecObject | undefined): string | undefined {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if (typeof schema.$ref === 'string') {
+    return decodeURIComponent(schema.$ref.split('/').pop() ?? '').replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+  if (schema.type === 'array') {
+    return `${schemaName(schema.items) ?? 'any'}[]`;
+  }
+  for (const [combiner, separator] of [['oneOf', ' | '], ['anyOf', ' | '], ['allOf', ' & ']]) {
+    if (Array.isArray(schema[combiner])) {
+      return schema[combiner].map((option: SpecObject) => schemaName(option) ?? 'object').join(separator);
+    }
+  }
+  return schema.title ?? schema.type;
+}
+
+/**
+ * Follows local $refs such as "#/components/responses/NotFound"
+ */
+function resolve(spec: OpenApiDocument, value: SpecObject | undefined, depth = 0): SpecObject | undefined {
+  if (!value || typeof value.$ref !== 'string' || !value.$ref.startsWith('#/') || depth > 10) {
+    return value;
+  }
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .reduce<any>((node, segment) => node?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+  return resolve(spec, target, depth + 1);
+}
+
+function statusOrder(status: string): number {
+  return status === 'default' ? 1000 : parseInt(status.replace(/X/gi, '0'), 10) || 999;
+}
+
+// Sequence diagram text ends at a semicolon or newline, and # starts an entity
+function messageText(text: string): string {
+  return text.replace(/[;\n\r]+/g, ',').replace(/#/g, '');
+}
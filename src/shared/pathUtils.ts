@@ -0,0 +1,10 @@
+import path from 'path';
+
+/**
+ * True when target is root or inside it. Both paths should already be
+ * resolved (and have their symlinks resolved) by the caller.
+ */
+export function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
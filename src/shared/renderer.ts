@@ -1,20 +1,34 @@
-import { RenderResult } from "./types.js";
+import { LintConfig, RenderResult } from "./types.js";
 import { validateMermaidSyntax } from "./validator.js";
+import { repairMermaidSyntax } from "./syntaxRepair.js";
 
 export async function renderMermaid(
   diagram: string,
   background?: string,
+  lintConfig?: LintConfig,
 ): Promise<RenderResult> {
   try {
     // Validate the diagram first
-    const validation = await validateMermaidSyntax(diagram);
+    const validation = await validateMermaidSyntax(diagram, lintConfig);
 
     if (!validation.valid) {
+      // Try fixing common mistakes before rejecting the diagram
+      const repair = repairMermaidSyntax(diagram);
+      if (repair.fixes.length > 0 && (await validateMermaidSyntax(repair.diagram, lintConfig)).valid) {
+        return {
+          type: "success",
+          diagram: repair.diagram,
+          background,
+          fixes: repair.fixes,
+        };
+      }
+
       return {
         type: "error",
         diagram,
         error: validation.errors?.[0] || "Invalid diagram syntax",
         details: validation.errors?.join("\n"),
+        diagnostics: validation.diagnostics,
       };
     }
 
@@ -33,4 +47,4 @@ export async function renderMermaid(
       error: error instanceof Error ? error.message : "Failed to process diagram",
     };
   }
-}
\ No newline at end of file
+}
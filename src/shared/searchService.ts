@@ -0,0 +1,278 @@
+import { HistoryService } from './historyService.js';
+import { DiagramHistoryEntry, SearchField, SearchOptions, SearchResult, SearchSnippet } from './types.js';
+
+// How much a match in each field counts towards a result's score
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 8,
+  label: 4,
+  collection: 3,
+  source: 1,
+};
+
+// Exact token matches count fully, prefixes (type-ahead) half, other substrings a quarter
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.5;
+const SUBSTRING_MATCH = 0.25;
+
+const DEFAULT_LIMIT = 50;
+const SNIPPET_LENGTH = 80;
+// Characters of context kept before the first highlight in a trimmed snippet
+const SNIPPET_LEAD = 20;
+
+// Lines that only carry styling or interaction, never user-facing text
+const NON_LABEL_LINE = /^\s*(%%|classDef\b|class\b|style\b|linkStyle\b|click\b)/;
+
+const LABEL_PATTERNS: RegExp[] = [
+  // Node shapes: A["label"], A(label), A{label}, A((label)), A>label], A[(label)] ...
+  /[\w-]+\s*(?:\[\[|\[\(|\(\(|\(\[|\[\/|\[\\|\{\{|\[|\(|\{|>)\s*"?([^"[\](){}|]+?)"?\s*(?:\]\]|\)\]|\)\)|\]\)|\/\]|\\\]|\}\}|\]|\)|\})/g,
+  // Edge labels: A -->|label| B
+  /\|"?([^|"]+)"?\|/g,
+  // Edge labels: A -- label --> B
+  /--\s+"?([^"|>-][^"|>]*?)"?\s+--/g,
+  // Messages and transitions: A->>B: label, s1 --> s2 : label
+  /:\s*(.+)$/g,
+  // Aliases: participant A as Alice
+  /\bas\s+(.+)$/g,
+];
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'label', 'collection', 'source'];
+
+interface SearchDocument {
+  key: string;
+  texts: Record<SearchField, string[]>;
+  tokens: Record<SearchField, Set<string>>;
+}
+
+/**
+ * Splits text into lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    // Mermaid's own form of entities, such as #quot;
+    .replace(/(?<!&)#(\w+);/g, (_match, name) => `&${/^\d+$/.test(name) ? '#' : ''}${name};`)
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Pulls node, edge and message labels out of Mermaid source
+ */
+export function extractLabels(diagram: string): string[] {
+  const labels = new Set<string>();
+
+  for (const line of diagram.split('\n')) {
+    if (NON_LABEL_LINE.test(line)) continue;
+
+    for (const pattern of LABEL_PATTERNS) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(line)) !== null) {
+        const label = decodeEntities(match[1]).trim();
+        if (label) {
+          labels.add(label);
+        }
+      }
+    }
+  }
+
+  return Array.from(labels);
+}
+
+function matchQuality(tokens: Set<string>, queryToken: string): number {
+  if (tokens.has(queryToken)) {
+    return EXACT_MATCH;
+  }
+
+  let best = 0;
+  for (const token of tokens) {
+    if (token.startsWith(queryToken)) {
+      return PREFIX_MATCH;
+    }
+    if (token.includes(queryToken)) {
+      best = SUBSTRING_MATCH;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds every occurrence of the query tokens in text, merged into
+ * non-overlapping ranges
+ */
+function findHighlights(text: string, queryTokens: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  for (const token of queryTokens) {
+    let index = lower.indexOf(token);
+    while (index !== -1) {
+      ranges.push([index, index + token.length]);
+      index = lower.indexOf(token, index + token.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cuts long text down to a window around its first highlight
+ */
+function toSnippet(field: SearchField, text: string, highlights: [number, number][]): SearchSnippet {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, text, highlights };
+  }
+
+  const start = Math.max(0, Math.min(highlights[0][0] - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]) => [Math.max(from, start) + shift, Math.min(to, end) + shift]),
+  };
+}
+
+/**
+ * Ranked full-text search over diagram titles, collections, Mermaid source
+ * and the node/edge labels extracted from it.
+ *
+ * Every query word must match somewhere in a diagram. Matches in titles weigh
+ * most and matches in raw source least. Tokenized diagrams are cached until
+ * they change.
+ */
+export class SearchService {
+  private documents = new Map<string, SearchDocument>();
+
+  constructor(private historyService: HistoryService) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const phrase = query.trim().toLowerCase();
+    const entries = await this.historyService.getDiagrams(options.collection);
+    const results: SearchResult[] = [];
+
+    for (const entry of entries) {
+      const document = this.getDocument(entry);
+      let score = 0;
+      let matchesAll = true;
+
+      for (const queryToken of queryTokens) {
+        let tokenScore = 0;
+        for (const field of SEARCH_FIELDS) {
+          tokenScore += FIELD_WEIGHTS[field] * matchQuality(document.tokens[field], queryToken);
+        }
+        if (tokenScore === 0) {
+          matchesAll = false;
+          break;
+        }
+        score += tokenScore;
+      }
+
+      if (!matchesAll) continue;
+
+      // Reward titles that contain the whole query as typed
+      if (queryTokens.length > 1 && entry.title?.toLowerCase().includes(phrase)) {
+        score += FIELD_WEIGHTS.title;
+      }
+
+      results.push({
+        entry,
+        score,
+        snippets: this.buildSnippets(document, queryTokens),
+      });
+    }
+
+    if (options.collection === undefined) {
+      this.pruneDocuments(entries);
+    }
+
+    return results
+      .sort((a, b) =>
+        b.score - a.score ||
+        new Date(b.entry.updatedAt).getTime() - new Date(a.entry.updatedAt).getTime()
+      )
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  private getDocument(entry: DiagramHistoryEntry): SearchDocument {
+    // Imported and synced copies keep the updatedAt they came with, so
+    // everything that is searched stays part of the key in case only it differs
+    const key = `${new Date(entry.updatedAt).getTime()}|${entry.title}|${entry.collection}|${entry.folder}|${entry.diagram}`;
+    const cached = this.documents.get(entry.id);
+    if (cached && cached.key === key) {
+      return cached;
+    }
+
+    const texts: Record<SearchField, string[]> = {
+      title: entry.title ? [entry.title] : [],
+      // Folders are searched with the collection they belong to
+      collection: [entry.collection, entry.folder].filter((text): text is string => Boolean(text)),
+      label: extractLabels(entry.diagram || ''),
+      source: (entry.diagram || '').split('\n').map(line => line.trim()).filter(Boolean),
+    };
+
+    const tokens = {} as Record<SearchField, Set<string>>;
+    for (const field of SEARCH_FIELDS) {
+      tokens[field] = new Set(texts[field].flatMap(tokenize));
+    }
+
+    const document = { key, texts, tokens };
+    this.documents.set(entry.id, document);
+    return document;
+  }
+
+  /**
+   * One snippet per matching field, highest-weighted field first
+   */
+  private buildSnippets(document: SearchDocument, queryTokens: string[]): SearchSnippet[] {
+    const snippets: SearchSnippet[] = [];
+
+    for (const field of SEARCH_FIELDS) {
+      for (const text of document.texts[field]) {
+        const highlights = findHighlights(text, queryTokens);
+        if (highlights.length > 0) {
+          snippets.push(toSnippet(field, text, highlights));
+          break;
+        }
+      }
+    }
+
+    return snippets;
+  }
+
+  // Forget cached documents for deleted diagrams
+  private pruneDocuments(entries: DiagramHistoryEntry[]): void {
+    const ids = new Set(entries.map(entry => entry.id));
+    for (const id of this.documents.keys()) {
+      if (!ids.has(id)) {
+        this.documents.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,382 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { HistoryService } from './historyService.js';
+import {
+  DiagramHistoryEntry,
+  SyncConfig,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+  SyncRecord,
+  SyncResult,
+  SyncStatus,
+} from './types.js';
+import { isSameRecord, isValidSyncRecord, mergeSyncRecords, SYNC_SAFE_NAME, toSyncRecord, toTombstone } from './syncProtocol.js';
+import { httpLogger as logger } from './logger.js';
+
+const STATE_FILE = '.sync.json';
+const LOCK_FILE = '.sync.lock';
+const REQUEST_TIMEOUT_MS = 30000;
+// A round makes at most two requests, so a lock held longer than this was
+// left behind by a process that did not get to remove it
+const LOCK_STALE_MS = 5 * 60 * 1000;
+const LOCK_WAIT_MS = 2 * REQUEST_TIMEOUT_MS + 10000;
+const LOCK_RETRY_MS = 500;
+
+interface SyncState {
+  config: SyncConfig | null;
+  cursor: number;  // Last server change already pulled
+  synced: Record<string, string>;  // Diagram id -> updatedAt last exchanged with the server
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+function emptyState(config: SyncConfig | null = null): SyncState {
+  return { config, cursor: 0, synced: {}, lastSyncedAt: null, lastError: null };
+}
+
+/**
+ * Keeps a data directory in step with a team on a sync server.
+ *
+ * Each round pushes diagrams whose updatedAt changed since they were last
+ * exchanged (and tombstones for ones deleted locally), applies the server's
+ * merged copies, then pulls everything the server changed since the last
+ * round. Diagrams edited on both sides are merged with mergeSyncRecords.
+ *
+ * State lives in a dotfile next to the diagrams so every process sharing
+ * the data directory sees the same configuration and cursor. A lock file
+ * next to it keeps those processes from running rounds at the same time.
+ */
+export class SyncEngine {
+  private statePath: string;
+  private lockPath: string;
+  private running: Promise<SyncResult> | null = null;
+
+  constructor(
+    private dataDir: string,
+    private history: HistoryService
+  ) {
+    this.statePath = path.join(dataDir, STATE_FILE);
+    this.lockPath = path.join(dataDir, LOCK_FILE);
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const state = await this.readState();
+    let config: SyncStatus['config'] = null;
+    if (state.config) {
+      // The status is served over HTTP, so the token stays on disk
+      const { token, ...rest } = state.config;
+      config = { ...rest, hasToken: !!token };
+    }
+    return {
+      config,
+      lastSyncedAt: state.lastSyncedAt ? new Date(state.lastSyncedAt) : null,
+      lastError: state.lastError,
+    };
+  }
+
+  /**
+   * Sets the server and team to sync with, or turns sync off with null.
+   * Switching server or team starts over from an empty cursor. Without a
+   * token the saved one is kept for the same server and team; an empty
+   * token removes it.
+   */
+  async configure(config: SyncConfig | null): Promise<SyncStatus> {
+    const state = await this.readState();
+
+    if (config) {
+      validateConfig(config);
+      const sameTarget = state.config?.serverUrl === config.serverUrl && state.config?.team === config.team;
+      const token = config.token ?? (sameTarget ? state.config?.token : undefined);
+      // Callers may pass back a status summary, so only the config fields are kept
+      const next: SyncConfig = {
+        serverUrl: config.serverUrl,
+        team: config.team,
+        token: token || undefined,
+        collections: config.collections,
+      };
+      await this.writeState(sameTarget ? { ...state, config: next } : emptyState(next));
+      logger.info(`Team sync configured for ${config.team} at ${config.serverUrl}`);
+    } else {
+      await this.writeState(emptyState());
+      logger.info('Team sync turned off');
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Runs one sync round. Calls made while a round is in progress share it;
+   * a round in another process is waited for.
+   */
+  async sync(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.runLocked().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runLocked(): Promise<SyncResult> {
+    const unlock = await this.lock();
+    try {
+      return await this.runSync();
+    } finally {
+      await unlock();
+    }
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const state = await this.readState();
+    const config = state.config;
+    if (!config) {
+      throw new Error('Team sync is not configured');
+    }
+
+    const result: SyncResult = { pushed: 0, pulled: 0, deleted: 0, conflicts: 0, syncedAt: new Date() };
+
+    try {
+      const { diagrams } = await this.history.queryDiagrams();
+      const local = new Map(diagrams.map(entry => [entry.id, entry]));
+      const inScope = (entry: DiagramHistoryEntry) =>
+        !config.collections?.length || (entry.collection !== null && config.collections.includes(entry.collection));
+
+      // Push local changes and deletions
+      const outgoing: SyncRecord[] = [];
+      for (const entry of diagrams) {
+        if (inScope(entry) && state.synced[entry.id] !== entry.updatedAt.toISOString()) {
+          outgoing.push(toSyncRecord(await this.history.getDiagram(entry.id, { includeRevisions: true })));
+        }
+      }
+      for (const id of Object.keys(state.synced)) {
+        if (!local.has(id)) {
+          outgoing.push(toTombstone(id));
+        }
+      }
+
+      if (outgoing.length > 0) {
+        const response = await this.request<SyncPushResponse>(config, 'POST', '/changes', { records: outgoing } satisfies SyncPushRequest);
+        response.records.forEach((record, i) => {
+          // The server merged in changes we had not pulled yet
+          if (!isSameRecord(record, outgoing[i])) {
+            result.conflicts++;
+          }
+        });
+        for (const record of acceptRecords(response.records)) {
+          await this.apply(record, state);
+        }
+        result.pushed = outgoing.length;
+      }
+
+      // Pull what everyone else changed
+      const pull = await this.request<SyncPullResponse>(config, 'GET', `/changes?since=${state.cursor}`);
+      for (const remote of acceptRecords(pull.records)) {
+        const entry = await this.findDiagram(remote.id);
+        const localRecord = entry ? toSyncRecord(entry) : null;
+        const changedLocally = !!entry && state.synced[remote.id] !== localRecord!.updatedAt;
+
+        if (localRecord && isSameRecord(localRecord, remote)) {
+          state.synced[remote.id] = remote.updatedAt;
+          continue;
+        }
+
+        if (!changedLocally || !localRecord) {
+          if (remote.deleted && !localRecord) {
+            delete state.synced[remote.id];
+            continue;
+          }
+          await this.apply(remote, state);
+          result[remote.deleted ? 'deleted' : 'pulled']++;
+          continue;
+        }
+
+        // Edited here and on the server since the last round
+        const merged = mergeSyncRecords(localRecord, remote);
+        await this.apply(merged, state);
+        result.conflicts++;
+        if (!isSameRecord(merged, remote)) {
+          // Push the merged copy next round
+          delete state.synced[remote.id];
+        }
+      }
+
+      state.cursor = pull.cursor;
+      state.lastSyncedAt = result.syncedAt.toISOString();
+      state.lastError = null;
+      await this.writeState(state);
+
+      logger.info(`Synced with team ${config.team}`, result);
+      return result;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      await this.writeState(state);
+      throw error;
+    }
+  }
+
+  /**
+   * Makes the local copy of a diagram match a record from the server
+   */
+  private async apply(record: SyncRecord, state: SyncState): Promise<void> {
+    const existing = await this.findDiagram(record.id);
+
+    if (record.deleted || !record.entry) {
+      if (existing) {
+        await this.history.deleteDiagram(record.id);
+      }
+      delete state.synced[record.id];
+      return;
+    }
+
+    if (!existing || !isSameRecord(toSyncRecord(existing), record)) {
+      await this.history.importDiagram(record.entry, 'overwrite');
+    }
+    state.synced[record.id] = record.updatedAt;
+  }
+
+  private async findDiagram(id: string): Promise<DiagramHistoryEntry | null> {
+    try {
+      return await this.history.getDiagram(id, { includeRevisions: true });
+    } catch (error) {
+      if (error instanceof Error && error.message.endsWith('not found')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async request<T>(config: SyncConfig, method: 'GET' | 'POST', route: string, body?: unknown): Promise<T> {
+    const url = `${config.serverUrl.replace(/\/+$/, '')}/api/teams/${config.team}${route}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const details = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(`Sync server responded ${response.status}${details?.error ? `: ${details.error}` : ''}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Takes the data directory's sync lock, waiting while another live
+   * process holds it. Returns a function that releases it.
+   */
+  private async lock(): Promise<() => Promise<void>> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockPath, String(process.pid), { flag: 'wx' });
+        return () => fs.rm(this.lockPath, { force: true });
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isLockStale()) {
+        logger.warn('Removing stale team sync lock');
+        await fs.rm(this.lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Team sync is already running in another process');
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private async isLockStale(): Promise<boolean> {
+    let contents: string;
+    let modifiedAt: number;
+    try {
+      contents = await fs.readFile(this.lockPath, 'utf-8');
+      modifiedAt = (await fs.stat(this.lockPath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        // Released meanwhile; the next attempt takes it
+        return false;
+      }
+      throw error;
+    }
+
+    if (Date.now() - modifiedAt > LOCK_STALE_MS) {
+      return true;
+    }
+    if (!contents) {
+      // Taken but the pid is not written yet
+      return false;
+    }
+    // This process never waits on its own lock, so a matching pid was reused
+    const pid = Number(contents);
+    if (!Number.isInteger(pid) || pid <= 0 || pid === process.pid) {
+      return true;
+    }
+    try {
+      process.kill(pid, 0);
+      return false;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to another user
+      return error.code !== 'EPERM';
+    }
+  }
+
+  private async readState(): Promise<SyncState> {
+    try {
+      return { ...emptyState(), ...JSON.parse(await fs.readFile(this.statePath, 'utf-8')) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return emptyState();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the state atomically so other processes never read a partial file
+   */
+  private async writeState(state: SyncState): Promise<void> {
+    const tempPath = `${this.statePath}.${process.pid}.tmp`;
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2));
+    await fs.rename(tempPath, this.statePath);
+  }
+}
+
+/**
+ * Drops records from the server that are not safe to store, such as ids
+ * that would name a file outside the data directory
+ */
+function acceptRecords(records: SyncRecord[]): SyncRecord[] {
+  return records.filter(record => {
+    if (isValidSyncRecord(record)) {
+      return true;
+    }
+    logger.warn('Ignoring invalid record from sync server', { id: record?.id });
+    return false;
+  });
+}
+
+function validateConfig(config: SyncConfig): void {
+  let url: URL;
+  try {
+    url = new URL(config.serverUrl);
+  } catch {
+    throw new Error(`Invalid sync server URL: ${config.serverUrl}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Sync server URL must use http or https: ${config.serverUrl}`);
+  }
+  if (!SYNC_SAFE_NAME.test(config.team)) {
+    throw new Error(`Invalid team name: ${config.team}. Use letters, numbers, - and _`);
+  }
+}
@@ -0,0 +1,106 @@
+import { DiagramHistoryEntry, DiagramRevision, SyncRecord } from './types.js';
+
+// Team names and diagram ids become directory and file names on the server
+export const SYNC_SAFE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Checks a record received from the other side before it is stored. The
+ * id names a file on both ends, so anything but a safe name is rejected.
+ */
+export function isValidSyncRecord(record: SyncRecord): boolean {
+  if (typeof record?.id !== 'string' || !SYNC_SAFE_NAME.test(record.id)) {
+    return false;
+  }
+  if (isNaN(toTime(record.updatedAt))) {
+    return false;
+  }
+  if (record.deleted) {
+    return true;
+  }
+  const entry = record.entry;
+  return entry?.id === record.id
+    && typeof entry.diagram === 'string'
+    && isOptionalName(entry.collection)
+    && isOptionalName(entry.folder);
+}
+
+export function toSyncRecord(entry: DiagramHistoryEntry): SyncRecord {
+  return {
+    id: entry.id,
+    updatedAt: new Date(entry.updatedAt).toISOString(),
+    entry,
+  };
+}
+
+export function toTombstone(id: string, deletedAt: Date = new Date()): SyncRecord {
+  return { id, updatedAt: deletedAt.toISOString(), deleted: true };
+}
+
+/**
+ * Merges two copies of the same diagram. The copy with the later updatedAt
+ * supplies the title, collection and current source; revisions from both
+ * copies are kept, so the losing side's edits stay in the history. A
+ * tombstone wins only if it is newer than every edit.
+ *
+ * The result does not depend on argument order, so the server and every
+ * client converge on the same record.
+ */
+export function mergeSyncRecords(a: SyncRecord, b: SyncRecord): SyncRecord {
+  const newer = compareRecords(a, b) >= 0 ? a : b;
+  if (newer.deleted || !a.entry || !b.entry) {
+    return newer;
+  }
+
+  const createdAt = Math.min(toTime(a.entry.createdAt), toTime(b.entry.createdAt));
+  return {
+    id: newer.id,
+    updatedAt: newer.updatedAt,
+    entry: {
+      ...newer.entry!,
+      createdAt: new Date(createdAt),
+      revisions: mergeRevisions(a.entry.revisions ?? [], b.entry.revisions ?? []),
+    },
+  };
+}
+
+/**
+ * Returns true when two records would be stored identically
+ */
+export function isSameRecord(a: SyncRecord, b: SyncRecord): boolean {
+  if (!!a.deleted !== !!b.deleted || toTime(a.updatedAt) !== toTime(b.updatedAt)) {
+    return false;
+  }
+  if (!a.entry || !b.entry) {
+    return !a.entry && !b.entry;
+  }
+  return a.entry.diagram === b.entry.diagram
+    && a.entry.title === b.entry.title
+    && (a.entry.collection ?? null) === (b.entry.collection ?? null)
+    && (a.entry.folder ?? null) === (b.entry.folder ?? null)
+    && (a.entry.revisions?.length ?? 0) === (b.entry.revisions?.length ?? 0);
+}
+
+// Later updatedAt first; ties go to the tombstone, then to the larger source
+function compareRecords(a: SyncRecord, b: SyncRecord): number {
+  const byTime = toTime(a.updatedAt) - toTime(b.updatedAt);
+  if (byTime !== 0) return byTime;
+  if (!!a.deleted !== !!b.deleted) return a.deleted ? 1 : -1;
+  return (a.entry?.diagram ?? '').localeCompare(b.entry?.diagram ?? '');
+}
+
+function mergeRevisions(a: DiagramRevision[], b: DiagramRevision[]): DiagramRevision[] {
+  const byKey = new Map<string, DiagramRevision>();
+  for (const revision of [...a, ...b]) {
+    byKey.set(`${toTime(revision.createdAt)}\n${revision.diagram}`, revision);
+  }
+  return Array.from(byKey.values()).sort((x, y) => toTime(x.createdAt) - toTime(y.createdAt));
+}
+
+// Collections and folders are free-form, but never contain control characters
+function isOptionalName(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && !/[\u0000-\u001f]/.test(value));
+}
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
@@ -0,0 +1,269 @@
+import { detectDiagramKind, DiagramKind, escapeLabel, ID_PATTERN, SHAPES } from './diagramModel.js';
+
+export interface RepairResult {
+  diagram: string;
+  fixes: string[];  // One entry per change, e.g. 'Line 3: quoted label "Process (step 1)"'
+}
+
+const ID_RE = new RegExp(`^${ID_PATTERN}`, 'u');
+const ID_CHAR_RE = /[\p{L}\p{N}_$]/u;
+
+// Characters that break an unquoted label
+const NEEDS_QUOTES_RE = /[()[\]{}/\\"<>|;]/;
+
+// Flowchart lines that hold styles or callbacks rather than nodes
+const SKIPPED_LINE_RE = /^(%%|classDef\s|class\s|style\s|linkStyle\s|click\s)/;
+
+// The start of a link, where a label missing its closing bracket must end
+const LINK_START_RE = /\s*(?:<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?|&)/;
+
+const ER_RELATION_RE = /^(\s*[^\s:]+\s*[|}][o|](?:--|\.\.)[o|][|{]\s*[^\s:]+\s*:\s*)(.+?)\s*$/;
+
+const BRACKETS: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+/**
+ * Fixes common syntax mistakes in a diagram that failed to parse:
+ * - quotes flowchart node and edge labels containing special characters,
+ *   escaping quotes inside them like the diagram model does
+ * - adds or removes a bracket when a line is off by exactly one and there
+ *   is only one place it can go
+ * - quotes ER relationship labels that contain spaces
+ *
+ * Returns the diagram unchanged with no fixes when nothing applies.
+ */
+export function repairMermaidSyntax(diagram: string): RepairResult {
+  const lines = diagram.split('\n');
+  const fixes: string[] = [];
+  let kind: DiagramKind | null | undefined;
+  let inFrontMatter = lines[0]?.trim() === '---';
+
+  for (let i = inFrontMatter ? 1 : 0; i < lines.length; i++) {
+    const text = lines[i].trim();
+
+    if (inFrontMatter) {
+      inFrontMatter = text !== '---';
+      continue;
+    }
+    if (kind === undefined) {
+      if (text && !text.startsWith('%%')) {
+        kind = detectDiagramKind(text);
+      }
+      continue;
+    }
+
+    const fix = (description: string) => fixes.push(`Line ${i + 1}: ${description}`);
+    if (kind === 'flowchart') {
+      lines[i] = repairFlowchartLine(lines[i], fix);
+    } else if (kind === 'er') {
+      lines[i] = repairErLine(lines[i], fix);
+    }
+  }
+
+  return { diagram: fixes.length > 0 ? lines.join('\n') : diagram, fixes };
+}
+
+function repairFlowchartLine(line: string, fix: (description: string) => void): string {
+  if (SKIPPED_LINE_RE.test(line.trim())) {
+    return line;
+  }
+
+  return repairLabels(balanceBrackets(line, fix), fix);
+}
+
+/**
+ * Adds a missing closing bracket or drops an unmatched one, when only one
+ * bracket type is off by one on the line
+ */
+function balanceBrackets(line: string, fix: (description: string) => void): string {
+  const counts = new Map<string, number>();
+  forEachUnquoted(line, (char) => {
+    for (const [open, close] of Object.entries(BRACKETS)) {
+      if (char === open) counts.set(open, (counts.get(open) ?? 0) + 1);
+      if (char === close) counts.set(open, (counts.get(open) ?? 0) - 1);
+    }
+  });
+
+  const unbalanced = Array.from(counts.entries()).filter(([, count]) => count !== 0);
+  if (unbalanced.length !== 1 || Math.abs(unbalanced[0][1]) !== 1) {
+    return line;
+  }
+  const [open, count] = unbalanced[0];
+  const close = BRACKETS[open];
+
+  // Match brackets to find the one without a partner
+  const stack: { char: string; index: number }[] = [];
+  let unmatchedClose = -1;
+  let ambiguous = false;
+  forEachUnquoted(line, (char, index) => {
+    if (char in BRACKETS) {
+      stack.push({ char, index });
+    } else if (Object.values(BRACKETS).includes(char)) {
+      const top = stack[stack.length - 1];
+      if (top && BRACKETS[top.char] === char) {
+        stack.pop();
+      } else if (!top && char === close && unmatchedClose < 0) {
+        unmatchedClose = index;
+      } else {
+        ambiguous = true;
+      }
+    }
+  });
+  if (ambiguous) {
+    return line;
+  }
+
+  if (count < 0 && unmatchedClose >= 0 && stack.length === 0) {
+    fix(`removed unmatched "${close}"`);
+    return line.slice(0, unmatchedClose) + line.slice(unmatchedClose + 1);
+  }
+
+  if (count > 0 && stack.length === 1 && stack[0].char === open) {
+    const { index } = stack[0];
+    // Only a single bracket straight after a node id, e.g. A[Label --> B
+    if (index === 0 || !ID_CHAR_RE.test(line[index - 1]) || line[index + 1] in BRACKETS) {
+      return line;
+    }
+    const rest = line.slice(index + 1);
+    const linkStart = rest.search(LINK_START_RE);
+    const end = index + 1 + (linkStart >= 0 ? linkStart : rest.trimEnd().length);
+    fix(`added missing "${close}"`);
+    return line.slice(0, end) + close + line.slice(end);
+  }
+
+  return line;
+}
+
+/**
+ * Quotes and escapes node labels (A[...], A(...), A{...} ...) and edge
+ * labels (-->|...|) that contain special characters
+ */
+function repairLabels(line: string, fix: (description: string) => void): string {
+  let out = '';
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+
+    if (char === '"') {
+      const end = line.indexOf('"', i + 1);
+      const next = end < 0 ? line.length : end + 1;
+      out += line.slice(i, next);
+      i = next;
+      continue;
+    }
+
+    if (char === '|') {
+      const end = line.indexOf('|', i + 1);
+      if (end < 0) {
+        out += line.slice(i);
+        break;
+      }
+      const label = line.slice(i + 1, end);
+      const repaired = repairLabel(label);
+      if (repaired !== null) {
+        fix(`quoted edge label "${label}"`);
+      }
+      out += `|${repaired ?? label}|`;
+      i = end + 1;
+      continue;
+    }
+
+    const id = i === 0 || !ID_CHAR_RE.test(line[i - 1]) ? ID_RE.exec(line.slice(i)) : null;
+    if (!id) {
+      out += char;
+      i++;
+      continue;
+    }
+
+    out += id[0];
+    i += id[0].length;
+
+    const spanEnd = '[({>'.includes(line[i]) ? matchBracket(line, i) : -1;
+    if (spanEnd < 0) {
+      continue;
+    }
+
+    const span = line.slice(i, spanEnd);
+    const shape = SHAPES.find(({ open, close }) =>
+      span.startsWith(open) && span.endsWith(close) && span.length >= open.length + close.length,
+    );
+    if (!shape) {
+      continue;
+    }
+
+    const label = span.slice(shape.open.length, span.length - shape.close.length);
+    const repaired = repairLabel(label);
+    if (repaired !== null) {
+      fix(`quoted label "${label}"`);
+    }
+    out += shape.open + (repaired ?? label) + shape.close;
+    i = spanEnd;
+  }
+
+  return out;
+}
+
+/**
+ * Returns the quoted, escaped label, or null when it is fine as it is
+ */
+function repairLabel(label: string): string | null {
+  const trimmed = label.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    const inner = trimmed.slice(1, -1);
+    return inner.includes('"') ? `"${escapeLabel(inner)}"` : null;
+  }
+
+  // Entities such as #quot; and &quot; are already safe
+  if (!NEEDS_QUOTES_RE.test(label.replace(/&?#?\w+;/g, ''))) {
+    return null;
+  }
+  return `"${escapeLabel(label)}"`;
+}
+
+/**
+ * Finds the end of the bracketed label starting at `start`, counting nested
+ * brackets of every kind. Returns -1 when the brackets never balance.
+ */
+function matchBracket(line: string, start: number): number {
+  let depth = 0;
+  let quoted = false;
+
+  for (let i = start; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+
+    if ('[({'.includes(char) || (i === start && char === '>')) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+function forEachUnquoted(line: string, callback: (char: string, index: number) => void): void {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (!quoted) {
+      callback(line[i], i);
+    }
+  }
+}
+
+function repairErLine(line: string, fix: (description: string) => void): string {
+  const relation = line.match(ER_RELATION_RE);
+  if (!relation) {
+    return line;
+  }
+
+  const label = relation[2];
+  if (/^"[^"]*"$/.test(label) || /^[\w-]+$/.test(label)) {
+    return line;
+  }
+  fix(`quoted relationship label "${label}"`);
+  return `${relation[1]}"${label.replace(/"/g, '')}"`;
+}
@@ -5,12 +5,53 @@ export interface RenderResult {
   error?: string;
   details?: string;
   background?: string;
+  diagramId?: string;  // History entry id, when the diagram was saved
+  outputPath?: string;  // File written inside the git repo, relative to its root
+  fixes?: string[];  // Syntax repairs applied to make the diagram valid; diagram holds the repaired source
+  diagnostics?: Diagnostic[];  // Positions of the errors and warnings when validation failed
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors?: string[];
   warnings?: string[];
+  diagnostics?: Diagnostic[];  // The errors and warnings with their positions in the source
+}
+
+// Diagnostic types
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface DiagnosticFix {
+  message: string;  // What the fix changes, e.g. 'quoted label "Process (step 1)"'
+  replacement: string;  // New text for the whole line
+}
+
+export interface Diagnostic {
+  line: number;  // 1-based line in the diagram source
+  column: number;  // 1-based
+  endColumn?: number;  // Exclusive; the rest of the line when omitted
+  severity: DiagnosticSeverity;
+  code: string;  // Stable id, e.g. 'parse-error' or 'unmatched-bracket'
+  message: string;
+  fix?: DiagnosticFix;
+}
+
+// Lint types
+export type LintSeverity = DiagnosticSeverity | 'off';
+
+// A severity, or a severity and options such as ['warning', { max: 30 }]
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, number>];
+
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting>;  // Keyed by rule id; unlisted rules use their defaults
+}
+
+export interface LintRuleInfo {
+  id: string;
+  description: string;
+  severity: LintSeverity;  // Default severity
+  types?: string[];  // Diagram types the rule checks; every type when omitted
+  options?: Record<string, number>;  // Default options
 }
 
 export interface ServerStatus {
@@ -29,4 +70,164 @@ export interface DiagramHistoryEntry {
   diagram: string;
   title: string;  // Required title
   collection: string | null;  // repo name, user collection, or null
-}
\ No newline at end of file
+  folder: string | null;  // Slash-separated path inside the collection, e.g. "payments/checkout"
+  revisions?: DiagramRevision[];  // Append-only source history, omitted from list results
+}
+
+// Where a revision of a diagram's source came from
+export type RevisionSource = 'mcp' | 'editor';
+
+export interface DiagramRevision {
+  createdAt: Date;
+  source: RevisionSource;
+  diagram: string;  // Full Mermaid source at this revision
+}
+
+// History queries
+export type DiagramSortField = 'createdAt' | 'updatedAt' | 'title';
+
+export interface DiagramQuery {
+  collection?: string | null;  // undefined matches every collection
+  folder?: string;  // Matches this folder and the folders below it
+  title?: string;  // Case-insensitive substring of the title
+  since?: Date;  // Updated at or after
+  until?: Date;  // Updated at or before
+  sortBy?: DiagramSortField;  // Defaults to createdAt
+  sortOrder?: 'asc' | 'desc';  // Defaults to desc
+  offset?: number;
+  limit?: number;
+}
+
+export interface DiagramPage {
+  diagrams: DiagramHistoryEntry[];
+  total: number;  // Matches before paging
+  offset: number;
+  limit: number | null;
+}
+
+// Search types
+export type SearchField = 'title' | 'collection' | 'label' | 'source';
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: [number, number][];  // [start, end) offsets into text
+}
+
+export interface SearchResult {
+  entry: DiagramHistoryEntry;
+  score: number;
+  snippets: SearchSnippet[];  // Best match first
+}
+
+export interface SearchOptions {
+  collection?: string | null;  // undefined searches every collection
+  limit?: number;
+}
+
+// Collection types
+export interface CollectionInfo {
+  name: string;
+  description: string | null;
+  color: string | null;  // Hex color, e.g. "#4c6ef5"
+  sortOrder: number | null;  // null for collections that only exist through their diagrams
+  diagramCount: number;
+}
+
+export interface CollectionUpdate {
+  name?: string;  // Renames the collection and moves its diagrams
+  description?: string | null;
+  color?: string | null;
+}
+
+// Library import/export types
+// What to do when an imported diagram has the same id as an existing one
+export type ImportCollisionPolicy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface LibraryExportResult {
+  path: string;
+  count: number;
+}
+
+export interface LibraryImportResult {
+  created: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+  failed: number;  // Lines that were not valid diagrams
+}
+
+// OpenAPI import types
+export interface OpenApiOperation {
+  key: string;  // Method and path, e.g. "GET /pets/{petId}"
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+}
+
+export interface OpenApiSpecSummary {
+  title: string;
+  version?: string;
+  operations: OpenApiOperation[];
+}
+
+export interface OpenApiImportResult {
+  title: string;
+  diagrams: { id: string; title: string }[];
+  failed: string[];  // Titles of generated diagrams that did not validate
+}
+
+// History change notifications, pushed to open UIs
+export interface HistoryChangeEvent {
+  type: 'created' | 'updated' | 'deleted';
+  id: string;
+}
+
+// Team sync types
+export interface SyncConfig {
+  serverUrl: string;
+  team: string;
+  token?: string;
+  collections?: string[];  // Collections shared with the team, all when empty
+}
+
+/**
+ * One diagram as exchanged with a sync server. Deleted diagrams travel as
+ * tombstones without an entry so the deletion reaches every client.
+ */
+export interface SyncRecord {
+  id: string;
+  updatedAt: string;  // ISO timestamp; for tombstones, when it was deleted
+  deleted?: boolean;
+  entry?: DiagramHistoryEntry;  // Includes revisions
+}
+
+export interface SyncPushRequest {
+  records: SyncRecord[];
+}
+
+export interface SyncPushResponse {
+  records: SyncRecord[];  // The server's copy of each pushed record after merging
+}
+
+export interface SyncPullResponse {
+  cursor: number;  // Pass back as `since` to get only later changes
+  records: SyncRecord[];
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  conflicts: number;  // Diagrams changed on both sides and merged
+  syncedAt: Date;
+}
+
+// The saved configuration as reported to UIs, which never see the token
+export type SyncConfigSummary = Omit<SyncConfig, 'token'> & { hasToken: boolean };
+
+export interface SyncStatus {
+  config: SyncConfigSummary | null;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}
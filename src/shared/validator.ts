@@ -25,6 +25,9 @@
 
 // Import mermaid after stubs are in place
 import mermaid from "mermaid";
+import type { Diagnostic, LintConfig, ValidationResult } from "./types.js";
+import { repairMermaidSyntax } from "./syntaxRepair.js";
+import { lintDiagram } from "./linter.js";
 
 // Initialize mermaid once
 mermaid.initialize({
@@ -33,25 +36,41 @@ mermaid.initialize({
   theme: "default",
 });
 
-export interface ValidationResult {
-  valid: boolean;
-  errors?: string[];
-  warnings?: string[];
-}
+export type { Diagnostic, ValidationResult };
+
+// ER cardinalities such as ||--o{ are not brackets
+const ER_CARDINALITY_RE = /[|}][o|](?:--|\.\.)[o|][|{]/g;
+
+// How Mermaid finds front matter and comment lines before parsing
+const FRONT_MATTER_RE = /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/s;
+const COMMENT_LINE_RE = /^\s*%%(?!{)./;
+const DIRECTIVE_LINE_RE = /^\s*%%\{.*\}%%\s*$/;
 
 /**
  * Validates Mermaid diagram syntax using the actual Mermaid parser
  * @param diagram - The Mermaid diagram text to validate
- * @returns ValidationResult with syntax errors if invalid
+ * @param lintConfig - Lint rule settings for the warnings; the defaults when omitted
+ * @returns ValidationResult with syntax errors if invalid, and diagnostics
+ * giving the line and column of each error and warning
  */
 export async function validateMermaidSyntax(
   diagram: string,
+  lintConfig?: LintConfig,
 ): Promise<ValidationResult> {
   // Basic validation
   if (!diagram || diagram.trim().length === 0) {
     return {
       valid: false,
       errors: ["Diagram cannot be empty"],
+      diagnostics: [
+        {
+          line: 1,
+          column: 1,
+          severity: "error",
+          code: "empty-diagram",
+          message: "Diagram cannot be empty",
+        },
+      ],
     };
   }
 
@@ -62,16 +81,18 @@ export async function validateMermaidSyntax(
     { open: '(', close: ')', name: 'round' }
   ];
   
+  const bracketText = diagram.replace(ER_CARDINALITY_RE, '');
+
   for (const pair of bracketPairs) {
-    const openCount = (diagram.match(new RegExp(`\\${pair.open}`, 'g')) || []).length;
-    const closeCount = (diagram.match(new RegExp(`\\${pair.close}`, 'g')) || []).length;
+    const openCount = (bracketText.match(new RegExp(`\\${pair.open}`, 'g')) || []).length;
+    const closeCount = (bracketText.match(new RegExp(`\\${pair.close}`, 'g')) || []).length;
     
     if (openCount !== closeCount) {
-      return {
+      return withWarnings(diagram, {
         valid: false,
         errors: [`Unmatched ${pair.name} brackets. Found ${openCount} opening and ${closeCount} closing ${pair.name} brackets.`],
-        warnings: checkForWarnings(diagram)
-      };
+        diagnostics: [withFix(diagram, locateUnmatchedBracket(diagram, pair.open, pair.close))],
+      }, lintConfig);
     }
   }
 
@@ -80,10 +101,7 @@ export async function validateMermaidSyntax(
     await mermaid.parse(diagram);
 
     // If we get here without error, the syntax is valid
-    return {
-      valid: true,
-      warnings: checkForWarnings(diagram),
-    };
+    return withWarnings(diagram, { valid: true }, lintConfig);
   } catch (error: any) {
     const errorMsg = error.message || "Unknown error";
 
@@ -108,19 +126,16 @@ export async function validateMermaidSyntax(
         );
       }
 
-      return {
+      return withWarnings(diagram, {
         valid: false,
         errors,
-        warnings: checkForWarnings(diagram),
-      };
+        diagnostics: [withFix(diagram, locateSyntaxError(diagram, error))],
+      }, lintConfig);
     }
 
     // DOM/DOMPurify errors mean the syntax is actually valid
     // (Mermaid parsed it successfully but failed during DOM manipulation)
-    return {
-      valid: true,
-      warnings: checkForWarnings(diagram),
-    };
+    return withWarnings(diagram, { valid: true }, lintConfig);
   }
 }
 
@@ -161,46 +176,207 @@ function isRealSyntaxError(errorMsg: string): boolean {
 }
 
 /**
- * Checks for common issues that aren't syntax errors but could be improved
+ * Finds the bracket without a partner: the first closing bracket with
+ * nothing open, otherwise the first opening bracket that is never closed
  */
-function checkForWarnings(diagram: string): string[] | undefined {
-  const warnings: string[] = [];
-
-  // Check for mixed arrow styles
-  if (diagram.includes("-->") && diagram.includes("->")) {
-    warnings.push(
-      "Mixed arrow styles detected. Consider using consistent arrow types.",
-    );
+function locateUnmatchedBracket(diagram: string, open: string, close: string): Diagnostic {
+  const lines = diagram.split("\n");
+  const unclosed: { line: number; column: number }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].replace(ER_CARDINALITY_RE, (match) => " ".repeat(match.length));
+    for (let j = 0; j < text.length; j++) {
+      if (text[j] === open) {
+        unclosed.push({ line: i + 1, column: j + 1 });
+      } else if (text[j] === close && !unclosed.pop()) {
+        return {
+          line: i + 1,
+          column: j + 1,
+          endColumn: j + 2,
+          severity: "error",
+          code: "unmatched-bracket",
+          message: `"${close}" has no matching "${open}"`,
+        };
+      }
+    }
   }
 
-  // Check for raw quotes that should be escaped
-  if (diagram.includes('"') && !diagram.includes("&quot;")) {
-    const labelPattern = /\["[^"]*"/g;
-    if (labelPattern.test(diagram)) {
-      warnings.push(
-        'Raw quotes (") detected in labels. Use &quot; for quotes in labels.',
-      );
+  const { line, column } = unclosed[0] ?? { line: 1, column: 1 };
+  return {
+    line,
+    column,
+    endColumn: column + 1,
+    severity: "error",
+    code: "unmatched-bracket",
+    message: `"${open}" is never closed`,
+  };
+}
+
+/**
+ * Works out where a Mermaid parse error happened in the original source.
+ * Jison parsers report a location in the error hash, Langium parsers list
+ * their lexer and parser errors, and either may only give a line number
+ * and a caret under the text it stopped at.
+ */
+function locateSyntaxError(diagram: string, error: any): Diagnostic {
+  const errorMsg: string = error.message || "Unknown error";
+  const lines = diagram.replace(/\r\n?/g, "\n").split("\n");
+  const lineMap = parsedLineMap(lines);
+
+  let code = "syntax-error";
+  let message = errorMsg.split("\n")[0];
+  let parsedLine = 1;
+  let column: number | undefined;
+  let endColumn: number | undefined;
+
+  const hash = error.hash;
+  const langium = error.result;
+  const lineNumber = errorMsg.match(/on line (\d+)/);
+
+  if (errorMsg.includes("No diagram type detected")) {
+    code = "unknown-diagram-type";
+    message = "No diagram type detected";
+    column = 1;
+  } else if (hash) {
+    code = errorMsg.startsWith("Lexical error") ? "lexical-error" : "parse-error";
+    const expecting = errorMsg.split("\n").find((text) => text.startsWith("Expecting"));
+    message = message.replace(/ on line \d+/, "").replace(/[.:]$/, "") + (expecting ? `: ${expecting}` : "");
+
+    if (hash.loc) {
+      parsedLine = hash.loc.first_line;
+      column = hash.loc.first_column + 1;
+      if (hash.loc.last_line === hash.loc.first_line && hash.loc.last_column > hash.loc.first_column) {
+        endColumn = hash.loc.last_column + 1;
+      }
+    } else if (typeof hash.line === "number") {
+      parsedLine = hash.line + 1;
+    }
+  } else if (langium) {
+    code = "parse-error";
+    const lexerError = langium.lexerErrors?.[0];
+    const parserError = langium.parserErrors?.[0];
+    if (lexerError) {
+      message = lexerError.message;
+      parsedLine = lexerError.line;
+      column = lexerError.column;
+      endColumn = lexerError.column + (lexerError.length || 1);
+    } else if (parserError) {
+      message = parserError.message;
+      // Tokens at the end of input have no position
+      if (Number.isFinite(parserError.token?.startLine)) {
+        parsedLine = parserError.token.startLine;
+        column = parserError.token.startColumn;
+      } else {
+        parsedLine = lineMap.length;
+      }
     }
+  } else if (lineNumber) {
+    parsedLine = Number(lineNumber[1]);
   }
 
-  // Check for potentially problematic characters in labels
-  const labelWithBrackets = /\["[^"]*\[[^\]]*\][^"]*"\]/g;
-  if (labelWithBrackets.test(diagram)) {
-    warnings.push(
-      "Square brackets detected in labels. Consider using &#91; and &#93; for [ and ].",
-    );
+  let index = lineMap[Math.min(Math.max(parsedLine, 1), lineMap.length) - 1] ?? 0;
+  column ??= caretColumn(errorMsg, lines[index]);
+
+  // Errors at the end of input point past the last line with content
+  if (!lines[index]?.trim()) {
+    while (index > 0 && !lines[index].trim()) index--;
+    column = lines[index].trimEnd().length + 1;
+    endColumn = undefined;
   }
 
-  // Check for very long lines that might be hard to read
-  const lines = diagram.split("\n");
-  const longLines = lines.filter((line) => line.length > 100);
-  if (longLines.length > 0) {
-    warnings.push(
-      `${longLines.length} line(s) exceed 100 characters. Consider breaking into multiple lines.`,
-    );
+  const maxColumn = lines[index].length + 1;
+  column = Math.min(Math.max(column, 1), maxColumn);
+  return {
+    line: index + 1,
+    column,
+    ...(endColumn !== undefined && endColumn > column && { endColumn: Math.min(endColumn, maxColumn) }),
+    severity: "error",
+    code,
+    message,
+  };
+}
+
+/**
+ * Maps each line Mermaid parses (by index) to its 0-based line in the
+ * diagram. Mermaid strips front matter, comment lines and leading blank
+ * lines before parsing, so its line numbers drift from the source.
+ */
+function parsedLineMap(lines: string[]): number[] {
+  const frontMatter = lines.join("\n").match(FRONT_MATTER_RE);
+  const start = frontMatter ? frontMatter[0].split("\n").length - 1 : 0;
+  const isBlank = (index: number) => !lines[index].trim() || DIRECTIVE_LINE_RE.test(lines[index]);
+
+  const map: number[] = [];
+  for (let i = start; i < lines.length; i++) {
+    if (COMMENT_LINE_RE.test(lines[i])) {
+      // The comment pattern also swallows the blank lines right before it
+      while (map.length > 0 && isBlank(map[map.length - 1])) map.pop();
+    } else {
+      map.push(i);
+    }
   }
+  while (map.length > 0 && isBlank(map[0])) map.shift();
+
+  return map.length > 0 ? map : [0];
+}
+
+/**
+ * Reads the column from the context Jison prints with an error: the input
+ * before the failure (newlines removed, the start cut to "...") with a caret
+ * under its end. Matches the end of that input against the start of the line.
+ */
+function caretColumn(errorMsg: string, line: string = ""): number {
+  const messageLines = errorMsg.split("\n");
+  const caret = messageLines.findIndex((text) => /^-*\^$/.test(text));
+  if (caret < 1) {
+    return 1;
+  }
+
+  const before = messageLines[caret - 1].slice(0, messageLines[caret].length - 1).replace(/^\.\.\./, "");
+  for (let length = Math.min(before.length, line.length); length > 0; length--) {
+    if (before.endsWith(line.slice(0, length))) {
+      return length + 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Offers the syntax repair for the diagnostic's line as its fix, when the
+ * repair changes that line
+ */
+function withFix(diagram: string, diagnostic: Diagnostic): Diagnostic {
+  const { diagram: repaired, fixes } = repairMermaidSyntax(diagram);
+  const prefix = `Line ${diagnostic.line}: `;
+  const lineFixes = fixes.filter((fix) => fix.startsWith(prefix)).map((fix) => fix.slice(prefix.length));
+
+  if (lineFixes.length === 0) {
+    return diagnostic;
+  }
+  return {
+    ...diagnostic,
+    fix: {
+      message: lineFixes.join(", "),
+      replacement: repaired.split("\n")[diagnostic.line - 1],
+    },
+  };
+}
+
+/**
+ * Adds the lint findings for a diagram to a result, as warning messages
+ * and diagnostics
+ */
+function withWarnings(diagram: string, result: ValidationResult, lintConfig?: LintConfig): ValidationResult {
+  const warnings = lintDiagram(diagram, lintConfig);
+  const diagnostics = [...(result.diagnostics ?? []), ...warnings];
 
-  return warnings.length > 0 ? warnings : undefined;
+  return {
+    ...result,
+    warnings: warnings.length > 0
+      ? warnings.map((warning) => `Line ${warning.line}: ${warning.message} (${warning.code})`)
+      : undefined,
+    ...(diagnostics.length > 0 && { diagnostics }),
+  };
 }
 
 /**
@@ -0,0 +1,219 @@
+import Fastify, {
+  FastifyInstance,
+  FastifyRequest,
+  FastifyReply,
+} from "fastify";
+import path from "path";
+import os from "os";
+import { timingSafeEqual } from "crypto";
+import { setMaxListeners } from "events";
+import { syncLogger as logger } from "../shared/logger.js";
+import {
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+} from "../shared/types.js";
+import { isValidSyncRecord, SYNC_SAFE_NAME } from "../shared/syncProtocol.js";
+import { TeamStore } from "./teamStore.js";
+
+/**
+ * Self-hostable sync server for Team Mode. Stores each team's diagrams in
+ * its own directory and hands out changes by cursor; clients push local
+ * edits and pull everyone else's through HistoryService.sync().
+ */
+export class SyncServer {
+  private fastify: FastifyInstance | null = null;
+  private port: number;
+  private startTime: Date = new Date();
+  private dataPath: string;
+  private token: string | undefined;
+  private teams = new Map<string, TeamStore>();
+  private readonly BODY_LIMIT_BYTES = 50 * 1024 * 1024; // Pushes carry full revision histories
+
+  constructor(port: number = 4100, dataPath?: string, token?: string) {
+    this.port = port;
+    this.dataPath = dataPath || path.join(os.homedir(), ".mindpilot", "sync");
+    this.token = token;
+  }
+
+  async start(): Promise<void> {
+    if (this.fastify) {
+      return; // Already running
+    }
+
+    this.fastify = Fastify({
+      logger: false,
+      bodyLimit: this.BODY_LIMIT_BYTES,
+    });
+
+    this.setupRoutes();
+
+    try {
+      await this.fastify.listen({ port: this.port, host: "0.0.0.0" });
+      logger.info(`Sync server started on port ${this.port}`, {
+        dataPath: this.dataPath,
+        auth: this.token ? "token" : "none",
+      });
+    } catch (error) {
+      logger.error("Failed to start sync server", { error });
+      throw error;
+    }
+  }
+
+  private setupRoutes() {
+    if (!this.fastify) return;
+
+    // Every team route requires the shared token when one is configured
+    this.fastify.addHook(
+      "onRequest",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!this.token || !request.url.startsWith("/api/teams/")) {
+          return;
+        }
+        if (!matchesToken(request.headers.authorization, `Bearer ${this.token}`)) {
+          return reply.code(401).send({ error: "Invalid or missing sync token" });
+        }
+      },
+    );
+
+    // Status endpoint
+    this.fastify.get(
+      "/api/status",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        return reply.send({
+          serverRunning: true,
+          uptime: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+          teams: this.teams.size,
+        });
+      },
+    );
+
+    // Pull changes made after a cursor
+    this.fastify.get<{
+      Params: { team: string };
+      Querystring: { since?: string };
+    }>("/api/teams/:team/changes", async (request, reply) => {
+      const store = this.getTeam(request.params.team);
+      if (!store) {
+        return reply.code(400).send({ error: "Invalid team name" });
+      }
+
+      const since = Number(request.query.since ?? 0);
+      if (!Number.isInteger(since) || since < 0) {
+        return reply.code(400).send({ error: "since must be a non-negative integer" });
+      }
+
+      try {
+        const response: SyncPullResponse = await store.changesSince(since);
+        return reply.send(response);
+      } catch (error) {
+        logger.error("Failed to read team changes", { team: request.params.team, error });
+        return reply.code(500).send({ error: "Failed to read changes" });
+      }
+    });
+
+    // Push local changes; each is merged with the stored copy
+    this.fastify.post<{
+      Params: { team: string };
+      Body: SyncPushRequest;
+    }>("/api/teams/:team/changes", async (request, reply) => {
+      const store = this.getTeam(request.params.team);
+      if (!store) {
+        return reply.code(400).send({ error: "Invalid team name" });
+      }
+
+      const records = request.body?.records;
+      if (!Array.isArray(records) || !records.every(isValidSyncRecord)) {
+        return reply.code(400).send({ error: "Invalid sync records" });
+      }
+
+      try {
+        const response: SyncPushResponse = { records: [] };
+        for (const record of records) {
+          response.records.push(await store.put(record));
+        }
+        logger.info(`Accepted ${records.length} changes for team ${request.params.team}`);
+        return reply.send(response);
+      } catch (error) {
+        logger.error("Failed to store team changes", { team: request.params.team, error });
+        return reply.code(500).send({ error: "Failed to store changes" });
+      }
+    });
+  }
+
+  private getTeam(team: string): TeamStore | null {
+    if (!SYNC_SAFE_NAME.test(team)) {
+      return null;
+    }
+    let store = this.teams.get(team);
+    if (!store) {
+      store = new TeamStore(path.join(this.dataPath, team));
+      this.teams.set(team, store);
+    }
+    return store;
+  }
+
+  async stop(): Promise<void> {
+    if (this.fastify) {
+      await this.fastify.close();
+      this.fastify = null;
+    }
+  }
+
+  getPort(): number {
+    return this.port;
+  }
+}
+
+function matchesToken(header: string | undefined, expected: string): boolean {
+  const given = Buffer.from(header ?? "");
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+// Start server if run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { parseArgs } = await import('node:util');
+
+  // Increase max listeners to prevent warnings
+  setMaxListeners(20, process);
+
+  const { values } = parseArgs({
+    options: {
+      port: {
+        type: 'string',
+        short: 'p',
+        default: '4100'
+      },
+      'data-path': {
+        type: 'string',
+        default: undefined
+      },
+      token: {
+        type: 'string',
+        default: process.env.MINDPILOT_SYNC_TOKEN
+      }
+    }
+  });
+
+  const port = parseInt(values.port!, 10);
+  const server = new SyncServer(port, values['data-path'] as string | undefined, values.token as string | undefined);
+
+  server.start().catch((error) => {
+    logger.error("Failed to start sync server", { error });
+    process.exit(1);
+  });
+
+  // Handle graceful shutdown
+  process.on("SIGINT", async () => {
+    logger.info("Shutting down sync server (SIGINT/SIGTERM)");
+    await server.stop();
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", async () => {
+    logger.info("Shutting down sync server (SIGINT/SIGTERM)");
+    await server.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SyncRecord } from '../shared/types.js';
+import { isSameRecord, mergeSyncRecords } from '../shared/syncProtocol.js';
+
+interface StoredRecord {
+  seq: number;  // Change number within the team, used as the pull cursor
+  record: SyncRecord;
+}
+
+/**
+ * One team's diagrams on the sync server: a file per diagram (or tombstone)
+ * stamped with the change number that last touched it.
+ */
+export class TeamStore {
+  private seqs: Map<string, number> | null = null;
+  private lastSeq = 0;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  /**
+   * Gets every record changed after the given cursor, oldest change first
+   */
+  async changesSince(since: number): Promise<{ cursor: number; records: SyncRecord[] }> {
+    const seqs = await this.load();
+    // Taken with the snapshot of seqs: changes stored while the records are
+    // read below come after the cursor, so the next pull still gets them
+    const cursor = this.lastSeq;
+    const ids = Array.from(seqs.entries())
+      .filter(([, seq]) => seq > since)
+      .sort((a, b) => a[1] - b[1])
+      .map(([id]) => id);
+
+    const records: SyncRecord[] = [];
+    for (const id of ids) {
+      const stored = await this.read(id);
+      if (stored) {
+        records.push(stored.record);
+      }
+    }
+    return { cursor, records };
+  }
+
+  /**
+   * Merges a pushed record with the stored copy and returns the result.
+   * Writes are queued so concurrent pushes cannot lose each other's changes.
+   */
+  async put(record: SyncRecord): Promise<SyncRecord> {
+    const write = this.writes.then(() => this.merge(record));
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private async merge(incoming: SyncRecord): Promise<SyncRecord> {
+    const seqs = await this.load();
+    const existing = await this.read(incoming.id);
+    const record = existing ? mergeSyncRecords(existing.record, incoming) : incoming;
+
+    if (existing && isSameRecord(existing.record, record)) {
+      return existing.record;
+    }
+
+    // Merges run one at a time, so the next seq is free. It is only
+    // published once the record is stored, so a pull never returns a
+    // cursor past a record it could not read.
+    const stored: StoredRecord = { seq: this.lastSeq + 1, record };
+    const filePath = this.filePath(record.id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, filePath);
+    seqs.set(record.id, stored.seq);
+    this.lastSeq = stored.seq;
+
+    return record;
+  }
+
+  private async load(): Promise<Map<string, number>> {
+    if (this.seqs) return this.seqs;
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const seqs = new Map<string, number>();
+    for (const file of await fs.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const stored = await this.read(file.slice(0, -'.json'.length));
+      if (stored) {
+        seqs.set(stored.record.id, stored.seq);
+        this.lastSeq = Math.max(this.lastSeq, stored.seq);
+      }
+    }
+
+    this.seqs = seqs;
+    return seqs;
+  }
+
+  private async read(id: string): Promise<StoredRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
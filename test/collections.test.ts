@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryService } from '../src/shared/historyService.js';
+import { tempDir } from './helpers.js';
+
+async function history(): Promise<HistoryService> {
+  return new HistoryService(await tempDir());
+}
+
+test('lists created collections in order, then collections that only have diagrams', async () => {
+  const dir = await tempDir();
+  const service = new HistoryService(dir);
+  await service.saveDiagram('graph TD\n  A', 'Loose', 'zeta');
+  await service.saveDiagram('graph TD\n  A', 'Loose', 'alpha');
+  await service.createCollection('Design', { description: '  Drafts  ', color: '#4C6EF5' });
+  await service.createCollection('Empty');
+
+  assert.deepEqual(await service.listCollections(), [
+    { name: 'Design', description: 'Drafts', color: '#4c6ef5', sortOrder: 0, diagramCount: 0 },
+    { name: 'Empty', description: null, color: null, sortOrder: 1, diagramCount: 0 },
+    { name: 'alpha', description: null, color: null, sortOrder: null, diagramCount: 1 },
+    { name: 'zeta', description: null, color: null, sortOrder: null, diagramCount: 1 },
+  ]);
+  // The registry is shared by every process using the data directory
+  assert.deepEqual(await new HistoryService(dir).getCollections(), ['Design', 'Empty', 'alpha', 'zeta']);
+});
+
+test('validates names, descriptions and colors', async () => {
+  const service = await history();
+  await service.createCollection('Design');
+  await service.saveDiagram('graph TD\n  A', 'Flow', 'implicit');
+
+  await assert.rejects(service.createCollection('  '), /Collection name is required/);
+  await assert.rejects(service.createCollection('a'.repeat(101)), /at most 100 characters/);
+  await assert.rejects(service.createCollection('Two\nlines'), /line breaks/);
+  await assert.rejects(service.createCollection('Uncategorized'), /reserved/);
+  await assert.rejects(service.createCollection(' Design '), /'Design' already exists/);
+  await assert.rejects(service.createCollection('implicit'), /'implicit' already exists/);
+  await assert.rejects(service.createCollection('Other', { description: 'x'.repeat(501) }), /at most 500 characters/);
+  await assert.rejects(service.createCollection('Other', { color: 'blue' }), /Invalid collection color: blue/);
+  await assert.rejects(service.updateCollection('Design', { color: '#fff' }), /Invalid collection color/);
+  await assert.rejects(service.updateCollection('Missing', { description: 'x' }), /'Missing' not found/);
+});
+
+test('renaming moves the diagrams and keeps the position', async () => {
+  const service = await history();
+  await service.createCollection('First');
+  await service.createCollection('Design', { color: '#4c6ef5' });
+  await service.createCollection('Last');
+  const diagram = await service.saveDiagram('graph TD\n  A', 'Flow', 'Design', 'mcp', 'drafts');
+
+  const renamed = await service.updateCollection('Design', { name: 'Architecture', description: 'Systems' });
+  assert.deepEqual(renamed, { name: 'Architecture', description: 'Systems', color: '#4c6ef5', sortOrder: 1, diagramCount: 1 });
+  assert.deepEqual(await service.getCollections(), ['First', 'Architecture', 'Last']);
+
+  const moved = await service.getDiagram(diagram.id);
+  assert.equal(moved.collection, 'Architecture');
+  assert.equal(moved.folder, 'drafts');
+  await assert.rejects(service.updateCollection('Architecture', { name: 'Last' }), /'Last' already exists/);
+});
+
+test('editing a collection that only has diagrams registers it', async () => {
+  const service = await history();
+  await service.createCollection('Design');
+  await service.saveDiagram('graph TD\n  A', 'Flow', 'implicit');
+
+  await service.updateCollection('implicit', { color: '#12b886' });
+  const [, implicit] = await service.listCollections();
+  assert.deepEqual(implicit, { name: 'implicit', description: null, color: '#12b886', sortOrder: 1, diagramCount: 1 });
+});
+
+test('deleting keeps the diagrams, moved elsewhere or left uncategorized', async () => {
+  const service = await history();
+  await service.createCollection('Old');
+  await service.createCollection('New');
+  const first = await service.saveDiagram('graph TD\n  A', 'First', 'Old', 'mcp', 'drafts');
+  const second = await service.saveDiagram('graph TD\n  B', 'Second', 'Other');
+
+  await assert.rejects(service.deleteCollection('Old', 'Old'), /being deleted/);
+  await assert.rejects(service.deleteCollection('Old', 'Missing'), /'Missing' not found/);
+  await assert.rejects(service.deleteCollection('Missing'), /'Missing' not found/);
+
+  assert.deepEqual(await service.deleteCollection('Old', 'New'), { moved: 1 });
+  assert.equal((await service.getDiagram(first.id)).collection, 'New');
+  assert.equal((await service.getDiagram(first.id)).folder, 'drafts');
+
+  assert.deepEqual(await service.deleteCollection('Other'), { moved: 1 });
+  const uncategorized = await service.getDiagram(second.id);
+  assert.equal(uncategorized.collection, null);
+  assert.equal(uncategorized.folder, null);
+  assert.deepEqual(await service.getCollections(), ['New']);
+});
+
+test('reorders the named collections first', async () => {
+  const service = await history();
+  for (const name of ['A', 'B', 'C']) {
+    await service.createCollection(name);
+  }
+  await service.saveDiagram('graph TD\n  A', 'Flow', 'implicit');
+
+  const reordered = await service.reorderCollections(['C', 'implicit', 'C']);
+  assert.deepEqual(reordered.map(({ name, sortOrder }) => [name, sortOrder]), [['C', 0], ['implicit', 1], ['A', 2], ['B', 3]]);
+  await assert.rejects(service.reorderCollections(['Missing']), /'Missing' not found/);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyDiagramEdits } from '../src/shared/diagramEdits.js';
+
+test('escapes quotes in labels', () => {
+  const source = 'flowchart TD\n  A --> B';
+  assert.equal(
+    applyDiagramEdits(source, [{ op: 'add_node', id: 'C', label: 'Say "hi"' }]),
+    'flowchart TD\n  A --> B\n  C["Say #quot;hi#quot;"]',
+  );
+  assert.equal(
+    applyDiagramEdits('flowchart TD\n  subgraph grp\n    A\n  end', [{ op: 'rename_node', id: 'grp', label: 'The "best" group' }]),
+    'flowchart TD\n  subgraph grp["The #quot;best#quot; group"]\n    A\n  end',
+  );
+});
+
+test('keeps the original text of nodes and links an edit did not change', () => {
+  const source = 'flowchart TD\n  A["Start"] -- yes --> B(Next):::hot --> C';
+  assert.equal(
+    applyDiagramEdits(source, [{ op: 'rename_node', id: 'C', label: 'End' }]),
+    'flowchart TD\n  A["Start"] -- yes --> B(Next):::hot --> C[End]',
+  );
+  assert.equal(
+    applyDiagramEdits(source, [{ op: 'rename_node', id: 'A', newId: 'Begin' }]),
+    'flowchart TD\n  Begin["Start"] -- yes --> B(Next):::hot --> C',
+  );
+  assert.equal(
+    applyDiagramEdits(source, [{ op: 'set_class', id: 'B', className: null }]),
+    'flowchart TD\n  A["Start"] -- yes --> B(Next) --> C',
+  );
+});
+
+test('removing a node drops its edges without leaving bare ids behind', () => {
+  const source = 'flowchart TD\n  A --> X --> B\n  X --> C["Done"] --> D\n  A --> D';
+  assert.equal(
+    applyDiagramEdits(source, [{ op: 'remove_node', id: 'X' }]),
+    'flowchart TD\n  C["Done"] --> D\n  A --> D',
+  );
+  assert.equal(
+    applyDiagramEdits('flowchart TD\n  A --> X --> B["End"]', [{ op: 'remove_node', id: 'X' }]),
+    'flowchart TD\n  B["End"]',
+  );
+});
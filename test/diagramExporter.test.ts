@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { exportDiagram } from '../src/mcp/diagramExporter.js';
+import { tempDir, tempRepo } from './helpers.js';
+
+const DIAGRAM = 'graph TD\n  A --> B';
+
+test('writes source and markdown files, creating directories', async () => {
+  const root = await tempRepo();
+
+  const source = await exportDiagram(DIAGRAM, 'docs/diagrams/flow.mmd', { workingDir: root });
+  assert.equal(source.format, 'mmd');
+  assert.equal(source.relativePath, path.join('docs', 'diagrams', 'flow.mmd'));
+  assert.equal(await fs.readFile(source.path, 'utf-8'), `${DIAGRAM}\n`);
+
+  const markdown = await exportDiagram(DIAGRAM, 'docs/flow.md', { workingDir: root, title: 'Flow' });
+  assert.equal(await fs.readFile(markdown.path, 'utf-8'), `## Flow\n\n\`\`\`mermaid\n${DIAGRAM}\n\`\`\`\n`);
+});
+
+test('refuses paths outside the repository without creating directories', async () => {
+  const root = await tempRepo();
+  const outside = await tempDir();
+  await fs.symlink(outside, path.join(root, 'linked'));
+
+  await assert.rejects(exportDiagram(DIAGRAM, '../flow.mmd', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(exportDiagram(DIAGRAM, 'linked/new/dir/flow.mmd', { workingDir: root }), /escapes the repository/);
+  assert.deepEqual(await fs.readdir(outside), []);
+});
+
+test('refuses to write through a symlinked file', async () => {
+  const root = await tempRepo();
+  const outside = await tempDir();
+  await fs.writeFile(path.join(outside, 'flow.mmd'), 'kept');
+  await fs.symlink(path.join(outside, 'flow.mmd'), path.join(root, 'flow.mmd'));
+
+  await assert.rejects(exportDiagram(DIAGRAM, 'flow.mmd', { workingDir: root }), /symbolic link/);
+  assert.equal(await fs.readFile(path.join(outside, 'flow.mmd'), 'utf-8'), 'kept');
+});
+
+test('rejects unsupported extensions', async () => {
+  const root = await tempRepo();
+  await assert.rejects(exportDiagram(DIAGRAM, 'flow.txt', { workingDir: root }), /Unsupported output extension ".txt"/);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { HistoryService } from '../src/shared/historyService.js';
+
+async function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'mindpilot-index-'));
+}
+
+test('lists diagrams edited by hand after they were indexed', async () => {
+  const dir = await tempDir();
+  const history = new HistoryService(dir);
+  const saved = await history.saveDiagram('graph TD\n  A --> B', 'Before', 'project');
+  await history.getDiagrams();
+
+  const filePath = path.join(dir, `${saved.id}.json`);
+  const raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  await fs.writeFile(filePath, JSON.stringify({ ...raw, title: 'After', diagram: 'graph TD\n  A --> C' }, null, 2));
+
+  for (const reader of [history, new HistoryService(dir)]) {
+    const [entry] = await reader.getDiagrams();
+    assert.equal(entry.title, 'After');
+    assert.equal(entry.diagram, 'graph TD\n  A --> C');
+  }
+});
+
+test('keeps diagrams saved by several processes at once', async () => {
+  const dir = await tempDir();
+  const processes = [new HistoryService(dir), new HistoryService(dir), new HistoryService(dir)];
+  await Promise.all(processes.flatMap((history, i) => [
+    history.saveDiagram('graph TD\n  A', `First ${i}`, null),
+    history.saveDiagram('graph TD\n  B', `Second ${i}`, null),
+  ]));
+
+  for (const history of [...processes, new HistoryService(dir)]) {
+    assert.equal((await history.getDiagrams()).length, 6);
+  }
+});
+
+test('drops deleted files and picks up new ones', async () => {
+  const dir = await tempDir();
+  const history = new HistoryService(dir);
+  const kept = await history.saveDiagram('graph TD\n  A', 'Kept', null);
+  const removed = await history.saveDiagram('graph TD\n  B', 'Removed', null);
+  await history.getDiagrams();
+
+  await fs.unlink(path.join(dir, `${removed.id}.json`));
+  await fs.copyFile(path.join(dir, `${kept.id}.json`), path.join(dir, 'copy.json'));
+  const copy = JSON.parse(await fs.readFile(path.join(dir, 'copy.json'), 'utf-8'));
+  await fs.writeFile(path.join(dir, 'copy.json'), JSON.stringify({ ...copy, id: 'copy', title: 'Copy' }));
+
+  const titles = (await history.getDiagrams()).map(entry => entry.title).sort();
+  assert.deepEqual(titles, ['Copy', 'Kept']);
+});
+
+test('migrates legacy diagram files while indexing them', async () => {
+  const dir = await tempDir();
+  await fs.writeFile(path.join(dir, 'legacy.json'), JSON.stringify({
+    id: 'legacy',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    lastEdited: '2024-02-01T00:00:00.000Z',
+    diagram: 'graph TD\n  A --> B',
+    title: 'Legacy',
+    collection: 'old',
+  }));
+
+  const history = new HistoryService(dir);
+  const [entry] = await history.getDiagrams();
+  assert.equal(entry.title, 'Legacy');
+  assert.equal(entry.createdAt.toISOString(), '2024-01-01T00:00:00.000Z');
+  assert.equal(entry.updatedAt.toISOString(), '2024-02-01T00:00:00.000Z');
+  assert.equal(entry.folder, null);
+
+  const raw = JSON.parse(await fs.readFile(path.join(dir, 'legacy.json'), 'utf-8'));
+  assert.equal(raw.timestamp, undefined);
+  assert.equal(raw.createdAt, '2024-01-01T00:00:00.000Z');
+  const revisions = await history.getRevisions('legacy');
+  assert.deepEqual(revisions.map(revision => revision.diagram), ['graph TD\n  A --> B']);
+});
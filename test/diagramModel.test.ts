@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDiagramStructure, parseDiagram } from '../src/shared/diagramModel.js';
+
+test('parses subgraph labels with and without a space before the bracket', () => {
+  for (const title of ['grp [Group One]', 'grp[Group One]', 'grp["Group One"]', 'grp ["Group One"]']) {
+    const structure = getDiagramStructure(parseDiagram(`flowchart TD\n  subgraph ${title}\n    A --> B\n  end`));
+    assert.deepEqual(structure.subgraphs, [{ id: 'grp', label: 'Group One' }], title);
+    assert.equal(structure.nodes.find(node => node.id === 'A')?.subgraph, 'grp', title);
+  }
+});
+
+test('keeps a subgraph title with spaces as its id', () => {
+  const structure = getDiagramStructure(parseDiagram('flowchart TD\n  subgraph My Group [draft]\n    A\n  end'));
+  assert.deepEqual(structure.subgraphs, [{ id: 'My Group [draft]' }]);
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diagramFromGitHistory } from '../src/mcp/gitHistory.js';
+import { validateMermaidSyntax } from '../src/shared/validator.js';
+import { git, tempDir, tempRepo } from './helpers.js';
+
+/**
+ * main with a feature branch merged and tagged v1.0, then fix/login merged
+ * and deleted
+ */
+async function historyRepo(): Promise<string> {
+  const root = await tempRepo();
+  const commit = (message: string) => git(root, 'commit', '-q', '--allow-empty', '-m', message);
+
+  commit('Initial');
+  git(root, 'checkout', '-q', '-b', 'feature');
+  commit('Add feature');
+  commit('Polish feature');
+  git(root, 'checkout', '-q', 'main');
+  commit('Fix typo');
+  git(root, 'merge', '-q', '--no-ff', '--no-edit', 'feature');
+  git(root, 'tag', 'v1.0');
+  git(root, 'checkout', '-q', '-b', 'fix/login');
+  commit('Fix login');
+  git(root, 'checkout', '-q', 'main');
+  commit('Update docs');
+  git(root, 'merge', '-q', '--no-ff', '--no-edit', 'fix/login');
+  git(root, 'branch', '-q', '-d', 'fix/login');
+  commit('Release notes');
+  return root;
+}
+
+// Compare without the short hashes, which change with any detail of a commit
+function withoutHashes(diagram: string): string[] {
+  return diagram.split('\n').map(line => line.trim().replace(/id: "[0-9a-f]{7,} ?/, 'id: "'));
+}
+
+test('draws branches, merges and tags', async () => {
+  const root = await historyRepo();
+  const result = await diagramFromGitHistory({ workingDir: root, branches: ['main', 'feature'] });
+
+  assert.deepEqual(result.branches, ['main', 'feature', 'fix/login']);
+  assert.equal(result.commits, 9);
+  assert.equal(result.merges, 2);
+  assert.equal(result.truncated, false);
+  assert.deepEqual(withoutHashes(result.diagram), [
+    'gitGraph',
+    'commit id: "Initial"',
+    'branch feature',
+    'checkout main',
+    'commit id: "Fix typo"',
+    'checkout feature',
+    'commit id: "Add feature"',
+    'commit id: "Polish feature"',
+    'checkout main',
+    'merge feature id: "Merge branch \'feature\'" tag: "v1.0"',
+    'branch fix/login',
+    'checkout main',
+    'commit id: "Update docs"',
+    'checkout fix/login',
+    'commit id: "Fix login"',
+    'checkout main',
+    'merge fix/login id: "Merge branch \'fix/login\'"',
+    'commit id: "Release notes"',
+  ]);
+  assert.equal((await validateMermaidSyntax(result.diagram)).valid, true);
+});
+
+test('names lanes of deleted branches after their merge', async () => {
+  const root = await historyRepo();
+  const result = await diagramFromGitHistory({ workingDir: root, branches: ['main'] });
+  assert.deepEqual(result.branches, ['main', 'fix/login', 'feature']);
+});
+
+test('leaves out commits reachable from since', async () => {
+  const root = await historyRepo();
+  const result = await diagramFromGitHistory({ workingDir: root, since: 'v1.0' });
+
+  assert.equal(result.commits, 4);
+  assert.equal(result.merges, 1);
+  assert.deepEqual(result.branches, ['main', 'fix/login']);
+  const lines = withoutHashes(result.diagram);
+  assert.ok(!lines.some(line => line.includes('feature')));
+  assert.ok(lines.includes('merge fix/login id: "Merge branch \'fix/login\'"'));
+});
+
+test('keeps the newest commits and draws merges from outside the window as commits', async () => {
+  const root = await historyRepo();
+  const result = await diagramFromGitHistory({ workingDir: root, maxCommits: 3, messageLength: 0 });
+
+  assert.equal(result.truncated, true);
+  assert.equal(result.commits, 3);
+  assert.equal(result.merges, 0);
+  assert.ok(result.diagram.split('\n').filter(line => line.includes('commit id:')).every(line => /id: "[0-9a-f]+"$/.test(line)));
+  assert.equal((await validateMermaidSyntax(result.diagram)).valid, true);
+});
+
+test('names a trunk other than main', async () => {
+  const root = await tempRepo();
+  git(root, 'checkout', '-q', '-b', 'develop');
+  git(root, 'commit', '-q', '--allow-empty', '-m', 'Start');
+
+  const result = await diagramFromGitHistory({ workingDir: root });
+  assert.deepEqual(result.branches, ['develop']);
+  assert.match(result.diagram, /^%%\{init: \{"gitGraph": \{"mainBranchName": "develop"\}\}\}%%\ngitGraph\n/);
+});
+
+test('rejects unknown refs, options and repositories without history', async () => {
+  const root = await historyRepo();
+  await assert.rejects(diagramFromGitHistory({ workingDir: root, branches: ['nope'] }), /Unknown branch or ref: nope/);
+  await assert.rejects(diagramFromGitHistory({ workingDir: root, since: '--all' }), /Invalid ref: --all/);
+  await assert.rejects(diagramFromGitHistory({ workingDir: root, maxCommits: 0 }), /max_commits must be a positive whole number/);
+  await assert.rejects(diagramFromGitHistory({ workingDir: root, since: 'main' }), /No commits on main, feature since main/);
+
+  await assert.rejects(diagramFromGitHistory({ workingDir: await tempRepo() }), /The repository has no commits/);
+  await assert.rejects(diagramFromGitHistory({ workingDir: await tempDir() }), /outside a git repository/);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { diagramFromImports } from '../src/mcp/importGraph.js';
+import { tempDir, tempRepo } from './helpers.js';
+
+test('draws the imports between modules', async () => {
+  const root = await tempRepo({
+    'src/index.ts': 'import { run } from "./lib/run.js";\nimport fs from "fs";\nrun(fs);',
+    'src/lib/run.ts': 'export const run = (x: unknown) => x;',
+  });
+
+  const result = await diagramFromImports('src', { workingDir: root, includeExternal: true });
+  assert.equal(result.directory, 'src');
+  assert.equal(result.modules, 2);
+  assert.equal(result.imports, 2);
+  assert.match(result.diagram, /index\["index\.ts"\]/);
+  assert.match(result.diagram, /subgraph \w+\["lib"\]/);
+  assert.match(result.diagram, /index --> pkg_node_fs\n/);
+});
+
+test('refuses directories outside the repository, including through symlinks', async () => {
+  const root = await tempRepo({ 'src/index.ts': '' });
+  const outside = await tempDir();
+  await fs.writeFile(path.join(outside, 'secret.ts'), 'export {};');
+  await fs.symlink(outside, path.join(root, 'linked'));
+
+  await assert.rejects(diagramFromImports('..', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(diagramFromImports('linked', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(diagramFromImports('missing', { workingDir: root }), /Not a directory/);
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { HistoryService } from '../src/shared/historyService.js';
+import { BUNDLE_FORMAT, exportLibrary, importLibrary } from '../src/shared/libraryBundle.js';
+import { tempDir } from './helpers.js';
+
+async function library() {
+  const history = new HistoryService(await tempDir());
+  const flow = await history.saveDiagram('graph TD\n  A --> B', 'Flow', 'design', 'mcp', 'drafts');
+  await history.updateDiagram(flow.id, { diagram: 'graph TD\n  A --> C' });
+  const sequence = await history.saveDiagram('sequenceDiagram\n  A->>B: Hi', 'Sequence', null);
+  return { history, ids: [flow.id, sequence.id] };
+}
+
+async function fullEntries(history: HistoryService) {
+  const summaries = await history.getDiagrams();
+  const entries = await Promise.all(summaries.map(({ id }) => history.getDiagram(id, { includeRevisions: true })));
+  return entries.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+for (const file of ['library.jsonl', 'library.jsonl.gz']) {
+  test(`round-trips diagrams with their revisions through ${file}`, async () => {
+    const { history } = await library();
+    const bundle = path.join(await tempDir(), file);
+
+    assert.deepEqual(await exportLibrary(history, bundle), { path: bundle, count: 2 });
+    const target = new HistoryService(await tempDir());
+    assert.deepEqual(await importLibrary(target, bundle), { created: 2, overwritten: 0, duplicated: 0, skipped: 0, failed: 0 });
+
+    const imported = await fullEntries(target);
+    assert.deepEqual(imported, await fullEntries(history));
+    assert.deepEqual(imported[0].revisions?.map(({ diagram }) => diagram), ['graph TD\n  A --> B', 'graph TD\n  A --> C']);
+  });
+}
+
+test('gzips bundles named .gz', async () => {
+  const { history } = await library();
+  const bundle = path.join(await tempDir(), 'library.jsonl.gz');
+  await exportLibrary(history, bundle);
+
+  const [header] = zlib.gunzipSync(await fs.readFile(bundle)).toString('utf-8').split('\n');
+  assert.equal(JSON.parse(header).format, BUNDLE_FORMAT);
+});
+
+test('exports one collection', async () => {
+  const { history } = await library();
+  const bundle = path.join(await tempDir(), 'design.jsonl');
+
+  assert.equal((await exportLibrary(history, bundle, { collection: 'design' })).count, 1);
+  const [header, entry] = (await fs.readFile(bundle, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+  assert.equal(header.collection, 'design');
+  assert.equal(header.count, 1);
+  assert.equal(entry.title, 'Flow');
+});
+
+test('skips, overwrites or duplicates diagrams that already exist', async () => {
+  const { history, ids } = await library();
+  const bundle = path.join(await tempDir(), 'library.jsonl');
+  await exportLibrary(history, bundle);
+  await history.updateDiagram(ids[0], { title: 'Edited' });
+
+  assert.equal((await importLibrary(history, bundle)).skipped, 2);
+  assert.equal((await history.getDiagram(ids[0])).title, 'Edited');
+
+  assert.equal((await importLibrary(history, bundle, { onCollision: 'overwrite' })).overwritten, 2);
+  assert.equal((await history.getDiagram(ids[0])).title, 'Flow');
+
+  assert.equal((await importLibrary(history, bundle, { onCollision: 'duplicate' })).duplicated, 2);
+  const diagrams = await history.getDiagrams();
+  assert.equal(diagrams.length, 4);
+  assert.deepEqual(diagrams.map(({ title }) => title).sort(), ['Flow', 'Flow', 'Sequence', 'Sequence']);
+});
+
+test('rejects files that are not bundles and counts lines that are not diagrams', async () => {
+  const history = new HistoryService(await tempDir());
+  const dir = await tempDir();
+  const write = async (name: string, lines: unknown[]) => {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, lines.map(line => typeof line === 'string' ? line : JSON.stringify(line)).join('\n'));
+    return file;
+  };
+
+  await assert.rejects(importLibrary(history, await write('notes.txt', ['hello'])), /is not a Mindpilot library bundle/);
+  await assert.rejects(
+    importLibrary(history, await write('future.jsonl', [{ format: BUNDLE_FORMAT, version: 99 }])),
+    /Bundle version 99 is newer/,
+  );
+  const bundle = await write('mixed.jsonl', [
+    { format: BUNDLE_FORMAT, version: 1, count: 4 },
+    '{ not json',
+    { id: '../escape', diagram: 'graph TD\n  A', title: 'Escape' },
+    { id: 'nodiagram', title: 'Missing source' },
+    { id: 'fine', diagram: 'graph TD\n  A', title: 'Fine', collection: null, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+  ]);
+  await assert.rejects(importLibrary(history, bundle, { onCollision: 'merge' as any }), /Invalid collision policy: merge/);
+  assert.deepEqual(await importLibrary(history, bundle), { created: 1, overwritten: 0, duplicated: 0, skipped: 0, failed: 3 });
+  assert.equal((await history.getDiagram('fine')).title, 'Fine');
+});
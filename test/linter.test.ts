@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { lintDiagram, loadLintConfig, loadLintConfigOrDefaults, PROJECT_CONFIG_FILE } from '../src/shared/linter.js';
+import { validateMermaidSyntax } from '../src/shared/validator.js';
+import { tempDir, tempRepo } from './helpers.js';
+
+const codes = (diagram: string, config = {}) => lintDiagram(diagram, config).map(({ code }) => code);
+
+test('reports orphan nodes where they are first mentioned', () => {
+  const diagnostics = lintDiagram('graph TD\n  A --> B\n  C[Alone]');
+  assert.deepEqual(diagnostics.map(({ code, line, column }) => ({ code, line, column })), [
+    { code: 'orphan-nodes', line: 3, column: 3 },
+  ]);
+});
+
+test('treats nodes inside a linked subgraph as connected', () => {
+  assert.deepEqual(codes('graph TD\n  A --> S\n  subgraph S\n    B\n  end'), []);
+});
+
+test('flags colors outside the palette', () => {
+  const diagnostics = lintDiagram('graph TD\n  A --> B\n  style A fill:#123456');
+  assert.equal(diagnostics.length, 1);
+  assert.equal(diagnostics[0].code, 'palette-colors');
+  assert.equal(diagnostics[0].severity, 'info');
+  assert.equal(diagnostics[0].column, 16);
+});
+
+test('applies severities and options from the config', () => {
+  const diagram = `graph TD\n  A --> B\n  C\n  D[${'x'.repeat(30)}] --> A`;
+  assert.deepEqual(codes(diagram), ['orphan-nodes']);
+  assert.deepEqual(codes(diagram, { rules: { 'orphan-nodes': 'off' } }), []);
+  assert.deepEqual(codes(diagram, { rules: { 'max-line-length': ['warning', { max: 20 }] } }), ['orphan-nodes', 'max-line-length']);
+
+  const [error] = lintDiagram(diagram, { rules: { 'orphan-nodes': 'error' } });
+  assert.equal(error.severity, 'error');
+});
+
+test('rejects unknown rules, severities and options', () => {
+  assert.throws(() => lintDiagram('graph TD', { rules: { 'no-such-rule': 'warning' } }), /Unknown lint rule: no-such-rule/);
+  assert.throws(() => lintDiagram('graph TD', { rules: { 'orphan-nodes': 'loud' as any } }), /Invalid severity/);
+  assert.throws(() => lintDiagram('graph TD', { rules: { 'max-nodes': ['warning', { min: 1 }] } }), /Invalid option/);
+});
+
+test('loads the config from the git root and rereads it after it changes', async () => {
+  const root = await tempRepo({ 'src/app.ts': '' });
+  const workingDir = path.join(root, 'src');
+  assert.deepEqual(await loadLintConfig(workingDir), {});
+
+  const configPath = path.join(root, PROJECT_CONFIG_FILE);
+  await fs.writeFile(configPath, JSON.stringify({ lint: { rules: { 'orphan-nodes': 'off' } } }));
+  assert.deepEqual(await loadLintConfig(workingDir), { rules: { 'orphan-nodes': 'off' } });
+
+  await fs.writeFile(configPath, JSON.stringify({ lint: { rules: { 'orphan-nodes': 'error' } } }));
+  assert.deepEqual(await loadLintConfig(workingDir), { rules: { 'orphan-nodes': 'error' } });
+});
+
+test('falls back to the default rules for an invalid config', async () => {
+  const dir = await tempDir();
+  await fs.writeFile(path.join(dir, PROJECT_CONFIG_FILE), JSON.stringify({ lint: { rules: { 'no-such-rule': 'off' } } }));
+
+  await assert.rejects(loadLintConfig(dir), /Invalid lint configuration .*Unknown lint rule: no-such-rule/);
+  assert.deepEqual(await loadLintConfigOrDefaults(dir), {});
+});
+
+test('validation lints with the given config', async () => {
+  const diagram = 'graph TD\n  A --> B\n  C';
+
+  const defaults = await validateMermaidSyntax(diagram);
+  assert.equal(defaults.valid, true);
+  assert.deepEqual(defaults.diagnostics?.map(({ code }) => code), ['orphan-nodes']);
+
+  const configured = await validateMermaidSyntax(diagram, { rules: { 'orphan-nodes': 'off' } });
+  assert.equal(configured.valid, true);
+  assert.equal(configured.warnings, undefined);
+  assert.equal(configured.diagnostics, undefined);
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { diagramsFromOpenApi } from '../src/mcp/openApiDiagram.js';
+import { HistoryService } from '../src/shared/historyService.js';
+import { importOpenApi, loadOpenApiSpec, openApiToDiagrams, summarizeOpenApiSpec } from '../src/shared/openApi.js';
+import { validateMermaidSyntax } from '../src/shared/validator.js';
+import { tempDir, tempRepo } from './helpers.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'openapi');
+const YAML_SPEC = path.join(FIXTURES, 'petstore.yaml');
+const JSON_SPEC = path.join(FIXTURES, 'petstore.json');
+
+const MINIMAL_SPEC = 'openapi: 3.0.0\ninfo:\n  title: Secret\npaths: {}\n';
+
+function operationDiagram(spec: Awaited<ReturnType<typeof loadOpenApiSpec>>, operation: string): string[] {
+  const [{ diagram }] = openApiToDiagrams(spec, { operations: [operation] });
+  return diagram.split('\n').map(line => line.trim());
+}
+
+test('summarizes a YAML spec', async () => {
+  const summary = summarizeOpenApiSpec(await loadOpenApiSpec(YAML_SPEC));
+  assert.equal(summary.title, 'Petstore');
+  assert.equal(summary.version, '1.0.0');
+  assert.deepEqual(summary.operations.map(({ key, operationId }) => [key, operationId]), [
+    ['GET /pets', 'listPets'],
+    ['POST /pets', 'createPet'],
+    ['GET /pets/{petId}', 'showPet'],
+    ['GET /health', undefined],
+  ]);
+});
+
+test('draws an operation with its query, security and responses', async () => {
+  const lines = operationDiagram(await loadOpenApiSpec(YAML_SPEC), 'listPets');
+  assert.ok(lines.includes('Client->>Gateway: GET /pets?limit&tag'));
+  assert.ok(lines.includes('Note over Gateway: Authenticate (bearerAuth)'));
+  assert.ok(lines.includes('alt 200 OK: Pet[]'));
+  assert.ok(lines.includes('Service-->>Gateway: 200 OK: Pet[]'));
+  // The gateway answers 401 itself
+  assert.ok(lines.includes('else 401 Unauthorized'));
+  assert.ok(!lines.includes('Service-->>Gateway: 401 Unauthorized'));
+});
+
+test('follows $refs to parameters, request bodies and responses', async () => {
+  const spec = await loadOpenApiSpec(YAML_SPEC);
+
+  const create = operationDiagram(spec, 'POST /pets');
+  assert.ok(create.includes('Client->>Gateway: POST /pets (NewPet)'));
+  assert.ok(create.includes('Gateway-->>Client: 201 Created: Pet'));
+
+  const show = operationDiagram(spec, 'get  /PETS/{petId}');
+  assert.ok(show.includes('Gateway-->>Client: 404 Not Found: Error'));
+  // security: [] turns the spec's security off
+  assert.ok(!show.some(line => line.startsWith('Note over Gateway')));
+});
+
+test('reads a Swagger 2 JSON spec', async () => {
+  const spec = await loadOpenApiSpec(JSON_SPEC);
+  assert.equal(summarizeOpenApiSpec(spec).title, 'Petstore v2');
+
+  assert.ok(operationDiagram(spec, 'addPet').includes('Gateway->>Service: addPet(Pet)'));
+  assert.ok(operationDiagram(spec, 'addPet').includes('else 405 Method Not Allowed'));
+  assert.ok(operationDiagram(spec, 'uploadPhoto').includes('Client->>Gateway: POST /pets/{petId}/photo (form)'));
+});
+
+test('draws an overview of the used tags and paths', async () => {
+  const [overview] = openApiToDiagrams(await loadOpenApiSpec(YAML_SPEC), { overview: true });
+  const lines = overview.diagram.split('\n').map(line => line.trim());
+  assert.equal(overview.title, 'Petstore overview');
+  assert.deepEqual(lines.filter(line => /^tag\d/.test(line) && !line.includes('-->')), ['tag0{{"pets"}}', 'tag1{{"default"}}']);
+  assert.ok(lines.includes('path0["/pets<br/>GET · POST"]'));
+  assert.ok(lines.includes('tag1 --> path2'));
+});
+
+test('every generated diagram is valid Mermaid', async () => {
+  for (const file of [YAML_SPEC, JSON_SPEC]) {
+    const spec = await loadOpenApiSpec(file);
+    const operations = summarizeOpenApiSpec(spec).operations.map(({ key }) => key);
+    for (const { title, diagram } of openApiToDiagrams(spec, { overview: true, operations })) {
+      assert.equal((await validateMermaidSyntax(diagram)).valid, true, title);
+    }
+  }
+});
+
+test('rejects unknown operations and files that are not specs', async () => {
+  const spec = await loadOpenApiSpec(YAML_SPEC);
+  assert.throws(() => openApiToDiagrams(spec, { operations: ['deletePet'] }), /Unknown operation: deletePet/);
+  assert.throws(() => openApiToDiagrams(spec), /Choose at least one operation or the overview/);
+
+  const dir = await tempDir();
+  await fs.writeFile(path.join(dir, 'config.yaml'), 'name: not a spec\n');
+  await assert.rejects(loadOpenApiSpec(path.join(dir, 'config.yaml')), /config\.yaml is not an OpenAPI document/);
+});
+
+test('draws diagrams from a spec in the repository', async () => {
+  const root = await tempRepo({ 'api/petstore.yaml': await fs.readFile(YAML_SPEC, 'utf-8') });
+
+  const overview = await diagramsFromOpenApi('api/petstore.yaml', { workingDir: root });
+  assert.equal(overview.path, path.join('api', 'petstore.yaml'));
+  assert.equal(overview.title, 'Petstore');
+  assert.deepEqual(overview.diagrams.map(({ title }) => title), ['Petstore overview']);
+
+  const operations = await diagramsFromOpenApi('api/petstore.yaml', { workingDir: root, operations: ['showPet'] });
+  assert.deepEqual(operations.diagrams.map(({ operation }) => operation), ['GET /pets/{petId}']);
+});
+
+test('imports the diagrams of a spec into history', async () => {
+  const history = new HistoryService(await tempDir());
+  const result = await importOpenApi(history, JSON_SPEC, { overview: true, operations: ['addPet'], collection: 'api' });
+
+  assert.equal(result.title, 'Petstore v2');
+  assert.deepEqual(result.failed, []);
+  assert.deepEqual(result.diagrams.map(({ title }) => title), ['Petstore v2 overview', 'Petstore v2: POST /pets']);
+  const saved = await history.getDiagrams('api');
+  assert.deepEqual(saved.map(({ title }) => title).sort(), ['Petstore v2 overview', 'Petstore v2: POST /pets']);
+});
+
+test('refuses specs outside the repository, including through symlinks', async () => {
+  const root = await tempRepo({ 'api.yaml': MINIMAL_SPEC });
+  const outside = await tempDir();
+  await fs.writeFile(path.join(outside, 'secret.yaml'), MINIMAL_SPEC);
+  await fs.symlink(path.join(outside, 'secret.yaml'), path.join(root, 'linked.yaml'));
+
+  await assert.rejects(diagramsFromOpenApi('../secret.yaml', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(diagramsFromOpenApi('linked.yaml', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(diagramsFromOpenApi('missing.yaml', { workingDir: root }), /File not found/);
+});
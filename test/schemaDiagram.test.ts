@@ -0,0 +1,211 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { diagramFromSchema } from '../src/mcp/schemaDiagram.js';
+import { tempDir, tempRepo } from './helpers.js';
+
+async function draw(files: Record<string, string>, schemaPath: string) {
+  const root = await tempRepo(files);
+  return diagramFromSchema(schemaPath, { workingDir: root });
+}
+
+function relationships(diagram: string): string[] {
+  return diagram.split('\n').filter(line => line.includes('--')).map(line => line.trim());
+}
+
+test('reads SQL tables, keys and relationship optionality', async () => {
+  const result = await draw({
+    'migrations/001_init.sql': `
+      CREATE TABLE users (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        manager_id INTEGER REFERENCES users(id) -- nullable
+      );
+      CREATE TABLE orders (
+        order_id INTEGER,
+        user_id INTEGER NOT NULL,
+        PRIMARY KEY (order_id),
+        CONSTRAINT fk_user FOREIGN KEY (user_id) REFERENCES users (id)
+      );
+      CREATE TABLE order_items (
+        order_id INTEGER,
+        sku TEXT,
+        quantity INTEGER NOT NULL,
+        PRIMARY KEY (order_id, sku),
+        FOREIGN KEY (order_id) REFERENCES orders (order_id)
+      );
+      CREATE TABLE profiles (user_id INTEGER NOT NULL UNIQUE REFERENCES users(id));
+      ALTER TABLE profiles ADD COLUMN bio TEXT;
+    `,
+  }, 'migrations');
+
+  assert.equal(result.path, 'migrations');
+  assert.equal(result.files, 1);
+  assert.equal(result.tables, 4);
+  assert.deepEqual(relationships(result.diagram), [
+    'users |o--o{ users : "manager_id"',
+    'users ||--o{ orders : "user_id"',
+    'orders ||--o{ order_items : "order_id"',
+    'users ||--o| profiles : "user_id"',
+  ]);
+  assert.match(result.diagram, /order_items \{\n {4}INTEGER order_id PK, FK\n {4}TEXT sku PK\n/);
+  assert.match(result.diagram, /VARCHAR\(255\) email UK/);
+  assert.match(result.diagram, /TEXT bio/);
+});
+
+test('treats a foreign key that is the whole composite key as one-to-one', async () => {
+  const result = await draw({
+    'schema.sql': `
+      CREATE TABLE a (x INT, y INT, PRIMARY KEY (x, y));
+      CREATE TABLE b (x INT, y INT, PRIMARY KEY (x, y), FOREIGN KEY (x, y) REFERENCES a (x, y));
+    `,
+  }, 'schema.sql');
+  assert.deepEqual(relationships(result.diagram), ['a ||--o| b : "x, y"']);
+});
+
+test('reads Prisma models with composite ids and optional relations', async () => {
+  const result = await draw({
+    'prisma/schema.prisma': `
+      enum Role { ADMIN USER }
+      model User {
+        id    Int    @id @default(autoincrement())
+        email String @unique
+        role  Role
+        posts Post[]
+      }
+      model Post {
+        id       Int   @id
+        authorId Int?
+        author   User? @relation(fields: [authorId], references: [id])
+        tags     PostTag[]
+      }
+      model PostTag {
+        postId Int
+        tag    String
+        post   Post @relation(fields: [postId], references: [id])
+        @@id([postId, tag])
+      }
+    `,
+  }, 'prisma/schema.prisma');
+
+  assert.equal(result.tables, 3);
+  assert.deepEqual(relationships(result.diagram), [
+    'User |o--o{ Post : "authorId"',
+    'Post ||--o{ PostTag : "postId"',
+  ]);
+  assert.match(result.diagram, /Role role\n/);
+  assert.match(result.diagram, /Int postId PK, FK\n {4}String tag PK/);
+});
+
+test('reads TypeORM entities with relations and composite primary columns', async () => {
+  const result = await draw({
+    'src/entities/user.ts': `
+      import { Entity, PrimaryGeneratedColumn, Column, OneToOne, JoinColumn, ManyToMany, JoinTable } from "typeorm";
+      @Entity()
+      export class User {
+        @PrimaryGeneratedColumn("uuid")
+        id: string;
+
+        @Column({ unique: true })
+        email: string;
+
+        // Owning side of the one-to-one
+        @OneToOne(() => Profile)
+        @JoinColumn({ name: "profile_id" })
+        profile: Profile;
+
+        @ManyToMany(() => Group)
+        @JoinTable()
+        groups: Group[];
+      }
+      @Entity()
+      export class Profile {
+        @PrimaryGeneratedColumn()
+        id: number;
+      }
+      @Entity()
+      export class Group {
+        @PrimaryGeneratedColumn()
+        id: number;
+      }
+    `,
+    'src/entities/membership.ts': `
+      @Entity("memberships")
+      export class Membership {
+        @PrimaryColumn()
+        userId: string;
+
+        @PrimaryColumn()
+        groupId: number;
+
+        @ManyToOne(() => User, { nullable: false })
+        @JoinColumn({ name: "userId" })
+        user: User;
+
+        @Column({ nullable: true })
+        note?: string;
+
+        describe() { return this.note; }
+      }
+    `,
+  }, 'src/entities');
+
+  assert.equal(result.files, 2);
+  assert.deepEqual(relationships(result.diagram).sort(), [
+    'Group }o--o{ User : "groups"',
+    'Profile |o--o| User : "profile_id"',
+    'User ||--o{ Membership : "userId"',
+  ]);
+  assert.match(result.diagram, /int profile_id FK/);
+  assert.match(result.diagram, /uuid id PK/);
+  assert.match(result.diagram, /string userId PK, FK\n {4}number groupId PK/);
+});
+
+test('reads Drizzle tables with references declared later and composite keys', async () => {
+  const result = await draw({
+    'db/schema.ts': `
+      import { pgTable, serial, integer, text, primaryKey } from "drizzle-orm/pg-core";
+      export const posts = pgTable("posts", {
+        id: serial("id").primaryKey(),
+        authorId: integer("author_id").notNull().references(() => users.id),
+        editorId: integer("editor_id").references(() => users.id),
+      });
+      export const users = pgTable("users", {
+        id: serial("id").primaryKey(),
+        email: text("email").notNull().unique(),
+      });
+      export const postTags = pgTable("post_tags", {
+        postId: integer("post_id").references(() => posts.id),
+        tag: text("tag"),
+      }, (t) => ({ pk: primaryKey({ columns: [t.postId, t.tag] }) }));
+    `,
+  }, 'db/schema.ts');
+
+  assert.equal(result.tables, 3);
+  assert.deepEqual(relationships(result.diagram), [
+    'users ||--o{ posts : "author_id"',
+    'users |o--o{ posts : "editor_id"',
+    'posts ||--o{ post_tags : "post_id"',
+  ]);
+  assert.match(result.diagram, /integer post_id PK, FK\n {4}text tag PK/);
+});
+
+test('refuses paths outside the repository', async () => {
+  const root = await tempRepo({ 'schema.sql': 'CREATE TABLE a (id INT);' });
+  await assert.rejects(diagramFromSchema('../outside', { workingDir: root }), /escapes the repository/);
+  await assert.rejects(diagramFromSchema('missing.sql', { workingDir: root }), /not found/);
+});
+
+test('follows symlinks inside the repository but not out of it', async () => {
+  const root = await tempRepo({ 'db/schema.sql': 'CREATE TABLE a (id INT);' });
+  const outside = await tempDir();
+  await fs.writeFile(path.join(outside, 'secret.sql'), 'CREATE TABLE secret (id INT);');
+  await fs.symlink(path.join(outside, 'secret.sql'), path.join(root, 'secret.sql'));
+  await fs.symlink(path.join(root, 'db'), path.join(root, 'linked'));
+
+  await assert.rejects(diagramFromSchema('secret.sql', { workingDir: root }), /escapes the repository/);
+  const result = await diagramFromSchema('linked', { workingDir: root });
+  assert.equal(result.path, 'db');
+  assert.equal(result.tables, 1);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { HistoryService } from '../src/shared/historyService.js';
+import { extractLabels, SearchService } from '../src/shared/searchService.js';
+import { tempDir } from './helpers.js';
+
+async function searchable() {
+  const dir = await tempDir();
+  const history = new HistoryService(dir);
+  return { dir, history, search: new SearchService(history) };
+}
+
+test('ranks title matches over labels, collections and source', async () => {
+  const { history, search } = await searchable();
+  await history.saveDiagram('graph TD\n  A --> B\n  %% checkout', 'Source match', null);
+  await history.saveDiagram('graph TD\n  A[Start] --> B', 'Collection match', 'checkout');
+  await history.saveDiagram('graph TD\n  A[Checkout] --> B', 'Label match', null);
+  await history.saveDiagram('graph TD\n  A --> B', 'Checkout flow', null);
+
+  const results = await search.search('checkout');
+  assert.deepEqual(results.map(({ entry }) => entry.title), ['Checkout flow', 'Label match', 'Collection match', 'Source match']);
+});
+
+test('needs every word to match and ranks exact words over prefixes', async () => {
+  const { history, search } = await searchable();
+  await history.saveDiagram('graph TD\n  A --> B', 'Payment service', null);
+  await history.saveDiagram('graph TD\n  A --> B', 'Payments overview', null);
+  await history.saveDiagram('graph TD\n  A --> B', 'Order service', null);
+
+  assert.deepEqual((await search.search('pay')).map(({ entry }) => entry.title).sort(), ['Payment service', 'Payments overview']);
+  assert.deepEqual((await search.search('payment')).map(({ entry }) => entry.title), ['Payment service', 'Payments overview']);
+  assert.deepEqual((await search.search('payment serv')).map(({ entry }) => entry.title), ['Payment service']);
+  assert.deepEqual(await search.search('invoice'), []);
+  assert.deepEqual(await search.search('  '), []);
+});
+
+test('returns highlighted snippets, trimming long lines around the match', async () => {
+  const { history, search } = await searchable();
+  const long = `${'x '.repeat(60)}refund ${'y '.repeat(60)}`.trim();
+  await history.saveDiagram(`graph TD\n  A["${long}"] --> B`, 'Refunds', null);
+
+  const [result] = await search.search('refund');
+  assert.deepEqual(result.snippets.map(({ field }) => field), ['title', 'label', 'source']);
+
+  const [title, label] = result.snippets;
+  assert.equal(title.text, 'Refunds');
+  assert.deepEqual(title.highlights, [[0, 6]]);
+  assert.ok(label.text.startsWith('…') && label.text.endsWith('…'));
+  assert.equal(label.text.length, 82);
+  const [[from, to]] = label.highlights;
+  assert.equal(label.text.slice(from, to), 'refund');
+});
+
+test('searches a diagram again when its source changes but updatedAt does not', async () => {
+  const { dir, history, search } = await searchable();
+  const saved = await history.saveDiagram('graph TD\n  A[Invoice] --> B', 'Billing', null);
+  assert.equal((await search.search('invoice')).length, 1);
+
+  // Synced and imported copies keep their updatedAt
+  const filePath = path.join(dir, `${saved.id}.json`);
+  const raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  await fs.writeFile(filePath, JSON.stringify({ ...raw, diagram: 'graph TD\n  A[Receipt] --> B' }, null, 2));
+
+  assert.deepEqual(await search.search('invoice'), []);
+  assert.equal((await search.search('receipt')).length, 1);
+});
+
+test('extracts node, edge and message labels', () => {
+  assert.deepEqual(extractLabels('graph TD\n  A["Start &amp; end"] -->|yes| B(Done)\n  style A fill:#fff'), ['Start & end', 'Done', 'yes']);
+  assert.deepEqual(extractLabels('sequenceDiagram\n  participant A as Alice\n  A->>B: Hello'), ['Alice', 'Hello']);
+  assert.deepEqual(extractLabels('graph TD\n  A["Say #quot;hi#quot; #35;1"]'), ['Say "hi" #1']);
+});
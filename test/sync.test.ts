@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { HistoryService } from '../src/shared/historyService.js';
+import { toSyncRecord, toTombstone } from '../src/shared/syncProtocol.js';
+import { DiagramHistoryEntry, SyncRecord } from '../src/shared/types.js';
+import { SyncServer } from '../src/sync/server.js';
+import { TeamStore } from '../src/sync/teamStore.js';
+
+const TOKEN = 'test-token';
+
+async function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'mindpilot-sync-'));
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+function record(id: string, diagram: string, updatedAt: string): SyncRecord {
+  const entry: DiagramHistoryEntry = {
+    version: 1,
+    id,
+    type: 'diagram',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date(updatedAt),
+    diagram,
+    title: 'Flow',
+    collection: 'shared',
+    folder: null,
+    revisions: [{ createdAt: new Date(updatedAt), source: 'mcp', diagram }],
+  };
+  return toSyncRecord(entry);
+}
+
+// Later edits need a later updatedAt than the ones they race with
+function tick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 5));
+}
+
+test('team store merges concurrent pushes and pages changes by cursor', async () => {
+  const store = new TeamStore(await tempDir());
+
+  const [first, second] = await Promise.all([
+    store.put(record('d1', 'graph TD\n  A --> B', '2026-01-01T10:00:00Z')),
+    store.put(record('d1', 'graph TD\n  A --> C', '2026-01-01T11:00:00Z')),
+  ]);
+  assert.equal(first.entry?.diagram, 'graph TD\n  A --> B');
+  assert.equal(second.entry?.diagram, 'graph TD\n  A --> C');
+  assert.equal(second.entry?.revisions?.length, 2);
+
+  const all = await store.changesSince(0);
+  assert.deepEqual(all.records.map(({ id }) => id), ['d1']);
+  assert.equal(all.records[0].entry?.diagram, 'graph TD\n  A --> C');
+  assert.deepEqual(await store.changesSince(all.cursor), { cursor: all.cursor, records: [] });
+
+  // An older copy changes nothing; a newer tombstone wins
+  await store.put(record('d1', 'graph TD\n  A --> B', '2026-01-01T10:00:00Z'));
+  assert.deepEqual((await store.changesSince(all.cursor)).records, []);
+  await store.put(toTombstone('d1', new Date('2026-01-01T12:00:00Z')));
+  const deleted = await store.changesSince(all.cursor);
+  assert.equal(deleted.records[0].deleted, true);
+  assert.ok(deleted.cursor > all.cursor);
+});
+
+test('clients exchange, merge and delete diagrams through the sync server', async () => {
+  const port = await freePort();
+  const server = new SyncServer(port, await tempDir(), TOKEN);
+  await server.start();
+
+  try {
+    const config = { serverUrl: `http://127.0.0.1:${port}`, team: 'core', token: TOKEN };
+    const alice = new HistoryService(await tempDir());
+    const bob = new HistoryService(await tempDir());
+    await alice.configureSync(config);
+    await bob.configureSync(config);
+
+    // Push from one client, pull into the other
+    const saved = await alice.saveDiagram('graph TD\n  A --> B', 'Flow', 'shared');
+    assert.equal((await alice.sync()).pushed, 1);
+    assert.equal((await bob.sync()).pulled, 1);
+    assert.equal((await bob.getDiagram(saved.id)).diagram, 'graph TD\n  A --> B');
+
+    // Edit on both sides: the later edit wins and the other stays a revision
+    await alice.updateDiagram(saved.id, { diagram: 'graph TD\n  A --> C' }, 'mcp');
+    await tick();
+    await bob.updateDiagram(saved.id, { diagram: 'graph TD\n  A --> D' }, 'mcp');
+    await alice.sync();
+    assert.equal((await bob.sync()).conflicts, 1);
+    await alice.sync();
+
+    for (const client of [alice, bob]) {
+      const entry = await client.getDiagram(saved.id, { includeRevisions: true });
+      assert.equal(entry.diagram, 'graph TD\n  A --> D');
+      assert.deepEqual(
+        entry.revisions?.map(revision => revision.diagram),
+        ['graph TD\n  A --> B', 'graph TD\n  A --> C', 'graph TD\n  A --> D'],
+      );
+    }
+
+    // Deletions travel as tombstones
+    await bob.deleteDiagram(saved.id);
+    await bob.sync();
+    assert.equal((await alice.sync()).deleted, 1);
+    await assert.rejects(alice.getDiagram(saved.id), /not found/);
+
+    // The status never includes the token, and saving without one keeps it
+    const status = await alice.getSyncStatus();
+    assert.equal(status.config?.hasToken, true);
+    assert.equal(JSON.stringify(status).includes(TOKEN), false);
+    await alice.configureSync({ serverUrl: config.serverUrl, team: config.team });
+    await alice.sync();
+
+    // A wrong token is refused and recorded as the last error
+    await alice.configureSync({ ...config, token: 'wrong' });
+    await assert.rejects(alice.sync(), /401/);
+    assert.match((await alice.getSyncStatus()).lastError ?? '', /401/);
+  } finally {
+    await server.stop();
+  }
+});
+
+test('renaming a shared collection keeps the token and stores no status fields', async () => {
+  const dir = await tempDir();
+  const history = new HistoryService(dir);
+  await history.saveDiagram('graph TD\n  A', 'Flow', 'design');
+  await history.configureSync({ serverUrl: 'http://127.0.0.1:1', team: 'team', token: TOKEN, collections: ['design'] });
+
+  await history.updateCollection('design', { name: 'architecture' });
+
+  const status = await history.getSyncStatus();
+  assert.deepEqual(status.config?.collections, ['architecture']);
+  assert.equal(status.config?.hasToken, true);
+  const state = JSON.parse(await fs.readFile(path.join(dir, '.sync.json'), 'utf-8'));
+  assert.deepEqual(state.config, { serverUrl: 'http://127.0.0.1:1', team: 'team', token: TOKEN, collections: ['architecture'] });
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyDiagramEdits } from '../src/shared/diagramEdits.js';
+import { repairMermaidSyntax } from '../src/shared/syntaxRepair.js';
+import { validateMermaidSyntax } from '../src/shared/validator.js';
+
+async function assertRepairs(diagram: string, repaired: string, fixes: string[]) {
+  const result = repairMermaidSyntax(diagram);
+  assert.equal(result.diagram, repaired);
+  assert.deepEqual(result.fixes, fixes);
+  assert.equal((await validateMermaidSyntax(diagram)).valid, false);
+  assert.equal((await validateMermaidSyntax(result.diagram)).valid, true);
+}
+
+test('quotes labels with special characters', async () => {
+  await assertRepairs(
+    'graph TD\n  A[Process (step 1)] --> B',
+    'graph TD\n  A["Process (step 1)"] --> B',
+    ['Line 2: quoted label "Process (step 1)"'],
+  );
+});
+
+test('quotes edge labels', async () => {
+  await assertRepairs(
+    'graph TD\n  A -->|a (b)| B',
+    'graph TD\n  A -->|"a (b)"| B',
+    ['Line 2: quoted edge label "a (b)"'],
+  );
+});
+
+test('escapes quotes inside a label the way diagram edits do', async () => {
+  const edited = applyDiagramEdits('flowchart TD\n  A --> B', [{ op: 'add_node', id: 'C', label: 'Say "hi"' }]);
+  await assertRepairs('flowchart TD\n  A --> B\n  C[Say "hi"]', edited, ['Line 3: quoted label "Say "hi""']);
+  assert.equal(edited, 'flowchart TD\n  A --> B\n  C["Say #quot;hi#quot;"]');
+
+  // Already quoted, so it parses, but the inner quotes still need escaping
+  const { diagram } = repairMermaidSyntax('flowchart TD\n  A["Say "hi""] --> B');
+  assert.equal(diagram, 'flowchart TD\n  A["Say #quot;hi#quot;"] --> B');
+});
+
+test('adds a missing closing bracket before the link', async () => {
+  await assertRepairs('graph TD\n  A[Start --> B', 'graph TD\n  A[Start] --> B', ['Line 2: added missing "]"']);
+});
+
+test('removes an unmatched closing bracket', async () => {
+  await assertRepairs('graph TD\n  A[Start]] --> B', 'graph TD\n  A[Start] --> B', ['Line 2: removed unmatched "]"']);
+});
+
+test('quotes ER relationship labels with spaces', async () => {
+  await assertRepairs(
+    'erDiagram\n  CUSTOMER ||--o{ ORDER : places many orders',
+    'erDiagram\n  CUSTOMER ||--o{ ORDER : "places many orders"',
+    ['Line 2: quoted relationship label "places many orders"'],
+  );
+});
+
+test('leaves valid and escaped diagrams alone', () => {
+  for (const diagram of [
+    'graph TD\n  A --> B',
+    'graph TD\n  A["Already #quot;ok#quot;"] --> B',
+    'graph TD\n  A["Already &quot;ok&quot;"] --> B',
+    'graph TD\n  classDef hot fill:#f00;\n  A[Hot] --> B',
+    'sequenceDiagram\n  A->>B: (hi)',
+  ]) {
+    assert.deepEqual(repairMermaidSyntax(diagram), { diagram, fixes: [] });
+  }
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Diagnostic } from '../src/shared/types.js';
+import { validateMermaidSyntax } from '../src/shared/validator.js';
+
+async function errorAt(diagram: string): Promise<Diagnostic> {
+  const result = await validateMermaidSyntax(diagram);
+  assert.equal(result.valid, false);
+  const errors = result.diagnostics!.filter(({ severity }) => severity === 'error');
+  assert.equal(errors.length, 1);
+  return errors[0];
+}
+
+test('accepts valid diagrams', async () => {
+  const result = await validateMermaidSyntax('graph TD\n  A --> B');
+  assert.deepEqual(result, { valid: true, warnings: undefined });
+});
+
+test('points at a closing bracket with no partner', async () => {
+  const error = await errorAt('graph TD\n  A --> B]');
+  assert.deepEqual(
+    { line: error.line, column: error.column, endColumn: error.endColumn, code: error.code, message: error.message },
+    { line: 2, column: 10, endColumn: 11, code: 'unmatched-bracket', message: '"]" has no matching "["' },
+  );
+  assert.deepEqual(error.fix, { message: 'removed unmatched "]"', replacement: '  A --> B' });
+});
+
+test('points at an opening bracket that is never closed', async () => {
+  const error = await errorAt('graph TD\n  A[Start --> B');
+  assert.deepEqual([error.line, error.column, error.code], [2, 4, 'unmatched-bracket']);
+  assert.equal(error.message, '"[" is never closed');
+  assert.deepEqual(error.fix, { message: 'added missing "]"', replacement: '  A[Start] --> B' });
+});
+
+test('does not count ER cardinalities as brackets', async () => {
+  const result = await validateMermaidSyntax('erDiagram\n  CUSTOMER ||--o{ ORDER : places\n  ORDER }|..|{ ITEM : contains');
+  assert.equal(result.valid, true);
+});
+
+test('locates parse errors with the token the parser stopped at', async () => {
+  const error = await errorAt('graph TD\n  A --> B\n  B --> C[Oops (x)]');
+  assert.deepEqual([error.line, error.column, error.endColumn, error.code], [3, 11, 16, 'parse-error']);
+  assert.match(error.message, /^Parse error: Expecting .*got 'PS'$/);
+  assert.deepEqual(error.fix, { message: 'quoted label "Oops (x)"', replacement: '  B --> C["Oops (x)"]' });
+});
+
+test('keeps errors at the end of input off trailing blank lines', async () => {
+  const error = await errorAt('graph TD\n  A --> B\n  B -->\n\n');
+  assert.deepEqual([error.line, error.column, error.endColumn], [3, 4, undefined]);
+});
+
+test('maps parse errors past front matter and comments back to the source line', async () => {
+  const error = await errorAt('---\ntitle: Flow\n---\n%% comment\n\ngraph TD\n  A --> B\n  B -- > > C');
+  assert.equal(error.line, 8);
+  assert.equal(error.code, 'parse-error');
+});
+
+test('locates errors from Langium parsers', async () => {
+  const error = await errorAt('pie\n  "a" : x');
+  assert.deepEqual([error.line, error.column, error.endColumn, error.code], [2, 9, 10, 'parse-error']);
+});
+
+test('reports diagrams with no known type on the first line', async () => {
+  const error = await errorAt('nonsense\n  A');
+  assert.deepEqual([error.line, error.column, error.code, error.message], [1, 1, 'unknown-diagram-type', 'No diagram type detected']);
+});
+
+test('rejects empty diagrams', async () => {
+  const result = await validateMermaidSyntax('  ');
+  assert.equal(result.valid, false);
+  assert.equal(result.diagnostics![0].code, 'empty-diagram');
+});